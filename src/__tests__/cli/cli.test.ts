@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli, isCliCommand, CLI_EXIT_CODES, type CliContext } from '../../cli/index.js';
+import type { CodeChunk, CodeIndexer, IndexStatus } from '../../search/indexer.js';
+
+const CHUNK: CodeChunk = {
+  id: 'src/retry.ts#/withRetry@abc',
+  filepath: 'src/retry.ts',
+  content: 'export function withRetry() {}\n',
+  startLine: 3,
+  endLine: 12,
+  language: 'typescript',
+  embedding: [0.1, 0.2],
+  symbolType: 'function',
+  symbolName: 'withRetry',
+};
+
+const STATUS: IndexStatus = {
+  indexed: true,
+  fileCount: 4,
+  chunkCount: 20,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  indexPath: '/project/.glancey',
+  embeddingBackend: 'ollama',
+};
+
+describe('cli', () => {
+  let projectPath: string;
+  let stdout: string[];
+  let stderr: string[];
+  let mockIndexer: Partial<CodeIndexer>;
+  let context: CliContext;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-cli-test-'));
+    stdout = [];
+    stderr = [];
+    mockIndexer = {
+      search: vi.fn().mockResolvedValue([CHUNK]),
+      getStatus: vi.fn().mockResolvedValue(STATUS),
+      indexCodebase: vi
+        .fn()
+        .mockResolvedValue({ filesIndexed: 4, chunksCreated: 20, incremental: true }),
+    };
+    context = {
+      projectPath,
+      getIndexer: vi.fn().mockResolvedValue(mockIndexer),
+      io: {
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+        readStdin: vi.fn().mockResolvedValue('from stdin\n'),
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  describe('isCliCommand', () => {
+    it('should recognize subcommands and help flags', () => {
+      expect(isCliCommand(['search', 'query'])).toBe(true);
+      expect(isCliCommand(['--help'])).toBe(true);
+      expect(isCliCommand([])).toBe(false);
+      expect(isCliCommand(['daemon'])).toBe(false);
+      expect(isCliCommand(['--http', '8765'])).toBe(false);
+    });
+  });
+
+  describe('usage errors', () => {
+    it('should exit with the usage code for unknown commands and options', async () => {
+      expect(await runCli(['bogus'], context)).toBe(CLI_EXIT_CODES.usage);
+      expect(await runCli(['status', '--bogus'], context)).toBe(CLI_EXIT_CODES.usage);
+      expect(await runCli(['search'], context)).toBe(CLI_EXIT_CODES.usage);
+      expect(await runCli(['search', 'q', '--limit', 'many'], context)).toBe(CLI_EXIT_CODES.usage);
+      expect(stderr.join('\n')).toContain('Usage: glancey');
+    });
+
+    it('should print help', async () => {
+      expect(await runCli(['help'], context)).toBe(CLI_EXIT_CODES.success);
+      expect(stdout[0]).toContain('Exit codes');
+    });
+  });
+
+  describe('search', () => {
+    it('should pass query and filters to the indexer', async () => {
+      const code = await runCli(
+        ['search', 'retry', 'with', 'backoff', '--limit', '5', '--path', 'src/**'],
+        context
+      );
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(mockIndexer.search).toHaveBeenCalledWith({
+        query: 'retry with backoff',
+        limit: 5,
+        pathPattern: 'src/**',
+        languages: undefined,
+      });
+      expect(stdout[0]).toContain('src/retry.ts:3-12  withRetry (function)');
+    });
+
+    it('should print JSON without embeddings', async () => {
+      await runCli(['search', 'retry', '--json', '--language', 'typescript'], context);
+
+      const results = JSON.parse(stdout[0]);
+      expect(results[0].filepath).toBe('src/retry.ts');
+      expect(results[0].embedding).toBeUndefined();
+      expect(mockIndexer.search).toHaveBeenCalledWith(
+        expect.objectContaining({ languages: ['typescript'] })
+      );
+    });
+
+    it('should exit with the empty code when nothing matches', async () => {
+      mockIndexer.search = vi.fn().mockResolvedValue([]);
+
+      expect(await runCli(['search', 'nothing'], context)).toBe(CLI_EXIT_CODES.empty);
+      expect(stdout).toEqual([]);
+    });
+
+    it('should exit with the failure code when the indexer fails', async () => {
+      mockIndexer.search = vi.fn().mockRejectedValue(new Error('backend unavailable'));
+
+      expect(await runCli(['search', 'q', '--json'], context)).toBe(CLI_EXIT_CODES.failure);
+      expect(JSON.parse(stdout[0]).error.message).toBe('backend unavailable');
+    });
+  });
+
+  describe('index', () => {
+    it('should run an incremental update by default', async () => {
+      expect(await runCli(['index'], context)).toBe(CLI_EXIT_CODES.success);
+      expect(mockIndexer.indexCodebase).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+        false,
+        expect.any(Function),
+        false
+      );
+      expect(stdout[0]).toBe('Incremental update: Indexed 4 files, total 20 chunks.');
+    });
+
+    it('should force a full reindex with --full', async () => {
+      await runCli(['index', '--full', '--repair', '--json'], context);
+
+      expect(mockIndexer.indexCodebase).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+        true,
+        expect.any(Function),
+        true
+      );
+      expect(JSON.parse(stdout[0]).filesIndexed).toBe(4);
+    });
+  });
+
+  describe('status', () => {
+    it('should print status and succeed when indexed', async () => {
+      expect(await runCli(['status'], context)).toBe(CLI_EXIT_CODES.success);
+      expect(stdout[0]).toContain('Files:        4');
+    });
+
+    it('should exit with the empty code when not indexed', async () => {
+      mockIndexer.getStatus = vi.fn().mockResolvedValue({ ...STATUS, indexed: false });
+
+      expect(await runCli(['status', '--json'], context)).toBe(CLI_EXIT_CODES.empty);
+      expect(JSON.parse(stdout[0]).indexed).toBe(false);
+    });
+
+    it('should exit with the failure code when corrupted', async () => {
+      mockIndexer.getStatus = vi.fn().mockResolvedValue({
+        ...STATUS,
+        corrupted: true,
+        corruptionReason: 'checksum mismatch',
+      });
+
+      expect(await runCli(['status'], context)).toBe(CLI_EXIT_CODES.failure);
+      expect(stdout[0]).toContain('checksum mismatch');
+    });
+  });
+
+  describe('init', () => {
+    it('should resolve a relative path against the working directory', async () => {
+      await fs.mkdir(path.join(projectPath, 'app'));
+      vi.spyOn(process, 'cwd').mockReturnValue(projectPath);
+      context.projectPath = path.join(projectPath, 'elsewhere');
+
+      try {
+        expect(await runCli(['init', 'app'], context)).toBe(CLI_EXIT_CODES.success);
+      } finally {
+        vi.mocked(process.cwd).mockRestore();
+      }
+
+      await expect(fs.access(path.join(projectPath, 'app', 'CLAUDE.md'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('symbols', () => {
+    it('should list the symbols in a file', async () => {
+      await fs.writeFile(
+        path.join(projectPath, 'example.ts'),
+        'export class Greeter {\n  greet() {}\n}\nexport function hello() {}\n'
+      );
+
+      const code = await runCli(
+        ['symbols', path.join(projectPath, 'example.ts'), '--json'],
+        context
+      );
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      const overview = JSON.parse(stdout[0]);
+      expect(overview.filepath).toBe('example.ts');
+      expect(overview.totalSymbols).toBe(2);
+      expect(context.getIndexer).not.toHaveBeenCalled();
+    });
+
+    it('should fail for missing files', async () => {
+      expect(await runCli(['symbols', path.join(projectPath, 'missing.ts')], context)).toBe(
+        CLI_EXIT_CODES.failure
+      );
+    });
+  });
+
+  describe('memory', () => {
+    it('should write, list, read and delete memories', async () => {
+      expect(await runCli(['memory', 'write', 'notes', 'remember', 'this'], context)).toBe(
+        CLI_EXIT_CODES.success
+      );
+      expect(await runCli(['memory', 'write', 'piped'], context)).toBe(CLI_EXIT_CODES.success);
+
+      stdout = [];
+      await runCli(['memory', 'list', '--json'], context);
+      expect(
+        JSON.parse(stdout[0])
+          .map((m: { name: string }) => m.name)
+          .sort()
+      ).toEqual(['notes', 'piped']);
+
+      stdout = [];
+      await runCli(['memory', 'read', 'piped'], context);
+      expect(stdout[0]).toBe('from stdin');
+
+      expect(await runCli(['memory', 'delete', 'notes'], context)).toBe(CLI_EXIT_CODES.success);
+      expect(await runCli(['memory', 'read', 'notes'], context)).toBe(CLI_EXIT_CODES.failure);
+    });
+
+    it('should reject unknown memory commands and missing names', async () => {
+      expect(await runCli(['memory', 'rename'], context)).toBe(CLI_EXIT_CODES.usage);
+      expect(await runCli(['memory', 'read'], context)).toBe(CLI_EXIT_CODES.usage);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  completeArgument,
+  getCompletionSource,
+  rankCompletions,
+  registerCompletionHandler,
+  MAX_COMPLETION_VALUES,
+  type CompletionContext,
+} from '../../completion/index.js';
+import { MemoryManager } from '../../memory/index.js';
+import type { CodeIndexer } from '../../search/indexer.js';
+
+describe('completion', () => {
+  let projectPath: string;
+  let indexedFiles: string[];
+  let context: CompletionContext;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-completion-test-'));
+    indexedFiles = ['README.md', 'src/config.ts', 'src/index.ts', 'src/search/indexer.ts'];
+    const indexer = { getIndexedFiles: vi.fn(async () => indexedFiles) };
+    context = {
+      projectPath,
+      getIndexer: vi.fn().mockResolvedValue(indexer as unknown as CodeIndexer),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  describe('rankCompletions', () => {
+    it('should rank prefix, last-segment and substring matches in that order', () => {
+      const ranked = rankCompletions(
+        ['lib/xindex.ts', 'src/index.ts', 'index.md', 'other.ts'],
+        'index'
+      );
+
+      expect(ranked).toEqual(['index.md', 'src/index.ts', 'lib/xindex.ts']);
+    });
+
+    it('should match case-insensitively and return everything for an empty value', () => {
+      expect(rankCompletions(['README.md'], 'read')).toEqual(['README.md']);
+      expect(rankCompletions(['a', 'b'], '')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('getCompletionSource', () => {
+    it('should map resource template variables', () => {
+      expect(
+        getCompletionSource({ type: 'ref/resource', uri: 'glancey://symbols/{+path}' }, 'path')
+      ).toBe('path');
+      expect(
+        getCompletionSource(
+          { type: 'ref/resource', uri: 'glancey://symbol/{+path}{?name_path}' },
+          'name_path'
+        )
+      ).toBe('symbol');
+      expect(
+        getCompletionSource({ type: 'ref/resource', uri: 'glancey://memory/{name}' }, 'name')
+      ).toBe('memory');
+      expect(
+        getCompletionSource({ type: 'ref/resource', uri: 'glancey://worktree/{name}' }, 'name')
+      ).toBe('worktree');
+    });
+
+    it('should return undefined for arguments that are not completable', () => {
+      expect(
+        getCompletionSource({ type: 'ref/resource', uri: 'glancey://summary' }, 'path')
+      ).toBeUndefined();
+      expect(getCompletionSource({ type: 'ref/prompt', name: 'anything' }, 'arg')).toBeUndefined();
+    });
+  });
+
+  describe('completeArgument', () => {
+    it('should complete indexed file paths', async () => {
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://symbols/{+path}' },
+        { name: 'path', value: 'src/' },
+        {},
+        context
+      );
+
+      expect(result.completion.values).toEqual([
+        'src/config.ts',
+        'src/index.ts',
+        'src/search/indexer.ts',
+      ]);
+      expect(result.completion).toMatchObject({ total: 3, hasMore: false });
+    });
+
+    it('should complete symbol name paths in the file from the path argument', async () => {
+      await fs.writeFile(
+        path.join(projectPath, 'greeter.ts'),
+        'export class Greeter {\n  greet() {}\n  wave() {}\n}\n'
+      );
+
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://symbol/{+path}{?name_path}' },
+        { name: 'name_path', value: 'Greeter/g' },
+        { path: 'greeter.ts' },
+        context
+      );
+
+      expect(result.completion.values).toEqual(['Greeter/greet']);
+    });
+
+    it('should return no symbols for a path outside the project', async () => {
+      const outside = `${projectPath}-secret.ts`;
+      await fs.writeFile(outside, 'export class Secret {\n  reveal() {}\n}\n');
+
+      try {
+        for (const filepath of [`../${path.basename(outside)}`, outside]) {
+          const result = await completeArgument(
+            { type: 'ref/resource', uri: 'glancey://symbol/{+path}{?name_path}' },
+            { name: 'name_path', value: '' },
+            { path: filepath },
+            context
+          );
+
+          expect(result.completion.values).toEqual([]);
+        }
+      } finally {
+        await fs.rm(outside, { force: true });
+      }
+    });
+
+    it('should return no symbols without a path', async () => {
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://symbol/{+path}{?name_path}' },
+        { name: 'name_path', value: 'Greeter' },
+        {},
+        context
+      );
+
+      expect(result.completion.values).toEqual([]);
+    });
+
+    it('should complete memory names', async () => {
+      const memories = new MemoryManager(projectPath);
+      await memories.writeMemory('architecture', '# Layers');
+      await memories.writeMemory('conventions', '- pnpm');
+
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://memory/{name}' },
+        { name: 'name', value: 'arch' },
+        {},
+        context
+      );
+
+      expect(result.completion.values).toEqual(['architecture']);
+    });
+
+    it('should cap the number of values', async () => {
+      indexedFiles = Array.from({ length: MAX_COMPLETION_VALUES + 20 }, (_, i) => `file${i}.ts`);
+
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://symbols/{+path}' },
+        { name: 'path', value: 'file' },
+        {},
+        context
+      );
+
+      expect(result.completion.values).toHaveLength(MAX_COMPLETION_VALUES);
+      expect(result.completion).toMatchObject({
+        total: MAX_COMPLETION_VALUES + 20,
+        hasMore: true,
+      });
+    });
+
+    it('should return no values when candidates cannot be listed', async () => {
+      vi.mocked(context.getIndexer).mockRejectedValue(new Error('no backend'));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await completeArgument(
+        { type: 'ref/resource', uri: 'glancey://symbols/{+path}' },
+        { name: 'path', value: 'src' },
+        {},
+        context
+      );
+
+      expect(result.completion.values).toEqual([]);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('registerCompletionHandler', () => {
+    const connect = async () => {
+      const server = new Server(
+        { name: 'test', version: '1.0.0' },
+        { capabilities: { completions: {} } }
+      );
+      registerCompletionHandler(server, context);
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      return client;
+    };
+
+    it('should serve completion/complete for resource template references', async () => {
+      await fs.writeFile(path.join(projectPath, 'greeter.ts'), 'export function greet() {}\n');
+      const client = await connect();
+
+      const file = await client.complete({
+        ref: { type: 'ref/resource', uri: 'glancey://symbols/{+path}' },
+        argument: { name: 'path', value: 'READ' },
+      });
+      const symbol = await client.complete({
+        ref: { type: 'ref/resource', uri: 'glancey://symbol/{+path}{?name_path}' },
+        argument: { name: 'name_path', value: 'gr' },
+        context: { arguments: { path: 'greeter.ts' } },
+      });
+
+      expect(file.completion.values).toEqual(['README.md']);
+      expect(symbol.completion.values).toEqual(['greet']);
+      await client.close();
+    });
+
+    it('should return no values for prompt references', async () => {
+      const client = await connect();
+
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'anything' },
+        argument: { name: 'arg', value: '' },
+      });
+
+      expect(result.completion.values).toEqual([]);
+      await client.close();
+    });
+  });
+});
@@ -8,6 +8,8 @@ import {
   getChunkingConfig,
   getSearchConfig,
   getDashboardConfig,
+  getWatchConfig,
+  getLinkedProjects,
   GlanceyConfig,
 } from '../config.js';
 
@@ -98,6 +100,66 @@ describe('config', () => {
       expect(config.instructions).toBe('Custom instructions');
     });
 
+    it('should load linked projects', async () => {
+      const customConfig = {
+        linkedProjects: [{ path: '../api', name: 'backend' }],
+      };
+      vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify(customConfig));
+
+      const config = await loadConfig('/project');
+
+      expect(config.linkedProjects).toEqual([{ path: '../api', name: 'backend' }]);
+    });
+
+    it('should load an embedding failover chain', async () => {
+      const customConfig = {
+        embedding: { backend: 'gemini', failover: ['openai-compatible', 'ollama'] },
+      };
+      vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify(customConfig));
+
+      const config = await loadConfig('/project');
+
+      expect(config.embedding?.failover).toEqual(['openai-compatible', 'ollama']);
+    });
+
+    it('should load languages and index their extensions by default', async () => {
+      const customConfig = {
+        languages: {
+          elixir: {
+            wasmPath: 'grammars/tree-sitter-elixir.wasm',
+            extensions: ['.ex', '.exs'],
+            functionTypes: ['call'],
+          },
+        },
+      };
+      vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify(customConfig));
+
+      const config = await loadConfig('/project');
+
+      expect(config.languages?.elixir.extensions).toEqual(['.ex', '.exs']);
+      expect(config.patterns).toContain('**/*.ex');
+      expect(config.patterns).toContain('**/*.exs');
+      expect(config.patterns).toContain('**/*.ts');
+    });
+
+    it('should keep valid languages when another is invalid', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const invalidConfig = {
+        languages: {
+          lua: { wasmPath: '/grammars/tree-sitter-lua.wasm', extensions: ['.lua'] },
+          hcl: { extensions: ['.tf'] }, // missing wasmPath
+        },
+      };
+      vi.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify(invalidConfig));
+
+      const config = await loadConfig('/project');
+
+      expect(Object.keys(config.languages ?? {})).toEqual(['lua']);
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('languages.hcl.wasmPath'));
+
+      consoleSpy.mockRestore();
+    });
+
     it('should try glancey.config.json if .glancey.json fails', async () => {
       const customConfig = {
         patterns: ['**/*.alt'],
@@ -248,6 +310,31 @@ describe('config', () => {
     });
   });
 
+  describe('getLinkedProjects', () => {
+    it('should return no linked projects by default', () => {
+      expect(getLinkedProjects({}, '/work/web')).toEqual([]);
+    });
+
+    it('should resolve relative paths and default names to the directory name', () => {
+      const config: GlanceyConfig = {
+        linkedProjects: [{ path: '../api' }, { path: '/work/shared-protos', name: 'protos' }],
+      };
+
+      expect(getLinkedProjects(config, '/work/web')).toEqual([
+        { name: 'api', path: '/work/api' },
+        { name: 'protos', path: '/work/shared-protos' },
+      ]);
+    });
+
+    it('should skip the project itself and duplicates', () => {
+      const config: GlanceyConfig = {
+        linkedProjects: [{ path: '.' }, { path: '../api' }, { path: '/work/api', name: 'again' }],
+      };
+
+      expect(getLinkedProjects(config, '/work/web')).toEqual([{ name: 'api', path: '/work/api' }]);
+    });
+  });
+
   describe('getChunkingConfig', () => {
     it('should return defaults when config has no chunking', () => {
       const config: GlanceyConfig = {};
@@ -307,4 +394,34 @@ describe('config', () => {
       expect(dashboard.port).toBe(9000);
     });
   });
+
+  describe('getWatchConfig', () => {
+    it('should be disabled by default', () => {
+      const watch = getWatchConfig({});
+
+      expect(watch.enabled).toBe(false);
+      expect(watch.debounceMs).toBe(500);
+    });
+
+    it('should merge user config with defaults', () => {
+      const watch = getWatchConfig({ watch: { enabled: true } });
+
+      expect(watch.enabled).toBe(true);
+      expect(watch.debounceMs).toBe(500);
+    });
+
+    it('should keep valid watch fields when others are invalid', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(fs.readFile).mockResolvedValueOnce(
+        JSON.stringify({ watch: { enabled: true, debounceMs: 10 } })
+      );
+
+      const config = await loadConfig('/project');
+
+      expect(getWatchConfig(config)).toEqual({ enabled: true, debounceMs: 500 });
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('watch.debounceMs'));
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
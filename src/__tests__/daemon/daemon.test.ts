@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DaemonServer,
+  connectToDaemon,
+  getDaemonSocketPath,
+  proxyToDaemon,
+} from '../../daemon/index.js';
+import { GlanceyError } from '../../utils/errors.js';
+
+function createTestServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+/**
+ * The fields of the JSON-RPC responses these tests check.
+ */
+interface TestResponse {
+  result: { serverInfo: { name: string }; tools: Array<{ name: string }> };
+}
+
+/**
+ * Send newline-delimited JSON-RPC requests through a proxied client and collect the responses.
+ */
+async function request(projectPath: string, messages: object[]): Promise<TestResponse[]> {
+  const socket = await connectToDaemon(projectPath);
+  if (!socket) throw new Error('daemon not reachable');
+
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const proxied = proxyToDaemon(socket, input, output);
+
+  const expected = messages.filter((m) => 'id' in m).length;
+  const responses: TestResponse[] = [];
+  let buffer = '';
+  const received = new Promise<void>((resolve) => {
+    output.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        responses.push(JSON.parse(buffer.slice(0, newline)));
+        buffer = buffer.slice(newline + 1);
+      }
+      if (responses.length >= expected) resolve();
+    });
+  });
+
+  for (const message of messages) {
+    input.write(JSON.stringify(message) + '\n');
+  }
+  await received;
+  input.end();
+  await proxied;
+  return responses;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+const INITIALIZED = { jsonrpc: '2.0', method: 'notifications/initialized' };
+const LIST_TOOLS = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+describe('daemon', () => {
+  let projectPath: string;
+  let daemon: DaemonServer;
+
+  beforeEach(() => {
+    projectPath = `/tmp/glancey-daemon-test-${process.pid}-${Math.random().toString(36).slice(2)}`;
+    daemon = new DaemonServer(projectPath, { createServer: createTestServer });
+  });
+
+  afterEach(async () => {
+    await daemon.stop();
+  });
+
+  describe('getDaemonSocketPath', () => {
+    it('should be stable per project and differ between projects', () => {
+      expect(getDaemonSocketPath('/a')).toBe(getDaemonSocketPath('/a'));
+      expect(getDaemonSocketPath('/a')).not.toBe(getDaemonSocketPath('/b'));
+    });
+  });
+
+  describe('connectToDaemon', () => {
+    it('should return null when no daemon is running', async () => {
+      expect(await connectToDaemon(projectPath)).toBeNull();
+    });
+  });
+
+  describe('DaemonServer', () => {
+    it('should serve MCP requests forwarded by a proxy', async () => {
+      await daemon.start();
+
+      const [init, tools] = await request(projectPath, [INITIALIZE, INITIALIZED, LIST_TOOLS]);
+
+      expect(init.result.serverInfo.name).toBe('test');
+      expect(tools.result.tools.map((t) => t.name)).toEqual(['ping']);
+    });
+
+    it('should give each client its own session', async () => {
+      await daemon.start();
+
+      const [first, second] = await Promise.all([
+        request(projectPath, [INITIALIZE, INITIALIZED, LIST_TOOLS]),
+        request(projectPath, [INITIALIZE, INITIALIZED, LIST_TOOLS]),
+      ]);
+
+      expect(first[1].result.tools).toHaveLength(1);
+      expect(second[1].result.tools).toHaveLength(1);
+    });
+
+    it('should refuse to start when a daemon already serves the project', async () => {
+      await daemon.start();
+      const second = new DaemonServer(projectPath, { createServer: createTestServer });
+
+      await expect(second.start()).rejects.toBeInstanceOf(GlanceyError);
+    });
+
+    it('should stop accepting clients after stop', async () => {
+      await daemon.start();
+      await daemon.stop();
+
+      expect(await connectToDaemon(projectPath)).toBeNull();
+    });
+
+    it.skipIf(process.platform === 'win32')(
+      'should replace a socket file left by a crashed daemon',
+      async () => {
+        const fs = await import('fs/promises');
+        await fs.writeFile(getDaemonSocketPath(projectPath), '');
+
+        await daemon.start();
+
+        const socket = await connectToDaemon(projectPath);
+        expect(socket).not.toBeNull();
+        socket?.destroy();
+      }
+    );
+  });
+});
@@ -81,6 +81,24 @@ describe('Dashboard Routes', () => {
     });
   });
 
+  describe('GET /api/embedding-usage', () => {
+    it('should return 503 when embedding usage is not tracked', async () => {
+      dashboardState.setIndexer({ getEmbeddingUsage: vi.fn().mockReturnValue(undefined) } as never);
+
+      const response = await fetch(`${server.url}/api/embedding-usage`);
+      expect(response.status).toBe(503);
+    });
+
+    it('should return embedding usage of the indexer', async () => {
+      const usage = { since: '2024-01-01T00:00:00.000Z', backends: [] };
+      dashboardState.setIndexer({ getEmbeddingUsage: vi.fn().mockReturnValue(usage) } as never);
+
+      const response = await fetch(`${server.url}/api/embedding-usage`);
+      expect(response.ok).toBe(true);
+      expect(await response.json()).toEqual(usage);
+    });
+  });
+
   describe('GET /api/config', () => {
     it('should return 503 when config not loaded', async () => {
       // Reset config to null by creating a fresh state manager effect
@@ -99,6 +99,43 @@ describe('DashboardStateManager', () => {
     });
   });
 
+  describe('watcher state', () => {
+    it('should track watching and pending changes', () => {
+      expect(stateManager.getWatcherStatus()).toEqual({ watching: false, pendingChanges: 0 });
+
+      stateManager.setWatching(true);
+      stateManager.setPendingChanges(3);
+
+      expect(stateManager.getWatcherStatus()).toEqual({ watching: true, pendingChanges: 3 });
+    });
+
+    it('should emit watcher:update only when the status changes', () => {
+      const listener = vi.fn();
+      stateManager.on('watcher:update', listener);
+
+      stateManager.setPendingChanges(2);
+      stateManager.setPendingChanges(2);
+      stateManager.setPendingChanges(0);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith({ watching: false, pendingChanges: 0 });
+    });
+  });
+
+  describe('token savings', () => {
+    it('should keep token savings per project', () => {
+      const other = new DashboardStateManager();
+      const listener = vi.fn();
+      stateManager.on('tokenSavings:update', listener);
+
+      stateManager.getTokenTracker().recordSearchCode(500, 2, 10);
+
+      expect(stateManager.getTokenSavings().operationCount).toBe(1);
+      expect(other.getTokenSavings().operationCount).toBe(0);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('events', () => {
     it('should emit indexing:start event', () => {
       const listener = vi.fn();
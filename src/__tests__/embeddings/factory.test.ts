@@ -84,13 +84,40 @@ describe('createEmbeddingBackend', () => {
     });
   });
 
-  describe('error when all backends fail', () => {
-    it('should throw when no backend is available', async () => {
+  describe('local fallback when all backends fail', () => {
+    it('should fall back to the local backend when no backend is available', async () => {
       const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'));
       vi.stubGlobal('fetch', mockFetch);
 
       const createEmbeddingBackend = await getCreateEmbeddingBackend();
-      await expect(createEmbeddingBackend()).rejects.toThrow('No embedding backend available');
+      const { backend, fallback } = await createEmbeddingBackend();
+
+      expect(backend.name).toBe('local');
+      expect(fallback?.fallbackBackend).toBe('local');
+      expect(fallback?.reason).toContain('No embedding backend available');
+    });
+
+    it('should fall back to the local backend when explicitly configured Ollama fails', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback } = await createEmbeddingBackend({ backend: 'ollama' });
+
+      expect(backend.name).toBe('local');
+      expect(fallback?.originalBackend).toBe('ollama');
+    });
+
+    it('should use the local backend without network access when configured', async () => {
+      const mockFetch = vi.fn();
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback } = await createEmbeddingBackend({ backend: 'local' });
+
+      expect(backend.name).toBe('local');
+      expect(fallback).toBeUndefined();
+      expect(mockFetch).not.toHaveBeenCalled();
     });
   });
 
@@ -167,16 +194,18 @@ describe('createEmbeddingBackend', () => {
       expect(fallback?.reason).toContain('401');
     });
 
-    it('should throw when explicitly configured Gemini fails and Ollama also fails', async () => {
+    it('should fall back to the local backend when configured Gemini and Ollama both fail', async () => {
       process.env.GEMINI_API_KEY = 'test-key';
 
       const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'));
       vi.stubGlobal('fetch', mockFetch);
 
       const createEmbeddingBackend = await getCreateEmbeddingBackend();
-      await expect(createEmbeddingBackend({ backend: 'gemini' })).rejects.toThrow(
-        'Configured gemini backend failed'
-      );
+      const { backend, fallback } = await createEmbeddingBackend({ backend: 'gemini' });
+
+      expect(backend.name).toBe('local');
+      expect(fallback?.originalBackend).toBe('gemini');
+      expect(fallback?.reason).toContain('Ollama fallback also failed');
     });
 
     it('should not have fallback info when explicitly configured backend succeeds', async () => {
@@ -195,5 +224,208 @@ describe('createEmbeddingBackend', () => {
       expect(backend.name).toBe('gemini');
       expect(fallback).toBeUndefined();
     });
+
+    it('should use a configured OpenAI-compatible server', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ embedding: [0.1, 0.2, 0.3], index: 0 }] }),
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback } = await createEmbeddingBackend({
+        backend: 'openai-compatible',
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'nomic-embed-text-v1.5',
+      });
+
+      expect(backend.name).toBe('openai-compatible');
+      expect(backend.getDimensions()).toBe(3);
+      expect(fallback).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/v1/embeddings',
+        expect.anything()
+      );
+    });
+
+    it('should fall back to Ollama at its own URL when the OpenAI-compatible server fails', async () => {
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes(':8080')) {
+          return { ok: false, status: 503, text: async () => 'Loading model' };
+        }
+        return { ok: true, status: 200, json: async () => createTagsResponseWithDefaultModel() };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback } = await createEmbeddingBackend({
+        backend: 'openai-compatible',
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'nomic-embed-text-v1.5',
+      });
+
+      expect(backend.name).toBe('ollama');
+      expect(backend.getModel()).toBe(DEFAULT_OLLAMA_MODEL);
+      expect(fallback?.originalBackend).toBe('openai-compatible');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:11434/api/tags',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('failover chain', () => {
+    it('should follow a configured failover chain', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Quota exceeded'));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback } = await createEmbeddingBackend({
+        backend: 'gemini',
+        failover: ['local'],
+      });
+
+      expect(backend.name).toBe('local');
+      expect(fallback?.originalBackend).toBe('gemini');
+      // Ollama is not part of the chain
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when failover is disabled and the backend fails', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Connection refused')));
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+
+      await expect(createEmbeddingBackend({ backend: 'ollama', failover: [] })).rejects.toThrow(
+        'No embedding backend available'
+      );
+    });
+
+    it("should return the index's unavailable backend instead of mixing vector spaces", async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('googleapis')) {
+          return { ok: false, status: 429, text: async () => 'Quota exceeded' };
+        }
+        return { ok: true, status: 200, json: async () => createTagsResponseWithDefaultModel() };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback, unavailable } = await createEmbeddingBackend(
+        { backend: 'gemini' },
+        { index: { backend: 'gemini' } }
+      );
+
+      expect(backend.name).toBe('gemini');
+      expect(fallback).toBeUndefined();
+      expect(unavailable?.backend).toBe('gemini');
+      expect(unavailable?.reason).toContain('429');
+    });
+
+    it('should use the backend and model the index was built with while the primary is healthy', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('googleapis')) {
+          return { ok: true, status: 200, json: async () => ({ embedding: { values: [0.1] } }) };
+        }
+        return { ok: true, status: 200, json: async () => createTagsResponseWithDefaultModel() };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback, unavailable } = await createEmbeddingBackend(
+        { backend: 'gemini' },
+        { index: { backend: 'ollama', model: DEFAULT_OLLAMA_MODEL } }
+      );
+
+      expect(backend.name).toBe('ollama');
+      expect(fallback?.originalBackend).toBe('gemini');
+      expect(fallback?.fallbackBackend).toBe('ollama');
+      expect(fallback?.reason).toContain('The index was built with Ollama');
+      expect(unavailable).toBeUndefined();
+      // Gemini vectors would not match the index, so Gemini is not even tried
+      expect(mockFetch.mock.calls.some(([url]) => String(url).includes('googleapis'))).toBe(false);
+    });
+
+    it("should report the index's backend unavailable instead of using a healthy primary", async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes('googleapis')) {
+          return { ok: true, status: 200, json: async () => ({ embedding: { values: [0.1] } }) };
+        }
+        throw new Error('Connection refused');
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, unavailable } = await createEmbeddingBackend(
+        { backend: 'gemini' },
+        { index: { backend: 'ollama', model: DEFAULT_OLLAMA_MODEL } }
+      );
+
+      expect(backend.name).toBe('ollama');
+      expect(unavailable?.reason).toContain('Connection refused');
+    });
+
+    it('should fail over normally when no backend of the chain produces the index model', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, text: async () => 'Quota exceeded' })
+        .mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: async () => createTagsResponseWithDefaultModel(),
+        });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const createEmbeddingBackend = await getCreateEmbeddingBackend();
+      const { backend, fallback, unavailable } = await createEmbeddingBackend(
+        { backend: 'gemini' },
+        { index: { backend: 'ollama', model: 'nomic-embed-text' } }
+      );
+
+      // The index needs rebuilding either way
+      expect(backend.name).toBe('ollama');
+      expect(fallback?.fallbackBackend).toBe('ollama');
+      expect(unavailable).toBeUndefined();
+    });
+  });
+
+  describe('usage tracking', () => {
+    it('should count the requests of every backend tried', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, text: async () => 'Quota exceeded' })
+        .mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: async () => createTagsResponseWithDefaultModel(),
+        });
+      vi.stubGlobal('fetch', mockFetch);
+
+      vi.resetModules();
+      const { createEmbeddingBackend, EmbeddingUsageTracker } =
+        await import('../../embeddings/index.js');
+      const usage = new EmbeddingUsageTracker();
+      const { backend } = await createEmbeddingBackend({ backend: 'gemini' }, { usage });
+
+      expect(backend.name).toBe('ollama');
+      const [gemini, ollama] = usage.getStats().backends;
+      expect(gemini.backend).toBe('gemini');
+      expect(gemini.byPurpose.health).toMatchObject({ requests: 1, quotaErrors: 1, failures: 1 });
+      expect(ollama.backend).toBe('ollama');
+      expect(ollama.byPurpose.health).toMatchObject({ requests: 1, failures: 0 });
+    });
   });
 });
@@ -94,12 +94,25 @@ describe('GeminiBackend', () => {
             content: {
               parts: [{ text: 'test text' }],
             },
+            taskType: 'RETRIEVAL_DOCUMENT',
             outputDimensionality: 768,
           }),
         })
       );
     });
 
+    it('should embed queries with the code retrieval task type', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createGeminiEmbeddingResponse([0.1, 0.2, 0.3]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new GeminiBackend({ backend: 'gemini', apiKey: 'test-key' });
+      await backend.embedQuery('where are tokens validated');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body).taskType).toBe('CODE_RETRIEVAL_QUERY');
+      expect(backend.getDocumentMode()).toBe('task:RETRIEVAL_DOCUMENT');
+    });
+
     it('should return embedding from response', async () => {
       const embedding = [0.1, 0.2, 0.3];
       const mockFetch = vi.fn().mockResolvedValue(createGeminiEmbeddingResponse(embedding));
@@ -143,16 +156,19 @@ describe('GeminiBackend', () => {
               {
                 model: 'models/gemini-embedding-001',
                 content: { parts: [{ text: 'text1' }] },
+                taskType: 'RETRIEVAL_DOCUMENT',
                 outputDimensionality: 768,
               },
               {
                 model: 'models/gemini-embedding-001',
                 content: { parts: [{ text: 'text2' }] },
+                taskType: 'RETRIEVAL_DOCUMENT',
                 outputDimensionality: 768,
               },
               {
                 model: 'models/gemini-embedding-001',
                 content: { parts: [{ text: 'text3' }] },
+                taskType: 'RETRIEVAL_DOCUMENT',
                 outputDimensionality: 768,
               },
             ],
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { LocalBackend, LOCAL_MODEL, splitFeatureTokens } from '../../embeddings/local.js';
+
+/**
+ * Cosine similarity of two vectors.
+ */
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+describe('LocalBackend', () => {
+  const backend = new LocalBackend();
+
+  it('should describe itself', async () => {
+    await expect(backend.initialize()).resolves.toBeUndefined();
+    expect(backend.name).toBe('local');
+    expect(backend.getModel()).toBe(LOCAL_MODEL);
+  });
+
+  it('should produce normalized vectors with fixed dimensions', async () => {
+    const vector = await backend.embed('function validateUserToken(token: string) {}');
+
+    expect(vector).toHaveLength(backend.getDimensions());
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+  });
+
+  it('should be deterministic', async () => {
+    const [first, second] = await backend.embedBatch(['parseConfig()', 'parseConfig()']);
+
+    expect(first).toEqual(second);
+  });
+
+  it('should return a zero vector for text without identifiers', async () => {
+    const vector = await backend.embed('  {} () 42 ');
+
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+
+  it('should rank code sharing identifiers and subwords higher', async () => {
+    const [query, related, unrelated] = await backend.embedBatch([
+      'validate user token',
+      'export function validateUserToken(token: string): boolean { return verify(token); }',
+      'export function renderChart(data: number[]): void { canvas.draw(data); }',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should match word stems through character trigrams', async () => {
+    const [query, related, unrelated] = await backend.embedBatch([
+      'auth',
+      'class AuthenticationService {}',
+      'class InvoiceFormatter {}',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+describe('splitFeatureTokens', () => {
+  it('should split camelCase, PascalCase, snake_case and acronyms', () => {
+    expect(splitFeatureTokens('getUserById')).toEqual(['get', 'user', 'by', 'id']);
+    expect(splitFeatureTokens('HTTPServerConfig')).toEqual(['http', 'server', 'config']);
+    expect(splitFeatureTokens('MAX_RETRY_COUNT')).toEqual(['max', 'retry', 'count']);
+  });
+
+  it('should drop digits and single letters', () => {
+    expect(splitFeatureTokens('sha256Hash')).toEqual(['sha', 'hash']);
+    expect(splitFeatureTokens('xAxis')).toEqual(['axis']);
+  });
+});
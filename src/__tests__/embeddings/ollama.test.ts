@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OllamaBackend, DEFAULT_OLLAMA_MODEL } from '../../embeddings/ollama.js';
+import { PLAIN_DOCUMENT_MODE } from '../../embeddings/types.js';
 import {
   createOllamaBatchEmbeddingResponse,
   createSuccessFetch,
@@ -194,6 +195,34 @@ describe('OllamaBackend', () => {
     });
   });
 
+  describe('embedQuery', () => {
+    it('should prefix queries with the qwen3-embedding instruction', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createOllamaBatchEmbeddingResponse([[0.1]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OllamaBackend({ backend: 'ollama' });
+      await backend.embedQuery('where are tokens validated');
+
+      const [input] = JSON.parse(mockFetch.mock.calls[0][1].body).input;
+      expect(input).toMatch(/^Instruct: .+\nQuery: where are tokens validated$/);
+      // Documents are embedded as given, so existing indexes stay valid
+      expect(backend.getDocumentMode()).toBe(PLAIN_DOCUMENT_MODE);
+    });
+
+    it('should prefix documents for models with a document prompt', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createOllamaBatchEmbeddingResponse([[0.1]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OllamaBackend({ backend: 'ollama', model: 'nomic-embed-text' });
+      await backend.embedBatch(['function auth() {}']);
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).input).toEqual([
+        'search_document: function auth() {}',
+      ]);
+      expect(backend.getDocumentMode()).toBe('prompt:search_document: ');
+    });
+  });
+
   describe('embedBatch', () => {
     it('should use batch API to embed all texts in one request', async () => {
       const mockFetch = vi
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OpenAICompatibleBackend } from '../../embeddings/openai-compatible.js';
+import { PLAIN_DOCUMENT_MODE } from '../../embeddings/types.js';
+import { createSuccessFetch, createErrorFetch } from '../mocks/fetch.mock.js';
+
+/** Helper to create a mock /embeddings response */
+function createEmbeddingsResponse(embeddings: number[][]) {
+  return { data: embeddings.map((embedding, index) => ({ embedding, index })) };
+}
+
+const config = {
+  backend: 'openai-compatible' as const,
+  baseUrl: 'http://localhost:8080/v1/',
+  model: 'bge-m3',
+};
+
+describe('OpenAICompatibleBackend', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('constructor', () => {
+    it('should require a base URL and model', () => {
+      expect(() => new OpenAICompatibleBackend({ ...config, baseUrl: undefined })).toThrow(
+        'requires embedding.baseUrl'
+      );
+      expect(() => new OpenAICompatibleBackend({ ...config, model: undefined })).toThrow(
+        'requires embedding.model'
+      );
+    });
+
+    it('should report the configured model', () => {
+      const backend = new OpenAICompatibleBackend(config);
+      expect(backend.name).toBe('openai-compatible');
+      expect(backend.getModel()).toBe('bge-m3');
+    });
+  });
+
+  describe('initialize', () => {
+    it('should detect dimensions from the server', async () => {
+      const mockFetch = createSuccessFetch(createEmbeddingsResponse([[0.1, 0.2, 0.3, 0.4]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend(config);
+      await backend.initialize();
+
+      expect(backend.getDimensions()).toBe(4);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/v1/embeddings',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should reject a server returning other dimensions than configured', async () => {
+      vi.stubGlobal('fetch', createSuccessFetch(createEmbeddingsResponse([[0.1, 0.2]])));
+
+      const backend = new OpenAICompatibleBackend({ ...config, dimensions: 768 });
+      await expect(backend.initialize()).rejects.toThrow('returned 2 dimensions');
+    });
+
+    it('should throw on initialization failure', async () => {
+      vi.stubGlobal('fetch', createErrorFetch(401, 'Unauthorized', 'invalid api key'));
+
+      const backend = new OpenAICompatibleBackend(config);
+      await expect(backend.initialize()).rejects.toThrow(
+        'Failed to initialize OpenAI-compatible backend'
+      );
+    });
+  });
+
+  describe('embed', () => {
+    it('should send the OpenAI request format', async () => {
+      const mockFetch = createSuccessFetch(createEmbeddingsResponse([[0.1, 0.2]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend({ ...config, apiKey: 'sk-test', dimensions: 2 });
+      const embedding = await backend.embed('hello');
+
+      expect(embedding).toEqual([0.1, 0.2]);
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers).toEqual(expect.objectContaining({ Authorization: 'Bearer sk-test' }));
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'bge-m3',
+        input: ['hello'],
+        dimensions: 2,
+      });
+    });
+
+    it('should omit authorization and dimensions when not configured', async () => {
+      const mockFetch = createSuccessFetch(createEmbeddingsResponse([[0.1]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend(config);
+      await backend.embed('hello');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse(init.body)).not.toHaveProperty('dimensions');
+    });
+  });
+
+  describe('prompt templates', () => {
+    it("should apply the model's query and document prefixes", async () => {
+      const mockFetch = createSuccessFetch(createEmbeddingsResponse([[0.1]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend({ ...config, model: 'nomic-embed-text-v1.5' });
+      await backend.embedQuery('auth');
+      await backend.embed('function auth() {}');
+
+      const inputs = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).input);
+      expect(inputs).toEqual([['search_query: auth'], ['search_document: function auth() {}']]);
+      expect(backend.getDocumentMode()).toBe('prompt:search_document: ');
+    });
+
+    it('should embed text as given for symmetric models', async () => {
+      const mockFetch = createSuccessFetch(createEmbeddingsResponse([[0.1]]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend(config);
+      await backend.embedQuery('auth');
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).input).toEqual(['auth']);
+      expect(backend.getDocumentMode()).toBe(PLAIN_DOCUMENT_MODE);
+    });
+  });
+
+  describe('embedBatch', () => {
+    it('should return embeddings in input order', async () => {
+      vi.stubGlobal(
+        'fetch',
+        createSuccessFetch({
+          data: [
+            { embedding: [2], index: 1 },
+            { embedding: [1], index: 0 },
+          ],
+        })
+      );
+
+      const backend = new OpenAICompatibleBackend(config);
+      expect(await backend.embedBatch(['a', 'b'])).toEqual([[1], [2]]);
+    });
+
+    it('should split large batches', async () => {
+      const mockFetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const { input } = JSON.parse(init.body as string) as { input: string[] };
+        return {
+          ok: true,
+          status: 200,
+          json: async () => createEmbeddingsResponse(input.map((text) => [text.length])),
+        };
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const backend = new OpenAICompatibleBackend({ ...config, batchSize: 2 });
+      const embeddings = await backend.embedBatch(['a', 'bb', 'ccc', 'dddd', 'eeeee']);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(embeddings).toEqual([[1], [2], [3], [4], [5]]);
+    });
+
+    it('should reject a response with a missing embedding', async () => {
+      vi.stubGlobal('fetch', createSuccessFetch(createEmbeddingsResponse([[0.1]])));
+
+      const backend = new OpenAICompatibleBackend(config);
+      await expect(backend.embedBatch(['a', 'b'])).rejects.toThrow(
+        'returned 1 embeddings for 2 texts'
+      );
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import {
+  EmbeddingUsageTracker,
+  recordEmbeddingRequest,
+  trackEmbeddingUsage,
+} from '../../embeddings/usage.js';
+import { fetchWithRetry } from '../../embeddings/retry.js';
+import type { EmbeddingBackend } from '../../embeddings/types.js';
+import { createMockEmbeddingBackend } from '../mocks/embedding-backend.mock.js';
+
+// Mock fs module
+vi.mock('fs');
+
+describe('EmbeddingUsageTracker', () => {
+  let backend: EmbeddingBackend;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    backend = createMockEmbeddingBackend({ name: 'gemini' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should count texts, characters and requests by purpose', async () => {
+    const tracker = new EmbeddingUsageTracker();
+
+    await tracker.track(backend, 'indexing', ['abcd', 'efghijkl'], async () => {
+      recordEmbeddingRequest({ latencyMs: 120, status: 200, retried: false });
+    });
+    await tracker.track(backend, 'query', ['find auth'], async () => {
+      recordEmbeddingRequest({ latencyMs: 40, status: 200, retried: false });
+    });
+
+    const [stats] = tracker.getStats().backends;
+    expect(stats.backend).toBe('gemini');
+    expect(stats.model).toBe('mock-model');
+    expect(stats.byPurpose.indexing).toMatchObject({
+      calls: 1,
+      requests: 1,
+      texts: 2,
+      characters: 12,
+      estimatedTokens: 3,
+    });
+    expect(stats.byPurpose.query).toMatchObject({ calls: 1, requests: 1, texts: 1 });
+    expect(stats.total).toMatchObject({ calls: 2, requests: 2, texts: 3, characters: 21 });
+    expect(stats.today).toMatchObject({ requests: 2, texts: 3 });
+  });
+
+  it('should ignore requests made outside a tracked call', () => {
+    const tracker = new EmbeddingUsageTracker();
+
+    recordEmbeddingRequest({ latencyMs: 10, status: 200, retried: false });
+
+    expect(tracker.getStats().backends).toEqual([]);
+  });
+
+  it('should compute latency percentiles', async () => {
+    const tracker = new EmbeddingUsageTracker();
+
+    await tracker.track(backend, 'query', ['q'], async () => {
+      for (let latency = 1; latency <= 100; latency++) {
+        recordEmbeddingRequest({ latencyMs: latency, status: 200, retried: false });
+      }
+    });
+
+    const [stats] = tracker.getStats().backends;
+    expect(stats.byPurpose.query.latencyMs).toEqual({ p50: 50, p95: 95, p99: 99 });
+    expect(stats.byPurpose.indexing.latencyMs).toBeNull();
+  });
+
+  it('should count failed calls and rethrow their errors', async () => {
+    const tracker = new EmbeddingUsageTracker();
+
+    await expect(
+      tracker.track(backend, 'indexing', ['chunk'], async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(tracker.getStats().backends[0].byPurpose.indexing.failures).toBe(1);
+  });
+
+  it('should count retries, rate limits and quota errors from fetchWithRetry', async () => {
+    vi.useFakeTimers();
+    const tracker = new EmbeddingUsageTracker();
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, text: async () => 'slow down' })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers(),
+          text: async () => 'You exceeded your current quota',
+        })
+    );
+
+    const promise = tracker.track(backend, 'indexing', ['chunk'], () =>
+      fetchWithRetry('https://api.test.com', {}, { maxRetries: 3 })
+    );
+    await vi.advanceTimersByTimeAsync(2000);
+    const response = await promise;
+
+    expect(response.status).toBe(429);
+    const [stats] = tracker.getStats().backends;
+    expect(stats.byPurpose.indexing).toMatchObject({
+      requests: 2,
+      retries: 1,
+      rateLimited: 2,
+      quotaErrors: 1,
+    });
+    expect(stats.lastQuotaErrorAt).toBeDefined();
+  });
+
+  it('should persist usage and load it again', async () => {
+    vi.useFakeTimers();
+    const tracker = new EmbeddingUsageTracker('/test/project');
+
+    await tracker.track(backend, 'indexing', ['chunk'], async () => {
+      recordEmbeddingRequest({ latencyMs: 80, status: 200, retried: false });
+    });
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+
+    // Writes are debounced
+    vi.advanceTimersByTime(1000);
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
+    const [filePath, data] = vi.mocked(fs.writeFileSync).mock.calls[0];
+    expect(String(filePath)).toContain('embedding-usage.json');
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(data as string);
+    const reloaded = new EmbeddingUsageTracker('/test/project');
+
+    expect(reloaded.getStats()).toEqual(tracker.getStats());
+  });
+
+  it('should write pending usage on flush without waiting for the debounce', async () => {
+    vi.useFakeTimers();
+    const tracker = new EmbeddingUsageTracker('/test/project');
+
+    await tracker.track(backend, 'query', ['find auth'], async () => {
+      recordEmbeddingRequest({ latencyMs: 30, status: 200, retried: false });
+    });
+    tracker.flush();
+
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      vi.mocked(fs.writeFileSync).mock.calls[0][1] as string
+    );
+    expect(new EmbeddingUsageTracker('/test/project').getStats()).toEqual(tracker.getStats());
+
+    // The debounced save was cancelled, and nothing is pending anymore
+    vi.advanceTimersByTime(1000);
+    tracker.flush();
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start counting a new day', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T23:00:00Z'));
+    const tracker = new EmbeddingUsageTracker();
+
+    await tracker.track(backend, 'query', ['q'], async () => {
+      recordEmbeddingRequest({ latencyMs: 10, status: 200, retried: false });
+    });
+    vi.setSystemTime(new Date('2026-01-02T01:00:00Z'));
+
+    const [stats] = tracker.getStats().backends;
+    expect(stats.today).toEqual({ date: '2026-01-02', requests: 0, texts: 0, estimatedTokens: 0 });
+    expect(stats.total.requests).toBe(1);
+  });
+
+  it('should ignore malformed persisted data', () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({ backends: { gemini: { byPurpose: { query: { requests: 'many' } } } } })
+    );
+
+    const tracker = new EmbeddingUsageTracker('/test/project');
+
+    expect(tracker.getStats().backends[0].total.requests).toBe(0);
+  });
+});
+
+describe('trackEmbeddingUsage', () => {
+  it('should count document batches as indexing and single texts as queries', async () => {
+    const tracker = new EmbeddingUsageTracker();
+    const backend = trackEmbeddingUsage(createMockEmbeddingBackend({ name: 'ollama' }), tracker);
+
+    await backend.initialize();
+    await backend.embedBatch(['a', 'b']);
+    await backend.embedQuery('query');
+    await backend.embed('similar code');
+
+    expect(backend.name).toBe('ollama');
+    const [stats] = tracker.getStats().backends;
+    expect(stats.byPurpose.health.calls).toBe(1);
+    expect(stats.byPurpose.indexing).toMatchObject({ calls: 1, texts: 2 });
+    expect(stats.byPurpose.query).toMatchObject({ calls: 2, texts: 2 });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { parseHttpPortArg, startMcpHttpServer, type McpHttpServer } from '../../http/index.js';
+import { GlanceyError } from '../../utils/errors.js';
+
+function createTestServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+/**
+ * POST a JSON-RPC message to the MCP endpoint.
+ */
+function post(url: string, body: object, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * The fields of the JSON-RPC responses these tests check.
+ */
+interface TestResponse {
+  result: { serverInfo: { name: string }; tools: Array<{ name: string }> };
+}
+
+/**
+ * Extract the JSON-RPC message from an SSE response body.
+ */
+async function readMessage(response: Response): Promise<TestResponse> {
+  const text = await response.text();
+  const data = text
+    .split('\n')
+    .find((line) => line.startsWith('data: ') && line.length > 'data: '.length);
+  if (!data) throw new Error('No message in response');
+  return JSON.parse(data.slice('data: '.length));
+}
+
+describe('MCP HTTP server', () => {
+  let httpServer: McpHttpServer | null = null;
+
+  afterEach(async () => {
+    await httpServer?.stop();
+    httpServer = null;
+  });
+
+  describe('parseHttpPortArg', () => {
+    it('should return null when the option is absent', () => {
+      expect(parseHttpPortArg(['daemon'])).toBeNull();
+    });
+
+    it('should parse separate and inline values', () => {
+      expect(parseHttpPortArg(['--http', '8765'])).toBe(8765);
+      expect(parseHttpPortArg(['daemon', '--http=8765'])).toBe(8765);
+    });
+
+    it('should reject missing or invalid ports', () => {
+      expect(() => parseHttpPortArg(['--http'])).toThrow(GlanceyError);
+      expect(() => parseHttpPortArg(['--http', 'abc'])).toThrow(GlanceyError);
+      expect(() => parseHttpPortArg(['--http', '70000'])).toThrow(GlanceyError);
+    });
+  });
+
+  describe('startMcpHttpServer', () => {
+    it('should serve tools to an initialized session', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      const init = await post(httpServer.url, INITIALIZE);
+      const sessionId = init.headers.get('mcp-session-id');
+      expect(init.status).toBe(200);
+      expect((await readMessage(init)).result.serverInfo.name).toBe('test');
+      expect(sessionId).toBeTruthy();
+
+      const headers = { 'mcp-session-id': String(sessionId), 'mcp-protocol-version': '2025-06-18' };
+      await post(httpServer.url, { jsonrpc: '2.0', method: 'notifications/initialized' }, headers);
+      const tools = await post(
+        httpServer.url,
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        headers
+      );
+
+      expect((await readMessage(tools)).result.tools.map((t) => t.name)).toEqual(['ping']);
+      expect(httpServer.sessionCount()).toBe(1);
+    });
+
+    it('should bind to localhost', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      expect(httpServer.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    });
+
+    it('should require the bearer token when configured', async () => {
+      httpServer = await startMcpHttpServer({
+        port: 0,
+        createServer: createTestServer,
+        token: 'secret',
+      });
+
+      const missing = await post(httpServer.url, INITIALIZE);
+      const wrong = await post(httpServer.url, INITIALIZE, { Authorization: 'Bearer nope' });
+      const valid = await post(httpServer.url, INITIALIZE, { Authorization: 'Bearer secret' });
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+      expect(valid.status).toBe(200);
+    });
+
+    it('should reject requests from non-local origins', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      const response = await post(httpServer.url, INITIALIZE, { Origin: 'http://evil.example' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject requests without a session that are not initialize', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      const response = await post(httpServer.url, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for unknown sessions and paths', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      const unknownSession = await post(
+        httpServer.url,
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { 'mcp-session-id': 'missing' }
+      );
+      const unknownPath = await fetch(httpServer.url.replace('/mcp', '/other'));
+
+      expect(unknownSession.status).toBe(404);
+      expect(unknownPath.status).toBe(404);
+    });
+
+    it('should reject malformed JSON', async () => {
+      httpServer = await startMcpHttpServer({ port: 0, createServer: createTestServer });
+
+      const response = await fetch(httpServer.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{not json',
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
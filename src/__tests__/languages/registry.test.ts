@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  LanguageRegistry,
+  getBuiltinLanguages,
+  createLanguageRegistry,
+  resolveGrammarPath,
+  type LanguageDefinition,
+} from '../../languages/index.js';
+
+/**
+ * Get a language that must be registered.
+ */
+function mustGet(languages: LanguageRegistry, name: string): LanguageDefinition {
+  const language = languages.get(name);
+  if (!language) throw new Error(`Language not registered: ${name}`);
+  return language;
+}
+
+describe('LanguageRegistry', () => {
+  it('should look up languages by name and list them', () => {
+    const python = mustGet(getBuiltinLanguages(), 'python');
+    const languages = new LanguageRegistry([python]);
+
+    expect(languages.get('python')).toBe(python);
+    expect(languages.get('go')).toBeNull();
+    expect(languages.list()).toEqual([python]);
+    expect(languages.getExtensions()).toEqual(['.py', '.pyi']);
+  });
+
+  describe('getBuiltinLanguages', () => {
+    it('should find built-in languages by extension', () => {
+      const languages = getBuiltinLanguages();
+
+      expect(languages.forFile('src/app.py')?.name).toBe('python');
+      expect(languages.forFile('include/widget.HPP')?.name).toBe('cpp');
+      expect(languages.forFile('notes.txt')).toBeNull();
+    });
+
+    it('should return the same registry each time', () => {
+      expect(getBuiltinLanguages()).toBe(getBuiltinLanguages());
+    });
+  });
+
+  describe('createLanguageRegistry', () => {
+    it('should return the built-in registry when no languages are configured', () => {
+      expect(createLanguageRegistry('/project', undefined)).toBe(getBuiltinLanguages());
+      expect(createLanguageRegistry('/project', {})).toBe(getBuiltinLanguages());
+    });
+
+    it('should add configured languages next to the built-in ones', () => {
+      const languages = createLanguageRegistry('/project', {
+        elixir: {
+          wasmPath: 'grammars/tree-sitter-elixir.wasm',
+          extensions: ['ex', '.EXS'],
+          functionTypes: ['call'],
+        },
+      });
+
+      const elixir = languages.forFile('lib/app.exs');
+      expect(elixir).toMatchObject({
+        name: 'elixir',
+        wasmFile: path.resolve('/project', 'grammars/tree-sitter-elixir.wasm'),
+        extensions: ['.ex', '.exs'],
+        functionTypes: ['call'],
+        classTypes: [],
+        identifierTypes: ['identifier'],
+        builtin: false,
+      });
+      expect(languages.forFile('lib/app.ex')).toBe(elixir);
+      expect(languages.forFile('main.go')?.name).toBe('go');
+      expect(languages.getExtensions()).toContain('.exs');
+    });
+
+    it('should let a configured language replace a built-in one', () => {
+      const languages = createLanguageRegistry('/project', {
+        python: { wasmPath: '/grammars/tree-sitter-python.wasm', extensions: ['.py'] },
+      });
+
+      expect(languages.forFile('app.py')?.builtin).toBe(false);
+      // The replaced definition's other extensions are no longer claimed
+      expect(languages.forFile('types.pyi')).toBeNull();
+    });
+
+    it('should let a configured language take over a built-in extension', () => {
+      const languages = createLanguageRegistry('/project', {
+        objc: { wasmPath: '/grammars/tree-sitter-objc.wasm', extensions: ['.h', '.m'] },
+      });
+
+      expect(languages.forFile('view.h')?.name).toBe('objc');
+      expect(languages.forFile('list.c')?.name).toBe('c');
+    });
+  });
+
+  describe('resolveGrammarPath', () => {
+    it('should resolve built-in grammars against the wasm directory', () => {
+      const python = mustGet(getBuiltinLanguages(), 'python');
+
+      expect(resolveGrammarPath(python, '/wasm')).toBe(
+        path.join('/wasm', 'tree-sitter-python.wasm')
+      );
+    });
+
+    it('should keep absolute grammar paths', () => {
+      const lua = mustGet(
+        createLanguageRegistry('/project', {
+          lua: { wasmPath: '/opt/grammars/tree-sitter-lua.wasm', extensions: ['.lua'] },
+        }),
+        'lua'
+      );
+
+      expect(resolveGrammarPath(lua, '/wasm')).toBe('/opt/grammars/tree-sitter-lua.wasm');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { vi } from 'vitest';
-import type { EmbeddingBackend } from '../../embeddings/types.js';
+import { PLAIN_DOCUMENT_MODE, type EmbeddingBackend } from '../../embeddings/types.js';
 
 /**
  * Creates a mock EmbeddingBackend for testing
@@ -10,7 +10,7 @@ export function createMockEmbeddingBackend(
   const dimensions = overrides.getDimensions?.() ?? 1536;
   const model = overrides.getModel?.() ?? 'mock-model';
 
-  return {
+  const backend: EmbeddingBackend = {
     name: 'mock',
     initialize: vi.fn().mockResolvedValue(undefined),
     embed: vi.fn().mockImplementation(async () => {
@@ -25,10 +25,14 @@ export function createMockEmbeddingBackend(
           .map(() => Math.random())
       );
     }),
+    // Queries are embedded like documents unless overridden
+    embedQuery: vi.fn().mockImplementation(async (query: string) => backend.embed(query)),
+    getDocumentMode: vi.fn().mockReturnValue(PLAIN_DOCUMENT_MODE),
     getDimensions: vi.fn().mockReturnValue(dimensions),
     getModel: vi.fn().mockReturnValue(model),
     ...overrides,
   };
+  return backend;
 }
 
 /**
@@ -40,6 +44,8 @@ export function createFailingMockEmbeddingBackend(error: Error): EmbeddingBacken
     initialize: vi.fn().mockRejectedValue(error),
     embed: vi.fn().mockRejectedValue(error),
     embedBatch: vi.fn().mockRejectedValue(error),
+    embedQuery: vi.fn().mockRejectedValue(error),
+    getDocumentMode: vi.fn().mockReturnValue(PLAIN_DOCUMENT_MODE),
     getDimensions: vi.fn().mockReturnValue(1536),
     getModel: vi.fn().mockReturnValue('failing-mock-model'),
   };
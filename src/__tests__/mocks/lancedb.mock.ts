@@ -2,7 +2,7 @@ import { vi } from 'vitest';
 
 export interface MockRow {
   id?: string;
-  filepath: string;
+  filepath?: string;
   content?: string;
   startLine?: number;
   endLine?: number;
@@ -19,6 +19,24 @@ export interface MockRow {
     | 'import'
     | 'other';
   symbolName?: string;
+  /** Distance to the query vector, as returned by LanceDB vector search */
+  _distance?: number;
+  /** Content hash (embedding cache and file metadata rows) */
+  hash?: string;
+  /** Chunk content hash (code_chunks rows) */
+  contentHash?: string;
+}
+
+/**
+ * Parse the values of an "id IN ('a', 'b')" filter, or null for other filters
+ */
+function parseIdFilter(filter: string): Set<string> | null {
+  const match = filter.match(/^id IN \((.*)\)$/);
+  if (!match) {
+    return null;
+  }
+  const ids = match[1].match(/'((?:[^']|'')*)'/g) ?? [];
+  return new Set(ids.map((id) => id.slice(1, -1).replace(/''/g, "'")));
 }
 
 /**
@@ -30,6 +48,8 @@ export function createMockTable(initialData: MockRow[] = []) {
   const mockQuery = {
     toArray: vi.fn().mockImplementation(async () => data),
     limit: vi.fn().mockReturnThis(),
+    select: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
   };
 
   return {
@@ -37,13 +57,34 @@ export function createMockTable(initialData: MockRow[] = []) {
       data.push(...rows);
     }),
     delete: vi.fn().mockImplementation(async (filter: string) => {
-      // Simple filter parsing for "filepath = 'value'"
+      // Simple filter parsing for "filepath = 'value'" and "id IN (...)"
       const match = filter.match(/filepath = '(.+)'/);
       if (match) {
         const pathToDelete = match[1].replace(/''/g, "'");
         data = data.filter((row) => row.filepath !== pathToDelete);
       }
+      const ids = parseIdFilter(filter);
+      if (ids) {
+        data = data.filter((row) => !ids.has(row.id ?? ''));
+      }
     }),
+    update: vi
+      .fn()
+      .mockImplementation(
+        async (opts: { where: string; valuesSql: Record<string, string> }): Promise<void> => {
+          // Supports "id IN (...)" filters and "`column` + N" line shifts
+          const ids = parseIdFilter(opts.where);
+          for (const row of data) {
+            if (!ids?.has(row.id ?? '')) continue;
+            for (const [column, expression] of Object.entries(opts.valuesSql)) {
+              const shift = expression.match(/^`(\w+)` \+ (-?\d+)$/);
+              if (shift && (column === 'startLine' || column === 'endLine')) {
+                row[column] = (row[shift[1] as 'startLine' | 'endLine'] ?? 0) + Number(shift[2]);
+              }
+            }
+          }
+        }
+      ),
     countRows: vi.fn().mockImplementation(async () => data.length),
     query: vi.fn().mockReturnValue(mockQuery),
     search: vi.fn().mockImplementation(() => ({
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceUpdatedNotificationSchema,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  ResourceSubscriptions,
+  registerResourceHandlers,
+  parseResourceUri,
+  readResource,
+  memoryUri,
+  symbolsUri,
+  symbolUri,
+  worktreeUri,
+  SUMMARY_URI,
+  type ResourceContext,
+} from '../../resources/index.js';
+import { MemoryManager } from '../../memory/index.js';
+import { GlanceyError } from '../../utils/errors.js';
+import type { CodebaseSummary, CodeIndexer } from '../../search/indexer.js';
+
+const SUMMARY: CodebaseSummary = {
+  totalFiles: 3,
+  totalChunks: 12,
+  languages: [{ language: 'typescript', fileCount: 3, chunkCount: 12 }],
+  concepts: [],
+  clusteringQuality: 0.5,
+  generatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+/**
+ * Get the text of a single-content resource.
+ */
+function textOf(result: ReadResourceResult): string {
+  return (result.contents[0] as { text: string }).text;
+}
+
+/**
+ * Poll until a condition holds (fs.watch events arrive asynchronously).
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('resources', () => {
+  let projectPath: string;
+  let context: ResourceContext;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-resources-test-'));
+    const indexer = { summarizeCodebase: vi.fn().mockResolvedValue(SUMMARY) };
+    context = {
+      projectPath,
+      getIndexer: vi.fn().mockResolvedValue(indexer as unknown as CodeIndexer),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  describe('parseResourceUri', () => {
+    it('should parse memory, summary and symbols URIs', () => {
+      expect(parseResourceUri(SUMMARY_URI)).toEqual({ type: 'summary' });
+      expect(parseResourceUri(memoryUri('my notes'))).toEqual({
+        type: 'memory',
+        name: 'my notes',
+      });
+      expect(parseResourceUri(symbolsUri('src/config.ts'))).toEqual({
+        type: 'symbols',
+        filepath: 'src/config.ts',
+      });
+      expect(parseResourceUri(symbolUri('src/config.ts', 'Config/load'))).toEqual({
+        type: 'symbol',
+        filepath: 'src/config.ts',
+        namePath: 'Config/load',
+      });
+      expect(parseResourceUri(worktreeUri('add-auth'))).toEqual({
+        type: 'worktree',
+        name: 'add-auth',
+      });
+    });
+
+    it('should reject unknown URIs and paths outside the project', () => {
+      expect(() => parseResourceUri('glancey://other')).toThrow(GlanceyError);
+      expect(() => parseResourceUri('glancey://symbols/../secret.ts')).toThrow(GlanceyError);
+      expect(() => parseResourceUri('glancey://memory/..%2Fsecret')).toThrow(GlanceyError);
+      expect(() => parseResourceUri('glancey://symbol/src/config.ts')).toThrow(GlanceyError);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should read the codebase summary', async () => {
+      const result = await readResource(SUMMARY_URI, context);
+
+      expect(textOf(result)).toContain('**Total Files**: 3');
+    });
+
+    it('should read a symbols overview', async () => {
+      await fs.writeFile(
+        path.join(projectPath, 'greeter.ts'),
+        'export class Greeter {\n  greet() {}\n}\n'
+      );
+
+      const result = await readResource(symbolsUri('greeter.ts'), context);
+
+      expect(textOf(result)).toContain('Greeter');
+      expect(textOf(result)).toContain('greet');
+    });
+
+    it('should read the source of a nested symbol', async () => {
+      await fs.writeFile(
+        path.join(projectPath, 'greeter.ts'),
+        'export class Greeter {\n  greet() {\n    return 1;\n  }\n}\n'
+      );
+
+      const result = await readResource(symbolUri('greeter.ts', 'Greeter/greet'), context);
+
+      expect(textOf(result)).toMatch(/\*\*Location:\*\* greeter\.ts:\d+-4/);
+      expect(textOf(result)).toContain('return 1;');
+      await expect(readResource(symbolUri('greeter.ts', 'Missing'), context)).rejects.toThrow(
+        'Symbol not found'
+      );
+    });
+
+    it('should report missing memories', async () => {
+      await expect(readResource(memoryUri('missing'), context)).rejects.toThrow('Memory not found');
+    });
+  });
+
+  describe('MCP handlers', () => {
+    let subscriptions: ResourceSubscriptions;
+    let client: Client;
+    let updates: string[];
+    let listChanges: number;
+
+    beforeEach(async () => {
+      subscriptions = new ResourceSubscriptions(projectPath);
+      subscriptions.start();
+
+      const server = new Server(
+        { name: 'test', version: '1.0.0' },
+        { capabilities: { resources: { subscribe: true, listChanged: true } } }
+      );
+      registerResourceHandlers(server, context, subscriptions);
+
+      updates = [];
+      listChanges = 0;
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        updates.push(notification.params.uri);
+      });
+      client.fallbackNotificationHandler = async (notification) => {
+        if (notification.method === 'notifications/resources/list_changed') listChanges++;
+      };
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      subscriptions.stop();
+    });
+
+    it('should list memories and the summary', async () => {
+      await new MemoryManager(projectPath).writeMemory('architecture', '# Layers');
+
+      const { resources } = await client.listResources();
+
+      expect(resources.map((r) => r.uri)).toEqual([SUMMARY_URI, memoryUri('architecture')]);
+    });
+
+    it('should list templates for memories, symbols and worktrees', async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+        'glancey://memory/{name}',
+        'glancey://symbols/{+path}',
+        'glancey://symbol/{+path}{?name_path}',
+        'glancey://worktree/{name}',
+      ]);
+    });
+
+    it('should read a memory', async () => {
+      await new MemoryManager(projectPath).writeMemory('architecture', '# Layers');
+
+      const result = await client.readResource({ uri: memoryUri('architecture') });
+
+      expect(result.contents[0]).toMatchObject({ mimeType: 'text/markdown', text: '# Layers' });
+    });
+
+    it('should notify subscribers when a memory changes', async () => {
+      const memories = new MemoryManager(projectPath);
+      await memories.writeMemory('architecture', '# Layers');
+      await client.subscribeResource({ uri: memoryUri('architecture') });
+
+      await memories.writeMemory('architecture', '# Layers\n\nUpdated');
+
+      await waitFor(() => updates.includes(memoryUri('architecture')));
+    });
+
+    it('should notify all sessions when a memory is added', async () => {
+      await new MemoryManager(projectPath).writeMemory('new-memory', 'content');
+
+      await waitFor(() => listChanges > 0);
+    });
+
+    it('should notify subscribers when a subscribed source file changes', async () => {
+      const filePath = path.join(projectPath, 'greeter.ts');
+      await fs.writeFile(filePath, 'export class Greeter {}\n');
+      await client.subscribeResource({ uri: symbolsUri('greeter.ts') });
+
+      await fs.writeFile(filePath, 'export class Greeter {}\nexport function hello() {}\n');
+
+      await waitFor(() => updates.includes(symbolsUri('greeter.ts')));
+    });
+
+    it('should only notify sessions subscribed to a resource', async () => {
+      subscriptions.notifyUpdated(SUMMARY_URI);
+      await client.subscribeResource({ uri: SUMMARY_URI });
+      subscriptions.notifyUpdated(SUMMARY_URI);
+      await client.unsubscribeResource({ uri: SUMMARY_URI });
+      subscriptions.notifyUpdated(SUMMARY_URI);
+
+      await waitFor(() => updates.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(updates).toEqual([SUMMARY_URI]);
+    });
+
+    it('should reject subscriptions to unknown resources', async () => {
+      await expect(client.subscribeResource({ uri: 'glancey://nope' })).rejects.toThrow(
+        'Unknown resource'
+      );
+    });
+
+    it('should keep subscriptions of a session serving another project apart', async () => {
+      const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-resources-root-'));
+      try {
+        const rootServer = new Server(
+          { name: 'test', version: '1.0.0' },
+          { capabilities: { resources: { subscribe: true, listChanged: true } } }
+        );
+        registerResourceHandlers(rootServer, { ...context, projectPath: rootPath }, subscriptions);
+        const rootUpdates: string[] = [];
+        const rootClient = new Client({ name: 'root-client', version: '1.0.0' });
+        rootClient.setNotificationHandler(ResourceUpdatedNotificationSchema, async (n) => {
+          rootUpdates.push(n.params.uri);
+        });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([
+          rootServer.connect(serverTransport),
+          rootClient.connect(clientTransport),
+        ]);
+
+        await client.subscribeResource({ uri: SUMMARY_URI });
+        await rootClient.subscribeResource({ uri: SUMMARY_URI });
+        await rootClient.subscribeResource({ uri: memoryUri('notes') });
+        subscriptions.notifyUpdated(SUMMARY_URI, rootPath);
+        await new MemoryManager(rootPath).writeMemory('notes', '# Notes');
+
+        await waitFor(() => rootUpdates.includes(memoryUri('notes')));
+        expect(rootUpdates).toContain(SUMMARY_URI);
+        expect(updates).toEqual([]);
+        expect(subscriptions.subscriberCount(SUMMARY_URI)).toBe(1);
+        expect(subscriptions.subscriberCount(SUMMARY_URI, rootPath)).toBe(1);
+        await rootClient.close();
+      } finally {
+        await fs.rm(rootPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should drop subscriptions when the session closes', async () => {
+      await client.subscribeResource({ uri: SUMMARY_URI });
+      expect(subscriptions.subscriberCount(SUMMARY_URI)).toBe(1);
+
+      await client.close();
+
+      await waitFor(() => subscriptions.subscriberCount(SUMMARY_URI) === 0);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListRootsRequestSchema, type Root } from '@modelcontextprotocol/sdk/types.js';
+import { SessionRoots, registerRootsHandlers, rootsToProjects } from '../../roots/index.js';
+import { GlanceyError } from '../../utils/errors.js';
+
+const DEFAULT_PATH = path.resolve('/work/default');
+const API_PATH = path.resolve('/work/api');
+const WEB_PATH = path.resolve('/work/web');
+
+describe('roots', () => {
+  describe('rootsToProjects', () => {
+    it('should convert file roots, skipping other schemes and duplicates', () => {
+      const projects = rootsToProjects([
+        { uri: pathToFileURL(API_PATH).href, name: 'backend' },
+        { uri: pathToFileURL(WEB_PATH).href },
+        { uri: 'https://example.com/repo' },
+        { uri: pathToFileURL(API_PATH).href, name: 'again' },
+      ]);
+
+      expect(projects).toEqual([
+        { name: 'backend', path: API_PATH },
+        { name: 'web', path: WEB_PATH },
+      ]);
+    });
+  });
+
+  describe('SessionRoots', () => {
+    it('should serve the default project without client roots', () => {
+      const roots = new SessionRoots(DEFAULT_PATH);
+
+      expect(roots.getProjects()).toEqual([{ name: 'default', path: DEFAULT_PATH }]);
+      expect(roots.resolveProject()).toBe(DEFAULT_PATH);
+    });
+
+    it('should default to the first client root', () => {
+      const roots = new SessionRoots(DEFAULT_PATH);
+      roots.setClientRoots([
+        { name: 'api', path: API_PATH },
+        { name: 'web', path: WEB_PATH },
+      ]);
+
+      expect(roots.resolveProject()).toBe(API_PATH);
+      expect(roots.getProjects().map((p) => p.name)).toEqual(['api', 'web']);
+    });
+
+    it('should keep an explicitly chosen project as the default', () => {
+      const roots = new SessionRoots(DEFAULT_PATH, true);
+      roots.setClientRoots([{ name: 'api', path: API_PATH }]);
+
+      expect(roots.resolveProject()).toBe(DEFAULT_PATH);
+      expect(roots.resolveProject('api')).toBe(API_PATH);
+    });
+
+    it('should resolve projects by name or path', () => {
+      const roots = new SessionRoots(DEFAULT_PATH);
+      roots.setClientRoots([
+        { name: 'api', path: API_PATH },
+        { name: 'web', path: WEB_PATH },
+      ]);
+
+      expect(roots.resolveProject('web')).toBe(WEB_PATH);
+      expect(roots.resolveProject(WEB_PATH)).toBe(WEB_PATH);
+    });
+
+    it('should reject unknown projects and list the available ones', () => {
+      const roots = new SessionRoots(DEFAULT_PATH);
+      roots.setClientRoots([{ name: 'api', path: API_PATH }]);
+
+      expect(() => roots.resolveProject('mobile')).toThrow(GlanceyError);
+      expect(() => roots.resolveProject('mobile')).toThrow(`api (${API_PATH})`);
+    });
+  });
+
+  describe('registerRootsHandlers', () => {
+    /**
+     * Connect a server with roots handling to a client that reports the given roots.
+     */
+    async function connect(clientRoots: Root[]) {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      const roots = new SessionRoots(DEFAULT_PATH);
+      registerRootsHandlers(server, roots);
+
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: { roots: { listChanged: true } } }
+      );
+      const listRoots = vi.fn(async () => ({ roots: clientRoots }));
+      client.setRequestHandler(ListRootsRequestSchema, listRoots);
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      await vi.waitFor(() => expect(listRoots).toHaveBeenCalled());
+      await roots.ready();
+      return { client, roots, listRoots };
+    }
+
+    it('should request the client roots after initialization', async () => {
+      const { client, roots } = await connect([{ uri: pathToFileURL(API_PATH).href }]);
+
+      expect(roots.resolveProject()).toBe(API_PATH);
+      await client.close();
+    });
+
+    it('should refresh the roots when the client reports a change', async () => {
+      const clientRoots: Root[] = [{ uri: pathToFileURL(API_PATH).href }];
+      const { client, roots, listRoots } = await connect(clientRoots);
+
+      clientRoots.push({ uri: pathToFileURL(WEB_PATH).href, name: 'frontend' });
+      await client.sendRootsListChanged();
+      await vi.waitFor(() => expect(listRoots).toHaveBeenCalledTimes(2));
+      await roots.ready();
+
+      expect(roots.resolveProject('frontend')).toBe(WEB_PATH);
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { BM25Index, tokenize, splitIdentifier } from '../../search/bm25.js';
+
+describe('bm25', () => {
+  describe('splitIdentifier', () => {
+    it('should split camelCase', () => {
+      expect(splitIdentifier('sanitizeForFilter')).toEqual(['sanitize', 'for', 'filter']);
+    });
+
+    it('should split PascalCase with acronyms', () => {
+      expect(splitIdentifier('HTTPServerError')).toEqual(['http', 'server', 'error']);
+    });
+
+    it('should split snake_case and SCREAMING_CASE', () => {
+      expect(splitIdentifier('max_chunk_size')).toEqual(['max', 'chunk', 'size']);
+      expect(splitIdentifier('MAX_CHUNK_SIZE')).toEqual(['max', 'chunk', 'size']);
+    });
+
+    it('should split trailing digits', () => {
+      expect(splitIdentifier('sha256')).toEqual(['sha', '256']);
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should keep whole identifiers alongside subwords', () => {
+      const tokens = tokenize('function sanitizeForFilter(value)');
+      expect(tokens).toContain('sanitizeforfilter');
+      expect(tokens).toContain('sanitize');
+      expect(tokens).toContain('filter');
+      expect(tokens).toContain('value');
+    });
+
+    it('should tokenize file paths', () => {
+      expect(tokenize('src/search/indexer.ts')).toEqual(['src', 'search', 'indexer', 'ts']);
+    });
+
+    it('should drop single-character tokens', () => {
+      expect(tokenize('a = b + c')).toEqual([]);
+    });
+
+    it('should return empty array for empty text', () => {
+      expect(tokenize('')).toEqual([]);
+    });
+  });
+
+  describe('BM25Index', () => {
+    const buildIndex = () => {
+      const index = new BM25Index();
+      index.add({
+        id: 'indexer',
+        content: 'function sanitizeForFilter(value: string): string { return value; }',
+        filepath: 'src/search/indexer.ts',
+        symbolName: 'sanitizeForFilter',
+      });
+      index.add({
+        id: 'caller',
+        content: 'const safe = sanitizeForFilter(path);',
+        filepath: 'src/search/query.ts',
+      });
+      index.add({
+        id: 'auth',
+        content: 'export function authenticate(user: User) { return checkToken(user); }',
+        filepath: 'src/auth/login.ts',
+        symbolName: 'authenticate',
+      });
+      return index;
+    };
+
+    it('should report its size', () => {
+      expect(buildIndex().size).toBe(3);
+    });
+
+    it('should return empty results for an empty index', () => {
+      expect(new BM25Index().search('anything', 10)).toEqual([]);
+    });
+
+    it('should return empty results when no terms match', () => {
+      expect(buildIndex().search('database migration', 10)).toEqual([]);
+    });
+
+    it('should rank the definition above usages for an exact identifier', () => {
+      const results = buildIndex().search('sanitizeForFilter', 10);
+      expect(results.map((r) => r.id)).toEqual(['indexer', 'caller']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('should flag exact symbol name matches', () => {
+      const results = buildIndex().search('sanitizeForFilter', 10);
+      expect(results.find((r) => r.id === 'indexer')?.exactSymbolMatch).toBe(true);
+      expect(results.find((r) => r.id === 'caller')?.exactSymbolMatch).toBe(false);
+    });
+
+    it('should match the last segment of qualified symbol names', () => {
+      const index = new BM25Index();
+      index.add({
+        id: 'method',
+        content: 'async search(query) {}',
+        filepath: 'src/indexer.ts',
+        symbolName: 'CodeIndexer.search',
+      });
+      expect(index.search('search', 10)[0].exactSymbolMatch).toBe(true);
+      expect(index.search('CodeIndexer.search', 10)[0].exactSymbolMatch).toBe(true);
+    });
+
+    it('should match subwords of identifiers', () => {
+      const results = buildIndex().search('filter', 10);
+      expect(results.map((r) => r.id)).toContain('indexer');
+    });
+
+    it('should match file path terms', () => {
+      const results = buildIndex().search('login', 10);
+      expect(results[0].id).toBe('auth');
+    });
+
+    it('should be case-insensitive', () => {
+      const lower = buildIndex().search('authenticate', 10);
+      const upper = buildIndex().search('AUTHENTICATE', 10);
+      expect(upper).toEqual(lower);
+    });
+
+    it('should respect the limit', () => {
+      expect(buildIndex().search('sanitizeForFilter', 1)).toHaveLength(1);
+    });
+
+    it('should weight rare terms higher than common terms', () => {
+      const index = new BM25Index();
+      index.add({ id: 'a', content: 'common rare', filepath: 'a.ts' });
+      index.add({ id: 'b', content: 'common common', filepath: 'b.ts' });
+      index.add({ id: 'c', content: 'common', filepath: 'c.ts' });
+
+      const results = index.search('common rare', 10);
+      expect(results[0].id).toBe('a');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createSymbolChunkIds, splitLargeChunk } from '../../search/chunk-utils.js';
+
+describe('chunk-utils', () => {
+  describe('createSymbolChunkIds', () => {
+    it('should anchor IDs to the name path and content hash', () => {
+      const ids = createSymbolChunkIds('src/user.ts', [
+        { type: 'method', name: 'UserService.save', contentHash: '3f2a9c1b0d4e5f6a7b8c' },
+      ]);
+
+      expect(ids).toEqual(['src/user.ts#UserService.save@3f2a9c1b0d4e']);
+    });
+
+    it('should use the symbol type for unnamed chunks', () => {
+      const ids = createSymbolChunkIds('src/main.ts', [{ type: 'other', contentHash: 'abcdef' }]);
+
+      expect(ids).toEqual(['src/main.ts#<other>@abcdef']);
+    });
+
+    it('should not depend on line numbers', () => {
+      const chunk = { type: 'function' as const, name: 'load', contentHash: 'aaaa' };
+
+      const before = createSymbolChunkIds('a.ts', [chunk]);
+      const after = createSymbolChunkIds('a.ts', [
+        { type: 'function', name: 'init', contentHash: 'bbbb' },
+        chunk,
+      ]);
+
+      expect(after[1]).toBe(before[0]);
+    });
+
+    it('should change when the content changes', () => {
+      const [first] = createSymbolChunkIds('a.ts', [
+        { type: 'function', name: 'load', contentHash: 'aaaa' },
+      ]);
+      const [second] = createSymbolChunkIds('a.ts', [
+        { type: 'function', name: 'load', contentHash: 'cccc' },
+      ]);
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should disambiguate identical chunks within a file', () => {
+      const ids = createSymbolChunkIds('a.ts', [
+        { type: 'other', contentHash: 'aaaa' },
+        { type: 'other', contentHash: 'aaaa' },
+      ]);
+
+      expect(ids).toEqual(['a.ts#<other>@aaaa', 'a.ts#<other>@aaaa~2']);
+    });
+  });
+
+  describe('splitLargeChunk', () => {
+    it('should name split parts', () => {
+      const content = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n');
+
+      const parts = splitLargeChunk(
+        { content, startLine: 1, endLine: 10, type: 'function', name: 'big' },
+        5,
+        2
+      );
+
+      expect(parts.map((p) => p.name)).toEqual(['big (part 1)', 'big (part 2)']);
+      expect(parts.map((p) => [p.startLine, p.endLine])).toEqual([
+        [1, 5],
+        [6, 10],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { DataChunker } from '../../search/data-chunker.js';
+
+describe('DataChunker', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-chunker-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('canParse', () => {
+    it('should return true for JSON and YAML files', () => {
+      expect(DataChunker.canParse('package.json')).toBe(true);
+      expect(DataChunker.canParse('settings.jsonc')).toBe(true);
+      expect(DataChunker.canParse('openapi.yaml')).toBe(true);
+      expect(DataChunker.canParse('.github/workflows/ci.YML')).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(DataChunker.canParse('README.md')).toBe(false);
+      expect(DataChunker.canParse('config.toml')).toBe(false);
+    });
+  });
+
+  describe('chunkFile - JSON', () => {
+    it('should chunk top-level keys and group one-line values', async () => {
+      const json = {
+        name: 'shop',
+        version: '1.0.0',
+        scripts: { build: 'tsc', test: 'vitest' },
+        private: true,
+        dependencies: { zod: '^4.0.0' },
+      };
+      const filepath = path.join(tempDir, 'package.json');
+      await fs.writeFile(filepath, JSON.stringify(json, null, 2));
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks.map((c) => [c.type, c.name, c.startLine, c.endLine])).toEqual([
+        ['key', 'name, version', 2, 3],
+        ['key', 'scripts', 4, 7],
+        ['key', 'private', 8, 8],
+        ['key', 'dependencies', 9, 11],
+      ]);
+    });
+
+    it('should split large objects on their second-level keys', async () => {
+      const paths: Record<string, unknown> = {};
+      for (let i = 0; i < 20; i++) {
+        paths[`/items/${i}`] = { get: { summary: `Get item ${i}`, responses: { 200: 'ok' } } };
+      }
+      const filepath = path.join(tempDir, 'openapi.json');
+      await fs.writeFile(filepath, JSON.stringify({ openapi: '3.0.0', paths }, null, 2));
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks[0].name).toBe('openapi');
+      expect(chunks[1].name).toBe('paths./items/0');
+      expect(chunks[1].content).toContain('Get item 0');
+      expect(chunks).toHaveLength(21);
+    });
+
+    it('should accept comments in JSON', async () => {
+      const filepath = path.join(tempDir, 'tsconfig.json');
+      await fs.writeFile(
+        filepath,
+        '{\n  // Compiler settings\n  "compilerOptions": {\n    "strict": true\n  }\n}\n'
+      );
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks.map((c) => c.name)).toEqual(['compilerOptions']);
+    });
+
+    it('should throw for a document without keys', async () => {
+      const filepath = path.join(tempDir, 'list.json');
+      await fs.writeFile(filepath, '[1, 2, 3]');
+
+      await expect(new DataChunker().chunkFile(filepath)).rejects.toThrow('No top-level keys');
+    });
+  });
+
+  describe('chunkFile - YAML', () => {
+    it('should chunk top-level keys with their comments', async () => {
+      const yaml = `name: CI
+on:
+  push:
+    branches: [main]
+
+# Build and test on every push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: npm test
+`;
+      const filepath = path.join(tempDir, 'ci.yml');
+      await fs.writeFile(filepath, yaml);
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks.map((c) => [c.name, c.startLine, c.endLine])).toEqual([
+        ['name', 1, 1],
+        ['on', 2, 4],
+        ['jobs', 6, 11],
+      ]);
+    });
+
+    it('should split large mappings on their second-level keys', async () => {
+      const endpoints = Array.from(
+        { length: 20 },
+        (_, i) => `  "/items/${i}":
+    get:
+      description: |
+        Returns item ${i}.
+        note: not a key
+      responses:
+        '200':
+          description: ok`
+      ).join('\n');
+      const yaml = `openapi: 3.0.0\ninfo:\n  title: Shop\n  version: 1.0.0\npaths:\n${endpoints}\n`;
+      const filepath = path.join(tempDir, 'openapi.yaml');
+      await fs.writeFile(filepath, yaml);
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks.map((c) => c.name).slice(0, 4)).toEqual([
+        'openapi',
+        'info',
+        'paths./items/0',
+        'paths./items/1',
+      ]);
+      expect(chunks).toHaveLength(22);
+      expect(chunks[2].content).toContain('note: not a key');
+    });
+
+    it('should chunk every document of a multi-document file', async () => {
+      const yaml = `kind: Service
+metadata:
+  name: api
+---
+kind: Deployment
+metadata:
+  name: api
+`;
+      const filepath = path.join(tempDir, 'k8s.yaml');
+      await fs.writeFile(filepath, yaml);
+
+      const chunks = await new DataChunker().chunkFile(filepath);
+
+      expect(chunks.map((c) => [c.name, c.startLine, c.endLine])).toEqual([
+        ['kind', 1, 1],
+        ['metadata', 2, 3],
+        ['kind', 5, 5],
+        ['metadata', 6, 7],
+      ]);
+    });
+
+    it('should throw for a list at the root', async () => {
+      const filepath = path.join(tempDir, 'list.yaml');
+      await fs.writeFile(filepath, '- one\n- two\n');
+
+      await expect(new DataChunker().chunkFile(filepath)).rejects.toThrow('No top-level keys');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  EmbeddingAvailability,
+  EMBEDDING_RETRY_INTERVAL_MS,
+} from '../../search/embedding-availability.js';
+import { createMockEmbeddingBackend } from '../mocks/embedding-backend.mock.js';
+
+describe('EmbeddingAvailability', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should be available until marked unavailable', async () => {
+    const backend = createMockEmbeddingBackend();
+    const availability = new EmbeddingAvailability(backend, vi.fn());
+
+    expect(await availability.checkAvailable()).toBe(true);
+
+    availability.markUnavailable('429 quota exceeded');
+
+    expect(availability.getUnavailableReason()).toBe('429 quota exceeded');
+    expect(await availability.checkAvailable()).toBe(false);
+    // Not retried before the interval has passed
+    expect(backend.initialize).not.toHaveBeenCalled();
+  });
+
+  it('should re-initialize the backend after the retry interval', async () => {
+    const backend = createMockEmbeddingBackend();
+    const availability = new EmbeddingAvailability(backend, vi.fn());
+    availability.markUnavailable('connection refused');
+
+    vi.advanceTimersByTime(EMBEDDING_RETRY_INTERVAL_MS);
+
+    expect(await availability.checkAvailable()).toBe(true);
+    expect(backend.initialize).toHaveBeenCalledTimes(1);
+    expect(availability.getUnavailableReason()).toBeUndefined();
+  });
+
+  it('should run queued indexing once the backend recovers', async () => {
+    const initialize = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('still down'))
+      .mockResolvedValue(undefined);
+    const backend = createMockEmbeddingBackend({ initialize });
+    const runQueued = vi.fn().mockResolvedValue(undefined);
+    const availability = new EmbeddingAvailability(backend, runQueued);
+
+    availability.markUnavailable('connection refused');
+    availability.queue(false);
+    availability.queue(true);
+    expect(availability.isQueued()).toBe(true);
+
+    // First retry fails and keeps the indexing queued
+    await vi.advanceTimersByTimeAsync(EMBEDDING_RETRY_INTERVAL_MS);
+    expect(runQueued).not.toHaveBeenCalled();
+    expect(availability.getUnavailableReason()).toContain('still down');
+
+    await vi.advanceTimersByTimeAsync(EMBEDDING_RETRY_INTERVAL_MS);
+    expect(runQueued).toHaveBeenCalledTimes(1);
+    expect(runQueued).toHaveBeenCalledWith(true);
+    expect(availability.isQueued()).toBe(false);
+  });
+
+  it('should drop queued indexing when disposed', async () => {
+    const runQueued = vi.fn();
+    const availability = new EmbeddingAvailability(createMockEmbeddingBackend(), runQueued);
+
+    availability.markUnavailable('connection refused');
+    availability.queue(false);
+    availability.dispose();
+    await vi.advanceTimersByTimeAsync(EMBEDDING_RETRY_INTERVAL_MS);
+
+    expect(runQueued).not.toHaveBeenCalled();
+    expect(availability.isQueued()).toBe(false);
+  });
+});
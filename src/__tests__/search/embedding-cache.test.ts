@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Connection } from '@lancedb/lancedb';
+import {
+  EmbeddingCache,
+  getEmbeddingCacheTableName,
+  hashContent,
+} from '../../search/embedding-cache.js';
+import { createMockConnection, createMockTable } from '../mocks/lancedb.mock.js';
+
+const KEY = { backend: 'gemini', model: 'gemini-embedding-001', dimensions: 3 };
+
+describe('embedding-cache', () => {
+  describe('hashContent', () => {
+    it('should be deterministic', () => {
+      expect(hashContent('const x = 1;')).toBe(hashContent('const x = 1;'));
+    });
+
+    it('should differ for different content', () => {
+      expect(hashContent('const x = 1;')).not.toBe(hashContent('const x = 2;'));
+    });
+  });
+
+  describe('getEmbeddingCacheTableName', () => {
+    it('should produce a stable name per embedding space', () => {
+      expect(getEmbeddingCacheTableName(KEY)).toBe(getEmbeddingCacheTableName({ ...KEY }));
+      expect(getEmbeddingCacheTableName(KEY)).toMatch(/^embedding_cache_[0-9a-f]{16}$/);
+    });
+
+    it('should separate backends, models and dimensions', () => {
+      const names = new Set([
+        getEmbeddingCacheTableName(KEY),
+        getEmbeddingCacheTableName({ ...KEY, backend: 'ollama' }),
+        getEmbeddingCacheTableName({ ...KEY, model: 'other-model' }),
+        getEmbeddingCacheTableName({ ...KEY, dimensions: 768 }),
+      ]);
+      expect(names.size).toBe(4);
+    });
+
+    it('should separate document modes but keep the name of plain caches', () => {
+      expect(getEmbeddingCacheTableName({ ...KEY, documentMode: 'plain' })).toBe(
+        getEmbeddingCacheTableName(KEY)
+      );
+      expect(
+        getEmbeddingCacheTableName({ ...KEY, documentMode: 'task:RETRIEVAL_DOCUMENT' })
+      ).not.toBe(getEmbeddingCacheTableName(KEY));
+    });
+  });
+
+  describe('EmbeddingCache', () => {
+    it('should return no hits when the cache table does not exist', async () => {
+      const connection = createMockConnection();
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      const hits = await cache.getMany(['abc']);
+
+      expect(hits.size).toBe(0);
+      expect(connection.openTable).not.toHaveBeenCalled();
+    });
+
+    it('should create the cache table on first write', async () => {
+      const connection = createMockConnection();
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      await cache.putMany([{ hash: 'abc', embedding: [0.1, 0.2, 0.3] }]);
+
+      expect(connection.createTable).toHaveBeenCalledWith(getEmbeddingCacheTableName(KEY), [
+        { hash: 'abc', vector: [0.1, 0.2, 0.3] },
+      ]);
+    });
+
+    it('should round-trip embeddings by hash', async () => {
+      const connection = createMockConnection();
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      await cache.putMany([
+        { hash: 'abc', embedding: [0.1, 0.2, 0.3] },
+        { hash: 'def', embedding: [0.4, 0.5, 0.6] },
+      ]);
+      const hits = await cache.getMany(['abc', 'missing']);
+
+      expect(hits.get('abc')).toEqual([0.1, 0.2, 0.3]);
+      expect(hits.has('def')).toBe(false);
+      expect(hits.has('missing')).toBe(false);
+    });
+
+    it('should append to an existing cache table', async () => {
+      const table = createMockTable([{ hash: 'abc', vector: [1, 2, 3] }]);
+      const connection = createMockConnection({ [getEmbeddingCacheTableName(KEY)]: table });
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      await cache.putMany([{ hash: 'def', embedding: [4, 5, 6] }]);
+
+      expect(table.add).toHaveBeenCalledWith([{ hash: 'def', vector: [4, 5, 6] }]);
+      expect(await cache.size()).toBe(2);
+    });
+
+    it('should skip duplicate hashes and empty embeddings', async () => {
+      const connection = createMockConnection();
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      await cache.putMany([
+        { hash: 'abc', embedding: [1, 2, 3] },
+        { hash: 'abc', embedding: [1, 2, 3] },
+        { hash: 'empty', embedding: [] },
+      ]);
+
+      expect(connection.createTable).toHaveBeenCalledWith(getEmbeddingCacheTableName(KEY), [
+        { hash: 'abc', vector: [1, 2, 3] },
+      ]);
+    });
+
+    it('should treat lookup failures as misses', async () => {
+      const table = createMockTable([{ hash: 'abc', vector: [1, 2, 3] }]);
+      table.query = vi.fn().mockImplementation(() => {
+        throw new Error('corrupt table');
+      });
+      const connection = createMockConnection({ [getEmbeddingCacheTableName(KEY)]: table });
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      const hits = await cache.getMany(['abc']);
+
+      expect(hits.size).toBe(0);
+    });
+
+    it('should not throw when writes fail', async () => {
+      const connection = createMockConnection();
+      connection.createTable.mockRejectedValue(new Error('disk full'));
+      const cache = new EmbeddingCache(connection as unknown as Connection, KEY);
+
+      await expect(cache.putMany([{ hash: 'abc', embedding: [1, 2, 3] }])).resolves.toBeUndefined();
+    });
+  });
+});
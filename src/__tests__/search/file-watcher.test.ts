@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import { FileWatcher } from '../../search/file-watcher.js';
+
+const PROJECT = '/project';
+
+describe('FileWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should batch changes until the debounce period has passed', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('src/a.ts');
+    await vi.advanceTimersByTimeAsync(50);
+    watcher.enqueue('src/b.ts');
+    watcher.enqueue('src/a.ts');
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(onChanges).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(onChanges).toHaveBeenCalledWith([
+      path.join(PROJECT, 'src/a.ts'),
+      path.join(PROJECT, 'src/b.ts'),
+    ]);
+  });
+
+  it('should ignore changes in .git, .glancey and node_modules', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('.git/index');
+    watcher.enqueue('.glancey/code_chunks.lance/data');
+    watcher.enqueue('node_modules/pkg/index.js');
+    watcher.enqueue('packages/app/node_modules/pkg/index.js');
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(watcher.pendingCount).toBe(0);
+    expect(onChanges).not.toHaveBeenCalled();
+  });
+
+  it('should pass through changes to .git/info/exclude', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('.git/info/exclude');
+    watcher.enqueue('.git/info/refs');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onChanges).toHaveBeenCalledWith([path.join(PROJECT, '.git/info/exclude')]);
+  });
+
+  it('should apply the filter to relative paths', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, {
+      debounceMs: 100,
+      onChanges,
+      filter: (relativePath) => relativePath.endsWith('.ts'),
+    });
+
+    watcher.enqueue('src/a.ts');
+    watcher.enqueue('assets/logo.png');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onChanges).toHaveBeenCalledWith([path.join(PROJECT, 'src/a.ts')]);
+  });
+
+  it('should flush within the maximum wait despite continuous changes', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    for (let i = 0; i < 20; i++) {
+      watcher.enqueue(`src/file${i}.ts`);
+      await vi.advanceTimersByTimeAsync(90);
+    }
+
+    expect(onChanges).toHaveBeenCalled();
+    expect(onChanges.mock.calls[0][0].length).toBeLessThan(20);
+  });
+
+  it('should retry while the handler is busy', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    let busy = true;
+    const watcher = new FileWatcher(PROJECT, {
+      debounceMs: 100,
+      onChanges,
+      isBusy: () => busy,
+    });
+
+    watcher.enqueue('src/a.ts');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChanges).not.toHaveBeenCalled();
+    expect(watcher.pendingCount).toBe(1);
+
+    busy = false;
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(watcher.pendingCount).toBe(0);
+  });
+
+  it('should report pending counts including the batch being indexed', async () => {
+    let finish: () => void = () => {};
+    const onChanges = vi.fn().mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const onPendingChange = vi.fn();
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges, onPendingChange });
+
+    watcher.enqueue('src/a.ts');
+    watcher.enqueue('src/b.ts');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(watcher.pendingCount).toBe(2);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(watcher.pendingCount).toBe(0);
+    expect(onPendingChange.mock.calls.map(([count]) => count)).toEqual([1, 2, 0]);
+  });
+
+  it('should retry a failed batch with backoff', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onChanges = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Index is being built by PID 42'))
+      .mockRejectedValueOnce(new Error('embedding failed'))
+      .mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('src/a.ts');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(watcher.pendingCount).toBe(1);
+
+    // New changes join the retry, which waits twice the debounce period
+    watcher.enqueue('src/b.ts');
+    await vi.advanceTimersByTimeAsync(150);
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(onChanges).toHaveBeenCalledTimes(2);
+
+    // The second failure doubles the delay again
+    await vi.advanceTimersByTimeAsync(300);
+    expect(onChanges).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onChanges).toHaveBeenCalledTimes(3);
+    expect(onChanges).toHaveBeenLastCalledWith([
+      path.join(PROJECT, 'src/a.ts'),
+      path.join(PROJECT, 'src/b.ts'),
+    ]);
+    expect(watcher.pendingCount).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it('should not retry a failed batch after being stopped', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let fail: (error: Error) => void = () => {};
+    const onChanges = vi.fn().mockImplementation(
+      () =>
+        new Promise<void>((_resolve, reject) => {
+          fail = reject;
+        })
+    );
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('src/a.ts');
+    await vi.advanceTimersByTimeAsync(100);
+    watcher.stop();
+    fail(new Error('embedding failed'));
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(watcher.pendingCount).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it('should drop queued changes when stopped', async () => {
+    const onChanges = vi.fn().mockResolvedValue(undefined);
+    const watcher = new FileWatcher(PROJECT, { debounceMs: 100, onChanges });
+
+    watcher.enqueue('src/a.ts');
+    watcher.stop();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(watcher.isWatching).toBe(false);
+    expect(watcher.pendingCount).toBe(0);
+    expect(onChanges).not.toHaveBeenCalled();
+  });
+});
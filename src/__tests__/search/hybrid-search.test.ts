@@ -1,193 +1,10 @@
 import { describe, it, expect } from 'vitest';
 
 /**
- * Tests for keyword scoring logic used in hybrid search.
- * These tests verify the calculateKeywordScore algorithm behavior.
+ * Tests for the score fusion used in hybrid search.
+ * Keyword scoring itself is covered by bm25.test.ts.
  */
 
-// Recreate the scoring logic for testing (extracted from indexer.ts)
-function calculateKeywordScore(query: string, content: string, filepath: string): number {
-  const queryTerms = query
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((t) => t.length > 2);
-  if (queryTerms.length === 0) return 0;
-
-  const contentLower = content.toLowerCase();
-  const filepathLower = filepath.toLowerCase();
-
-  let matchCount = 0;
-  let exactMatchBonus = 0;
-
-  for (const term of queryTerms) {
-    // Check content matches
-    if (contentLower.includes(term)) {
-      matchCount++;
-
-      // Bonus for exact word match (not just substring)
-      const wordBoundaryRegex = new RegExp(`\\b${term}\\b`, 'i');
-      if (wordBoundaryRegex.test(content)) {
-        exactMatchBonus += 0.5;
-      }
-    }
-
-    // Bonus for filename/path match
-    if (filepathLower.includes(term)) {
-      matchCount += 0.5;
-    }
-  }
-
-  // Normalize score to 0-1 range
-  const baseScore = matchCount / queryTerms.length;
-  const bonusScore = Math.min(exactMatchBonus / queryTerms.length, 0.5);
-
-  return Math.min(baseScore + bonusScore, 1);
-}
-
-describe('calculateKeywordScore', () => {
-  describe('basic term matching', () => {
-    it('should return 0 when no terms match', () => {
-      const score = calculateKeywordScore('hello world', 'foo bar', 'test.ts');
-      expect(score).toBe(0);
-    });
-
-    it('should return 1 when all terms match exactly', () => {
-      const score = calculateKeywordScore('hello world', 'hello world function', 'test.ts');
-      expect(score).toBe(1);
-    });
-
-    it('should return partial score when some terms match', () => {
-      const score = calculateKeywordScore('hello world', 'hello foo', 'test.ts');
-      expect(score).toBeGreaterThan(0);
-      expect(score).toBeLessThan(1);
-    });
-
-    it('should filter terms shorter than 3 characters', () => {
-      const score = calculateKeywordScore('a ab abc', 'abc only', 'test.ts');
-      // Only 'abc' should be considered
-      expect(score).toBe(1); // abc matches exactly
-    });
-
-    it('should return 0 when all terms are too short', () => {
-      const score = calculateKeywordScore('a ab', 'a ab', 'test.ts');
-      expect(score).toBe(0);
-    });
-  });
-
-  describe('word boundary matching', () => {
-    it('should give bonus for exact word match', () => {
-      // These variables demonstrate the concept even though not directly asserted
-      const _substringOnlyScore = calculateKeywordScore('user', 'username', 'test.ts');
-      const _exactScore = calculateKeywordScore('user', 'user data', 'test.ts');
-
-      // Exact match should score higher due to word boundary bonus (0.5 extra)
-      // substringOnlyScore: 1/1 = 1 (base) + 0 (no word boundary) = 1
-      // exactScore: 1/1 = 1 (base) + 0.5 (word boundary) = 1.5, capped at 1
-      // Since both cap at 1, we need different test
-      // Actually substring match in 'username' still gives base score of 1
-      // Let's test with a term that doesn't substring match at all vs exact match
-      const noMatch = calculateKeywordScore('auth', 'user data', 'test.ts');
-      const withExactMatch = calculateKeywordScore('auth', 'auth data', 'test.ts');
-
-      expect(withExactMatch).toBeGreaterThan(noMatch);
-    });
-
-    it('should recognize word boundaries with punctuation', () => {
-      const score = calculateKeywordScore('test', 'const test = 1;', 'test.ts');
-      // Should get exact match bonus
-      expect(score).toBeGreaterThan(0.5);
-    });
-
-    it('should handle camelCase boundaries', () => {
-      // Note: the regex uses \b which may not split camelCase
-      const score = calculateKeywordScore('user', 'getUserData', 'test.ts');
-      // Substring match, no word boundary bonus
-      expect(score).toBeGreaterThan(0);
-    });
-  });
-
-  describe('filename/path bonus', () => {
-    it('should add bonus when term matches filepath', () => {
-      const _noPathMatch = calculateKeywordScore('auth', 'authentication code', 'utils.ts');
-      const withPathMatch = calculateKeywordScore('auth', 'code here', 'auth.ts');
-
-      // Both should have some score, path match gives 0.5 bonus per term
-      expect(withPathMatch).toBeGreaterThan(0);
-    });
-
-    it('should add bonus for directory match', () => {
-      const score = calculateKeywordScore('auth', 'some code', 'src/auth/login.ts');
-      expect(score).toBeGreaterThan(0);
-    });
-
-    it('should combine content and path matches', () => {
-      const contentOnly = calculateKeywordScore('auth', 'auth function', 'utils.ts');
-      const pathOnly = calculateKeywordScore('auth', 'function here', 'auth.ts');
-      const both = calculateKeywordScore('auth', 'auth function', 'auth.ts');
-
-      // contentOnly: 1 (content match) + 0.5 (word boundary) = 1.5, capped at 1
-      // pathOnly: 0.5 (path match only) / 1 = 0.5
-      // both: 1 + 0.5 (content+boundary) + 0.5 (path) = 2, capped at 1
-      expect(both).toBeGreaterThanOrEqual(contentOnly);
-      expect(both).toBeGreaterThan(pathOnly);
-    });
-  });
-
-  describe('score normalization', () => {
-    it('should never exceed 1', () => {
-      // Many matches, should still cap at 1
-      const score = calculateKeywordScore(
-        'auth user login',
-        'auth user login authentication',
-        'auth-user-login.ts'
-      );
-      expect(score).toBeLessThanOrEqual(1);
-    });
-
-    it('should scale with number of matching terms', () => {
-      const oneMatch = calculateKeywordScore('auth user login', 'auth only', 'test.ts');
-      const twoMatches = calculateKeywordScore('auth user login', 'auth user only', 'test.ts');
-      const threeMatches = calculateKeywordScore('auth user login', 'auth user login', 'test.ts');
-
-      // oneMatch: 1 match of 3 terms = 0.33 base + 0.5/3 word boundary bonus = ~0.5
-      // twoMatches: 2 matches of 3 terms = 0.66 base + 1.0/3 word boundary bonus = ~0.99
-      // threeMatches: 3 matches of 3 terms = 1.0 base + 0.5 word boundary (capped) = 1.0
-      expect(threeMatches).toBeGreaterThanOrEqual(twoMatches);
-      expect(twoMatches).toBeGreaterThan(oneMatch);
-    });
-  });
-
-  describe('case insensitivity', () => {
-    it('should match regardless of case', () => {
-      const lowerScore = calculateKeywordScore('auth', 'auth function', 'test.ts');
-      const upperScore = calculateKeywordScore('AUTH', 'auth function', 'test.ts');
-      const mixedScore = calculateKeywordScore('Auth', 'AUTH function', 'test.ts');
-
-      expect(lowerScore).toBeGreaterThan(0);
-      expect(upperScore).toBeGreaterThan(0);
-      expect(mixedScore).toBeGreaterThan(0);
-    });
-  });
-
-  describe('edge cases', () => {
-    it('should handle empty query', () => {
-      const score = calculateKeywordScore('', 'some content', 'test.ts');
-      expect(score).toBe(0);
-    });
-
-    it('should handle empty content', () => {
-      const score = calculateKeywordScore('hello world', '', 'test.ts');
-      expect(score).toBe(0);
-    });
-
-    it('should handle special regex characters in query', () => {
-      // Should not throw
-      const score = calculateKeywordScore('file.test', 'file.test content', 'test.ts');
-      expect(score).toBeGreaterThan(0);
-    });
-  });
-});
-
 describe('hybrid search scoring', () => {
   // Test the combined 70/30 semantic/keyword formula
   describe('combined score calculation', () => {
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  IndexLock,
+  INDEX_LOCK_FILENAME,
+  isLockStale,
+  type IndexLockInfo,
+} from '../../search/index-lock.js';
+import { GlanceyError } from '../../utils/errors.js';
+
+describe('IndexLock', () => {
+  let indexPath: string;
+  let lockPath: string;
+
+  const writeLock = async (overrides: Partial<IndexLockInfo> = {}) => {
+    const now = new Date().toISOString();
+    const info: IndexLockInfo = {
+      pid: process.ppid,
+      hostname: os.hostname(),
+      operation: 'indexing',
+      acquiredAt: now,
+      heartbeatAt: now,
+      ...overrides,
+    };
+    await fs.writeFile(lockPath, JSON.stringify(info));
+    return info;
+  };
+
+  beforeEach(async () => {
+    indexPath = await fs.mkdtemp(path.join(os.tmpdir(), 'index-lock-test-'));
+    lockPath = path.join(indexPath, INDEX_LOCK_FILENAME);
+  });
+
+  afterEach(async () => {
+    await fs.rm(indexPath, { recursive: true, force: true });
+  });
+
+  it('should create the lock file with owner PID', async () => {
+    const lock = new IndexLock(indexPath);
+
+    const holder = await lock.tryAcquire('indexing');
+
+    const info = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    expect(holder).toBeNull();
+    expect(lock.isHeld).toBe(true);
+    expect(info).toMatchObject({ pid: process.pid, operation: 'indexing' });
+    await lock.release();
+  });
+
+  it('should remove the lock file on release', async () => {
+    const lock = new IndexLock(indexPath);
+
+    await lock.withLock('clearing', async () => {});
+
+    await expect(fs.access(lockPath)).rejects.toThrow();
+    expect(lock.isHeld).toBe(false);
+  });
+
+  it('should be re-entrant for nested operations', async () => {
+    const lock = new IndexLock(indexPath);
+
+    await lock.withLock('indexing', async () => {
+      await lock.withLock('clearing', async () => {});
+      // Still held by the outer operation
+      await expect(fs.access(lockPath)).resolves.toBeUndefined();
+    });
+
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('should serialize concurrent operations in one process', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const lock = new IndexLock(indexPath);
+    const events: string[] = [];
+    let finishFirst!: () => void;
+
+    const first = lock.withLock('indexing', async () => {
+      events.push('first start');
+      await new Promise<void>((resolve) => {
+        finishFirst = resolve;
+      });
+      events.push('first end');
+    });
+    await vi.waitFor(() => expect(events).toEqual(['first start']));
+
+    const second = lock.withLock('clearing', async () => {
+      events.push('second start');
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(events).toEqual(['first start']);
+
+    finishFirst();
+    await Promise.all([first, second]);
+
+    expect(events).toEqual(['first start', 'first end', 'second start']);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+    consoleSpy.mockRestore();
+  });
+
+  it('should report an operation in this process as the holder', async () => {
+    const lock = new IndexLock(indexPath);
+    await lock.tryAcquire('indexing');
+
+    const holder = await lock.tryAcquire('clearing');
+    const error = await lock.acquire('clearing', 0).catch((e) => e);
+
+    expect(holder).toMatchObject({ pid: process.pid, operation: 'indexing' });
+    expect(error).toBeInstanceOf(GlanceyError);
+    expect(error.message).toContain('Index is being built by another operation in this process');
+    await lock.release();
+  });
+
+  it('should report a live holder from another process', async () => {
+    const held = await writeLock();
+    const lock = new IndexLock(indexPath);
+
+    expect(await lock.tryAcquire('indexing')).toEqual(held);
+    expect(await lock.getHolder()).toEqual(held);
+    expect(lock.isHeld).toBe(false);
+  });
+
+  it('should throw after waiting for a live holder', async () => {
+    await writeLock();
+    const lock = new IndexLock(indexPath);
+
+    const error = await lock.acquire('indexing', 0).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GlanceyError);
+    expect(error.message).toContain(`Index is being built by PID ${process.ppid} (indexing since`);
+  });
+
+  it('should take over a lock whose heartbeat stopped', async () => {
+    await writeLock({ heartbeatAt: new Date(Date.now() - 60_000).toISOString() });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const lock = new IndexLock(indexPath);
+
+    const holder = await lock.tryAcquire('indexing');
+
+    const info = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    expect(holder).toBeNull();
+    expect(info.pid).toBe(process.pid);
+    await lock.release();
+    consoleSpy.mockRestore();
+  });
+
+  it('should let only one of two racing processes take over a stale lock', async () => {
+    await writeLock({ heartbeatAt: new Date(Date.now() - 60_000).toISOString() });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const first = new IndexLock(indexPath);
+    const second = new IndexLock(indexPath);
+
+    const holders = await Promise.all([
+      first.tryAcquire('indexing'),
+      second.tryAcquire('clearing'),
+    ]);
+
+    const winner = holders[0] === null ? first : second;
+    const info = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    expect(holders.filter((holder) => holder === null)).toHaveLength(1);
+    expect(winner.isHeld).toBe(true);
+    expect(info.operation).toBe(winner === first ? 'indexing' : 'clearing');
+    expect(await fs.readdir(indexPath)).toEqual([INDEX_LOCK_FILENAME]);
+    await winner.release();
+    consoleSpy.mockRestore();
+  });
+
+  it('should not take over a lock that another process took over first', async () => {
+    const stale = await writeLock({ heartbeatAt: new Date(Date.now() - 60_000).toISOString() });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const first = new IndexLock(indexPath);
+    const second = new IndexLock(indexPath);
+    // The second process read the stale lock just before the first one replaced it
+    const read = second['read'].bind(second);
+    second['read'] = async () => {
+      second['read'] = read;
+      return stale;
+    };
+
+    expect(await first.tryAcquire('indexing')).toBeNull();
+    const holder = await second.tryAcquire('clearing');
+
+    const info = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    expect(holder).toMatchObject({ pid: process.pid, operation: 'indexing' });
+    expect(second.isHeld).toBe(false);
+    expect(info.operation).toBe('indexing');
+    expect(await fs.readdir(indexPath)).toEqual([INDEX_LOCK_FILENAME]);
+    await first.release();
+    consoleSpy.mockRestore();
+  });
+
+  it('should not remove a lock taken over by another process', async () => {
+    const lock = new IndexLock(indexPath);
+    await lock.tryAcquire('indexing');
+
+    const other = await writeLock();
+    await lock.release();
+
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toEqual(other);
+  });
+
+  describe('isLockStale', () => {
+    const fresh = (): IndexLockInfo => ({
+      pid: process.pid,
+      hostname: os.hostname(),
+      operation: 'indexing',
+      acquiredAt: new Date().toISOString(),
+      heartbeatAt: new Date().toISOString(),
+    });
+
+    it('should treat a recent heartbeat from a live process as fresh', () => {
+      expect(isLockStale(fresh())).toBe(false);
+    });
+
+    it('should treat an old heartbeat as stale', () => {
+      expect(isLockStale(fresh(), Date.now() + 60_000)).toBe(true);
+    });
+
+    it('should treat an exited process on this host as stale', () => {
+      expect(isLockStale({ ...fresh(), pid: 2 ** 22 + 1 })).toBe(true);
+    });
+
+    it('should not check PIDs of other hosts', () => {
+      expect(isLockStale({ ...fresh(), hostname: 'other-host', pid: 2 ** 22 + 1 })).toBe(false);
+    });
+  });
+});
@@ -1,7 +1,12 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { Stats } from 'fs';
+import * as os from 'os';
 import { CodeIndexer, type IndexProgress } from '../../search/indexer.js';
+import { hashContent } from '../../search/embedding-cache.js';
+import { GlanceyError } from '../../utils/errors.js';
+import { IgnoreRules } from '../../utils/ignore-rules.js';
 import { createMockEmbeddingBackend } from '../mocks/embedding-backend.mock.js';
-import { createMockConnection, createMockTable } from '../mocks/lancedb.mock.js';
+import { createMockConnection, createMockTable, type MockRow } from '../mocks/lancedb.mock.js';
 
 // Mock the lancedb module
 vi.mock('@lancedb/lancedb', () => ({
@@ -15,6 +20,8 @@ vi.mock('fs/promises', () => ({
   stat: vi.fn(),
   mkdir: vi.fn(),
   unlink: vi.fn(),
+  rename: vi.fn(),
+  link: vi.fn(),
 }));
 
 // Mock config
@@ -31,6 +38,21 @@ vi.mock('../../config.js', async (_importOriginal) => {
   };
 });
 
+// Simpler signatures of the mocked fs/promises and glob functions, which are heavily overloaded
+type ReadFile = (path: string) => Promise<string>;
+type WriteFile = (path: string, content: string, options?: { flag?: string }) => Promise<void>;
+type Stat = (path: string) => Promise<Partial<Stats>>;
+type Unlink = (path: string) => Promise<void>;
+type Rename = (oldPath: string, newPath: string) => Promise<void>;
+type Glob = (pattern: string, options?: object) => Promise<string[]>;
+
+/**
+ * View a mocked function with one of the simpler signatures above.
+ */
+function mockOf<T extends (...args: never[]) => unknown>(fn: unknown): Mock<T> {
+  return fn as Mock<T>;
+}
+
 describe('CodeIndexer', () => {
   let mockBackend: ReturnType<typeof createMockEmbeddingBackend>;
   let mockConnection: ReturnType<typeof createMockConnection>;
@@ -61,6 +83,7 @@ describe('CodeIndexer', () => {
       semanticWeight: 0.7,
       keywordWeight: 0.3,
       autoReindex: false, // Disable for tests to avoid reindexing during search
+      fusion: 'weighted',
     });
     vi.mocked(configModule.getIndexingConfig).mockReturnValue({ batchSize: 32, batchDelayMs: 0 });
   });
@@ -204,7 +227,7 @@ describe('CodeIndexer', () => {
 
       await indexer.search('find function');
 
-      expect(mockBackend.embed).toHaveBeenCalledWith('find function');
+      expect(mockBackend.embedQuery).toHaveBeenCalledWith('find function');
     });
 
     it('should respect limit parameter', async () => {
@@ -828,6 +851,59 @@ describe('CodeIndexer', () => {
       expect(results.every((r) => r.content.trim() !== 'function test() {}')).toBe(true);
     });
 
+    it('should only exclude the notebook chunk from the same cell', async () => {
+      const chunks = [0, 1].map((cellIndex) => ({
+        id: `analysis.ipynb:cell${cellIndex}`,
+        filepath: 'analysis.ipynb',
+        content: `cell ${cellIndex}`,
+        startLine: 1,
+        endLine: 2,
+        language: 'python',
+        cellIndex,
+        _distance: 0.1 * cellIndex,
+      }));
+      const mockTable = createMockTable(chunks);
+      mockConnection.tableNames.mockResolvedValue(['code_chunks']);
+      mockConnection.openTable.mockResolvedValue(mockTable);
+      vi.mocked(fsPromises.readFile).mockImplementation(async (filepath) => {
+        if (String(filepath).endsWith('.ipynb')) {
+          return JSON.stringify({
+            cells: [
+              { cell_type: 'code', source: ['x = 1\n', 'y = 2'] },
+              { cell_type: 'code', source: ['z = 3\n', 'print(z)'] },
+            ],
+          });
+        }
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const results = await indexer.searchSimilar({
+        filepath: 'analysis.ipynb',
+        startLine: 1,
+        endLine: 2,
+        cellIndex: 1,
+      });
+
+      expect(mockBackend.embed).toHaveBeenCalledWith('z = 3\nprint(z)');
+      expect(results.map((r) => r.cellIndex)).toEqual([0]);
+    });
+
+    it('should require a cell index to find code similar to a notebook', async () => {
+      mockConnection.tableNames.mockResolvedValue(['code_chunks']);
+      mockConnection.openTable.mockResolvedValue(createMockTable([]));
+      vi.mocked(fsPromises.readFile).mockRejectedValue(new Error('ENOENT'));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      await expect(
+        indexer.searchSimilar({ filepath: 'analysis.ipynb', startLine: 1, endLine: 2 })
+      ).rejects.toThrow('cellIndex is required');
+    });
+
     it('should throw error when neither code nor filepath is provided', async () => {
       mockConnection.tableNames.mockResolvedValue(['code_chunks']);
 
@@ -910,6 +986,155 @@ describe('CodeIndexer', () => {
       );
     });
 
+    it('should skip files excluded by ignore files', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockImplementation(async (pattern: string) => {
+        if (pattern.includes('.gitignore')) return ['.gitignore', 'src/.glanceyignore'];
+        return ['/project/src/app.ts', '/project/generated/client.ts', '/project/src/scratch.ts'];
+      });
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path === '/project/.gitignore') return 'generated/\n';
+        if (path === '/project/src/.glanceyignore') return 'scratch.ts\n';
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const files = await indexer['getProjectFiles']();
+
+      expect(files).toEqual(['/project/src/app.ts']);
+    });
+
+    it('should not index files excluded by ignore files', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockImplementation(async (pattern: string) => {
+        if (pattern.includes('.gitignore')) return ['.gitignore'];
+        return ['/project/src/app.ts', '/project/generated/client.ts'];
+      });
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path === '/project/.gitignore') return 'generated/\n';
+        if (path.endsWith('.ts')) return 'const x = 1;';
+        throw new Error('ENOENT');
+      });
+      mockConnection.tableNames.mockResolvedValue([]);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.indexCodebase();
+
+      expect(result.filesIndexed).toBe(1);
+    });
+
+    it('should embed identical chunk contents once', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/a.ts', '/project/b.ts']);
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path.endsWith('.ts')) return 'const x = 1;';
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.indexCodebase();
+
+      const embeddedTexts = vi
+        .mocked(mockBackend.embedBatch)
+        .mock.calls.flatMap(([texts]) => texts);
+      expect(result.filesIndexed).toBe(2);
+      expect(embeddedTexts).toHaveLength(1);
+    });
+
+    it('should reuse cached embeddings after the index is cleared', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/test.ts']);
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path.endsWith('.ts')) return 'const x = 1;';
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      await indexer.clearIndex();
+      vi.mocked(mockBackend.embedBatch).mockClear();
+
+      const result = await indexer.indexCodebase();
+
+      expect(result.chunksCreated).toBeGreaterThan(0);
+      expect(mockBackend.embedBatch).not.toHaveBeenCalled();
+    });
+
+    it('should re-embed only changed chunks of a modified file', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/service.ts']);
+      const files = new Map<string, string>();
+      files.set(
+        '/project/service.ts',
+        [
+          'function load() {',
+          '  return 1;',
+          '}',
+          'function save() {',
+          '  return 2;',
+          '}',
+          'function drop() {',
+          '  return 3;',
+          '}',
+        ].join('\n')
+      );
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error('ENOENT');
+        return content;
+      });
+      mockOf<WriteFile>(fsPromises.writeFile).mockImplementation(async (path, content) => {
+        files.set(path, content);
+      });
+      mockOf<Stat>(fsPromises.stat).mockResolvedValue({ mtimeMs: 1000 });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+
+      // Insert a function at the top, edit one function and delete another
+      files.set(
+        '/project/service.ts',
+        [
+          'function init() {',
+          '  return 0;',
+          '}',
+          'function load() {',
+          '  return 1;',
+          '}',
+          'function save() {',
+          '  return 20;',
+          '}',
+        ].join('\n')
+      );
+      mockOf<Stat>(fsPromises.stat).mockResolvedValue({ mtimeMs: 2000 });
+      vi.mocked(mockBackend.embedBatch).mockClear();
+
+      const result = await indexer.indexCodebase();
+
+      const embeddedTexts = vi
+        .mocked(mockBackend.embedBatch)
+        .mock.calls.flatMap(([texts]) => texts);
+      expect(result.incremental).toBe(true);
+      expect(embeddedTexts).toHaveLength(2);
+      expect(embeddedTexts.some((text) => text.includes('load'))).toBe(false);
+
+      const table = await mockConnection.openTable('code_chunks');
+      const rows = await table.query().toArray();
+      const load = rows.find((row: MockRow) => row.symbolName === 'load');
+      expect(rows).toHaveLength(3);
+      expect(rows.some((row: MockRow) => row.symbolName === 'drop')).toBe(false);
+      expect(load).toMatchObject({ startLine: 4, endLine: 6 });
+      expect(load?.id).toMatch(/^service\.ts#load@/);
+    });
+
     it('should detect incremental vs full indexing', async () => {
       const { glob } = await import('glob');
       vi.mocked(glob as any).mockResolvedValue(['/project/test.ts']);
@@ -948,6 +1173,68 @@ describe('CodeIndexer', () => {
       expect(result.incremental).toBe(true);
     });
 
+    it('should force full reindex when index version is outdated', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/test.ts']);
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path.includes('index-metadata')) {
+          return JSON.stringify({
+            lastUpdated: '2024-01-01',
+            fileCount: 1,
+            chunkCount: 1,
+            embeddingBackend: 'mock',
+            embeddingDimensions: 1536,
+            version: '1.0.0',
+          });
+        }
+        return 'const x = 1;';
+      });
+
+      mockConnection.tableNames.mockResolvedValue(['code_chunks', 'file_metadata']);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.indexCodebase();
+
+      expect(result.incremental).toBe(false);
+      expect(mockConnection.dropTable).toHaveBeenCalledWith('code_chunks');
+    });
+
+    it('should force full reindex when the document mode changed', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/test.ts']);
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path.includes('index-metadata')) {
+          // Built before document modes were recorded, i.e. plain
+          return JSON.stringify({
+            lastUpdated: '2024-01-01',
+            fileCount: 1,
+            chunkCount: 1,
+            embeddingBackend: 'mock',
+            embeddingDimensions: 1536,
+          });
+        }
+        return 'const x = 1;';
+      });
+      vi.mocked(mockBackend.getDocumentMode).mockReturnValue('task:RETRIEVAL_DOCUMENT');
+
+      mockConnection.tableNames.mockResolvedValue(['code_chunks', 'file_metadata']);
+      mockConnection.openTable.mockResolvedValue(createMockTable([]));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const status = await indexer.getStatus();
+      expect(status.backendMismatch).toBe(true);
+      expect(status.backendMismatchReason).toContain(
+        "document mode changed from 'plain' to 'task:RETRIEVAL_DOCUMENT'"
+      );
+
+      const result = await indexer.indexCodebase();
+      expect(result.incremental).toBe(false);
+    });
+
     it('should handle force reindex flag', async () => {
       const { glob } = await import('glob');
       vi.mocked(glob as any).mockResolvedValue(['/project/test.ts']);
@@ -988,7 +1275,7 @@ describe('CodeIndexer', () => {
 
   describe('hybrid scoring', () => {
     it('should apply 70/30 semantic/keyword split', async () => {
-      // This tests the calculateKeywordScore indirectly through search
+      // auth.ts matches both query terms via BM25
       const mockTable = createMockTable([
         {
           id: '1',
@@ -1019,6 +1306,275 @@ describe('CodeIndexer', () => {
       // auth.ts should rank higher due to keyword match in both content and filepath
       expect(results[0].filepath).toBe('auth.ts');
     });
+
+    it('should return exact identifier matches missed by vector search', async () => {
+      const rows = [
+        {
+          id: 'vec-1',
+          filepath: 'src/query.ts',
+          content: 'function buildQuery() {}',
+          startLine: 1,
+          endLine: 1,
+          language: 'typescript',
+        },
+        {
+          id: 'vec-2',
+          filepath: 'src/filter.ts',
+          content: 'function applyFilters() {}',
+          startLine: 1,
+          endLine: 1,
+          language: 'typescript',
+        },
+        {
+          id: 'kw-1',
+          filepath: 'src/db.ts',
+          content: 'function sanitizeForFilter(value: string) {}',
+          startLine: 1,
+          endLine: 1,
+          language: 'typescript',
+          symbolType: 'function' as const,
+          symbolName: 'sanitizeForFilter',
+        },
+      ];
+      const mockTable = createMockTable(rows);
+      // Vector search only returns the semantically similar (but wrong) chunks
+      mockTable.search = vi.fn().mockReturnValue({
+        limit: vi.fn().mockReturnValue({
+          toArray: vi.fn().mockResolvedValue(rows.slice(0, 2)),
+        }),
+      });
+      mockConnection.tableNames.mockResolvedValue(['code_chunks']);
+      mockConnection.openTable.mockResolvedValue(mockTable);
+      vi.mocked(fsPromises.readFile).mockRejectedValue(new Error('ENOENT'));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const results = await indexer.search('sanitizeForFilter');
+
+      expect(results[0].id).toBe('kw-1');
+      expect(results[0].symbolName).toBe('sanitizeForFilter');
+      expect(results.map((r) => r.id)).toContain('vec-1');
+    });
+
+    it('should apply filters to keyword-only matches', async () => {
+      const rows = [
+        {
+          id: 'vec-1',
+          filepath: 'src/query.ts',
+          content: 'function buildQuery() {}',
+          startLine: 1,
+          endLine: 1,
+          language: 'typescript',
+        },
+        {
+          id: 'kw-1',
+          filepath: 'lib/db.py',
+          content: 'def sanitizeForFilter(value): pass',
+          startLine: 1,
+          endLine: 1,
+          language: 'python',
+          symbolName: 'sanitizeForFilter',
+        },
+      ];
+      const mockTable = createMockTable(rows);
+      mockTable.search = vi.fn().mockReturnValue({
+        limit: vi.fn().mockReturnValue({
+          toArray: vi.fn().mockResolvedValue(rows.slice(0, 1)),
+        }),
+      });
+      mockConnection.tableNames.mockResolvedValue(['code_chunks']);
+      mockConnection.openTable.mockResolvedValue(mockTable);
+      vi.mocked(fsPromises.readFile).mockRejectedValue(new Error('ENOENT'));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const results = await indexer.search({
+        query: 'sanitizeForFilter',
+        languages: ['typescript'],
+      });
+
+      expect(results.map((r) => r.id)).toEqual(['vec-1']);
+    });
+  });
+
+  describe('score fusion', () => {
+    const setupTable = (rows: MockRow[], vectorRows: MockRow[] = rows) => {
+      const mockTable = createMockTable(rows);
+      mockTable.search = vi.fn().mockReturnValue({
+        limit: vi.fn().mockReturnValue({
+          toArray: vi.fn().mockResolvedValue(vectorRows),
+        }),
+      });
+      mockConnection.tableNames.mockResolvedValue(['code_chunks']);
+      mockConnection.openTable.mockResolvedValue(mockTable);
+      vi.mocked(fsPromises.readFile).mockRejectedValue(new Error('ENOENT'));
+    };
+
+    const chunkRow = (id: string, content: string, extra: Partial<MockRow> = {}): MockRow => ({
+      id,
+      filepath: `${id}.ts`,
+      content,
+      startLine: 1,
+      endLine: 1,
+      language: 'typescript',
+      ...extra,
+    });
+
+    it('should score semantic matches by distance rather than rank', async () => {
+      setupTable([
+        chunkRow('close', 'function parseConfig() {}', { _distance: 0.2 }),
+        chunkRow('far', 'function renderHeader() {}', { _distance: 3 }),
+      ]);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const { results } = await indexer.explainSearch({ query: 'unrelated words' });
+
+      expect(results[0].breakdown.semanticDistance).toBe(0.2);
+      expect(results[0].breakdown.semanticScore).toBeCloseTo(1 / 1.2);
+      expect(results[1].breakdown.semanticScore).toBeCloseTo(1 / 4);
+      expect(results[0].breakdown.score).toBeCloseTo(0.7 / 1.2);
+    });
+
+    it('should let a strong keyword match outrank a weak semantic match', async () => {
+      setupTable([
+        chunkRow('weak', 'function renderHeader() {}', { _distance: 2 }),
+        chunkRow('keyword', 'function loadUserProfile() {}', { _distance: 2.1 }),
+      ]);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const results = await indexer.search('loadUserProfile');
+
+      expect(results[0].id).toBe('keyword');
+    });
+
+    it('should compute distance for keyword-only matches from the stored vector', async () => {
+      const vector = new Array(1536).fill(0);
+      setupTable(
+        [
+          chunkRow('vec', 'function renderHeader() {}', { _distance: 0.5 }),
+          chunkRow('kw', 'function loadUserProfile() {}', { vector }),
+        ],
+        [chunkRow('vec', 'function renderHeader() {}', { _distance: 0.5 })]
+      );
+      const queryEmbedding = new Array(1536).fill(0);
+      queryEmbedding[0] = 1;
+      vi.mocked(mockBackend.embed).mockResolvedValue(queryEmbedding);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const { results, explanation } = await indexer.explainSearch({ query: 'loadUserProfile' });
+      const [keywordOnly] = results.filter((r) => r.chunk.id === 'kw');
+
+      expect(keywordOnly.breakdown.semanticDistance).toBe(1);
+      expect(keywordOnly.breakdown.semanticRank).toBeNull();
+      expect(keywordOnly.breakdown.keywordRank).toBe(1);
+      expect(explanation.candidates).toEqual({
+        vector: 1,
+        keyword: 1,
+        keywordOnly: 1,
+        afterFilters: 2,
+      });
+    });
+
+    it('should use reciprocal rank fusion when configured', async () => {
+      vi.mocked(configModule.getSearchConfig).mockReturnValue({
+        semanticWeight: 0.7,
+        keywordWeight: 0.3,
+        autoReindex: false,
+        fusion: 'rrf',
+      });
+      setupTable([
+        chunkRow('first', 'function renderHeader() {}', { _distance: 0.1 }),
+        chunkRow('second', 'function loadUserProfile() {}', { _distance: 0.2 }),
+      ]);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const { results, explanation } = await indexer.explainSearch({ query: 'loadUserProfile' });
+
+      expect(explanation.fusion).toBe('rrf');
+      const [second] = results.filter((r) => r.chunk.id === 'second');
+      expect(second.breakdown.semanticScore).toBeCloseTo(1 / 62);
+      expect(second.breakdown.keywordComponent).toBeCloseTo(1 / 61);
+      expect(results[0].chunk.id).toBe('second');
+    });
+
+    it('should report weights, filters and cache use', async () => {
+      setupTable([chunkRow('a', 'function parseConfig() {}', { _distance: 0.5 })]);
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const options = { query: 'parse config', pathPattern: '**/*.ts' };
+      const first = await indexer.explainSearch(options);
+      const second = await indexer.explainSearch(options);
+
+      expect(first.explanation).toMatchObject({
+        fusion: 'weighted',
+        semanticWeight: 0.7,
+        keywordWeight: 0.3,
+        filters: { pathPattern: '**/*.ts' },
+        fromCache: false,
+      });
+      expect(second.explanation.fromCache).toBe(true);
+      expect(second.results).toEqual(first.results);
+    });
+
+    it('should rank by keywords only when the query cannot be embedded', async () => {
+      setupTable([
+        chunkRow('other', 'function renderHeader() {}'),
+        chunkRow('match', 'function loadUserProfile() {}'),
+      ]);
+      vi.mocked(mockBackend.embedQuery).mockRejectedValue(new Error('429 quota exceeded'));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const { results, explanation } = await indexer.explainSearch({ query: 'loadUserProfile' });
+
+      expect(results.map((r) => r.chunk.id)).toEqual(['match']);
+      expect(results[0].breakdown.semanticDistance).toBeNull();
+      expect(explanation.candidates.vector).toBe(0);
+      expect(explanation.keywordOnlyReason).toContain('429 quota exceeded');
+    });
+
+    it('should rank by keywords only when the index was built with another embedding model', async () => {
+      setupTable([
+        chunkRow('other', 'function renderHeader() {}'),
+        chunkRow('match', 'function loadUserProfile() {}'),
+      ]);
+      vi.mocked(fsPromises.readFile).mockImplementation(async (filePath) => {
+        if (String(filePath).includes('metadata.json')) {
+          return JSON.stringify({
+            embeddingBackend: 'mock',
+            embeddingModel: 'other-model',
+            embeddingDimensions: 1536,
+          });
+        }
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const { results, explanation } = await indexer.explainSearch({ query: 'loadUserProfile' });
+
+      expect(results.map((r) => r.chunk.id)).toEqual(['match']);
+      expect(mockBackend.embedQuery).not.toHaveBeenCalled();
+      expect(explanation.candidates.vector).toBe(0);
+      expect(explanation.keywordOnlyReason).toContain('Embedding model mismatch');
+      await expect(indexer.searchSimilar({ code: 'function loadUser() {}' })).rejects.toThrow(
+        'Reindex required'
+      );
+    });
   });
 
   describe('corruption detection', () => {
@@ -1354,7 +1910,7 @@ describe('CodeIndexer', () => {
             embeddingBackend: 'mock',
             embeddingModel: 'mock-model',
             embeddingDimensions: 1536,
-            version: '1.0.0',
+            version: '1.4.0',
           });
         }
         return 'const x = 1;';
@@ -1412,7 +1968,7 @@ describe('CodeIndexer', () => {
             embeddingBackend: 'mock',
             embeddingModel: 'mock-model',
             embeddingDimensions: 1536, // Match mock backend dimensions
-            version: '1.0.0',
+            version: '1.4.0',
           });
         }
         if (pathStr.includes('files.json')) {
@@ -1522,6 +2078,28 @@ describe('CodeIndexer', () => {
       expect(result.reason).toBe('No file metadata stored');
     });
 
+    it('should return stale=true when the index was built with another embedding backend', async () => {
+      mockConnection.tableNames.mockResolvedValue(['code_chunks', 'file_metadata']);
+      vi.mocked(fsPromises.readFile).mockImplementation(async (filePath) => {
+        if (String(filePath).includes('metadata.json')) {
+          return JSON.stringify({
+            embeddingBackend: 'ollama',
+            embeddingModel: 'mock-model',
+            embeddingDimensions: 1536,
+          });
+        }
+        throw new Error('ENOENT');
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.checkIfStale();
+
+      expect(result.stale).toBe(true);
+      expect(result.reason).toContain("Embedding backend changed from 'ollama' to 'mock'");
+    });
+
     it('should return stale=false when no files have changed', async () => {
       const { glob } = await import('glob');
       const testFilePath = '/project/test.ts';
@@ -1585,6 +2163,37 @@ describe('CodeIndexer', () => {
       expect(result.reason).toContain('modified');
     });
 
+    it('should return stale=false when only mtime changed but content is identical', async () => {
+      const { glob } = await import('glob');
+      const content = 'const x = 1;';
+
+      mockOf<Glob>(glob).mockResolvedValue(['/project/test.ts']);
+      mockOf<Stat>(fsPromises.stat).mockResolvedValue({ mtimeMs: 2000 });
+      vi.mocked(fsPromises.readFile).mockResolvedValue(content);
+
+      const mockMetadataTable = {
+        query: vi.fn().mockReturnValue({
+          toArray: vi
+            .fn()
+            .mockResolvedValue([{ filepath: 'test.ts', mtime: 1000, hash: hashContent(content) }]),
+        }),
+      };
+      mockConnection.tableNames.mockResolvedValue(['code_chunks', 'file_metadata']);
+      mockConnection.openTable.mockImplementation(async (tableName: string) => {
+        if (tableName === 'file_metadata') {
+          return mockMetadataTable as any;
+        }
+        return createMockTable([]) as any;
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.checkIfStale();
+
+      expect(result.stale).toBe(false);
+    });
+
     it('should return stale=true with reason when new files are added', async () => {
       const { glob } = await import('glob');
 
@@ -1632,9 +2241,9 @@ describe('CodeIndexer', () => {
       mockConnection.tableNames.mockResolvedValue(['code_chunks', 'file_metadata']);
       mockConnection.openTable.mockImplementation(async (tableName: string) => {
         if (tableName === 'file_metadata') {
-          return mockMetadataTable as any;
+          return mockMetadataTable;
         }
-        return createMockTable([]) as any;
+        return createMockTable([]);
       });
 
       const indexer = new CodeIndexer('/project', mockBackend);
@@ -1646,4 +2255,312 @@ describe('CodeIndexer', () => {
       expect(result.reason).toContain('deleted');
     });
   });
+
+  describe('indexFiles', () => {
+    let files: Map<string, string>;
+
+    beforeEach(async () => {
+      vi.doMock('glob', () => ({
+        glob: vi.fn(),
+      }));
+      const { glob } = await import('glob');
+      files = new Map([
+        ['/project/a.ts', 'export const a = 1;'],
+        ['/project/b.ts', 'export const b = 2;'],
+      ]);
+      mockOf<Glob>(glob).mockImplementation(async (pattern: string) =>
+        pattern.includes('.gitignore') ? [] : [...files.keys()].filter((f) => f.endsWith('.ts'))
+      );
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error('ENOENT');
+        return content;
+      });
+      mockOf<WriteFile>(fsPromises.writeFile).mockImplementation(async (path, content) => {
+        files.set(path, content);
+      });
+      mockOf<Stat>(fsPromises.stat).mockImplementation(async (path) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error('ENOENT');
+        return { mtimeMs: content.length, isFile: () => true };
+      });
+    });
+
+    it('should fall back to a full index when no index exists', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const result = await indexer.indexFiles(['/project/a.ts']);
+
+      expect(result.incremental).toBe(false);
+      expect(result.filesIndexed).toBe(2);
+    });
+
+    it('should re-index changed files without scanning the project', async () => {
+      const { glob } = await import('glob');
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      mockOf<Glob>(glob).mockClear();
+      vi.mocked(mockBackend.embedBatch).mockClear();
+
+      files.set('/project/a.ts', 'export const a = 100;');
+      const result = await indexer.indexFiles(['/project/a.ts']);
+
+      const embeddedTexts = vi
+        .mocked(mockBackend.embedBatch)
+        .mock.calls.flatMap(([texts]) => texts);
+      expect(result).toMatchObject({ filesIndexed: 1, incremental: true });
+      expect(glob).not.toHaveBeenCalled();
+      expect(embeddedTexts).toEqual([expect.stringContaining('a = 100')]);
+
+      const metadata = await (await mockConnection.openTable('file_metadata')).query().toArray();
+      expect(metadata.map((row: MockRow) => row.filepath).sort()).toEqual(['a.ts', 'b.ts']);
+    });
+
+    it('should remove deleted files from the index', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+
+      files.delete('/project/b.ts');
+      await indexer.indexFiles(['/project/b.ts']);
+
+      const chunks = await (await mockConnection.openTable('code_chunks')).query().toArray();
+      const metadata = await (await mockConnection.openTable('file_metadata')).query().toArray();
+      expect(chunks.map((row: MockRow) => row.filepath)).toEqual(['a.ts']);
+      expect(metadata.map((row: MockRow) => row.filepath)).toEqual(['a.ts']);
+    });
+
+    it('should remove files below a deleted directory', async () => {
+      files.set('/project/lib/c.ts', 'export const c = 3;');
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+
+      files.delete('/project/lib/c.ts');
+      await indexer.indexFiles(['/project/lib']);
+
+      const chunks = await (await mockConnection.openTable('code_chunks')).query().toArray();
+      expect(chunks.map((row: MockRow) => row.filepath).sort()).toEqual(['a.ts', 'b.ts']);
+    });
+
+    it('should re-read ignore files when one changes', async () => {
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockImplementation(async (pattern: string) =>
+        pattern.includes('.gitignore')
+          ? files.has('/project/.gitignore')
+            ? ['.gitignore']
+            : []
+          : [...files.keys()].filter((f) => f.endsWith('.ts'))
+      );
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      expect((await IgnoreRules.load('/project')).isIgnored('b.ts')).toBe(false);
+
+      files.set('/project/.gitignore', 'b.ts\n');
+      await indexer.indexFiles(['/project/.gitignore']);
+
+      const chunks = await (await mockConnection.openTable('code_chunks')).query().toArray();
+      expect(chunks.map((row: MockRow) => row.filepath)).toEqual(['a.ts']);
+      expect((await IgnoreRules.load('/project')).isIgnored('b.ts')).toBe(true);
+    });
+
+    it('should ignore paths that do not match the configured patterns', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      vi.mocked(mockBackend.embedBatch).mockClear();
+
+      files.set('/project/notes.md', '# Notes');
+      const result = await indexer.indexFiles(['/project/notes.md']);
+
+      expect(result.filesIndexed).toBe(0);
+      expect(mockBackend.embedBatch).not.toHaveBeenCalled();
+    });
+
+    it('should match paths against include and exclude patterns', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      expect(indexer.isIndexablePath('src/app.ts')).toBe(true);
+      expect(indexer.isIndexablePath('README.md')).toBe(false);
+      expect(indexer.isIndexablePath('node_modules/pkg/index.ts')).toBe(false);
+    });
+
+    it('should skip the stale check on search while watching', async () => {
+      vi.mocked(configModule.getSearchConfig).mockReturnValue({
+        semanticWeight: 0.7,
+        keywordWeight: 0.3,
+        autoReindex: true,
+        fusion: 'weighted',
+      });
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      const checkIfStale = vi.spyOn(indexer, 'checkIfStale');
+
+      indexer.setWatching(true);
+      await indexer.search('const');
+
+      expect(checkIfStale).not.toHaveBeenCalled();
+    });
+
+    it('should list indexed files', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      expect(await indexer.getIndexedFiles()).toEqual([]);
+
+      await indexer.indexCodebase();
+
+      expect(await indexer.getIndexedFiles()).toEqual(['a.ts', 'b.ts']);
+    });
+  });
+
+  describe('index lock', () => {
+    const lockPath = '/project/.glancey/index.lock';
+    const otherHolder = {
+      pid: process.ppid,
+      hostname: os.hostname(),
+      operation: 'indexing',
+      acquiredAt: new Date().toISOString(),
+      heartbeatAt: new Date().toISOString(),
+    };
+    let files: Map<string, string>;
+
+    beforeEach(async () => {
+      vi.doMock('glob', () => ({
+        glob: vi.fn().mockResolvedValue([]),
+      }));
+      files = new Map([['/project/a.ts', 'export const a = 1;']]);
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error('ENOENT');
+        return content;
+      });
+      mockOf<WriteFile>(fsPromises.writeFile).mockImplementation(async (path, content, options) => {
+        if (options?.flag === 'wx' && files.has(path)) {
+          throw Object.assign(new Error('EEXIST'), { code: 'EEXIST' });
+        }
+        files.set(path, content);
+      });
+      mockOf<Unlink>(fsPromises.unlink).mockImplementation(async (path) => {
+        files.delete(path);
+      });
+      mockOf<Rename>(fsPromises.rename).mockImplementation(async (oldPath, newPath) => {
+        const content = files.get(oldPath);
+        if (content === undefined) throw new Error('ENOENT');
+        files.set(newPath, content);
+        files.delete(oldPath);
+      });
+      mockOf<Stat>(fsPromises.stat).mockResolvedValue({ mtimeMs: 1000 });
+    });
+
+    it('should hold the lock while indexing', async () => {
+      const { glob } = await import('glob');
+      let lockedDuringIndexing = false;
+      mockOf<Glob>(glob).mockImplementation(async () => {
+        lockedDuringIndexing = files.has(lockPath);
+        return ['/project/a.ts'];
+      });
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+
+      expect(lockedDuringIndexing).toBe(true);
+      expect(files.has(lockPath)).toBe(false);
+    });
+
+    it('should report another process holding the lock in status', async () => {
+      files.set(lockPath, JSON.stringify(otherHolder));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      const status = await indexer.getStatus();
+
+      expect(status.lockHolder).toEqual(otherHolder);
+    });
+
+    it('should search read-only while another process holds the lock', async () => {
+      vi.mocked(configModule.getSearchConfig).mockReturnValue({
+        semanticWeight: 0.7,
+        keywordWeight: 0.3,
+        autoReindex: true,
+        fusion: 'weighted',
+      });
+      const { glob } = await import('glob');
+      mockOf<Glob>(glob).mockResolvedValue(['/project/a.ts']);
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.indexCodebase();
+      files.set(lockPath, JSON.stringify(otherHolder));
+      const checkIfStale = vi.spyOn(indexer, 'checkIfStale');
+
+      const results = await indexer.search('const a');
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(checkIfStale).not.toHaveBeenCalled();
+    });
+
+    it('should take over a stale lock', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      files.set(
+        lockPath,
+        JSON.stringify({ ...otherHolder, heartbeatAt: new Date(Date.now() - 60_000).toISOString() })
+      );
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      await indexer.clearIndex();
+
+      expect(files.has(lockPath)).toBe(false);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('embedding backend availability', () => {
+    beforeEach(() => {
+      vi.doMock('glob', () => ({
+        glob: vi.fn().mockResolvedValue(['/project/a.ts']),
+      }));
+      mockOf<ReadFile>(fsPromises.readFile).mockImplementation(async (path) => {
+        if (path === '/project/a.ts') return 'export const a = 1;';
+        throw new Error('ENOENT');
+      });
+      mockOf<Stat>(fsPromises.stat).mockResolvedValue({ mtimeMs: 1000 });
+    });
+
+    it('should queue indexing while the embedding backend is unavailable', async () => {
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+      indexer.markEmbeddingUnavailable('connection refused');
+
+      await expect(indexer.indexCodebase()).rejects.toThrow('Indexing is queued');
+      const status = await indexer.getStatus();
+
+      expect(status.embeddingUnavailableReason).toBe('connection refused');
+      expect(status.indexingQueued).toBe(true);
+      expect(mockBackend.embedBatch).not.toHaveBeenCalled();
+      indexer.dispose();
+    });
+
+    it('should queue indexing when the embedding backend fails mid-run', async () => {
+      vi.mocked(mockBackend.embedBatch).mockRejectedValue(new Error('429 quota exceeded'));
+
+      const indexer = new CodeIndexer('/project', mockBackend);
+      await indexer.initialize();
+
+      const error = await indexer.indexCodebase().catch((e) => e);
+      const status = await indexer.getStatus();
+
+      expect(error).toBeInstanceOf(GlanceyError);
+      expect(error.category).toBe('embedding');
+      expect(error.message).toContain('429 quota exceeded');
+      expect(status.embeddingUnavailableReason).toBe('429 quota exceeded');
+      expect(status.indexingQueued).toBe(true);
+      indexer.dispose();
+    });
+  });
 });
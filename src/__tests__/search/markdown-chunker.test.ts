@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { MarkdownChunker } from '../../search/markdown-chunker.js';
+
+/**
+ * Build a paragraph of the given number of lines
+ */
+function paragraph(lines: number, text = 'Some text'): string {
+  return Array.from({ length: lines }, (_, i) => `${text} ${i + 1}.`).join('\n');
+}
+
+describe('MarkdownChunker', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-chunker-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('canParse', () => {
+    it('should return true for Markdown files', () => {
+      expect(MarkdownChunker.canParse('README.md')).toBe(true);
+      expect(MarkdownChunker.canParse('docs/guide.mdx')).toBe(true);
+      expect(MarkdownChunker.canParse('NOTES.MARKDOWN')).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(MarkdownChunker.canParse('notes.txt')).toBe(false);
+      expect(MarkdownChunker.canParse('config.yaml')).toBe(false);
+    });
+  });
+
+  describe('chunkFile', () => {
+    it('should keep a small document in one chunk named after its title', async () => {
+      const filepath = path.join(tempDir, 'small.md');
+      await fs.writeFile(filepath, `# Widget\n\n${paragraph(5)}\n\n## Usage\n\n${paragraph(5)}\n`);
+
+      const chunks = await new MarkdownChunker().chunkFile(filepath);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ type: 'section', name: 'Widget', startLine: 1 });
+    });
+
+    it('should split a large document along its headings with breadcrumb names', async () => {
+      const markdown = [
+        '# Guide',
+        '',
+        paragraph(3, 'Intro'),
+        '',
+        '## Install',
+        '',
+        '### Docker',
+        '',
+        paragraph(50),
+        '',
+        '### From source',
+        '',
+        paragraph(50),
+        '',
+        '## Configure',
+        '',
+        paragraph(30),
+      ].join('\n');
+
+      const chunks = new MarkdownChunker().chunkContent(markdown);
+
+      expect(chunks.map((c) => c.name)).toEqual([
+        'Guide',
+        'Guide > Install > Docker',
+        'Guide > Install > From source',
+        'Guide > Configure',
+      ]);
+      expect(chunks[0].content).toContain('Intro 3.');
+      expect(chunks[1]).toMatchObject({ startLine: 9, endLine: 60 });
+      expect(chunks[1].content).not.toContain('From source');
+    });
+
+    it('should keep a section whole when it fits, subsections included', () => {
+      const markdown = [
+        '# Guide',
+        '',
+        '## Install',
+        '',
+        paragraph(20),
+        '',
+        '### Docker',
+        '',
+        paragraph(20),
+        '',
+        '## Reference',
+        '',
+        paragraph(80),
+      ].join('\n');
+
+      const chunks = new MarkdownChunker().chunkContent(markdown);
+
+      expect(chunks.map((c) => c.name)).toEqual(['Guide > Install', 'Guide > Reference']);
+      expect(chunks[0].content).toContain('### Docker');
+    });
+
+    it('should ignore headings in code blocks and front matter', () => {
+      const markdown = [
+        '---',
+        'title: Guide',
+        '---',
+        '# Guide',
+        '',
+        '```bash',
+        '# not a heading',
+        '```',
+        '',
+        paragraph(60),
+        '',
+        '## Setup',
+        '',
+        paragraph(60),
+      ].join('\n');
+
+      const chunks = new MarkdownChunker().chunkContent(markdown);
+
+      // Front matter is kept as an unnamed preamble
+      expect(chunks.map((c) => c.name)).toEqual([undefined, 'Guide', 'Guide > Setup']);
+      expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 3 });
+      expect(chunks[1].content).toContain('# not a heading');
+    });
+
+    it('should recognize setext headings', () => {
+      const markdown = [
+        'Guide',
+        '=====',
+        '',
+        paragraph(60),
+        '',
+        'Setup',
+        '-----',
+        '',
+        paragraph(60),
+      ].join('\n');
+
+      const chunks = new MarkdownChunker().chunkContent(markdown);
+
+      expect(chunks.map((c) => c.name)).toEqual(['Guide', 'Guide > Setup']);
+    });
+
+    it('should split a section too large for one chunk into parts', () => {
+      const markdown = ['# Changelog', '', paragraph(250)].join('\n');
+
+      const chunks = new MarkdownChunker().chunkContent(markdown);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].name).toBe('Changelog (part 1)');
+      expect(chunks.every((c) => c.endLine - c.startLine + 1 <= 100)).toBe(true);
+    });
+
+    it('should chunk a document without headings', () => {
+      const chunks = new MarkdownChunker().chunkContent(paragraph(10));
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].name).toBeUndefined();
+    });
+  });
+});
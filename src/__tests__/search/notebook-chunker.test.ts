@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { NotebookChunker } from '../../search/notebook-chunker.js';
+
+/**
+ * Build an nbformat 4 notebook with the given cells
+ */
+function notebook(cells: Array<[string, string]>, language?: string): string {
+  return JSON.stringify({
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: language ? { kernelspec: { name: language, language } } : {},
+    cells: cells.map(([cellType, source]) => ({
+      cell_type: cellType,
+      metadata: {},
+      // Jupyter stores sources as lists of lines, each keeping its newline
+      source: source.split(/(?<=\n)/),
+      ...(cellType === 'code' ? { outputs: [], execution_count: null } : {}),
+    })),
+  });
+}
+
+describe('NotebookChunker', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'notebook-chunker-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const chunk = async (filename: string, content: string) => {
+    const filepath = path.join(tempDir, filename);
+    await fs.writeFile(filepath, content);
+    return new NotebookChunker().chunkFile(filepath);
+  };
+
+  describe('canParse', () => {
+    it('should return true for notebooks', () => {
+      expect(NotebookChunker.canParse('analysis/churn.ipynb')).toBe(true);
+      expect(NotebookChunker.canParse('Report.IPYNB')).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(NotebookChunker.canParse('analysis/churn.py')).toBe(false);
+      expect(NotebookChunker.canParse('notebook.json')).toBe(false);
+    });
+  });
+
+  describe('chunkFile', () => {
+    const cells: Array<[string, string]> = [
+      ['markdown', '# Churn analysis\n\nLoad the events and score each customer.'],
+      ['code', 'import pandas as pd\n\nevents = pd.read_csv("events.csv")'],
+      ['code', ''],
+      [
+        'code',
+        'THRESHOLD = 0.5\n\ndef churn_score(row):\n    return row.days_idle / 30\n\nclass Scorer:\n    def run(self, df):\n        return df.apply(churn_score, axis=1)\n\nscores = Scorer().run(events)',
+      ],
+    ];
+
+    it('should chunk code cells by definition and markdown cells by heading', async () => {
+      const chunks = await chunk('churn.ipynb', notebook(cells, 'python'));
+
+      expect(chunks.map((c) => [c.cellIndex, c.type, c.name, c.startLine, c.endLine])).toEqual([
+        [0, 'section', 'Churn analysis', 1, 3],
+        [1, 'other', undefined, 1, 3],
+        [3, 'other', undefined, 1, 1],
+        [3, 'function', 'churn_score', 3, 4],
+        [3, 'class', 'Scorer', 6, 8],
+        [3, 'other', undefined, 10, 10],
+      ]);
+      expect(chunks[3].content).toBe('def churn_score(row):\n    return row.days_idle / 30');
+    });
+
+    it('should tag code cells with the kernel language', async () => {
+      const chunks = await chunk('kernel.ipynb', notebook(cells, 'Python'));
+
+      expect(chunks.map((c) => [c.cellIndex, c.language])).toEqual([
+        [0, undefined],
+        [1, 'python'],
+        [3, 'python'],
+        [3, 'python'],
+        [3, 'python'],
+        [3, 'python'],
+      ]);
+    });
+
+    it('should default to Python when the notebook has no kernel metadata', async () => {
+      const chunks = await chunk('untitled.ipynb', notebook(cells));
+
+      expect(chunks.filter((c) => c.type === 'function').map((c) => c.name)).toEqual([
+        'churn_score',
+      ]);
+    });
+
+    it('should keep each code cell whole when the kernel has no grammar', async () => {
+      const chunks = await chunk(
+        'model.ipynb',
+        notebook(
+          [
+            ['code', 'library(dplyr)\n\nfit <- function(df) {\n  lm(y ~ x, data = df)\n}'],
+            ['code', 'summary(fit(data))'],
+          ],
+          'R'
+        )
+      );
+
+      expect(chunks.map((c) => [c.cellIndex, c.type, c.startLine, c.endLine])).toEqual([
+        [0, 'other', 1, 5],
+        [1, 'other', 1, 1],
+      ]);
+    });
+
+    it('should skip raw cells and outputs', async () => {
+      const content = JSON.parse(notebook([['code', 'print("hello")']], 'python'));
+      content.cells[0].outputs = [{ output_type: 'stream', name: 'stdout', text: ['hello\n'] }];
+      content.cells.push({ cell_type: 'raw', metadata: {}, source: ['raw text'] });
+
+      const chunks = await chunk('hello.ipynb', JSON.stringify(content));
+
+      expect(chunks.map((c) => [c.cellIndex, c.content])).toEqual([[0, 'print("hello")']]);
+    });
+
+    it('should read the source of one cell', async () => {
+      const filepath = path.join(tempDir, 'cells.ipynb');
+      await fs.writeFile(filepath, notebook(cells, 'python'));
+
+      await expect(NotebookChunker.readCell(filepath, 1)).resolves.toBe(cells[1][1]);
+      await expect(NotebookChunker.readCell(filepath, 9)).rejects.toThrow('Cell 9 not found');
+    });
+
+    it('should throw for a file without cells', async () => {
+      await expect(
+        chunk('old.ipynb', JSON.stringify({ nbformat: 3, worksheets: [] }))
+      ).rejects.toThrow('No cells found');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { SFCChunker } from '../../search/sfc-chunker.js';
+
+describe('SFCChunker', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sfc-chunker-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const chunk = async (filename: string, content: string) => {
+    const filepath = path.join(tempDir, filename);
+    await fs.writeFile(filepath, content);
+    return new SFCChunker().chunkFile(filepath);
+  };
+
+  describe('canParse', () => {
+    it('should return true for component files', () => {
+      expect(SFCChunker.canParse('src/components/UserCard.vue')).toBe(true);
+      expect(SFCChunker.canParse('src/lib/Counter.svelte')).toBe(true);
+      expect(SFCChunker.canParse('src/pages/index.astro')).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(SFCChunker.canParse('src/main.ts')).toBe(false);
+      expect(SFCChunker.canParse('index.html')).toBe(false);
+    });
+  });
+
+  describe('chunkFile - Vue', () => {
+    const vue = `<template>
+  <div class="card">
+    <template v-if="user">
+      <h2>{{ title }}</h2>
+    </template>
+  </div>
+</template>
+
+<script setup lang="ts" generic="T extends Record<string, unknown>">
+import { ref } from 'vue';
+
+const props = defineProps<{ title: string }>();
+
+function loadUser(id: number) {
+  return id;
+}
+</script>
+
+<style scoped>
+.card {
+  padding: 1rem;
+}
+</style>
+
+<i18n lang="json">
+{ "en": { "hello": "Hello" } }
+</i18n>
+`;
+
+    it('should chunk the script at its line numbers in the component', async () => {
+      const chunks = await chunk('UserCard.vue', vue);
+
+      expect(chunks.map((c) => [c.type, c.name, c.startLine, c.endLine])).toEqual([
+        ['template', 'UserCard (template)', 1, 7],
+        ['import', 'UserCard.imports', 10, 10],
+        ['variable', 'UserCard.props', 12, 12],
+        ['function', 'UserCard.loadUser', 14, 16],
+        ['style', 'UserCard (style)', 19, 23],
+        ['other', 'UserCard (i18n)', 25, 27],
+      ]);
+      expect(chunks[3].content).toBe('function loadUser(id: number) {\n  return id;\n}');
+    });
+
+    it('should keep nested templates in the template block', async () => {
+      const chunks = await chunk('UserCard.vue', vue);
+
+      expect(chunks[0].content).toContain('<template v-if="user">');
+      expect(chunks[0].content.endsWith('</template>')).toBe(true);
+    });
+  });
+
+  describe('chunkFile - Svelte', () => {
+    it('should chunk scripts, markup and styles', async () => {
+      const svelte = `<script lang="ts">
+  export let label: string;
+
+  function reset() {
+    label = '';
+  }
+</script>
+
+<button on:click={reset}>{label}</button>
+
+<svelte:head>
+  <script type="application/ld+json">{ "name": "counter" }</script>
+</svelte:head>
+
+<style>
+  button { color: red; }
+</style>
+`;
+      const chunks = await chunk('Counter.svelte', svelte);
+
+      expect(chunks.map((c) => [c.type, c.name, c.startLine, c.endLine])).toEqual([
+        ['variable', 'Counter.label', 2, 2],
+        ['function', 'Counter.reset', 4, 6],
+        ['template', 'Counter (template)', 9, 13],
+        ['style', 'Counter (style)', 15, 17],
+      ]);
+      // The indented JSON-LD script is part of the markup
+      expect(chunks[2].content).toContain('application/ld+json');
+    });
+  });
+
+  describe('chunkFile - Astro', () => {
+    it('should chunk the frontmatter as TypeScript', async () => {
+      const astro = `---
+import Layout from '../layouts/Layout.astro';
+
+interface Props {
+  title: string;
+}
+
+const { title } = Astro.props;
+---
+
+<Layout title={title}>
+  <h1>{title}</h1>
+</Layout>
+`;
+      const chunks = await chunk('Post.astro', astro);
+
+      expect(chunks.map((c) => [c.type, c.name, c.startLine, c.endLine])).toEqual([
+        ['import', 'Post.imports', 2, 2],
+        ['interface', 'Post.Props', 4, 6],
+        ['variable', 'Post', 8, 8],
+        ['template', 'Post (template)', 11, 13],
+      ]);
+    });
+  });
+
+  it('should throw for an empty component', async () => {
+    await expect(chunk('Empty.vue', '\n')).rejects.toThrow('No component blocks found');
+  });
+});
@@ -3,6 +3,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { TreeSitterChunker } from '../../search/tree-sitter-chunker.js';
+import { createLanguageRegistry } from '../../languages/index.js';
 
 describe('TreeSitterChunker', () => {
   let tempDir: string;
@@ -37,6 +38,18 @@ describe('TreeSitterChunker', () => {
       expect(TreeSitterChunker.canParse('test.rb')).toBe(true);
     });
 
+    it('should return true for C, C++, C# and PHP files', () => {
+      for (const file of ['test.c', 'test.h', 'test.cpp', 'test.cc', 'test.hpp', 'test.cs']) {
+        expect(TreeSitterChunker.canParse(file)).toBe(true);
+      }
+      expect(TreeSitterChunker.canParse('test.php')).toBe(true);
+    });
+
+    it('should not claim languages without a shipped grammar', () => {
+      expect(TreeSitterChunker.canParse('test.swift')).toBe(false);
+      expect(TreeSitterChunker.canParse('test.kt')).toBe(false);
+    });
+
     it('should return false for unsupported files', () => {
       expect(TreeSitterChunker.canParse('test.txt')).toBe(false);
       expect(TreeSitterChunker.canParse('test.md')).toBe(false);
@@ -56,6 +69,10 @@ describe('TreeSitterChunker', () => {
       expect(TreeSitterChunker.getLanguageName('test.rs')).toBe('rust');
       expect(TreeSitterChunker.getLanguageName('test.java')).toBe('java');
       expect(TreeSitterChunker.getLanguageName('test.rb')).toBe('ruby');
+      expect(TreeSitterChunker.getLanguageName('test.h')).toBe('c');
+      expect(TreeSitterChunker.getLanguageName('test.hpp')).toBe('cpp');
+      expect(TreeSitterChunker.getLanguageName('test.cs')).toBe('csharp');
+      expect(TreeSitterChunker.getLanguageName('test.php')).toBe('php');
     });
 
     it('should return null for unsupported files', () => {
@@ -248,6 +265,242 @@ public class Greeter {
     });
   });
 
+  describe('chunkFile - C++', () => {
+    it('should chunk C++ classes and functions', async () => {
+      const cppCode = `#include <string>
+#include "point.h"
+
+namespace geo {
+
+struct Point;
+
+class Shape {
+ public:
+  explicit Shape(std::string name) : name_(std::move(name)) {}
+  virtual double area() const = 0;
+
+ private:
+  std::string name_;
+};
+
+std::string Shape::describe(const Point& origin) const {
+  return name_;
+}
+
+Point *translate(Point *p, int dx) {
+  return p;
+}
+
+}  // namespace geo
+`;
+
+      const filepath = path.join(tempDir, 'shape.cpp');
+      await fs.writeFile(filepath, cppCode);
+
+      const chunker = new TreeSitterChunker();
+      const chunks = await chunker.chunkFile(filepath);
+
+      const importChunk = chunks.find((c) => c.type === 'import');
+      expect(importChunk).toMatchObject({ startLine: 1, endLine: 2 });
+
+      // The forward declaration is not a class chunk
+      const classChunks = chunks.filter((c) => c.type === 'class');
+      expect(classChunks.map((c) => c.name)).toEqual(['Shape']);
+
+      // Functions are named by their declarator, not their return type
+      const funcChunks = chunks.filter((c) => c.type === 'function');
+      expect(funcChunks.map((c) => c.name)).toEqual(['Shape::describe', 'translate']);
+    });
+
+    it('should chunk C files with the C++ grammar', async () => {
+      const cCode = `#include <stdlib.h>
+
+typedef struct node {
+  int value;
+  struct node *next;
+} node_t;
+
+int list_len(const node_t *head);
+
+static node_t *push(node_t *head, int value) {
+  node_t *n = malloc(sizeof(node_t));
+  n->next = head;
+  return n;
+}
+`;
+
+      const filepath = path.join(tempDir, 'list.c');
+      await fs.writeFile(filepath, cCode);
+
+      const chunker = new TreeSitterChunker();
+      const chunks = await chunker.chunkFile(filepath);
+
+      expect(chunks.find((c) => c.type === 'type')?.name).toBe('node_t');
+      expect(chunks.find((c) => c.type === 'variable')?.name).toBe('list_len');
+      expect(chunks.find((c) => c.type === 'function')?.name).toBe('push');
+    });
+  });
+
+  describe('chunkFile - C#', () => {
+    it('should chunk C# types and split large classes into methods', async () => {
+      const fillerMethods = Array.from(
+        { length: 20 },
+        (_, i) => `        public int Step${i}(int x)
+        {
+            return x + ${i};
+        }
+`
+      ).join('\n');
+      const csharpCode = `using System;
+using System.Threading.Tasks;
+
+namespace Shop.Orders
+{
+    public interface IOrderRepository
+    {
+        Task<Order> Get(int id);
+    }
+
+    public class OrderService
+    {
+        private readonly IOrderRepository _repo;
+
+        public OrderService(IOrderRepository repo)
+        {
+            _repo = repo;
+        }
+
+        public Task<Order> Load(int id)
+        {
+            return _repo.Get(id);
+        }
+
+${fillerMethods}
+    }
+}
+`;
+
+      const filepath = path.join(tempDir, 'OrderService.cs');
+      await fs.writeFile(filepath, csharpCode);
+
+      const chunker = new TreeSitterChunker();
+      const chunks = await chunker.chunkFile(filepath);
+
+      expect(chunks.find((c) => c.type === 'import')?.content).toContain('using System;');
+      expect(chunks.some((c) => c.type === 'class' && c.name === 'IOrderRepository')).toBe(true);
+
+      // The class is over the chunk size, so it is split into a header and its methods
+      const methodNames = chunks.filter((c) => c.type === 'method').map((c) => c.name);
+      expect(methodNames).toContain('OrderService.OrderService');
+      expect(methodNames).toContain('OrderService.Load');
+      expect(methodNames).toContain('OrderService.Step19');
+      expect(chunks.find((c) => c.name === 'OrderService (header)')?.content).toContain(
+        'private readonly IOrderRepository _repo;'
+      );
+    });
+  });
+
+  describe('chunkFile - PHP', () => {
+    it('should chunk PHP classes, traits and functions', async () => {
+      const phpCode = `<?php
+namespace App\\Http;
+
+use App\\Models\\User;
+
+trait Loggable
+{
+    public function log(string $message): void
+    {
+        echo $message;
+    }
+}
+
+class UserController
+{
+    use Loggable;
+
+    public function show(int $id): ?User
+    {
+        return User::find($id);
+    }
+}
+
+function route(string $path): string
+{
+    return $path;
+}
+`;
+
+      const filepath = path.join(tempDir, 'UserController.php');
+      await fs.writeFile(filepath, phpCode);
+
+      const chunker = new TreeSitterChunker();
+      const chunks = await chunker.chunkFile(filepath);
+
+      expect(chunks.find((c) => c.type === 'import')?.content).toContain('use App\\Models\\User;');
+      const classNames = chunks.filter((c) => c.type === 'class').map((c) => c.name);
+      expect(classNames).toEqual(['Loggable', 'UserController']);
+      expect(chunks.find((c) => c.type === 'function')?.name).toBe('route');
+    });
+  });
+
+  describe('chunkFile - configured languages', () => {
+    // Any tree-sitter grammar works; Starlark is close enough to parse with the Python one
+    const pythonGrammar = path.join(
+      process.cwd(),
+      'node_modules',
+      '@vscode',
+      'tree-sitter-wasm',
+      'wasm',
+      'tree-sitter-python.wasm'
+    );
+
+    it('should chunk files with a grammar from the config', async () => {
+      const languages = createLanguageRegistry(tempDir, {
+        starlark: {
+          wasmPath: pythonGrammar,
+          extensions: ['.star', '.bzl'],
+          functionTypes: ['function_definition'],
+          importTypes: ['expression_statement'],
+        },
+      });
+      const starlarkCode = `load("//rules:defs.bzl", "go_binary")
+
+def service(name, deps = []):
+    go_binary(
+        name = name,
+        deps = deps,
+    )
+`;
+
+      const filepath = path.join(tempDir, 'BUILD.star');
+      await fs.writeFile(filepath, starlarkCode);
+
+      expect(TreeSitterChunker.canParse(filepath)).toBe(false);
+      expect(TreeSitterChunker.canParse(filepath, languages)).toBe(true);
+      expect(TreeSitterChunker.getLanguageName(filepath, languages)).toBe('starlark');
+
+      const chunks = await new TreeSitterChunker(languages).chunkFile(filepath);
+
+      expect(chunks.map((c) => [c.type, c.name])).toEqual([
+        ['import', 'imports'],
+        ['function', 'service'],
+      ]);
+    });
+
+    it('should name the grammar that failed to load', async () => {
+      const languages = createLanguageRegistry(tempDir, {
+        lua: { wasmPath: 'grammars/tree-sitter-lua.wasm', extensions: ['.lua'] },
+      });
+      const filepath = path.join(tempDir, 'init.lua');
+      await fs.writeFile(filepath, 'local x = 1\n');
+
+      await expect(new TreeSitterChunker(languages).chunkFile(filepath)).rejects.toThrow(
+        `Failed to load tree-sitter grammar for lua from ${path.join(tempDir, 'grammars', 'tree-sitter-lua.wasm')}`
+      );
+    });
+  });
+
   describe('error handling', () => {
     it('should throw for unsupported file types', async () => {
       const filepath = path.join(tempDir, 'test.txt');
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as ts from 'typescript';
+import { findComponentMembers } from '../../symbols/component-api.js';
+import { SymbolExtractor } from '../../symbols/index.js';
+
+/**
+ * Parse a script and list its members as `kind name`
+ */
+function members(source: string, framework: string): string[] {
+  const sourceFile = ts.createSourceFile(
+    `Component.${framework}`,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS
+  );
+  return findComponentMembers(sourceFile, framework).map((m) => `${m.kind} ${m.name}`);
+}
+
+describe('findComponentMembers', () => {
+  describe('Vue', () => {
+    it('should find type-declared props, emits and models', () => {
+      const source = `
+interface Props {
+  title: string;
+  count?: number;
+}
+const props = withDefaults(defineProps<Props>(), { count: 0 });
+const emit = defineEmits<{
+  (e: 'select' | 'close', id: number): void;
+  (e: 'refresh'): void;
+}>();
+const query = defineModel<string>('query');
+`;
+      expect(members(source, 'vue')).toEqual([
+        'prop title',
+        'prop count',
+        'emit select',
+        'emit close',
+        'emit refresh',
+        'prop query',
+      ]);
+    });
+
+    it('should find runtime-declared props and named tuple emits', () => {
+      const source = `
+defineProps({ title: String, 'user-id': Number });
+defineEmits<{ change: [id: number]; update: [] }>();
+defineModel();
+`;
+      expect(members(source, 'vue')).toEqual([
+        'prop title',
+        'prop user-id',
+        'emit change',
+        'emit update',
+        'prop modelValue',
+      ]);
+    });
+
+    it('should find Options API props and emits', () => {
+      const source = `
+export default defineComponent({
+  props: ['title', 'items'],
+  emits: { save: null },
+});
+`;
+      expect(members(source, 'vue')).toEqual(['prop title', 'prop items', 'emit save']);
+    });
+  });
+
+  describe('Svelte', () => {
+    it('should find exported lets and dispatched events', () => {
+      const source = `
+export let label: string;
+export let start = 0;
+export const version = 1;
+let count = start;
+const dispatch = createEventDispatcher<{ change: number; reset: null }>();
+`;
+      expect(members(source, 'svelte')).toEqual([
+        'prop label',
+        'prop start',
+        'emit change',
+        'emit reset',
+      ]);
+    });
+
+    it('should find Svelte 5 $props', () => {
+      const source = `let { label, start = 0, ...rest }: Props = $props();`;
+      expect(members(source, 'svelte')).toEqual(['prop label', 'prop start']);
+    });
+  });
+
+  describe('Astro', () => {
+    it('should find the members of Props', () => {
+      const source = `
+export interface Props {
+  title: string;
+  date: Date;
+}
+const { title } = Astro.props;
+`;
+      expect(members(source, 'astro')).toEqual(['prop title', 'prop date']);
+    });
+
+    it('should fall back to Astro.props destructuring', () => {
+      expect(members(`const { title, date: published } = Astro.props;`, 'astro')).toEqual([
+        'prop title',
+        'prop date',
+      ]);
+    });
+  });
+});
+
+describe('SymbolExtractor - components', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'component-api-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list props, emits and functions at their component line numbers', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'UserCard.vue'),
+      `<template>
+  <h2>{{ title }}</h2>
+</template>
+
+<script setup lang="ts">
+const props = defineProps<{ title: string }>();
+const emit = defineEmits(['select']);
+</script>
+
+<script lang="ts">
+export function formatName(name: string): string {
+  return name.trim();
+}
+</script>
+`
+    );
+
+    const overview = await new SymbolExtractor(tempDir).getSymbolsOverview('UserCard.vue');
+
+    expect(overview.byKind.Property).toEqual([
+      { name: 'title', namePath: 'title', lines: '6-6', children: undefined },
+    ]);
+    expect(overview.byKind.Event?.map((e) => e.name)).toEqual(['select']);
+    expect(overview.byKind.Function).toEqual([
+      { name: 'formatName', namePath: 'formatName', lines: '11-13', children: undefined },
+    ]);
+    expect(overview.byKind.Variable?.map((v) => v.lines)).toEqual(['6-6', '6-7']);
+  });
+
+  it('should list Svelte props once', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'Counter.svelte'),
+      `<script>\n  export let label;\n</script>\n\n<p>{label}</p>\n`
+    );
+
+    const overview = await new SymbolExtractor(tempDir).getSymbolsOverview('Counter.svelte');
+
+    expect(overview.byKind).toEqual({
+      Property: [{ name: 'label', namePath: 'label', lines: '2-2', children: undefined }],
+    });
+  });
+
+  it('should analyze component files', () => {
+    expect(SymbolExtractor.canAnalyze('src/App.vue')).toBe(true);
+    expect(SymbolExtractor.canAnalyze('src/routes/+page.svelte')).toBe(true);
+    expect(SymbolExtractor.canAnalyze('src/pages/index.astro')).toBe(true);
+  });
+});
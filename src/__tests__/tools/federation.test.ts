@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseSearchScope,
+  selectRepositories,
+  queryRepositories,
+  mergeByRank,
+  formatSkippedRepositories,
+} from '../../tools/federation.js';
+import { handleFindSymbol } from '../../tools/symbol-handlers.js';
+import { GlanceyError } from '../../utils/errors.js';
+
+describe('federation', () => {
+  const project = { name: 'web', projectPath: '/work/web' };
+  const api = { name: 'api', projectPath: '/work/api' };
+
+  describe('parseSearchScope', () => {
+    it('should default to the project', () => {
+      expect(parseSearchScope(undefined, 'search_code')).toBe('project');
+    });
+
+    it('should reject unknown scopes', () => {
+      expect(() => parseSearchScope('global', 'search_code')).toThrow(GlanceyError);
+    });
+  });
+
+  describe('selectRepositories', () => {
+    it('should select repositories by scope', () => {
+      expect(selectRepositories('project', project, [api], 'find_symbol')).toEqual([project]);
+      expect(selectRepositories('linked', project, [api], 'find_symbol')).toEqual([api]);
+      expect(selectRepositories('all', project, [api], 'find_symbol')).toEqual([project, api]);
+    });
+
+    it('should require linked projects for the linked and all scopes', () => {
+      expect(() => selectRepositories('all', project, undefined, 'find_symbol')).toThrow(
+        "scope 'all' requires linkedProjects"
+      );
+    });
+  });
+
+  describe('queryRepositories', () => {
+    it('should skip failing repositories', async () => {
+      const federated = await queryRepositories([project, api], async (repo) => {
+        if (repo.name === 'api') {
+          throw new Error('Codebase not indexed');
+        }
+        return repo.projectPath;
+      });
+
+      expect(federated.results).toEqual([{ repository: 'web', result: '/work/web' }]);
+      expect(formatSkippedRepositories(federated.skipped)).toContain('- api: Codebase not indexed');
+    });
+
+    it('should rethrow when every repository fails', async () => {
+      await expect(
+        queryRepositories([project, api], async () => {
+          throw new Error('Codebase not indexed');
+        })
+      ).rejects.toThrow('Codebase not indexed');
+    });
+  });
+
+  describe('mergeByRank', () => {
+    it('should interleave repositories by rank and apply the limit', () => {
+      const merged = mergeByRank(
+        [
+          { repository: 'web', result: ['w1', 'w2', 'w3'] },
+          { repository: 'api', result: ['a1'] },
+        ],
+        3
+      );
+
+      expect(merged).toEqual([
+        { repository: 'web', result: 'w1' },
+        { repository: 'api', result: 'a1' },
+        { repository: 'web', result: 'w2' },
+      ]);
+    });
+  });
+
+  describe('find_symbol across linked projects', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-federation-test-'));
+      await fs.mkdir(path.join(workDir, 'web'));
+      await fs.mkdir(path.join(workDir, 'api'));
+      await fs.writeFile(
+        path.join(workDir, 'web', 'client.ts'),
+        'export function fetchUser() {}\n'
+      );
+      await fs.writeFile(
+        path.join(workDir, 'api', 'users.ts'),
+        'export function fetchUser() {}\nexport function saveUser() {}\n'
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('should tag symbols with their repository', async () => {
+      const response = await handleFindSymbol(
+        { namePathPattern: 'fetchUser', scope: 'all' },
+        {
+          projectPath: path.join(workDir, 'web'),
+          toolGuidance: '',
+          linkedProjects: [{ name: 'api', projectPath: path.join(workDir, 'api') }],
+        }
+      );
+
+      expect(response.structuredContent?.symbols).toEqual([
+        expect.objectContaining({ name: 'fetchUser', repository: 'web' }),
+        expect.objectContaining({ name: 'fetchUser', repository: 'api' }),
+      ]);
+      expect(response.content[0].text).toContain('**Repository:** api');
+    });
+  });
+});
@@ -201,6 +201,78 @@ describe('index-handlers', () => {
       expect(result.content[0].text).toContain('autoRepair: true');
     });
 
+    it('should report another process building the index', async () => {
+      const status: IndexStatus = {
+        indexed: true,
+        fileCount: 10,
+        chunkCount: 50,
+        lastUpdated: '2024-01-01T00:00:00.000Z',
+        indexPath: '/test/.glancey',
+        lockHolder: {
+          pid: 4242,
+          hostname: 'dev-box',
+          operation: 'indexing',
+          acquiredAt: '2024-01-02T00:00:00.000Z',
+          heartbeatAt: '2024-01-02T00:01:00.000Z',
+        },
+      };
+      mockIndexer.getStatus = vi.fn().mockResolvedValue(status);
+
+      const result = await handleGetIndexStatus(context);
+
+      expect(result.content[0].text).toContain('Index is being built by PID 4242');
+    });
+
+    it('should report an unavailable embedding backend', async () => {
+      const status: IndexStatus = {
+        indexed: true,
+        fileCount: 10,
+        chunkCount: 50,
+        lastUpdated: '2024-01-01T00:00:00.000Z',
+        indexPath: '/test/.glancey',
+        embeddingUnavailableReason: '429 quota exceeded',
+        indexingQueued: true,
+      };
+      mockIndexer.getStatus = vi.fn().mockResolvedValue(status);
+
+      const result = await handleGetIndexStatus(context);
+
+      expect(result.content[0].text).toContain(
+        'Embedding backend unavailable:** 429 quota exceeded'
+      );
+      expect(result.content[0].text).toContain('queued indexing then resumes automatically');
+    });
+
+    it('should warn about a quota exhausted today', async () => {
+      const now = new Date().toISOString();
+      const status: IndexStatus = {
+        indexed: true,
+        fileCount: 10,
+        chunkCount: 50,
+        lastUpdated: '2024-01-01T00:00:00.000Z',
+        indexPath: '/test/.glancey',
+        embeddingUsage: {
+          since: '2024-01-01T00:00:00.000Z',
+          backends: [
+            {
+              backend: 'gemini',
+              model: 'gemini-embedding-001',
+              total: {} as never,
+              byPurpose: {} as never,
+              today: { date: now.slice(0, 10), requests: 1000, texts: 5000, estimatedTokens: 1 },
+              lastQuotaErrorAt: now,
+            },
+          ],
+        },
+      };
+      mockIndexer.getStatus = vi.fn().mockResolvedValue(status);
+
+      const result = await handleGetIndexStatus(context);
+
+      expect(result.content[0].text).toContain('**Embedding quota exhausted:** gemini');
+      expect(result.content[0].text).toContain('after 1000 requests today');
+    });
+
     it('should append tool guidance to response', async () => {
       vi.mocked(mockIndexer.getStatus!).mockResolvedValue({
         indexed: false,
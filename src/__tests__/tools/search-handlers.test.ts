@@ -6,7 +6,7 @@ import {
   parseSearchSimilarArgs,
   formatSearchResults,
 } from '../../tools/search-handlers.js';
-import type { ToolContext } from '../../tools/types.js';
+import type { LinkedProjectContext, ToolContext } from '../../tools/types.js';
 import type { CodeIndexer, CodeChunk } from '../../search/indexer.js';
 import { GlanceyError } from '../../utils/errors.js';
 
@@ -17,6 +17,7 @@ describe('search-handlers', () => {
   beforeEach(() => {
     mockIndexer = {
       search: vi.fn(),
+      explainSearch: vi.fn(),
       searchSimilar: vi.fn(),
     };
 
@@ -70,6 +71,14 @@ describe('search-handlers', () => {
       expect(result.languages).toEqual(['typescript', 'javascript']);
     });
 
+    it('should default explain to false', () => {
+      expect(parseSearchCodeArgs({ query: 'test' }).explain).toBe(false);
+    });
+
+    it('should parse explain flag', () => {
+      expect(parseSearchCodeArgs({ query: 'test', explain: true }).explain).toBe(true);
+    });
+
     it('should ignore invalid languages', () => {
       const result = parseSearchCodeArgs({ query: 'test', languages: 'typescript' });
       expect(result.languages).toBeUndefined();
@@ -120,6 +129,24 @@ describe('search-handlers', () => {
       expect(formatted).toContain('(function)');
     });
 
+    it('should include the cell of a notebook chunk', () => {
+      const results: CodeChunk[] = [
+        {
+          id: 'churn.ipynb#churn_score@abc',
+          filepath: 'churn.ipynb',
+          content: 'def churn_score(row):\n    return row.days_idle / 30',
+          startLine: 3,
+          endLine: 4,
+          language: 'jupyter',
+          cellIndex: 4,
+        },
+      ];
+
+      const formatted = formatSearchResults(results);
+
+      expect(formatted).toContain('## Result 1: churn.ipynb:3-4 (cell 4)');
+    });
+
     it('should format multiple results', () => {
       const results: CodeChunk[] = [
         {
@@ -202,6 +229,107 @@ describe('search-handlers', () => {
 
       expect(result.content[0].text).toContain('Guidance');
     });
+
+    it('should include score breakdowns when explain is set', async () => {
+      mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [
+          {
+            chunk: {
+              id: 'db.ts:1-3',
+              filepath: 'db.ts',
+              content: 'function sanitizeForFilter() {}',
+              startLine: 1,
+              endLine: 3,
+              language: 'typescript',
+              symbolName: 'sanitizeForFilter',
+              symbolType: 'function',
+            },
+            breakdown: {
+              score: 1.05,
+              semanticDistance: 0.5,
+              semanticScore: 0.6667,
+              semanticRank: 2,
+              keywordScore: 7.25,
+              keywordComponent: 1,
+              keywordRank: 1,
+              exactSymbolMatch: true,
+              symbolBoost: 0.5,
+            },
+          },
+        ],
+        explanation: {
+          fusion: 'weighted',
+          semanticWeight: 0.7,
+          keywordWeight: 0.3,
+          filters: { languages: ['typescript'] },
+          fromCache: false,
+          candidates: { vector: 30, keyword: 4, keywordOnly: 1, afterFilters: 12 },
+        },
+      });
+
+      const result = await handleSearchCode(
+        { query: 'sanitizeForFilter', languages: ['typescript'], explain: true },
+        context
+      );
+      const text = result.content[0].text;
+
+      expect(mockIndexer.search).not.toHaveBeenCalled();
+      expect(text).toContain('**Fusion:** weighted');
+      expect(text).toContain('**Weights:** semantic 0.7, keyword 0.3');
+      expect(text).toContain('**Filters:** languages=typescript');
+      expect(text).toContain('**From cache:** no');
+      expect(text).toContain('30 vector, 4 keyword (1 keyword-only), 12 after filters');
+      expect(text).toContain('**Score:** 1.0500');
+      expect(text).toContain('distance 0.5000, rank #2');
+      expect(text).toContain('BM25 7.2500, rank #1');
+      expect(text).toContain('Exact symbol match: +0.5');
+      expect(text).toContain('function sanitizeForFilter()');
+    });
+
+    it('should show n/a for missing scores in explain mode', async () => {
+      mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [
+          {
+            chunk: {
+              id: 'a.ts:1-5',
+              filepath: 'a.ts',
+              content: 'const a = 1;',
+              startLine: 1,
+              endLine: 5,
+              language: 'typescript',
+            },
+            breakdown: {
+              score: 0.35,
+              semanticDistance: 1,
+              semanticScore: 0.5,
+              semanticRank: 1,
+              keywordScore: null,
+              keywordComponent: 0,
+              keywordRank: null,
+              exactSymbolMatch: false,
+              symbolBoost: 0,
+            },
+          },
+        ],
+        explanation: {
+          fusion: 'rrf',
+          semanticWeight: 0.7,
+          keywordWeight: 0.3,
+          filters: {},
+          fromCache: true,
+          candidates: { vector: 30, keyword: 0, keywordOnly: 0, afterFilters: 30 },
+        },
+      });
+
+      const result = await handleSearchCode({ query: 'constant', explain: true }, context);
+      const text = result.content[0].text;
+
+      expect(text).toContain('**Fusion:** rrf');
+      expect(text).toContain('**Filters:** none');
+      expect(text).toContain('**From cache:** yes');
+      expect(text).toContain('BM25 n/a, rank n/a');
+      expect(text).not.toContain('Exact symbol match');
+    });
   });
 
   describe('parseSearchSimilarArgs', () => {
@@ -288,4 +416,189 @@ describe('search-handlers', () => {
       expect(result.content[0].text).toContain('Guidance');
     });
   });
+
+  describe('federated search', () => {
+    let linkedIndexer: Partial<CodeIndexer>;
+    let linkedProjects: LinkedProjectContext[];
+
+    /**
+     * Build an explained search result with the given combined score.
+     */
+    function scored(filepath: string, score: number) {
+      return {
+        chunk: {
+          id: `${filepath}:1-5`,
+          filepath,
+          content: `// ${filepath}`,
+          startLine: 1,
+          endLine: 5,
+          language: 'typescript',
+        },
+        breakdown: {
+          score,
+          semanticDistance: 0.5,
+          semanticScore: score,
+          semanticRank: 1,
+          keywordScore: null,
+          keywordComponent: 0,
+          keywordRank: null,
+          exactSymbolMatch: false,
+          symbolBoost: 0,
+        },
+      };
+    }
+
+    const explanation = {
+      fusion: 'weighted' as const,
+      semanticWeight: 0.7,
+      keywordWeight: 0.3,
+      filters: {},
+      fromCache: false,
+      candidates: { vector: 1, keyword: 0, keywordOnly: 0, afterFilters: 1 },
+    };
+
+    beforeEach(() => {
+      linkedIndexer = {
+        explainSearch: vi.fn(),
+        searchSimilar: vi.fn(),
+        getStatus: vi.fn().mockResolvedValue({ fileCount: 4 }),
+      };
+      linkedProjects = [
+        {
+          name: 'api',
+          projectPath: '/test/api',
+          getIndexer: vi.fn().mockResolvedValue(linkedIndexer),
+        },
+      ];
+      context.linkedProjects = linkedProjects;
+      mockIndexer.getStatus = vi.fn().mockResolvedValue({ fileCount: 10 });
+    });
+
+    it('should parse and validate scope', () => {
+      expect(parseSearchCodeArgs({ query: 'test' }).scope).toBe('project');
+      expect(parseSearchCodeArgs({ query: 'test', scope: 'all' }).scope).toBe('all');
+      expect(() => parseSearchCodeArgs({ query: 'test', scope: 'everything' })).toThrow(
+        'scope must be one of'
+      );
+    });
+
+    it('should only search the project by default', async () => {
+      mockIndexer.search = vi.fn().mockResolvedValue([]);
+
+      await handleSearchCode({ query: 'auth', scope: 'project' }, context);
+
+      expect(linkedProjects[0].getIndexer).not.toHaveBeenCalled();
+    });
+
+    it('should merge results from all repositories into one ranking', async () => {
+      mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [scored('src/login.ts', 0.9), scored('src/session.ts', 0.4)],
+        explanation,
+      });
+      linkedIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [scored('routes/auth.ts', 0.6)],
+        explanation,
+      });
+
+      const result = await handleSearchCode({ query: 'auth', limit: 10, scope: 'all' }, context);
+
+      const results = result.structuredContent?.results as Array<Record<string, unknown>>;
+      expect(results.map((r) => [r.repository, r.filepath])).toEqual([
+        ['project', 'src/login.ts'],
+        ['api', 'routes/auth.ts'],
+        ['project', 'src/session.ts'],
+      ]);
+      expect(result.content[0].text).toContain('**Repository:** api');
+    });
+
+    it('should merge by rank when score distributions differ between repositories', async () => {
+      // The project's scores are all higher, but each repository's top hit should still lead
+      mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [
+          scored('src/login.ts', 0.95),
+          scored('src/session.ts', 0.9),
+          scored('src/token.ts', 0.85),
+        ],
+        explanation,
+      });
+      linkedIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [scored('routes/auth.ts', 0.3), scored('routes/logout.ts', 0.2)],
+        explanation,
+      });
+
+      const result = await handleSearchCode({ query: 'auth', limit: 4, scope: 'all' }, context);
+
+      const results = result.structuredContent?.results as Array<Record<string, unknown>>;
+      expect(results.map((r) => [r.repository, r.filepath])).toEqual([
+        ['project', 'src/login.ts'],
+        ['api', 'routes/auth.ts'],
+        ['project', 'src/session.ts'],
+        ['api', 'routes/logout.ts'],
+      ]);
+    });
+
+    it('should search only the linked projects with scope linked', async () => {
+      linkedIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [scored('routes/auth.ts', 0.6)],
+        explanation,
+      });
+
+      const result = await handleSearchCode({ query: 'auth', scope: 'linked' }, context);
+
+      expect(mockIndexer.explainSearch).not.toHaveBeenCalled();
+      expect(result.structuredContent?.results).toEqual([
+        expect.objectContaining({ repository: 'api', filepath: 'routes/auth.ts' }),
+      ]);
+    });
+
+    it('should skip repositories that cannot be searched', async () => {
+      mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+        results: [scored('src/login.ts', 0.9)],
+        explanation,
+      });
+      linkedIndexer.explainSearch = vi
+        .fn()
+        .mockRejectedValue(new Error('Codebase not indexed. Run index_codebase first.'));
+
+      const result = await handleSearchCode({ query: 'auth', scope: 'all' }, context);
+
+      expect(result.content[0].text).toContain('- api: Codebase not indexed');
+      expect(result.structuredContent?.skipped).toEqual([
+        { repository: 'api', error: 'Codebase not indexed. Run index_codebase first.' },
+      ]);
+      expect(result.structuredContent?.results).toHaveLength(1);
+    });
+
+    it('should throw when no linked projects are configured', async () => {
+      context.linkedProjects = [];
+
+      await expect(handleSearchCode({ query: 'auth', scope: 'linked' }, context)).rejects.toThrow(
+        'requires linkedProjects'
+      );
+    });
+
+    it('should merge similar code by rank', async () => {
+      mockIndexer.searchSimilar = vi.fn().mockResolvedValue([
+        { ...scored('src/a.ts', 0).chunk, similarity: 0.5 },
+        { ...scored('src/c.ts', 0).chunk, similarity: 0.4 },
+      ]);
+      linkedIndexer.searchSimilar = vi
+        .fn()
+        .mockResolvedValue([{ ...scored('lib/b.ts', 0).chunk, similarity: 0.8 }]);
+
+      const result = await handleSearchSimilar(
+        { code: 'function test() {}', limit: 5, excludeSelf: true, scope: 'all' },
+        context
+      );
+
+      expect(result.structuredContent?.results).toEqual([
+        expect.objectContaining({ repository: 'project', similarity: 0.5 }),
+        expect.objectContaining({ repository: 'api', similarity: 0.8 }),
+        expect.objectContaining({ repository: 'project', similarity: 0.4 }),
+      ]);
+      expect(linkedIndexer.searchSimilar).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'function test() {}', excludeSelf: true })
+      );
+    });
+  });
 });
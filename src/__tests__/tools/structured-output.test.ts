@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import {
+  TOOL_OUTPUT_SCHEMAS,
+  toStructuredChunk,
+  toStructuredWorktree,
+} from '../../tools/structured-output.js';
+import { handleSearchCode, handleSearchSimilar } from '../../tools/search-handlers.js';
+import { handleGetIndexStatus } from '../../tools/index-handlers.js';
+import { handleSummarizeCodebase } from '../../tools/clustering-handlers.js';
+import { handleListMemories, type IMemoryManager } from '../../tools/memory-handlers.js';
+import { handleListWorktrees, type IWorktreeManager } from '../../tools/worktree-handlers.js';
+import { handleFindSymbol, handleGetSymbolsOverview } from '../../tools/symbol-handlers.js';
+import type { ToolContext, ToolResponse } from '../../tools/types.js';
+import type { CodeChunk, CodeIndexer } from '../../search/indexer.js';
+
+const validator = new AjvJsonSchemaValidator();
+
+/**
+ * Assert that a response carries structured content matching the tool's output schema.
+ */
+function expectValidOutput(tool: string, response: ToolResponse): Record<string, unknown> {
+  expect(response.structuredContent).toBeDefined();
+  const result = validator.getValidator(TOOL_OUTPUT_SCHEMAS[tool])(response.structuredContent);
+  expect(result.errorMessage).toBeUndefined();
+  expect(result.valid).toBe(true);
+  return response.structuredContent ?? {};
+}
+
+const chunk: CodeChunk = {
+  id: 'src/auth.ts#login@abc',
+  filepath: 'src/auth.ts',
+  content: 'export function login() {}',
+  startLine: 1,
+  endLine: 1,
+  language: 'typescript',
+  symbolType: 'function',
+  symbolName: 'login',
+  embedding: [0.1, 0.2, 0.3],
+};
+
+describe('structured-output', () => {
+  let mockIndexer: Partial<CodeIndexer>;
+  let context: ToolContext;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'glancey-structured-test-'));
+    mockIndexer = {
+      search: vi.fn().mockResolvedValue([chunk]),
+      explainSearch: vi.fn(),
+      searchSimilar: vi.fn().mockResolvedValue([{ ...chunk, similarity: 0.92 }]),
+      getStatus: vi.fn().mockResolvedValue({
+        indexed: true,
+        fileCount: 3,
+        chunkCount: 12,
+        lastUpdated: null,
+        indexPath: '/test/.glancey',
+        embeddingBackend: 'gemini',
+      }),
+      summarizeCodebase: vi.fn(),
+    };
+    context = {
+      indexer: mockIndexer as CodeIndexer,
+      projectPath,
+      toolGuidance: '',
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should drop embeddings from chunks', () => {
+    expect(toStructuredChunk(chunk)).not.toHaveProperty('embedding');
+    expect(toStructuredChunk(chunk)).toMatchObject({
+      filepath: 'src/auth.ts',
+      symbolName: 'login',
+    });
+  });
+
+  it('should serialize worktree dates as ISO timestamps', () => {
+    const worktree = toStructuredWorktree({
+      name: 'add-auth',
+      path: '/repo/.git/agent-worktrees/add-auth',
+      branch: 'feature/add-auth',
+      commit: 'abc1234',
+      valid: true,
+      dirty: false,
+      ahead: 1,
+      behind: 0,
+      createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    });
+
+    expect(worktree.createdAt).toBe('2026-01-02T03:04:05.000Z');
+  });
+
+  it('should return search_code results without embeddings', async () => {
+    const response = await handleSearchCode({ query: 'login', limit: 10 }, context);
+
+    const output = expectValidOutput('search_code', response);
+    expect(output.results).toEqual([toStructuredChunk(chunk)]);
+    expect(response.content[0].text).toContain('src/auth.ts:1-1');
+  });
+
+  it('should include score breakdowns and the explanation in explain mode', async () => {
+    mockIndexer.explainSearch = vi.fn().mockResolvedValue({
+      results: [
+        {
+          chunk,
+          breakdown: {
+            score: 0.8,
+            semanticDistance: 0.25,
+            semanticScore: 0.8,
+            semanticRank: 1,
+            keywordScore: null,
+            keywordComponent: 0,
+            keywordRank: null,
+            exactSymbolMatch: false,
+            symbolBoost: 0,
+          },
+        },
+      ],
+      explanation: {
+        fusion: 'weighted',
+        semanticWeight: 0.7,
+        keywordWeight: 0.3,
+        filters: {},
+        fromCache: false,
+        candidates: { vector: 1, keyword: 0, keywordOnly: 0, afterFilters: 1 },
+      },
+    });
+
+    const response = await handleSearchCode({ query: 'login', explain: true }, context);
+
+    const output = expectValidOutput('search_code', response);
+    expect(output.results).toEqual([
+      expect.objectContaining({ id: chunk.id, breakdown: expect.objectContaining({ score: 0.8 }) }),
+    ]);
+    expect(output.explanation).toMatchObject({ fusion: 'weighted' });
+  });
+
+  it('should return similarity scores from search_similar', async () => {
+    const response = await handleSearchSimilar({ code: 'login()' }, context);
+
+    const output = expectValidOutput('search_similar', response);
+    expect(output.results).toEqual([expect.objectContaining({ similarity: 0.92 })]);
+  });
+
+  it('should return the index status', async () => {
+    const response = await handleGetIndexStatus(context);
+
+    expect(expectValidOutput('get_index_status', response)).toMatchObject({
+      indexed: true,
+      chunkCount: 12,
+    });
+  });
+
+  it('should drop cluster centroids from the codebase summary', async () => {
+    mockIndexer.summarizeCodebase = vi.fn().mockResolvedValue({
+      totalFiles: 3,
+      totalChunks: 12,
+      languages: [{ language: 'typescript', fileCount: 3, chunkCount: 12 }],
+      concepts: [
+        {
+          id: 0,
+          label: 'auth',
+          size: 12,
+          representativeChunks: [chunk.id],
+          centroid: [0.1, 0.2],
+          keywords: ['login'],
+        },
+      ],
+      clusteringQuality: 0.5,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const response = await handleSummarizeCodebase(
+      {},
+      { indexer: context.indexer, toolGuidance: '' }
+    );
+
+    const output = expectValidOutput('summarize_codebase', response);
+    expect(output.concepts).toEqual([expect.not.objectContaining({ centroid: expect.anything() })]);
+  });
+
+  it('should return memories with ISO timestamps', async () => {
+    const memoryManager = {
+      listMemories: vi
+        .fn()
+        .mockResolvedValue([
+          { name: 'architecture', size: 2048, lastModified: new Date('2026-01-01T00:00:00.000Z') },
+        ]),
+    } as unknown as IMemoryManager;
+
+    const response = await handleListMemories({ projectPath, toolGuidance: '', memoryManager });
+
+    expect(expectValidOutput('list_memories', response)).toEqual({
+      memories: [{ name: 'architecture', size: 2048, lastModified: '2026-01-01T00:00:00.000Z' }],
+    });
+  });
+
+  it('should return worktrees', async () => {
+    const worktreeManager = {
+      listWorktrees: vi.fn().mockResolvedValue({
+        worktrees: [
+          {
+            name: 'add-auth',
+            path: '/repo/.git/agent-worktrees/add-auth',
+            branch: 'feature/add-auth',
+            commit: 'abc1234',
+            valid: true,
+            dirty: true,
+            ahead: 2,
+            behind: 0,
+          },
+        ],
+        count: 1,
+      }),
+    } as unknown as IWorktreeManager;
+
+    const response = await handleListWorktrees({ projectPath, toolGuidance: '', worktreeManager });
+
+    expect(expectValidOutput('list_worktrees', response)).toMatchObject({
+      count: 1,
+      worktrees: [{ name: 'add-auth', dirty: true }],
+    });
+  });
+
+  it('should return symbols from get_symbols_overview and find_symbol', async () => {
+    await fs.writeFile(
+      path.join(projectPath, 'greeter.ts'),
+      'export class Greeter {\n  greet() {}\n}\n'
+    );
+    const symbolContext = { projectPath, toolGuidance: '' };
+
+    const overview = await handleGetSymbolsOverview(
+      { relativePath: 'greeter.ts', depth: 1 },
+      symbolContext
+    );
+    const found = await handleFindSymbol(
+      { namePathPattern: 'Greeter/greet', relativePath: 'greeter.ts', depth: 1 },
+      symbolContext
+    );
+
+    expect(expectValidOutput('get_symbols_overview', overview)).toMatchObject({
+      filepath: 'greeter.ts',
+    });
+    expect(expectValidOutput('find_symbol', found).symbols).toEqual([
+      expect.objectContaining({
+        namePath: '/Greeter/greet',
+        location: expect.objectContaining({ filepath: 'greeter.ts' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreRules, isIgnoreFile, rebasePattern } from '../../utils/ignore-rules.js';
+
+describe('IgnoreRules', () => {
+  let projectDir: string;
+
+  const writeFile = async (relative: string, content: string) => {
+    const fullPath = path.join(projectDir, relative);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-rules-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should ignore nothing when there are no ignore files', async () => {
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.ruleFileCount).toBe(0);
+    expect(rules.isIgnored('src/index.ts')).toBe(false);
+  });
+
+  it('should apply the root .gitignore', async () => {
+    await writeFile('.gitignore', 'generated/\n*.log\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('generated/client.ts')).toBe(true);
+    expect(rules.isIgnored('src/generated/client.ts')).toBe(true);
+    expect(rules.isIgnored('debug.log')).toBe(true);
+    expect(rules.isIgnored('src/index.ts')).toBe(false);
+  });
+
+  it('should accept absolute paths', async () => {
+    await writeFile('.gitignore', 'scratch/\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored(path.join(projectDir, 'scratch', 'notes.ts'))).toBe(true);
+    expect(rules.isIgnored(path.join(projectDir, 'src', 'notes.ts'))).toBe(false);
+  });
+
+  it('should not ignore paths outside the project', async () => {
+    await writeFile('.gitignore', '*.ts\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored(path.join(os.tmpdir(), 'elsewhere.ts'))).toBe(false);
+  });
+
+  it('should apply nested .gitignore files relative to their directory', async () => {
+    await writeFile('packages/api/.gitignore', '/fixtures\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('packages/api/fixtures/user.ts')).toBe(true);
+    expect(rules.isIgnored('packages/web/fixtures/user.ts')).toBe(false);
+    expect(rules.isIgnored('fixtures/user.ts')).toBe(false);
+  });
+
+  it('should let nested rules re-include files ignored higher up', async () => {
+    await writeFile('.gitignore', '*.gen.ts\n');
+    await writeFile('src/.gitignore', '!keep.gen.ts\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('src/keep.gen.ts')).toBe(false);
+    expect(rules.isIgnored('src/other.gen.ts')).toBe(true);
+    expect(rules.isIgnored('keep.gen.ts')).toBe(true);
+  });
+
+  it('should keep files inside an ignored directory ignored', async () => {
+    await writeFile('.gitignore', 'build/\n!build/keep.ts\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('build/keep.ts')).toBe(true);
+  });
+
+  it('should apply .git/info/exclude', async () => {
+    await writeFile('.git/info/exclude', 'local-notes/\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('local-notes/todo.ts')).toBe(true);
+  });
+
+  it('should let .gitignore override .git/info/exclude', async () => {
+    await writeFile('.git/info/exclude', '*.tmp.ts\n');
+    await writeFile('.gitignore', '!wanted.tmp.ts\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('wanted.tmp.ts')).toBe(false);
+    expect(rules.isIgnored('other.tmp.ts')).toBe(true);
+  });
+
+  it('should apply .glanceyignore after .gitignore', async () => {
+    await writeFile('.gitignore', 'vendor-cache/\n');
+    await writeFile('.glanceyignore', 'docs/examples/\n!vendor-cache/\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.isIgnored('docs/examples/demo.ts')).toBe(true);
+    expect(rules.isIgnored('vendor-cache/lib.ts')).toBe(false);
+  });
+
+  it('should not load ignore files from node_modules', async () => {
+    await writeFile('node_modules/pkg/.gitignore', '*.ts\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.ruleFileCount).toBe(0);
+  });
+
+  it('should filter a list of files', async () => {
+    await writeFile('.glanceyignore', 'tmp/\n');
+    const rules = await IgnoreRules.load(projectDir);
+
+    expect(rules.filter(['src/a.ts', 'tmp/b.ts', 'c.ts'])).toEqual(['src/a.ts', 'c.ts']);
+  });
+
+  it('should reuse loaded rules until invalidated', async () => {
+    await writeFile('.gitignore', 'tmp/\n');
+    const rules = await IgnoreRules.load(projectDir);
+    await writeFile('.glanceyignore', 'fixtures/\n');
+
+    expect(await IgnoreRules.load(projectDir)).toBe(rules);
+
+    IgnoreRules.invalidate(projectDir);
+    const reloaded = await IgnoreRules.load(projectDir);
+
+    expect(reloaded.isIgnored('fixtures/user.ts')).toBe(true);
+    expect(reloaded.ruleFileCount).toBe(2);
+  });
+
+  it('should cache rules separately per set of exclude patterns', async () => {
+    await writeFile('vendor/.gitignore', '*.ts\n');
+
+    const all = await IgnoreRules.load(projectDir);
+    const withoutVendor = await IgnoreRules.load(projectDir, ['vendor/**']);
+
+    expect(all.isIgnored('vendor/lib.ts')).toBe(true);
+    expect(withoutVendor.ruleFileCount).toBe(0);
+  });
+});
+
+describe('isIgnoreFile', () => {
+  it('should recognize ignore files at any depth', () => {
+    expect(isIgnoreFile('/project/.gitignore')).toBe(true);
+    expect(isIgnoreFile('/project/packages/api/.glanceyignore')).toBe(true);
+    expect(isIgnoreFile('/project/src/gitignore.ts')).toBe(false);
+  });
+
+  it('should recognize the git exclude file', () => {
+    expect(isIgnoreFile('/project/.git/info/exclude')).toBe(true);
+    expect(isIgnoreFile('.git/info/exclude')).toBe(true);
+    expect(isIgnoreFile('/project/src/info/exclude')).toBe(false);
+  });
+});
+
+describe('rebasePattern', () => {
+  it('should leave root patterns unchanged', () => {
+    expect(rebasePattern('/dist', '')).toBe('/dist');
+  });
+
+  it('should anchor patterns with a leading slash', () => {
+    expect(rebasePattern('/fixtures', 'packages/api')).toBe('packages/api/fixtures');
+  });
+
+  it('should anchor patterns with a middle slash', () => {
+    expect(rebasePattern('gen/client', 'src')).toBe('src/gen/client');
+  });
+
+  it('should match unanchored patterns at any depth below the base', () => {
+    expect(rebasePattern('*.log', 'src')).toBe('src/**/*.log');
+  });
+
+  it('should preserve negation and directory-only markers', () => {
+    expect(rebasePattern('!keep/', 'src')).toBe('!src/**/keep/');
+  });
+
+  it('should leave comments and blank lines unchanged', () => {
+    expect(rebasePattern('# comment', 'src')).toBe('# comment');
+    expect(rebasePattern('', 'src')).toBe('');
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Command-line interface for querying and maintaining the index without an MCP client
+ * (e.g. `glancey search "retry with backoff" --limit 5 --json`).
+ * Every command prints human-readable text by default and JSON with `--json`,
+ * and exits with one of the CLI_EXIT_CODES so it can be used from shell scripts and git hooks.
+ */
+
+import * as path from 'path';
+import { parseArgs, type ParseArgsOptionsConfig } from 'util';
+import type { CodeChunk, CodeIndexer, IndexProgress, IndexStatus } from '../search/indexer.js';
+import { SymbolExtractor, type SymbolsOverview } from '../symbols/index.js';
+import { MemoryManager, type MemoryInfo } from '../memory/index.js';
+import { handleInitProject } from '../tools/init-handlers.js';
+import { GlanceyError } from '../utils/errors.js';
+import { LOCAL_BACKEND_NOTE } from '../embeddings/index.js';
+
+/**
+ * Process exit codes used by the CLI.
+ */
+export const CLI_EXIT_CODES = {
+  /** The command succeeded */
+  success: 0,
+  /** The command failed (e.g. embedding backend unavailable, memory not found) */
+  failure: 1,
+  /** Unknown command, unknown option or missing argument */
+  usage: 2,
+  /** Nothing found: a search without results, or status without an index */
+  empty: 3,
+} as const;
+
+/**
+ * Subcommands handled by the CLI (anything else starts the MCP server).
+ */
+export const CLI_COMMANDS = ['init', 'index', 'search', 'status', 'symbols', 'memory', 'help'];
+
+const USAGE = `Usage: glancey <command> [options]
+
+Commands:
+  init [path]                 Set up CLAUDE.md and hooks for glancey in a project
+  index [--full] [--repair]   Update the index (--full rebuilds it from scratch)
+  search <query>              Search the index
+      --limit <n>             Maximum number of results (default: 10)
+      --path <glob>           Only return results from matching files
+      --language <name>       Only return results in this language (repeatable)
+  status                      Show index status
+  symbols <file> [--depth n]  List the symbols defined in a file
+  memory list                 List project memories
+  memory read <name>          Print a memory
+  memory write <name> [text]  Save a memory (reads stdin when text is omitted)
+  memory delete <name>        Delete a memory
+  help                        Show this help
+
+Without a command, glancey runs as an MCP server (see also \`glancey daemon\` and \`--http <port>\`).
+
+Options:
+  --json                      Print machine-readable JSON
+
+Exit codes: 0 success, 1 failure, 2 usage error, 3 nothing found (no search results or no index)`;
+
+/**
+ * Input and output streams used by the CLI.
+ */
+export interface CliIO {
+  /** Write to standard output */
+  stdout: (text: string) => void;
+  /** Write to standard error (progress and errors) */
+  stderr: (text: string) => void;
+  /** Read all of standard input */
+  readStdin: () => Promise<string>;
+}
+
+/**
+ * Context for running CLI commands.
+ */
+export interface CliContext {
+  projectPath: string;
+  /** Create (or reuse) the project's indexer; only called by commands that need it */
+  getIndexer: () => Promise<CodeIndexer>;
+  io?: CliIO;
+}
+
+/**
+ * Check whether command-line arguments name a CLI subcommand.
+ */
+export function isCliCommand(args: string[]): boolean {
+  return CLI_COMMANDS.includes(args[0]) || args[0] === '--help' || args[0] === '-h';
+}
+
+/**
+ * Read all of process.stdin.
+ */
+async function readProcessStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text + '\n'),
+  stderr: (text) => process.stderr.write(text + '\n'),
+  readStdin: readProcessStdin,
+};
+
+function usageError(message: string): GlanceyError {
+  return new GlanceyError(`${message}\n\n${USAGE}`, 'validation');
+}
+
+/**
+ * Options accepted by every command.
+ */
+const COMMON_OPTIONS = { json: { type: 'boolean' } } as const;
+
+/**
+ * Parse options for a subcommand, turning parse failures into usage errors.
+ */
+function parseCommandArgs<const O extends ParseArgsOptionsConfig>(args: string[], options: O) {
+  try {
+    return parseArgs({
+      args,
+      options: { ...COMMON_OPTIONS, ...options },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw usageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Parse a non-negative integer option value.
+ */
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw usageError(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return count;
+}
+
+function printJson(io: CliIO, value: unknown): void {
+  io.stdout(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Format search results for a terminal: a location header followed by the chunk's code.
+ */
+export function formatCliSearchResults(results: CodeChunk[]): string {
+  return results
+    .map((r) => {
+      const symbol = r.symbolName
+        ? `  ${r.symbolName}${r.symbolType ? ` (${r.symbolType})` : ''}`
+        : '';
+      const cell = r.cellIndex !== undefined ? ` (cell ${r.cellIndex})` : '';
+      return `${r.filepath}:${r.startLine}-${r.endLine}${cell}${symbol}\n${r.content.trimEnd()}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format index status for a terminal.
+ */
+export function formatCliStatus(status: IndexStatus): string {
+  const lines = [
+    `Indexed:      ${status.indexed ? 'yes' : 'no'}`,
+    `Files:        ${status.fileCount}`,
+    `Chunks:       ${status.chunkCount}`,
+    `Last updated: ${status.lastUpdated ?? 'never'}`,
+    `Index path:   ${status.indexPath}`,
+  ];
+  if (status.embeddingBackend) {
+    const model = status.embeddingModel ? ` (${status.embeddingModel})` : '';
+    lines.push(`Backend:      ${status.embeddingBackend}${model}`);
+    if (status.embeddingBackend === 'local') {
+      lines.push(`Note:         ${LOCAL_BACKEND_NOTE}`);
+    }
+  }
+  if (status.corrupted) {
+    lines.push(
+      `Corrupted:    ${status.corruptionReason ?? 'yes'} (run \`glancey index --repair\`)`
+    );
+  }
+  if (status.backendMismatch) {
+    lines.push(`Mismatch:     ${status.backendMismatchReason}`);
+  }
+  if (status.embeddingUnavailableReason) {
+    const queued = status.indexingQueued ? ', indexing queued' : '';
+    lines.push(`Unavailable:  ${status.embeddingUnavailableReason} (keyword search only${queued})`);
+  }
+  if (status.lockHolder) {
+    lines.push(
+      `Locked:       PID ${status.lockHolder.pid} (${status.lockHolder.operation} since ${status.lockHolder.acquiredAt})`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a file's symbols for a terminal, grouped by kind.
+ */
+export function formatCliSymbols(overview: SymbolsOverview): string {
+  const lines = [`${overview.filepath}: ${overview.totalSymbols} symbols`];
+  for (const [kindName, entries] of Object.entries(overview.byKind)) {
+    lines.push('', `${kindName}:`);
+    for (const entry of entries) {
+      const children = entry.children ? ` [${entry.children} children]` : '';
+      lines.push(`  ${entry.namePath.padEnd(40)} ${entry.lines}${children}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format the memory list for a terminal.
+ */
+function formatCliMemories(memories: MemoryInfo[]): string {
+  return memories
+    .map((m) => {
+      const date = m.lastModified.toISOString().split('T')[0];
+      return `${m.name.padEnd(32)} ${(m.size / 1024).toFixed(1).padStart(6)} KB  ${date}`;
+    })
+    .join('\n');
+}
+
+async function runInit(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { positionals } = parseCommandArgs(args, {});
+  // Accept paths relative to the working directory, like any other shell command
+  const projectPath = positionals[0] ? path.resolve(positionals[0]) : context.projectPath;
+  const result = await handleInitProject({ projectPath });
+  io.stdout(result.content.map((c) => c.text).join('\n'));
+  return CLI_EXIT_CODES.success;
+}
+
+async function runIndex(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    full: { type: 'boolean' },
+    repair: { type: 'boolean' },
+  });
+  if (positionals.length > 0) {
+    throw usageError(`Unexpected argument: ${positionals[0]}`);
+  }
+
+  const indexer = await context.getIndexer();
+  let lastPhase: IndexProgress['phase'] | null = null;
+  const result = await indexer.indexCodebase(
+    undefined,
+    undefined,
+    values.full ?? false,
+    (progress) => {
+      // One line per phase keeps logs from CI and git hooks readable
+      if (progress.phase !== lastPhase) {
+        lastPhase = progress.phase;
+        io.stderr(`[glancey] ${progress.message}`);
+      }
+    },
+    values.repair ?? false
+  );
+
+  if (values.json) {
+    printJson(io, result);
+  } else {
+    const mode = result.repaired
+      ? 'Repaired (corruption detected)'
+      : result.incremental
+        ? 'Incremental update'
+        : 'Full reindex';
+    io.stdout(
+      `${mode}: Indexed ${result.filesIndexed} files, total ${result.chunksCreated} chunks.`
+    );
+  }
+  return CLI_EXIT_CODES.success;
+}
+
+async function runSearch(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    limit: { type: 'string' },
+    path: { type: 'string' },
+    language: { type: 'string', multiple: true },
+  });
+  const query = positionals.join(' ').trim();
+  if (!query) {
+    throw usageError('search requires a query');
+  }
+
+  const indexer = await context.getIndexer();
+  const results = await indexer.search({
+    query,
+    limit: parseCount(values.limit, 'limit', 10),
+    pathPattern: values.path,
+    languages: values.language,
+  });
+
+  if (values.json) {
+    printJson(
+      io,
+      results.map(({ embedding: _embedding, ...chunk }) => chunk)
+    );
+  } else if (results.length === 0) {
+    io.stderr('No results found.');
+  } else {
+    io.stdout(formatCliSearchResults(results));
+  }
+  return results.length > 0 ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.empty;
+}
+
+async function runStatus(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { values } = parseCommandArgs(args, {});
+  const indexer = await context.getIndexer();
+  const status = await indexer.getStatus();
+
+  if (values.json) {
+    printJson(io, status);
+  } else {
+    io.stdout(formatCliStatus(status));
+  }
+
+  if (status.corrupted) {
+    return CLI_EXIT_CODES.failure;
+  }
+  return status.indexed ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.empty;
+}
+
+async function runSymbols(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    depth: { type: 'string' },
+  });
+  if (positionals.length !== 1) {
+    throw usageError('symbols requires exactly one file path');
+  }
+
+  // Accept paths relative to the working directory, like any other shell command
+  const filepath = path.relative(context.projectPath, path.resolve(positionals[0]));
+  const extractor = new SymbolExtractor(context.projectPath);
+  const overview = await extractor.getSymbolsOverview(
+    filepath,
+    parseCount(values.depth, 'depth', 0)
+  );
+
+  if (values.json) {
+    printJson(io, overview);
+  } else {
+    io.stdout(formatCliSymbols(overview));
+  }
+  return CLI_EXIT_CODES.success;
+}
+
+async function runMemory(args: string[], context: CliContext, io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {});
+  const [action, name, ...rest] = positionals;
+  const memoryManager = new MemoryManager(context.projectPath);
+
+  const requireName = (): string => {
+    if (!name) {
+      throw usageError(`memory ${action} requires a memory name`);
+    }
+    return name;
+  };
+
+  switch (action) {
+    case 'list': {
+      const memories = await memoryManager.listMemories();
+      if (values.json) {
+        printJson(io, memories);
+      } else if (memories.length === 0) {
+        io.stderr('No memories found.');
+      } else {
+        io.stdout(formatCliMemories(memories));
+      }
+      return CLI_EXIT_CODES.success;
+    }
+
+    case 'read': {
+      const memoryName = requireName();
+      const content = await memoryManager.readMemory(memoryName);
+      if (values.json) {
+        printJson(io, { name: memoryName, content });
+      } else {
+        io.stdout(content.trimEnd());
+      }
+      return CLI_EXIT_CODES.success;
+    }
+
+    case 'write': {
+      const memoryName = requireName();
+      const content = rest.length > 0 ? rest.join(' ') : await io.readStdin();
+      if (!content.trim()) {
+        throw usageError('memory write requires content (as an argument or on stdin)');
+      }
+      await memoryManager.writeMemory(memoryName, content);
+      if (values.json) {
+        printJson(io, { name: memoryName, saved: true });
+      } else {
+        io.stdout(`Memory "${memoryName}" saved.`);
+      }
+      return CLI_EXIT_CODES.success;
+    }
+
+    case 'delete': {
+      const memoryName = requireName();
+      await memoryManager.deleteMemory(memoryName);
+      if (values.json) {
+        printJson(io, { name: memoryName, deleted: true });
+      } else {
+        io.stdout(`Memory "${memoryName}" deleted.`);
+      }
+      return CLI_EXIT_CODES.success;
+    }
+
+    default:
+      throw usageError(action ? `Unknown memory command: ${action}` : 'memory requires a command');
+  }
+}
+
+/**
+ * Run a CLI command.
+ *
+ * @param args - Command-line arguments after the binary name, e.g. `['search', 'auth', '--json']`
+ * @returns The process exit code
+ */
+export async function runCli(args: string[], context: CliContext): Promise<number> {
+  const io = context.io ?? processIO;
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case 'init':
+        return await runInit(rest, context, io);
+      case 'index':
+        return await runIndex(rest, context, io);
+      case 'search':
+        return await runSearch(rest, context, io);
+      case 'status':
+        return await runStatus(rest, context, io);
+      case 'symbols':
+        return await runSymbols(rest, context, io);
+      case 'memory':
+        return await runMemory(rest, context, io);
+      case 'help':
+      case '--help':
+      case '-h':
+        io.stdout(USAGE);
+        return CLI_EXIT_CODES.success;
+      default:
+        throw usageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (args.includes('--json')) {
+      const category = error instanceof GlanceyError ? error.category : 'internal';
+      printJson(io, { error: { message: message.split('\n\n')[0], category } });
+    }
+    io.stderr(`glancey ${command}: ${message}`);
+    return error instanceof GlanceyError && error.category === 'validation'
+      ? CLI_EXIT_CODES.usage
+      : CLI_EXIT_CODES.failure;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Command-line interface module.
+ */
+
+export type { CliContext, CliIO } from './cli.js';
+export {
+  runCli,
+  isCliCommand,
+  formatCliSearchResults,
+  formatCliStatus,
+  formatCliSymbols,
+  CLI_COMMANDS,
+  CLI_EXIT_CODES,
+} from './cli.js';
@@ -0,0 +1,206 @@
+/**
+ * MCP argument completion (`completion/complete`).
+ * Offers indexed file paths, symbol name paths, memory names and worktree names for the
+ * variables of glancey's resource templates, so clients can suggest valid values instead of
+ * letting the agent guess and spend a round trip on the error.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequestSchema,
+  type CompleteRequest,
+  type CompleteResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CodeIndexer } from '../search/indexer.js';
+import { SymbolExtractor, formatNamePath, type Symbol as SymbolType } from '../symbols/index.js';
+import { MemoryManager } from '../memory/index.js';
+import { WorktreeManager } from '../worktree/index.js';
+import {
+  MEMORY_URI_TEMPLATE,
+  SYMBOLS_URI_TEMPLATE,
+  SYMBOL_URI_TEMPLATE,
+  WORKTREE_URI_TEMPLATE,
+  parseResourcePath,
+  symbolsUri,
+} from '../resources/index.js';
+
+/**
+ * Maximum number of values in a completion response (MCP limit).
+ */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * What a completable argument refers to.
+ */
+export type CompletionSource = 'path' | 'symbol' | 'memory' | 'worktree';
+
+/**
+ * Completable variables of the resource templates, by URI template.
+ * Symbol completions use the template's `path` variable, sent as a context argument once the
+ * client has filled it in, to find the file.
+ */
+export const RESOURCE_TEMPLATE_COMPLETIONS: Record<string, Record<string, CompletionSource>> = {
+  [MEMORY_URI_TEMPLATE]: { name: 'memory' },
+  [SYMBOLS_URI_TEMPLATE]: { path: 'path' },
+  [SYMBOL_URI_TEMPLATE]: { path: 'path', name_path: 'symbol' },
+  [WORKTREE_URI_TEMPLATE]: { name: 'worktree' },
+};
+
+/**
+ * Reference to the resource template or prompt whose argument is being completed.
+ */
+export type CompletionReference = CompleteRequest['params']['ref'];
+
+/**
+ * Context for computing completions.
+ */
+export interface CompletionContext {
+  projectPath: string;
+  getIndexer: () => Promise<CodeIndexer>;
+}
+
+/**
+ * Find what a variable of a referenced resource template refers to.
+ *
+ * @returns The completion source, or undefined if the argument isn't completable
+ */
+export function getCompletionSource(
+  ref: CompletionReference,
+  argumentName: string
+): CompletionSource | undefined {
+  // glancey has no prompts
+  return ref.type === 'ref/resource'
+    ? RESOURCE_TEMPLATE_COMPLETIONS[ref.uri]?.[argumentName]
+    : undefined;
+}
+
+/**
+ * Rank candidates against a partial value: case-insensitive prefix matches first,
+ * then matches on the last path segment, then substring matches.
+ */
+export function rankCompletions(candidates: string[], value: string): string[] {
+  const needle = value.toLowerCase();
+  if (!needle) {
+    return candidates;
+  }
+
+  const scored: Array<{ candidate: string; rank: number }> = [];
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const lastSegment = lower.slice(lower.lastIndexOf('/') + 1);
+    const rank = lower.startsWith(needle)
+      ? 0
+      : lastSegment.startsWith(needle)
+        ? 1
+        : lower.includes(needle)
+          ? 2
+          : -1;
+    if (rank >= 0) {
+      scored.push({ candidate, rank });
+    }
+  }
+  // Array.prototype.sort is stable, so candidates keep their order within a rank
+  return scored.sort((a, b) => a.rank - b.rank).map((s) => s.candidate);
+}
+
+/**
+ * Collect the name paths of a file's symbols, including nested ones.
+ */
+function collectNamePaths(symbols: SymbolType[], namePaths: string[] = []): string[] {
+  for (const symbol of symbols) {
+    namePaths.push(formatNamePath(symbol.namePath));
+    if (symbol.children) {
+      collectNamePaths(symbol.children, namePaths);
+    }
+  }
+  return namePaths;
+}
+
+/**
+ * List all candidate values for a completion source.
+ */
+async function listCandidates(
+  source: CompletionSource,
+  contextArguments: Record<string, string>,
+  context: CompletionContext
+): Promise<string[]> {
+  switch (source) {
+    case 'path': {
+      const indexer = await context.getIndexer();
+      return indexer.getIndexedFiles();
+    }
+
+    case 'symbol': {
+      const relativePath = contextArguments.path;
+      if (!relativePath) {
+        return [];
+      }
+      // Like reading the resource, only look into files inside the project
+      let filepath: string;
+      try {
+        filepath = parseResourcePath(relativePath, symbolsUri(relativePath));
+      } catch {
+        return [];
+      }
+      const extractor = new SymbolExtractor(context.projectPath);
+      return collectNamePaths(await extractor.extractSymbols(filepath));
+    }
+
+    case 'memory': {
+      const memories = await new MemoryManager(context.projectPath).listMemories();
+      return memories.map((m) => m.name);
+    }
+
+    case 'worktree': {
+      const { worktrees } = await new WorktreeManager(context.projectPath).listWorktrees();
+      return worktrees.map((w) => w.name);
+    }
+  }
+}
+
+/**
+ * Complete an argument value.
+ * Completion is best effort: candidates that can't be listed (no index yet, unparseable file)
+ * yield no values rather than an error.
+ */
+export async function completeArgument(
+  ref: CompletionReference,
+  argument: { name: string; value: string },
+  contextArguments: Record<string, string>,
+  context: CompletionContext
+): Promise<CompleteResult> {
+  const source = getCompletionSource(ref, argument.name);
+  let matches: string[] = [];
+
+  if (source) {
+    try {
+      const candidates = await listCandidates(source, contextArguments, context);
+      matches = rankCompletions(candidates, argument.value);
+    } catch (error) {
+      console.error(`[glancey] Failed to complete ${argument.name}:`, error);
+    }
+  }
+
+  return {
+    completion: {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES,
+    },
+  };
+}
+
+/**
+ * Register the `completion/complete` handler on an MCP server.
+ * The server must declare the `completions` capability.
+ */
+export function registerCompletionHandler(server: Server, context: CompletionContext): void {
+  server.setRequestHandler(CompleteRequestSchema, (request) =>
+    completeArgument(
+      request.params.ref,
+      request.params.argument,
+      request.params.context?.arguments ?? {},
+      context
+    )
+  );
+}
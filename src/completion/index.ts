@@ -0,0 +1,13 @@
+/**
+ * Argument completion module: suggests file paths, symbols, memories and worktrees to MCP clients.
+ */
+
+export type { CompletionContext, CompletionReference, CompletionSource } from './completion.js';
+export {
+  registerCompletionHandler,
+  completeArgument,
+  getCompletionSource,
+  rankCompletions,
+  RESOURCE_TEMPLATE_COMPLETIONS,
+  MAX_COMPLETION_VALUES,
+} from './completion.js';
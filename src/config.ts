@@ -15,11 +15,27 @@ const SearchConfigSchema = z.object({
   keywordWeight: z.number().min(0).max(1).optional(),
   /** Automatically reindex when stale files are detected before search (default: true) */
   autoReindex: z.boolean().optional(),
+  /**
+   * How semantic and keyword results are combined (default: 'weighted').
+   * 'weighted' blends vector distance with normalized BM25 score; 'rrf' uses weighted reciprocal rank fusion.
+   */
+  fusion: z.enum(['weighted', 'rrf']).optional(),
 });
 
+const EmbeddingBackendSchema = z.enum(['ollama', 'gemini', 'local', 'openai-compatible']);
+
 const EmbeddingConfigSchema = z.object({
-  backend: z.enum(['ollama', 'gemini']).optional(),
+  /** 'local' builds lexical vectors offline: always available, but lower search quality */
+  backend: EmbeddingBackendSchema.optional(),
   model: z.string().optional(),
+  /** Server URL including the API version, e.g. http://localhost:8080/v1 (openai-compatible) */
+  baseUrl: z.string().optional(),
+  /** Vector dimensions to request; detected from the server when omitted (openai-compatible) */
+  dimensions: z.number().int().min(1).optional(),
+  /** Number of texts per embedding request (openai-compatible, default: 64) */
+  batchSize: z.number().min(1).max(2048).optional(),
+  /** Backends to try in order when `backend` is unavailable (default: ollama, then local). [] disables failover. */
+  failover: z.array(EmbeddingBackendSchema).optional(),
   /** Number of concurrent requests to Ollama (default: 10). Increase if your system has capacity. */
   ollamaConcurrency: z.number().min(1).max(200).optional(),
 });
@@ -37,6 +53,40 @@ const IndexingConfigSchema = z.object({
   batchSize: z.number().min(1).max(1000).optional(),
 });
 
+const WatchConfigSchema = z.object({
+  /** Watch project files and index changes in the background (default: false) */
+  enabled: z.boolean().optional(),
+  /** Quiet period in milliseconds before a batch of changes is indexed (default: 500) */
+  debounceMs: z.number().min(50).max(60000).optional(),
+});
+
+const LinkedProjectSchema = z.object({
+  /** Local checkout of the related repository, absolute or relative to this project */
+  path: z.string(),
+  /** Name its search results are tagged with (default: the directory name) */
+  name: z.string().optional(),
+});
+
+const NodeTypesSchema = z.array(z.string()).optional();
+
+const LanguageConfigSchema = z.object({
+  /** Tree-sitter grammar (.wasm), absolute or relative to the project */
+  wasmPath: z.string().min(1),
+  /** File extensions parsed with this grammar, e.g. [".ex", ".exs"] */
+  extensions: z.array(z.string().min(1)).min(1),
+  /** Node types chunked and reported as symbols; each defaults to [] */
+  functionTypes: NodeTypesSchema,
+  classTypes: NodeTypesSchema,
+  methodTypes: NodeTypesSchema,
+  importTypes: NodeTypesSchema,
+  variableTypes: NodeTypesSchema,
+  interfaceTypes: NodeTypesSchema,
+  typeTypes: NodeTypesSchema,
+  constructorTypes: NodeTypesSchema,
+  /** Node types matched by find_references (default: ["identifier"]) */
+  identifierTypes: NodeTypesSchema,
+});
+
 const ConfigSchema = z.object({
   patterns: z.array(z.string()).optional(),
   excludePatterns: z.array(z.string()).optional(),
@@ -45,6 +95,11 @@ const ConfigSchema = z.object({
   search: SearchConfigSchema.optional(),
   dashboard: DashboardConfigSchema.optional(),
   indexing: IndexingConfigSchema.optional(),
+  watch: WatchConfigSchema.optional(),
+  /** Related repositories with their own .glancey/ index, searched with scope 'linked' or 'all' */
+  linkedProjects: z.array(LinkedProjectSchema).optional(),
+  /** Extra tree-sitter languages, keyed by language name */
+  languages: z.record(z.string(), LanguageConfigSchema).optional(),
   instructions: z.string().optional(),
 });
 
@@ -53,13 +108,20 @@ export type ChunkingConfig = z.infer<typeof ChunkingConfigSchema>;
 export type SearchConfig = z.infer<typeof SearchConfigSchema>;
 export type DashboardConfig = z.infer<typeof DashboardConfigSchema>;
 export type IndexingConfig = z.infer<typeof IndexingConfigSchema>;
+export type WatchConfig = z.infer<typeof WatchConfigSchema>;
+export type LinkedProjectConfig = z.infer<typeof LinkedProjectSchema>;
+export type LanguageConfig = z.infer<typeof LanguageConfigSchema>;
 
 const DEFAULT_PATTERNS = [
   '**/*.ts',
   '**/*.tsx',
   '**/*.js',
   '**/*.jsx',
+  '**/*.vue',
+  '**/*.svelte',
+  '**/*.astro',
   '**/*.py',
+  '**/*.ipynb',
   '**/*.go',
   '**/*.rs',
   '**/*.java',
@@ -83,6 +145,7 @@ const DEFAULT_EXCLUDE_PATTERNS = [
   '**/__pycache__/**',
   '**/venv/**',
   '**/.venv/**',
+  '**/.ipynb_checkpoints/**',
   '**/vendor/**',
   '**/*.min.js',
   '**/*.min.css',
@@ -103,6 +166,7 @@ export const DEFAULT_SEARCH: Required<SearchConfig> = {
   semanticWeight: 0.7,
   keywordWeight: 0.3,
   autoReindex: true,
+  fusion: 'weighted',
 };
 
 /**
@@ -122,6 +186,14 @@ export const DEFAULT_INDEXING: Required<IndexingConfig> = {
   batchSize: 256,
 };
 
+/**
+ * Default file watcher configuration
+ */
+export const DEFAULT_WATCH: Required<WatchConfig> = {
+  enabled: false,
+  debounceMs: 500,
+};
+
 export const DEFAULT_CONFIG: GlanceyConfig = {
   patterns: DEFAULT_PATTERNS,
   excludePatterns: DEFAULT_EXCLUDE_PATTERNS,
@@ -129,6 +201,7 @@ export const DEFAULT_CONFIG: GlanceyConfig = {
   search: DEFAULT_SEARCH,
   dashboard: DEFAULT_DASHBOARD,
   indexing: DEFAULT_INDEXING,
+  watch: DEFAULT_WATCH,
 };
 
 const CONFIG_FILENAMES = ['.glancey.json', 'glancey.config.json'];
@@ -244,6 +317,7 @@ function getSuggestionForRange(
     'search.semanticWeight': '\n    Suggestion: Use a value between 0.0 and 1.0 for search weights',
     'search.keywordWeight': '\n    Suggestion: Use a value between 0.0 and 1.0 for search weights',
     'dashboard.port': '\n    Suggestion: Use a port number between 1024 and 65535',
+    'watch.debounceMs': '\n    Suggestion: Use a value between 50 and 60000 milliseconds',
   };
 
   return fieldSuggestions[fieldPath] || '';
@@ -294,6 +368,21 @@ function extractValidConfig(rawConfig: unknown): Partial<z.infer<typeof ConfigSc
     }
   }
 
+  if (config.linkedProjects !== undefined) {
+    const linkedResult = z.array(LinkedProjectSchema).safeParse(config.linkedProjects);
+    if (linkedResult.success) {
+      result.linkedProjects = linkedResult.data;
+    }
+  }
+
+  if (config.languages !== undefined) {
+    // Keep the languages that are valid on their own
+    const languagesResult = extractValidLanguages(config.languages);
+    if (Object.keys(languagesResult).length > 0) {
+      result.languages = languagesResult;
+    }
+  }
+
   if (config.embedding !== undefined) {
     const embeddingResult = EmbeddingConfigSchema.safeParse(config.embedding);
     if (embeddingResult.success) {
@@ -333,6 +422,48 @@ function extractValidConfig(rawConfig: unknown): Partial<z.infer<typeof ConfigSc
     }
   }
 
+  if (config.watch !== undefined) {
+    // Try to extract valid individual fields from watch
+    const watchResult = extractValidWatch(config.watch);
+    if (Object.keys(watchResult).length > 0) {
+      result.watch = watchResult;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add the file extensions of configured languages to the default patterns,
+ * so registering a language is enough to index its files.
+ */
+function withLanguagePatterns(
+  patterns: string[],
+  languages: Record<string, LanguageConfig> | undefined
+): string[] {
+  const extensions = Object.values(languages ?? {}).flatMap((language) => language.extensions);
+  const extra = extensions
+    .map((ext) => `**/*${ext.startsWith('.') ? ext : `.${ext}`}`)
+    .filter((pattern) => !patterns.includes(pattern));
+  return extra.length > 0 ? [...patterns, ...new Set(extra)] : patterns;
+}
+
+/**
+ * Extract valid language definitions
+ */
+function extractValidLanguages(rawLanguages: unknown): Record<string, LanguageConfig> {
+  if (typeof rawLanguages !== 'object' || rawLanguages === null) {
+    return {};
+  }
+
+  const result: Record<string, LanguageConfig> = {};
+  for (const [name, rawLanguage] of Object.entries(rawLanguages)) {
+    const languageResult = LanguageConfigSchema.safeParse(rawLanguage);
+    if (languageResult.success) {
+      result[name] = languageResult.data;
+    }
+  }
+
   return result;
 }
 
@@ -396,6 +527,13 @@ function extractValidSearch(rawSearch: unknown): Partial<z.infer<typeof SearchCo
     }
   }
 
+  if (search.fusion !== undefined) {
+    const fusionResult = z.enum(['weighted', 'rrf']).safeParse(search.fusion);
+    if (fusionResult.success) {
+      result.fusion = fusionResult.data;
+    }
+  }
+
   return result;
 }
 
@@ -464,6 +602,34 @@ function extractValidIndexing(rawIndexing: unknown): Partial<z.infer<typeof Inde
   return result;
 }
 
+/**
+ * Extract valid watch config fields
+ */
+function extractValidWatch(rawWatch: unknown): Partial<z.infer<typeof WatchConfigSchema>> {
+  if (typeof rawWatch !== 'object' || rawWatch === null) {
+    return {};
+  }
+
+  const watch = rawWatch as Record<string, unknown>;
+  const result: Partial<z.infer<typeof WatchConfigSchema>> = {};
+
+  if (watch.enabled !== undefined) {
+    const enabledResult = z.boolean().safeParse(watch.enabled);
+    if (enabledResult.success) {
+      result.enabled = enabledResult.data;
+    }
+  }
+
+  if (watch.debounceMs !== undefined) {
+    const debounceResult = z.number().min(50).max(60000).safeParse(watch.debounceMs);
+    if (debounceResult.success) {
+      result.debounceMs = debounceResult.data;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Load local config overrides (user-specific settings, gitignored)
  */
@@ -517,6 +683,14 @@ function mergeConfigs(
       ...baseConfig.indexing,
       ...localConfig.indexing,
     },
+    watch: {
+      ...baseConfig.watch,
+      ...localConfig.watch,
+    },
+    linkedProjects: localConfig.linkedProjects || baseConfig.linkedProjects,
+    languages: localConfig.languages
+      ? { ...baseConfig.languages, ...localConfig.languages }
+      : baseConfig.languages,
     instructions: localConfig.instructions ?? baseConfig.instructions,
   };
 }
@@ -541,7 +715,8 @@ export async function loadConfig(projectPath: string): Promise<GlanceyConfig> {
         const validConfig = extractValidConfig(rawConfig);
 
         baseConfig = {
-          patterns: validConfig.patterns || DEFAULT_PATTERNS,
+          patterns:
+            validConfig.patterns || withLanguagePatterns(DEFAULT_PATTERNS, validConfig.languages),
           excludePatterns: validConfig.excludePatterns || DEFAULT_EXCLUDE_PATTERNS,
           embedding: validConfig.embedding,
           chunking: {
@@ -560,6 +735,12 @@ export async function loadConfig(projectPath: string): Promise<GlanceyConfig> {
             ...DEFAULT_INDEXING,
             ...validConfig.indexing,
           },
+          watch: {
+            ...DEFAULT_WATCH,
+            ...validConfig.watch,
+          },
+          linkedProjects: validConfig.linkedProjects,
+          languages: validConfig.languages,
           instructions: validConfig.instructions,
         };
         break;
@@ -568,7 +749,8 @@ export async function loadConfig(projectPath: string): Promise<GlanceyConfig> {
       const userConfig = result.data;
 
       baseConfig = {
-        patterns: userConfig.patterns || DEFAULT_PATTERNS,
+        patterns:
+          userConfig.patterns || withLanguagePatterns(DEFAULT_PATTERNS, userConfig.languages),
         excludePatterns: userConfig.excludePatterns || DEFAULT_EXCLUDE_PATTERNS,
         embedding: userConfig.embedding,
         chunking: {
@@ -587,6 +769,12 @@ export async function loadConfig(projectPath: string): Promise<GlanceyConfig> {
           ...DEFAULT_INDEXING,
           ...userConfig.indexing,
         },
+        watch: {
+          ...DEFAULT_WATCH,
+          ...userConfig.watch,
+        },
+        linkedProjects: userConfig.linkedProjects,
+        languages: userConfig.languages,
         instructions: userConfig.instructions,
       };
       break;
@@ -663,6 +851,44 @@ export function getIndexingConfig(config: GlanceyConfig): Required<IndexingConfi
   };
 }
 
+/**
+ * Get file watcher config with defaults
+ */
+export function getWatchConfig(config: GlanceyConfig): Required<WatchConfig> {
+  return {
+    ...DEFAULT_WATCH,
+    ...config.watch,
+  };
+}
+
+/**
+ * A linked project with its path resolved.
+ */
+export interface LinkedProject {
+  /** Name its search results are tagged with */
+  name: string;
+  /** Absolute path of the linked checkout */
+  path: string;
+}
+
+/**
+ * Get the linked projects from config.
+ * Relative paths are resolved against the project directory; entries pointing at the
+ * project itself and duplicates are skipped.
+ */
+export function getLinkedProjects(config: GlanceyConfig, projectPath: string): LinkedProject[] {
+  const projectRoot = path.resolve(projectPath);
+  const linked: LinkedProject[] = [];
+  for (const entry of config.linkedProjects ?? []) {
+    const linkedPath = path.resolve(projectRoot, entry.path);
+    if (linkedPath === projectRoot || linked.some((p) => p.path === linkedPath)) {
+      continue;
+    }
+    linked.push({ name: entry.name || path.basename(linkedPath), path: linkedPath });
+  }
+  return linked;
+}
+
 /**
  * Get project instructions from config
  */
@@ -675,6 +901,8 @@ export function getInstructions(config: GlanceyConfig): string | undefined {
  */
 export interface GlanceySecrets {
   geminiApiKey?: string;
+  /** API key sent to an OpenAI-compatible embeddings server */
+  openaiApiKey?: string;
 }
 
 /**
@@ -711,9 +939,13 @@ export async function saveSecrets(projectPath: string, secrets: GlanceySecrets):
  * Embedding settings for dashboard configuration
  */
 export interface EmbeddingSettings {
-  backend: 'ollama' | 'gemini';
+  backend: 'ollama' | 'gemini' | 'local' | 'openai-compatible';
   apiKey?: string;
   ollamaUrl?: string;
+  /** Server URL of an OpenAI-compatible backend */
+  baseUrl?: string;
+  /** Model served by an OpenAI-compatible backend */
+  model?: string;
   /** Number of concurrent requests to Ollama */
   ollamaConcurrency?: number;
   /** Number of chunks per embedding batch */
@@ -746,6 +978,16 @@ export async function saveEmbeddingSettings(
     backend: settings.backend,
   };
 
+  // Update OpenAI-compatible server settings if provided
+  if (settings.backend === 'openai-compatible') {
+    if (settings.baseUrl) {
+      localConfig.embedding.baseUrl = settings.baseUrl;
+    }
+    if (settings.model) {
+      localConfig.embedding.model = settings.model;
+    }
+  }
+
   // Update ollamaConcurrency if provided
   if (settings.ollamaConcurrency !== undefined) {
     localConfig.embedding.ollamaConcurrency = settings.ollamaConcurrency;
@@ -766,6 +1008,8 @@ export async function saveEmbeddingSettings(
   if (settings.apiKey) {
     if (settings.backend === 'gemini') {
       await saveSecrets(projectPath, { geminiApiKey: settings.apiKey });
+    } else if (settings.backend === 'openai-compatible') {
+      await saveSecrets(projectPath, { openaiApiKey: settings.apiKey });
     }
   }
 }
@@ -774,9 +1018,11 @@ export async function saveEmbeddingSettings(
  * Get current embedding settings including secrets
  */
 export async function getEmbeddingSettings(projectPath: string): Promise<{
-  backend: 'ollama' | 'gemini';
+  backend: 'ollama' | 'gemini' | 'local' | 'openai-compatible';
   hasApiKey: boolean;
   ollamaUrl?: string;
+  baseUrl?: string;
+  model?: string;
   ollamaConcurrency: number;
   batchSize: number;
 }> {
@@ -788,12 +1034,16 @@ export async function getEmbeddingSettings(projectPath: string): Promise<{
   let hasApiKey = false;
   if (backend === 'gemini') {
     hasApiKey = !!(secrets.geminiApiKey || process.env.GEMINI_API_KEY);
+  } else if (backend === 'openai-compatible') {
+    hasApiKey = !!(secrets.openaiApiKey || process.env.OPENAI_API_KEY);
   }
 
   return {
     backend,
     hasApiKey,
     ollamaUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+    baseUrl: config.embedding?.baseUrl,
+    model: config.embedding?.model,
     ollamaConcurrency: config.embedding?.ollamaConcurrency || 1,
     batchSize: config.indexing?.batchSize || DEFAULT_INDEXING.batchSize,
   };
@@ -0,0 +1,215 @@
+/**
+ * Shared per-project daemon.
+ * One long-lived `glancey daemon` process owns the indexer and dashboard and serves MCP over a
+ * local socket; stdio servers started by clients detect it and forward their stdio to it.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { Readable, Writable } from 'stream';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { GlanceyError, wrapError } from '../utils/errors.js';
+
+/**
+ * How long a client waits for the daemon socket to accept a connection.
+ */
+const CONNECT_TIMEOUT_MS = 500;
+
+/**
+ * Get the local socket (Unix domain socket or Windows named pipe) for a project's daemon.
+ * Lives outside the project because Unix socket paths are limited to ~100 characters.
+ */
+export function getDaemonSocketPath(projectPath: string): string {
+  const hash = crypto.createHash('sha256').update(projectPath).digest('hex').slice(0, 16);
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\glancey-${hash}`;
+  }
+  return path.join(os.tmpdir(), `glancey-${hash}.sock`);
+}
+
+/**
+ * Connect to the project's daemon if one is running.
+ *
+ * @returns The connected socket, or null if no daemon accepted the connection
+ */
+export function connectToDaemon(
+  projectPath: string,
+  timeoutMs: number = CONNECT_TIMEOUT_MS
+): Promise<net.Socket | null> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection(getDaemonSocketPath(projectPath));
+    const fail = () => {
+      socket.destroy();
+      resolve(null);
+    };
+    const timer = setTimeout(fail, timeoutMs);
+    const onError = () => {
+      clearTimeout(timer);
+      fail();
+    };
+
+    socket.once('error', onError);
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      socket.off('error', onError);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Forward a client's stdio to the daemon until either side closes.
+ * Messages are passed through unchanged, so the client talks MCP to the daemon directly.
+ */
+export function proxyToDaemon(
+  socket: net.Socket,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Promise<void> {
+  return new Promise((resolve) => {
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      input.unpipe(socket);
+      socket.unpipe(output);
+      socket.end();
+      resolve();
+    };
+
+    input.pipe(socket);
+    socket.pipe(output, { end: false });
+
+    input.once('end', finish);
+    socket.once('close', finish);
+    socket.once('error', (error) => {
+      console.error('[glancey] Lost connection to daemon:', error.message);
+      finish();
+    });
+  });
+}
+
+export interface DaemonServerOptions {
+  /** Create the MCP server for a new client connection (handlers share the daemon's state) */
+  createServer: () => Server;
+  /** Called whenever a client connects or disconnects */
+  onClientsChange?: (clientCount: number) => void;
+}
+
+/**
+ * Local socket server that gives each connecting client its own MCP session.
+ *
+ * @example
+ * ```typescript
+ * const daemon = new DaemonServer('/path/to/project', { createServer: createMcpServer });
+ * await daemon.start();
+ * ```
+ */
+export class DaemonServer {
+  private projectPath: string;
+  private options: DaemonServerOptions;
+  private netServer: net.Server | null = null;
+  private sessions = new Map<net.Socket, Server>();
+
+  constructor(projectPath: string, options: DaemonServerOptions) {
+    this.projectPath = projectPath;
+    this.options = options;
+  }
+
+  /**
+   * Path of the socket the daemon listens on.
+   */
+  get socketPath(): string {
+    return getDaemonSocketPath(this.projectPath);
+  }
+
+  /**
+   * Number of connected clients.
+   */
+  get clientCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening.
+   *
+   * @throws GlanceyError if another daemon is already serving this project
+   */
+  async start(): Promise<void> {
+    const existing = await connectToDaemon(this.projectPath);
+    if (existing) {
+      existing.destroy();
+      throw new GlanceyError(
+        `A glancey daemon is already running for ${this.projectPath}`,
+        'internal',
+        { socketPath: this.socketPath }
+      );
+    }
+
+    // Nobody accepted the connection, so a leftover socket file is from a crashed daemon
+    if (process.platform !== 'win32') {
+      await fs.rm(this.socketPath, { force: true });
+    }
+
+    const netServer = net.createServer((socket) => this.handleConnection(socket));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        netServer.once('error', reject);
+        netServer.listen(this.socketPath, () => {
+          netServer.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      throw wrapError('Failed to start daemon socket', 'internal', error, {
+        socketPath: this.socketPath,
+      });
+    }
+    netServer.on('error', (error) => {
+      console.error('[glancey] Daemon socket error:', error);
+    });
+    this.netServer = netServer;
+  }
+
+  /**
+   * Disconnect all clients and stop listening.
+   */
+  async stop(): Promise<void> {
+    for (const [socket, server] of this.sessions) {
+      await server.close().catch(() => {});
+      socket.destroy();
+    }
+    this.sessions.clear();
+
+    const netServer = this.netServer;
+    this.netServer = null;
+    if (netServer) {
+      // Closing the server also removes the Unix socket file
+      await new Promise<void>((resolve) => netServer.close(() => resolve()));
+    }
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const server = this.options.createServer();
+    this.sessions.set(socket, server);
+    this.options.onClientsChange?.(this.sessions.size);
+
+    socket.on('error', (error) => {
+      console.error('[glancey] Daemon client connection error:', error.message);
+    });
+    socket.once('close', () => {
+      this.sessions.delete(socket);
+      this.options.onClientsChange?.(this.sessions.size);
+      server.close().catch(() => {});
+    });
+
+    server.connect(new StdioServerTransport(socket, socket)).catch((error) => {
+      console.error('[glancey] Failed to start daemon client session:', error);
+      socket.destroy();
+    });
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Shared daemon module: one process per project serving many MCP clients over a local socket.
+ */
+
+export type { DaemonServerOptions } from './daemon.js';
+export { DaemonServer, connectToDaemon, getDaemonSocketPath, proxyToDaemon } from './daemon.js';
@@ -62,6 +62,14 @@ export class SSEManager {
       }
     });
 
+    dashboardState.on('watcher:update', (status) => {
+      try {
+        this.broadcast('watcher:update', status);
+      } catch {
+        // Ignore broadcast failures
+      }
+    });
+
     dashboardState.on('tokenSavings:update', (savings) => {
       try {
         this.broadcast('tokenSavings:update', savings);
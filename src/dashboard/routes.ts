@@ -87,6 +87,7 @@ async function handleStatus(_req: IncomingMessage, res: ServerResponse): Promise
       isIndexing: dashboardState.isIndexingInProgress(),
       version: dashboardState.getVersion(),
       backendFallback: dashboardState.getBackendFallback(),
+      watcher: dashboardState.getWatcherStatus(),
     });
   } catch (error) {
     sendJSON(res, { error: String(error) }, 500);
@@ -226,8 +227,15 @@ async function handleSaveEmbeddingSettings(
   try {
     const body = (await parseJsonBody(req)) as EmbeddingSettings;
 
-    if (!body.backend || !['ollama', 'gemini'].includes(body.backend)) {
-      sendJSON(res, { error: 'Invalid backend. Must be "ollama" or "gemini".' }, 400);
+    if (
+      !body.backend ||
+      !['ollama', 'gemini', 'local', 'openai-compatible'].includes(body.backend)
+    ) {
+      sendJSON(
+        res,
+        { error: 'Invalid backend. Must be "ollama", "gemini", "local" or "openai-compatible".' },
+        400
+      );
       return;
     }
 
@@ -343,6 +351,18 @@ function handleTokenSavings(_req: IncomingMessage, res: ServerResponse): void {
   sendJSON(res, { ...breakdown.total, breakdown });
 }
 
+/**
+ * Handle GET /api/embedding-usage - Get embedding request counts per backend
+ */
+function handleEmbeddingUsage(_req: IncomingMessage, res: ServerResponse): void {
+  const usage = dashboardState.getEmbeddingUsage();
+  if (!usage) {
+    sendJSON(res, { error: 'Embedding usage not available' }, 503);
+    return;
+  }
+  sendJSON(res, usage);
+}
+
 /**
  * Handle GET /api/settings/search-weights - Get current search weights
  */
@@ -564,6 +584,9 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
       case '/api/token-savings':
         handleTokenSavings(req, res);
         break;
+      case '/api/embedding-usage':
+        handleEmbeddingUsage(req, res);
+        break;
       case '/api/search-weights':
         await handleGetSearchWeights(req, res);
         break;
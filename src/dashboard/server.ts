@@ -52,6 +52,39 @@ export interface DashboardServer {
   stop: () => Promise<void>;
 }
 
+/**
+ * Bind an HTTP server to localhost.
+ * Resolves with the bound port and base URL (important when port 0 is used).
+ */
+export async function listenOnLocalhost(
+  server: http.Server,
+  port: number
+): Promise<{ port: number; url: string }> {
+  return new Promise((resolve, reject) => {
+    server.once('error', (err) => {
+      reject(err);
+    });
+
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      resolve({ port: boundPort, url: `http://127.0.0.1:${boundPort}` });
+    });
+  });
+}
+
+/**
+ * Close an HTTP server, waiting for open connections to finish.
+ */
+export async function closeServer(server: http.Server): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    server.close((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
 /**
  * Start the dashboard HTTP server
  */
@@ -65,30 +98,14 @@ export async function startServer(port?: number): Promise<DashboardServer> {
   // Start the SSE heartbeat
   sseManager.startHeartbeat();
 
-  return new Promise((resolve, reject) => {
-    server.once('error', (err) => {
-      reject(err);
-    });
-
-    server.listen(actualPort, '127.0.0.1', () => {
-      // Get the actual port from the server (important when port 0 is used)
-      const address = server.address();
-      const boundPort = typeof address === 'object' && address ? address.port : actualPort;
-      const url = `http://127.0.0.1:${boundPort}`;
-      resolve({
-        server,
-        port: boundPort,
-        url,
-        stop: async () => {
-          sseManager.closeAll();
-          return new Promise<void>((resolveClose, rejectClose) => {
-            server.close((err) => {
-              if (err) rejectClose(err);
-              else resolveClose();
-            });
-          });
-        },
-      });
-    });
-  });
+  const { port: boundPort, url } = await listenOnLocalhost(server, actualPort);
+  return {
+    server,
+    port: boundPort,
+    url,
+    stop: async () => {
+      sseManager.closeAll();
+      await closeServer(server);
+    },
+  };
 }
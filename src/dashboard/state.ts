@@ -4,7 +4,8 @@ import * as path from 'path';
 import type { CodeIndexer, IndexStatus, IndexProgress } from '../search/indexer.js';
 import type { GlanceyConfig } from '../config.js';
 import type { BackendFallbackInfo } from '../embeddings/types.js';
-import { tokenTracker, type TokenSavingsStats } from './token-tracking.js';
+import type { EmbeddingUsageStats } from '../embeddings/usage.js';
+import { tokenTracker, TokenSavingsTracker, type TokenSavingsStats } from './token-tracking.js';
 
 /**
  * Command names that can be tracked
@@ -44,7 +45,8 @@ export type CommandName =
   // Dashboard tools
   | 'open_dashboard'
   // Project setup tools
-  | 'init_project';
+  | 'init_project'
+  | 'list_projects';
 
 /**
  * Command usage statistics
@@ -64,6 +66,17 @@ export interface DashboardStateEvents {
   'indexing:complete': (result: { filesIndexed: number; chunksCreated: number }) => void;
   'status:change': (status: IndexStatus) => void;
   'usage:update': (usage: CommandUsage[]) => void;
+  'watcher:update': (status: WatcherStatus) => void;
+}
+
+/**
+ * File watcher state shown on the dashboard
+ */
+export interface WatcherStatus {
+  /** Whether a file watcher is keeping the index up to date */
+  watching: boolean;
+  /** Number of changed files not yet indexed */
+  pendingChanges: number;
 }
 
 /**
@@ -109,6 +122,7 @@ const COMMAND_LABELS: Record<CommandName, string> = {
   open_dashboard: 'Open Dashboard',
   // Project setup tools
   init_project: 'Init Project',
+  list_projects: 'List Projects',
 };
 
 /** Maximum number of event listeners to prevent memory leaks */
@@ -126,11 +140,21 @@ export class DashboardStateManager extends EventEmitter {
   private lastProgress: IndexProgress | null = null;
   private commandUsage: Map<CommandName, number> = new Map();
   private backendFallback: BackendFallbackInfo | null = null;
+  private watcherStatus: WatcherStatus = { watching: false, pendingChanges: 0 };
+  private tokenTracker: TokenSavingsTracker;
 
-  constructor() {
+  /**
+   * @param tracker - Token savings tracker of the project (each project keeps its own)
+   */
+  constructor(tracker: TokenSavingsTracker = new TokenSavingsTracker()) {
     super();
     // Set max listeners to prevent memory leak warnings and enforce bounds
     this.setMaxListeners(MAX_LISTENERS);
+    this.tokenTracker = tracker;
+    // Wire up token savings updates to emit SSE events
+    this.tokenTracker.setOnUpdate(() => {
+      this.emitTokenSavingsUpdate();
+    });
   }
 
   /**
@@ -238,7 +262,7 @@ export class DashboardStateManager extends EventEmitter {
   setProjectPath(projectPath: string): void {
     this.projectPath = projectPath;
     this.loadUsageFromDisk();
-    tokenTracker.setProjectPath(projectPath);
+    this.tokenTracker.setProjectPath(projectPath);
   }
 
   /**
@@ -276,6 +300,33 @@ export class DashboardStateManager extends EventEmitter {
     return this.backendFallback;
   }
 
+  /**
+   * Record whether a file watcher is running
+   */
+  setWatching(watching: boolean): void {
+    this.watcherStatus = {
+      watching,
+      pendingChanges: watching ? this.watcherStatus.pendingChanges : 0,
+    };
+    this.emit('watcher:update', this.watcherStatus);
+  }
+
+  /**
+   * Record the number of changed files waiting to be indexed
+   */
+  setPendingChanges(pendingChanges: number): void {
+    if (pendingChanges === this.watcherStatus.pendingChanges) return;
+    this.watcherStatus = { ...this.watcherStatus, pendingChanges };
+    this.emit('watcher:update', this.watcherStatus);
+  }
+
+  /**
+   * Get the file watcher state
+   */
+  getWatcherStatus(): WatcherStatus {
+    return this.watcherStatus;
+  }
+
   /**
    * Get the current index status
    */
@@ -286,6 +337,13 @@ export class DashboardStateManager extends EventEmitter {
     return this.indexer.getStatus();
   }
 
+  /**
+   * Get embedding usage counters, or null before the indexer is created
+   */
+  getEmbeddingUsage(): EmbeddingUsageStats | null {
+    return this.indexer?.getEmbeddingUsage() ?? null;
+  }
+
   /**
    * Get the current configuration
    */
@@ -363,6 +421,14 @@ export class DashboardStateManager extends EventEmitter {
     this.emit('indexing:complete', result);
   }
 
+  /**
+   * Called when indexing fails
+   */
+  onIndexingFailed(): void {
+    this.isIndexing = false;
+    this.lastProgress = null;
+  }
+
   /**
    * Called when status changes
    */
@@ -397,8 +463,7 @@ export class DashboardStateManager extends EventEmitter {
       this.onIndexingComplete(result);
       return result;
     } catch (error) {
-      this.isIndexing = false;
-      this.lastProgress = null;
+      this.onIndexingFailed();
       throw error;
     }
   }
@@ -520,37 +585,32 @@ export class DashboardStateManager extends EventEmitter {
    * Get token savings statistics (main project only)
    */
   getTokenSavings(): TokenSavingsStats {
-    return tokenTracker.getStats();
+    return this.tokenTracker.getStats();
   }
 
   /**
    * Get token savings with worktree breakdown
    */
   getTokenSavingsWithWorktrees() {
-    return tokenTracker.getStatsWithWorktrees();
+    return this.tokenTracker.getStatsWithWorktrees();
   }
 
   /**
    * Get the token tracker for recording savings
    */
-  getTokenTracker() {
-    return tokenTracker;
+  getTokenTracker(): TokenSavingsTracker {
+    return this.tokenTracker;
   }
 
   /**
    * Emit token savings update event for real-time dashboard updates
    */
   emitTokenSavingsUpdate(): void {
-    this.emit('tokenSavings:update', tokenTracker.getStats());
+    this.emit('tokenSavings:update', this.tokenTracker.getStats());
   }
 }
 
 /**
- * Singleton instance of the dashboard state manager
+ * Singleton instance of the dashboard state manager (the server's own project)
  */
-export const dashboardState = new DashboardStateManager();
-
-// Wire up token savings updates to emit SSE events
-tokenTracker.setOnUpdate(() => {
-  dashboardState.emitTokenSavingsUpdate();
-});
+export const dashboardState = new DashboardStateManager(tokenTracker);
@@ -1347,6 +1347,19 @@ export function getDashboardHTML(): string {
       </div>
     </div>
 
+    <!-- Index Lock Banner (another process is writing the index) -->
+    <div class="warning-banner" id="lockBanner">
+      <div class="warning-banner-header">
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        <span>Index in use by another session</span>
+      </div>
+      <div class="warning-banner-content" id="lockContent">
+        <!-- Content populated by JavaScript -->
+      </div>
+    </div>
+
     <div class="grid">
       <!-- Command Usage Card -->
       <div class="card full-width">
@@ -1387,6 +1400,10 @@ export function getDashboardHTML(): string {
           <div class="stat-label">Last Updated</div>
           <div class="stat-value small" id="lastUpdated">-</div>
         </div>
+        <div class="stat" id="pendingChangesStat" style="display: none;">
+          <div class="stat-label">Pending Changes</div>
+          <div class="stat-value" id="pendingChanges">0</div>
+        </div>
         <div class="progress-container" id="progressContainer">
           <div class="progress-bar">
             <div class="progress-fill" id="progressFill" style="width: 0%"></div>
@@ -1423,6 +1440,30 @@ export function getDashboardHTML(): string {
           <div class="stat-value small" id="operationCount">0</div>
         </div>
       </div>
+
+      <!-- Embedding Usage Card -->
+      <div class="card half-width compact">
+        <div class="card-header">
+          <span class="card-title">Embedding Usage</span>
+          <span class="badge" id="embeddingUsageBadge">Today (UTC)</span>
+        </div>
+        <div class="stat">
+          <div class="stat-label">Requests Today</div>
+          <div class="stat-value" id="embeddingRequestsToday">0</div>
+        </div>
+        <div class="stat">
+          <div class="stat-label">Est. Tokens Today</div>
+          <div class="stat-value" id="embeddingTokensToday">0</div>
+        </div>
+        <div class="stat">
+          <div class="stat-label">Rate Limited / Quota Errors</div>
+          <div class="stat-value small" id="embeddingRateLimited">0 / 0</div>
+        </div>
+        <div class="stat">
+          <div class="stat-label">Query Latency p50 / p95</div>
+          <div class="stat-value small" id="embeddingQueryLatency">-</div>
+        </div>
+      </div>
     </div>
 
     <!-- Server Log Section -->
@@ -1548,6 +1589,8 @@ export function getDashboardHTML(): string {
               <select id="backendSelect" class="form-select">
                 <option value="ollama">Ollama (local)</option>
                 <option value="gemini" selected>Google Gemini (free - requires API key)</option>
+                <option value="openai-compatible">OpenAI-compatible server (llama.cpp, vLLM, LM Studio)</option>
+                <option value="local">Offline lexical vectors (no setup - reduced quality)</option>
               </select>
             </div>
             <div class="form-group" id="ollamaSettingsGroup">
@@ -1566,6 +1609,13 @@ export function getDashboardHTML(): string {
                 <option value="1000">1000</option>
               </select>
             </div>
+            <div class="form-group" id="openaiSettingsGroup" style="display: none;">
+              <label for="baseUrlInput">Server URL</label>
+              <input type="text" id="baseUrlInput" class="form-input" placeholder="http://localhost:8080/v1" />
+              <label for="modelInput">Model</label>
+              <input type="text" id="modelInput" class="form-input" placeholder="nomic-embed-text-v1.5" />
+              <div class="form-hint">Any server implementing the /v1/embeddings API</div>
+            </div>
             <div class="form-group" id="batchSizeGroup">
               <label for="batchSizeSelect">Batch Size</label>
               <select id="batchSizeSelect" class="form-select">
@@ -1752,10 +1802,14 @@ export function getDashboardHTML(): string {
     const fileCount = document.getElementById('fileCount');
     const chunkCount = document.getElementById('chunkCount');
     const lastUpdated = document.getElementById('lastUpdated');
+    const pendingChangesStat = document.getElementById('pendingChangesStat');
+    const pendingChanges = document.getElementById('pendingChanges');
     const embeddingBackend = document.getElementById('embeddingBackend');
     const embeddingStatus = document.getElementById('embeddingStatus');
     const indexPath = document.getElementById('indexPath');
     const fallbackBanner = document.getElementById('fallbackBanner');
+    const lockBanner = document.getElementById('lockBanner');
+    const lockContent = document.getElementById('lockContent');
     const fallbackContent = document.getElementById('fallbackContent');
     const progressContainer = document.getElementById('progressContainer');
     const progressFill = document.getElementById('progressFill');
@@ -1780,25 +1834,32 @@ export function getDashboardHTML(): string {
     const concurrencySelect = document.getElementById('concurrencySelect');
     const batchSizeSelect = document.getElementById('batchSizeSelect');
     const ollamaSettingsGroup = document.getElementById('ollamaSettingsGroup');
+    const openaiSettingsGroup = document.getElementById('openaiSettingsGroup');
+    const baseUrlInput = document.getElementById('baseUrlInput');
+    const modelInput = document.getElementById('modelInput');
     const apiKeyGroup = document.getElementById('apiKeyGroup');
     const apiKeyInput = document.getElementById('apiKeyInput');
     const saveEmbeddingBtn = document.getElementById('saveEmbeddingBtn');
     const saveStatus = document.getElementById('saveStatus');
 
     // Track saved settings to detect changes
-    let savedSettings = { backend: 'gemini', ollamaConcurrency: '1', batchSize: '256' };
+    let savedSettings = { backend: 'gemini', ollamaConcurrency: '1', batchSize: '256', baseUrl: '', model: '' };
 
     // Check if current form values differ from saved settings
     function hasSettingsChanged() {
       const currentBackend = backendSelect.value;
       const currentConcurrency = concurrencySelect.value;
       const currentBatchSize = batchSizeSelect.value;
-      const needsApiKey = currentBackend === 'gemini';
-      const hasNewApiKey = needsApiKey && apiKeyInput.value.trim() !== '';
+      const acceptsApiKey = currentBackend === 'gemini' || currentBackend === 'openai-compatible';
+      const hasNewApiKey = acceptsApiKey && apiKeyInput.value.trim() !== '';
+      const serverChanged = currentBackend === 'openai-compatible' &&
+        (baseUrlInput.value.trim() !== savedSettings.baseUrl ||
+         modelInput.value.trim() !== savedSettings.model);
 
       return currentBackend !== savedSettings.backend ||
              currentConcurrency !== savedSettings.ollamaConcurrency ||
              currentBatchSize !== savedSettings.batchSize ||
+             serverChanged ||
              hasNewApiKey;
     }
 
@@ -1811,12 +1872,13 @@ export function getDashboardHTML(): string {
     // Toggle settings visibility based on backend selection
     function updateBackendVisibility() {
       const backend = backendSelect.value;
-      const needsApiKey = backend === 'gemini';
+      const acceptsApiKey = backend === 'gemini' || backend === 'openai-compatible';
       const apiKeyLabel = document.getElementById('apiKeyLabel');
       const apiKeyHint = document.getElementById('apiKeyHint');
 
-      apiKeyGroup.style.display = needsApiKey ? 'block' : 'none';
+      apiKeyGroup.style.display = acceptsApiKey ? 'block' : 'none';
       ollamaSettingsGroup.style.display = backend === 'ollama' ? 'block' : 'none';
+      openaiSettingsGroup.style.display = backend === 'openai-compatible' ? 'block' : 'none';
 
       // Update API key label and hint based on backend (static trusted content)
       if (backend === 'gemini') {
@@ -1829,6 +1891,10 @@ export function getDashboardHTML(): string {
         link.textContent = 'Google AI Studio';
         apiKeyHint.appendChild(document.createTextNode('Get your free API key at '));
         apiKeyHint.appendChild(link);
+      } else if (backend === 'openai-compatible') {
+        apiKeyLabel.textContent = 'API Key (optional)';
+        apiKeyInput.placeholder = 'Leave empty if the server needs none';
+        apiKeyHint.textContent = 'Sent as a Bearer token';
       }
 
       updateSaveButtonVisibility();
@@ -1837,6 +1903,8 @@ export function getDashboardHTML(): string {
     concurrencySelect.addEventListener('change', updateSaveButtonVisibility);
     batchSizeSelect.addEventListener('change', updateSaveButtonVisibility);
     apiKeyInput.addEventListener('input', updateSaveButtonVisibility);
+    baseUrlInput.addEventListener('input', updateSaveButtonVisibility);
+    modelInput.addEventListener('input', updateSaveButtonVisibility);
 
     // Load current embedding settings
     async function loadEmbeddingSettings() {
@@ -1847,18 +1915,22 @@ export function getDashboardHTML(): string {
           const configuredBackend = settings.backend || 'gemini';
           const concurrency = String(settings.ollamaConcurrency || 1);
           const batchSize = String(settings.batchSize || 256);
+          const baseUrl = settings.baseUrl || '';
+          const model = settings.model || '';
 
           // If fallback occurred, show the running backend instead of configured
           const fallbackOccurred = settings.fallback && settings.fallback.occurred;
           const displayBackend = fallbackOccurred ? settings.runningBackend : configuredBackend;
 
           // Update saved settings (use configured backend for comparison)
-          savedSettings = { backend: configuredBackend, ollamaConcurrency: concurrency, batchSize };
+          savedSettings = { backend: configuredBackend, ollamaConcurrency: concurrency, batchSize, baseUrl, model };
 
           // Update form values - show running backend when fallback occurred
           backendSelect.value = displayBackend || configuredBackend;
           concurrencySelect.value = concurrency;
           batchSizeSelect.value = batchSize;
+          baseUrlInput.value = baseUrl;
+          modelInput.value = model;
           updateBackendVisibility();
           updateSaveButtonVisibility();
 
@@ -1874,6 +1946,12 @@ export function getDashboardHTML(): string {
               embeddingStatus.textContent = 'API Key Required';
               embeddingStatus.className = 'badge warning';
             }
+          } else if (settings.backend === 'openai-compatible') {
+            embeddingStatus.textContent = 'Custom Server';
+            embeddingStatus.className = 'badge';
+          } else if (settings.backend === 'local') {
+            embeddingStatus.textContent = 'Reduced Quality';
+            embeddingStatus.className = 'badge warning';
           } else {
             embeddingStatus.textContent = 'Local';
             embeddingStatus.className = 'badge';
@@ -1889,6 +1967,9 @@ export function getDashboardHTML(): string {
       const backend = backendSelect.value;
       const apiKey = apiKeyInput.value.trim();
       const needsApiKey = backend === 'gemini';
+      const acceptsApiKey = needsApiKey || backend === 'openai-compatible';
+      const baseUrl = baseUrlInput.value.trim();
+      const model = modelInput.value.trim();
 
       if (needsApiKey && !apiKey) {
         saveStatus.textContent = 'API key required for Gemini';
@@ -1896,6 +1977,12 @@ export function getDashboardHTML(): string {
         return;
       }
 
+      if (backend === 'openai-compatible' && (!baseUrl || !model)) {
+        saveStatus.textContent = 'Server URL and model required';
+        saveStatus.className = 'save-status error';
+        return;
+      }
+
       saveEmbeddingBtn.disabled = true;
       saveStatus.textContent = 'Saving...';
       saveStatus.className = 'save-status';
@@ -1906,7 +1993,9 @@ export function getDashboardHTML(): string {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             backend,
-            apiKey: needsApiKey ? apiKey : undefined,
+            apiKey: acceptsApiKey && apiKey ? apiKey : undefined,
+            baseUrl: backend === 'openai-compatible' ? baseUrl : undefined,
+            model: backend === 'openai-compatible' ? model : undefined,
             ollamaConcurrency: parseInt(concurrencySelect.value, 10),
             batchSize: parseInt(batchSizeSelect.value, 10)
           })
@@ -2342,6 +2431,12 @@ export function getDashboardHTML(): string {
       connectionText.textContent = connected ? 'Connected' : 'Disconnected';
     }
 
+    // Update file watcher state (pending changes are only shown while watching)
+    function updateWatcher(watcher) {
+      pendingChangesStat.style.display = watcher.watching ? '' : 'none';
+      pendingChanges.textContent = watcher.pendingChanges.toLocaleString();
+    }
+
     // Update index status
     function updateStatus(status) {
       if (status.indexed) {
@@ -2363,6 +2458,9 @@ export function getDashboardHTML(): string {
       fileCount.textContent = status.fileCount.toLocaleString();
       chunkCount.textContent = status.chunkCount.toLocaleString();
       lastUpdated.textContent = formatDate(status.lastUpdated);
+      if (status.watcher) {
+        updateWatcher(status.watcher);
+      }
       embeddingBackend.textContent = status.embeddingBackend || 'Not configured';
       indexPath.textContent = status.indexPath || '-';
 
@@ -2386,9 +2484,54 @@ export function getDashboardHTML(): string {
         fallbackContent.appendChild(document.createElement('br'));
         fallbackContent.appendChild(document.createTextNode('Your index may need rebuilding if embedding dimensions differ between backends.'));
         fallbackBanner.classList.add('visible');
+      } else if (status.embeddingUnavailableReason) {
+        // The index's backend is down: no fallback, so the index stays consistent
+        fallbackContent.textContent = '';
+        const strong = document.createElement('strong');
+        strong.textContent = status.embeddingBackend;
+        fallbackContent.appendChild(strong);
+        fallbackContent.appendChild(document.createTextNode(' is unavailable: '));
+        const code = document.createElement('code');
+        code.textContent = status.embeddingUnavailableReason;
+        fallbackContent.appendChild(code);
+        fallbackContent.appendChild(document.createElement('br'));
+        fallbackContent.appendChild(document.createTextNode('Searches use keyword matching until it recovers' + (status.indexingQueued ? '; queued indexing then resumes automatically.' : '.')));
+        fallbackBanner.classList.add('visible');
       } else {
         fallbackBanner.classList.remove('visible');
       }
+
+      updateLockBanner(status.lockHolder);
+    }
+
+    // Show which process holds the index lock; poll until it is released,
+    // since the other process's progress doesn't reach this dashboard's event stream
+    let lockPollTimer = null;
+    function updateLockBanner(lockHolder) {
+      clearTimeout(lockPollTimer);
+      if (!lockHolder) {
+        lockBanner.classList.remove('visible');
+        return;
+      }
+
+      lockContent.textContent = '';
+      lockContent.appendChild(document.createTextNode('Index is being built by '));
+      const strong = document.createElement('strong');
+      strong.textContent = 'PID ' + lockHolder.pid;
+      lockContent.appendChild(strong);
+      lockContent.appendChild(document.createTextNode(' (' + lockHolder.operation + ' since ' + formatDate(lockHolder.acquiredAt) + '). Searches use the existing index; reindexing from this session waits for it to finish.'));
+      lockBanner.classList.add('visible');
+
+      lockPollTimer = setTimeout(async () => {
+        try {
+          const response = await fetch('/api/status');
+          if (response.ok) {
+            updateStatus(await response.json());
+          }
+        } catch (e) {
+          // Retry on the next status update
+        }
+      }, 5000);
     }
 
     // Update config display
@@ -2855,7 +2998,8 @@ export function getDashboardHTML(): string {
         fetch('/api/config'),
         fetch('/api/usage'),
         fetch('/api/beads'),
-        fetch('/api/token-savings')
+        fetch('/api/token-savings'),
+        fetch('/api/embedding-usage')
       ]);
 
       let currentStatus = null;
@@ -2921,6 +3065,16 @@ export function getDashboardHTML(): string {
           console.error('Failed to parse token savings:', e);
         }
       }
+
+      // Process embedding usage result
+      if (results[5].status === 'fulfilled' && results[5].value.ok) {
+        try {
+          const embeddingUsage = await results[5].value.json();
+          updateEmbeddingUsage(embeddingUsage);
+        } catch (e) {
+          console.error('Failed to parse embedding usage:', e);
+        }
+      }
     }
 
     // Update token savings display
@@ -2944,6 +3098,38 @@ export function getDashboardHTML(): string {
       }
     }
 
+    // Update embedding usage display (summed over all backends used by the project)
+    function updateEmbeddingUsage(usage) {
+      let requestsToday = 0;
+      let tokensToday = 0;
+      let rateLimited = 0;
+      let quotaErrors = 0;
+      let queryLatency = null;
+      for (const backend of usage.backends) {
+        requestsToday += backend.today.requests;
+        tokensToday += backend.today.estimatedTokens;
+        rateLimited += backend.total.rateLimited;
+        quotaErrors += backend.total.quotaErrors;
+        // Latency of the backend currently answering queries
+        queryLatency = backend.byPurpose.query.latencyMs || queryLatency;
+      }
+
+      const badge = document.getElementById('embeddingUsageBadge');
+      if (badge) {
+        const names = usage.backends.map((b) => b.backend).join(', ');
+        badge.textContent = names ? names + ' · Today (UTC)' : 'Today (UTC)';
+        badge.className = quotaErrors > 0 ? 'badge warning' : 'badge';
+      }
+      document.getElementById('embeddingRequestsToday').textContent =
+        requestsToday.toLocaleString();
+      document.getElementById('embeddingTokensToday').textContent = tokensToday.toLocaleString();
+      document.getElementById('embeddingRateLimited').textContent =
+        rateLimited.toLocaleString() + ' / ' + quotaErrors.toLocaleString();
+      document.getElementById('embeddingQueryLatency').textContent = queryLatency
+        ? queryLatency.p50 + ' / ' + queryLatency.p95 + ' ms'
+        : '-';
+    }
+
     // Console greeting
     console.log(\`
 %c     _      _                  _ _   _                  __ _
@@ -3007,6 +3193,10 @@ export function getDashboardHTML(): string {
         updateStatus(status);
       });
 
+      eventSource.addEventListener('watcher:update', (e) => {
+        updateWatcher(JSON.parse(e.data));
+      });
+
       eventSource.addEventListener('usage:update', (e) => {
         const usage = JSON.parse(e.data);
         // The event data is the usage array, need to compute total
@@ -16,6 +16,12 @@ const DEFAULT_GEMINI_MODEL = 'gemini-embedding-001';
 /** Default dimensions - using 768 to match other backends for compatibility */
 const DEFAULT_DIMENSIONS = 768;
 
+/** Task type for documents (code chunks) */
+const DOCUMENT_TASK_TYPE = 'RETRIEVAL_DOCUMENT';
+
+/** Task type for natural language queries that retrieve code */
+const QUERY_TASK_TYPE = 'CODE_RETRIEVAL_QUERY';
+
 /**
  * Google Gemini embedding backend
  * Uses Google's Generative AI API for embeddings
@@ -82,6 +88,17 @@ export class GeminiBackend implements EmbeddingBackend {
   }
 
   async embed(text: string): Promise<number[]> {
+    return this.embedContent(text, DOCUMENT_TASK_TYPE);
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    return this.embedContent(query, QUERY_TASK_TYPE);
+  }
+
+  /**
+   * Embed a single text with Gemini's embedContent endpoint.
+   */
+  private async embedContent(text: string, taskType: string): Promise<number[]> {
     // Acquire a rate limit token before making the request
     await this.rateLimiter.acquire();
 
@@ -97,6 +114,7 @@ export class GeminiBackend implements EmbeddingBackend {
         content: {
           parts: [{ text }],
         },
+        taskType,
         outputDimensionality: this.dimensions,
       }),
     });
@@ -186,6 +204,7 @@ export class GeminiBackend implements EmbeddingBackend {
         content: {
           parts: [{ text }],
         },
+        taskType: DOCUMENT_TASK_TYPE,
         outputDimensionality: this.dimensions,
       })),
     });
@@ -221,6 +240,10 @@ export class GeminiBackend implements EmbeddingBackend {
     return data.embeddings.map((e) => e.values);
   }
 
+  getDocumentMode(): string {
+    return `task:${DOCUMENT_TASK_TYPE}`;
+  }
+
   getDimensions(): number {
     return this.dimensions;
   }
@@ -1,17 +1,61 @@
 import type {
   EmbeddingBackend,
+  EmbeddingBackendName,
   EmbeddingConfig,
   CreateBackendResult,
   BackendFallbackInfo,
+  IndexedEmbedding,
 } from './types.js';
 import { OllamaBackend, DEFAULT_OLLAMA_MODEL } from './ollama.js';
 import { GeminiBackend } from './gemini.js';
+import { LocalBackend, LOCAL_BACKEND_NOTE } from './local.js';
+import { OpenAICompatibleBackend } from './openai-compatible.js';
+import { trackEmbeddingUsage, type EmbeddingUsageTracker } from './usage.js';
+import { GlanceyError } from '../utils/errors.js';
 
 export * from './types.js';
 export { chunkArray } from './types.js';
 export { OllamaBackend, DEFAULT_OLLAMA_MODEL } from './ollama.js';
 export { GeminiBackend } from './gemini.js';
+export { LocalBackend, LOCAL_MODEL, LOCAL_BACKEND_NOTE } from './local.js';
+export { getPromptTemplate, type PromptTemplate } from './prompts.js';
+export { OpenAICompatibleBackend } from './openai-compatible.js';
 export { RateLimiter, type RateLimiterConfig } from './rate-limiter.js';
+export {
+  EmbeddingUsageTracker,
+  trackEmbeddingUsage,
+  type EmbeddingPurpose,
+  type EmbeddingUsageStats,
+  type BackendUsageStats,
+  type EmbeddingUsageCounts,
+  type DailyEmbeddingUsage,
+} from './usage.js';
+
+/** Backends tried after the configured one fails, unless embedding.failover is set */
+const DEFAULT_FAILOVER: Record<EmbeddingBackendName, EmbeddingBackendName[]> = {
+  gemini: ['ollama', 'local'],
+  'openai-compatible': ['ollama', 'local'],
+  ollama: ['local'],
+  local: [],
+};
+
+/** Backend names as shown in fallback reasons */
+const DISPLAY_NAMES: Record<EmbeddingBackendName, string> = {
+  gemini: 'Gemini',
+  ollama: 'Ollama',
+  'openai-compatible': 'OpenAI-compatible',
+  local: 'Local',
+};
+
+/**
+ * Options for createEmbeddingBackend()
+ */
+export interface CreateBackendOptions {
+  /** Backend and model the project's existing index was built with, if any */
+  index?: IndexedEmbedding;
+  /** Tracker counting the embedding requests of the returned backend */
+  usage?: EmbeddingUsageTracker;
+}
 
 /**
  * Create an embedding backend based on configuration and available credentials.
@@ -19,13 +63,23 @@ export { RateLimiter, type RateLimiterConfig } from './rate-limiter.js';
  * Tries backends in priority order:
  * 1. Gemini (if GEMINI_API_KEY environment variable is set) - free tier, recommended
  * 2. Ollama (local fallback, requires Ollama to be running)
+ * 3. Local lexical vectors (last resort, always available offline, reduced quality)
  *
  * If an explicitly configured backend fails to initialize (e.g., rate limited),
- * automatically falls back to Ollama and returns fallback info.
+ * walks its failover chain (embedding.failover, by default Ollama, then the local backend)
+ * and returns fallback info.
+ * The local backend can also be configured explicitly for air-gapped machines and CI.
+ * OpenAI-compatible servers (llama.cpp, vLLM, LM Studio) are only used when configured,
+ * since they need a base URL and model.
+ *
+ * When an existing index was built with a backend of the chain, that backend is always used,
+ * even when an earlier backend of the chain is healthy: query vectors of another backend or
+ * model cannot be compared with the index's. If it fails, the index's backend is returned
+ * uninitialized together with `unavailable` info, and the caller retries it later.
  *
  * @param config - Optional configuration to customize the backend
+ * @param options - What the existing index was built with
  * @returns A promise resolving to the backend and optional fallback info
- * @throws Error if no backend is available (no API keys and Ollama not running)
  *
  * @example
  * ```typescript
@@ -40,105 +94,163 @@ export { RateLimiter, type RateLimiterConfig } from './rate-limiter.js';
  * ```
  */
 export async function createEmbeddingBackend(
-  config?: Partial<EmbeddingConfig>
+  config?: Partial<EmbeddingConfig>,
+  options: CreateBackendOptions = {}
 ): Promise<CreateBackendResult> {
-  const geminiKey = config?.apiKey || process.env.GEMINI_API_KEY;
-  const ollamaUrl = config?.baseUrl || process.env.OLLAMA_URL || 'http://localhost:11434';
-  const ollamaModel = config?.model || DEFAULT_OLLAMA_MODEL;
-  const ollamaBatchSize = config?.batchSize;
-  const ollamaConcurrency = config?.concurrency;
-
-  // Helper to create Ollama backend
-  const createOllamaBackend = () =>
-    new OllamaBackend({
-      backend: 'ollama',
-      baseUrl: ollamaUrl,
-      model: ollamaModel,
-      batchSize: ollamaBatchSize,
-      concurrency: ollamaConcurrency,
-    });
-
-  // Helper to try Ollama as fallback
-  const tryOllamaFallback = async (
-    originalBackend: string,
-    reason: string
-  ): Promise<CreateBackendResult> => {
-    console.error(`[glancey] WARN: ${originalBackend} backend failed: ${reason}`);
-    console.error(`[glancey] WARN: Falling back to Ollama...`);
+  const primary = config?.backend;
+  const tracked = (backend: EmbeddingBackend) =>
+    options.usage ? trackEmbeddingUsage(backend, options.usage) : backend;
 
-    try {
-      const fallbackBackend = createOllamaBackend();
-      await fallbackBackend.initialize();
-      console.error(`[glancey] Using ollama embedding backend (fallback from ${originalBackend})`);
+  if (primary === 'local') {
+    console.error(`[glancey] Using local embedding backend (explicitly configured)`);
+    console.error(`[glancey] WARN: ${LOCAL_BACKEND_NOTE}`);
+    return { backend: tracked(new LocalBackend()) };
+  }
 
-      const fallbackInfo: BackendFallbackInfo = {
-        occurred: true,
-        originalBackend,
-        fallbackBackend: 'ollama',
-        reason,
-      };
+  // Model, URL and key settings belong to the configured backend only, so e.g. the baseUrl
+  // of an OpenAI-compatible server does not leak into an Ollama failover.
+  // Without a configured backend they apply to whichever backend is selected.
+  const optionsFor = (name: EmbeddingBackendName) =>
+    !primary || primary === name ? config : undefined;
+  const geminiKey = optionsFor('gemini')?.apiKey || process.env.GEMINI_API_KEY;
 
-      return { backend: fallbackBackend, fallback: fallbackInfo };
-    } catch (ollamaError) {
-      throw new Error(
-        `Configured ${originalBackend} backend failed (${reason}) and Ollama fallback also failed: ${ollamaError}`
-      );
+  const createBackend = (name: EmbeddingBackendName): EmbeddingBackend => {
+    switch (name) {
+      case 'gemini':
+        if (!geminiKey) {
+          throw new Error(
+            'Gemini backend requested but no API key available. Get a free key at https://aistudio.google.com/app/apikey and set GEMINI_API_KEY.'
+          );
+        }
+        return new GeminiBackend({ ...optionsFor('gemini'), backend: 'gemini', apiKey: geminiKey });
+      case 'ollama':
+        return new OllamaBackend({
+          backend: 'ollama',
+          baseUrl:
+            optionsFor('ollama')?.baseUrl || process.env.OLLAMA_URL || 'http://localhost:11434',
+          model: optionsFor('ollama')?.model || DEFAULT_OLLAMA_MODEL,
+          batchSize: config?.batchSize,
+          concurrency: config?.concurrency,
+        });
+      case 'openai-compatible':
+        return new OpenAICompatibleBackend({
+          ...optionsFor('openai-compatible'),
+          backend: 'openai-compatible',
+        });
+      case 'local':
+        return new LocalBackend();
     }
   };
 
-  // If explicit backend is specified, try it first with fallback to Ollama
-  if (config?.backend && config.backend !== 'local') {
-    if (config.backend === 'gemini') {
-      if (!geminiKey) {
-        throw new Error(
-          'Gemini backend requested but no API key available. Get a free key at https://aistudio.google.com/app/apikey and set GEMINI_API_KEY.'
-        );
-      }
-      try {
-        const backend = new GeminiBackend({ backend: 'gemini', apiKey: geminiKey, ...config });
-        await backend.initialize();
-        console.error(`[glancey] Using gemini embedding backend (explicitly configured)`);
-        return { backend };
-      } catch (error) {
-        return tryOllamaFallback('gemini', String(error));
-      }
-    } else if (config.backend === 'ollama') {
-      // Ollama explicitly configured - no fallback available
-      const backend = createOllamaBackend();
-      await backend.initialize();
-      console.error(`[glancey] Using ollama embedding backend (explicitly configured)`);
-      return { backend };
+  // Auto-select: Gemini if an API key is available, then Ollama, then local lexical vectors
+  const chain: EmbeddingBackendName[] = primary
+    ? [primary, ...(config?.failover ?? DEFAULT_FAILOVER[primary])]
+    : [...(geminiKey ? ['gemini' as const] : []), ...(config?.failover ?? ['ollama', 'local'])];
+
+  // Constructing a backend does no I/O; it only fails when the backend is not configured
+  const candidates = [...new Set(chain)].map((name) => {
+    try {
+      return { name, backend: tracked(createBackend(name)) };
+    } catch (error) {
+      return { name, error };
     }
-  }
+  });
 
-  // Auto-select: try backends in priority order
-  const backends: Array<{ name: string; create: () => EmbeddingBackend }> = [];
+  // An index built by a backend of the chain stays tied to it: other backends or models
+  // produce vectors that cannot be compared with the index's
+  const index = options.index;
+  const indexBackend = index
+    ? candidates.find(
+        ({ name, backend }) =>
+          name === index.backend && backend && (!index.model || backend.getModel() === index.model)
+      )?.backend
+    : undefined;
 
-  // Priority 1: Gemini (if API key available) - free tier, recommended
-  if (geminiKey) {
-    backends.push({
-      name: 'gemini',
-      create: () => new GeminiBackend({ backend: 'gemini', apiKey: geminiKey, ...config }),
-    });
-  }
+  const failures: Array<{ name: EmbeddingBackendName; error: unknown }> = [];
+  for (const { name, backend, error } of candidates) {
+    if (!backend) {
+      console.error(`[glancey] WARN: ${name} backend failed: ${error}`);
+      failures.push({ name, error });
+      continue;
+    }
+    if (indexBackend && backend !== indexBackend) {
+      console.error(
+        `[glancey] Skipping ${name} backend: the index was built with ${index?.backend}`
+      );
+      continue;
+    }
 
-  // Priority 2: Ollama (local fallback)
-  backends.push({
-    name: 'ollama',
-    create: createOllamaBackend,
-  });
+    if (name === 'local') {
+      // Auto-selection only reports falling back when it ends up on local vectors
+      if (!primary || failures.length > 0) {
+        console.error(`[glancey] WARN: Falling back to the local embedding backend`);
+      }
+      console.error(`[glancey] WARN: ${LOCAL_BACKEND_NOTE}`);
+    }
 
-  // Try each backend until one works
-  for (const { name, create } of backends) {
     try {
-      const backend = create();
       await backend.initialize();
-      console.error(`[glancey] Using ${name} embedding backend`);
+    } catch (initError) {
+      console.error(`[glancey] WARN: ${name} backend failed: ${initError}`);
+      failures.push({ name, error: initError });
+      continue;
+    }
+
+    if (failures.length === 0 && backend !== candidates[0].backend) {
+      // An earlier backend of the chain is healthy, but the index was built by this one
+      console.error(`[glancey] Using ${name} embedding backend (the index was built with it)`);
+      const fallback: BackendFallbackInfo = {
+        occurred: true,
+        originalBackend: candidates[0].name,
+        fallbackBackend: name,
+        reason: `The index was built with ${DISPLAY_NAMES[name]} (${backend.getModel()}). Clear the index and restart to rebuild it with ${DISPLAY_NAMES[candidates[0].name]}.`,
+      };
+      return { backend, fallback };
+    }
+    if (failures.length === 0) {
+      console.error(
+        `[glancey] Using ${name} embedding backend${primary ? ' (explicitly configured)' : ''}`
+      );
       return { backend };
-    } catch (error) {
-      console.error(`[glancey] Backend ${name} failed: ${error}`);
     }
+    console.error(`[glancey] Using ${name} embedding backend (fallback from ${failures[0].name})`);
+
+    if (!primary && name !== 'local') {
+      return { backend };
+    }
+    const [first, ...others] = failures;
+    const reason = primary
+      ? [
+          String(first.error),
+          ...others.map((f) => `${DISPLAY_NAMES[f.name]} fallback also failed: ${f.error}`),
+        ].join('; ')
+      : `No embedding backend available. Set GEMINI_API_KEY (free) or install Ollama. (${failures
+          .map((f) => `${f.name}: ${f.error}`)
+          .join('; ')})`;
+    const fallback: BackendFallbackInfo = {
+      occurred: true,
+      originalBackend: first.name,
+      fallbackBackend: name,
+      reason,
+    };
+    return { backend, fallback };
   }
 
-  throw new Error('No embedding backend available. Set GEMINI_API_KEY (free) or install Ollama.');
+  const reasons = failures.map((f) => `${f.name}: ${f.error}`).join('; ');
+  if (indexBackend) {
+    console.error(
+      `[glancey] WARN: Embedding backend ${indexBackend.name} of the index is unavailable; indexing waits for it to recover`
+    );
+    return {
+      backend: indexBackend,
+      unavailable: {
+        backend: indexBackend.name,
+        model: indexBackend.getModel(),
+        reason: reasons,
+      },
+    };
+  }
+  throw new GlanceyError(`No embedding backend available (${reasons})`, 'embedding', {
+    chain: candidates.map(({ name }) => name),
+  });
 }
@@ -0,0 +1,173 @@
+import { PLAIN_DOCUMENT_MODE, type EmbeddingBackend } from './types.js';
+
+/** Number of dimensions of local vectors */
+const LOCAL_DIMENSIONS = 512;
+
+/**
+ * Identifier of the local vector scheme.
+ * Change it whenever features or weights change, so existing indexes are rebuilt.
+ */
+export const LOCAL_MODEL = 'hashed-tfidf-v1';
+
+/** Shown wherever the local backend is in use */
+export const LOCAL_BACKEND_NOTE =
+  'Using the offline local embedding backend: vectors are lexical (identifier and subword matches), so search quality is reduced. Configure Gemini or Ollama for semantic search.';
+
+/** Weight of a whole identifier or word */
+const IDENTIFIER_WEIGHT = 1.0;
+
+/** Weight of a camelCase / snake_case part of an identifier */
+const SUBWORD_WEIGHT = 0.7;
+
+/** Weight of a character trigram, which lets "auth" match "authentication" */
+const TRIGRAM_WEIGHT = 0.25;
+
+/** Inverse document frequency applied to tokens in COMMON_TOKENS */
+const COMMON_TOKEN_IDF = 0.2;
+
+/**
+ * Tokens so common in code and comments that they say little about a chunk.
+ * A fixed list stands in for corpus statistics: vectors must not depend on what else
+ * was indexed, or query and chunk vectors embedded at different times would drift apart.
+ */
+const COMMON_TOKENS = new Set(
+  [
+    // Keywords shared by the supported languages
+    'abstract async await break case catch class const continue def default do else enum export ' +
+      'extends false final finally fn for from func function if impl implements import in ' +
+      'interface let mut new nil none null package private protected pub public return self ' +
+      'static struct super switch this throw true try type undefined var void while yield',
+    // Common primitive type names
+    'bool boolean int number str string',
+    // English stop words (comments and natural language queries)
+    'a an and are as at be by code does how is it of on or that the to what when where which ' +
+      'with',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * Local embedding backend.
+ * Builds feature-hashed TF-IDF vectors from identifiers, their subwords and character
+ * trigrams, entirely in-process. It needs no network, model or API key, so glancey can
+ * always index and search, but matches are lexical rather than semantic.
+ */
+export class LocalBackend implements EmbeddingBackend {
+  name = 'local';
+
+  async initialize(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return embedLocally(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(embedLocally);
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    // Lexical vectors are symmetric: a query is embedded like any other text
+    return embedLocally(query);
+  }
+
+  getDocumentMode(): string {
+    return PLAIN_DOCUMENT_MODE;
+  }
+
+  getDimensions(): number {
+    return LOCAL_DIMENSIONS;
+  }
+
+  getModel(): string {
+    return LOCAL_MODEL;
+  }
+}
+
+/**
+ * Split an identifier into the lowercase parts used as vector features.
+ * Unlike the keyword index's `splitIdentifier`, digits and single letters are dropped:
+ * they carry little meaning as hashed features. Changing this changes every vector,
+ * so it also needs a new LOCAL_MODEL.
+ */
+export function splitFeatureTokens(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_$0-9]+/)
+    .map((part) => part.toLowerCase())
+    .filter((part) => part.length >= 2);
+}
+
+/**
+ * Collect weighted features of a text.
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) ?? 0) + weight);
+  };
+
+  for (const identifier of text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) ?? []) {
+    const word = identifier.toLowerCase();
+    if (word.length < 2) {
+      continue;
+    }
+    add(`w:${word}`, IDENTIFIER_WEIGHT * inverseFrequency(word));
+
+    const parts = splitFeatureTokens(identifier);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        add(`w:${part}`, SUBWORD_WEIGHT * inverseFrequency(part));
+      }
+    }
+
+    for (const part of parts.length > 0 ? parts : [word]) {
+      const idf = inverseFrequency(part);
+      const padded = `^${part}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT * idf);
+      }
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Static inverse document frequency of a token.
+ */
+function inverseFrequency(token: string): number {
+  return COMMON_TOKENS.has(token) ? COMMON_TOKEN_IDF : 1;
+}
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embed a text as an L2-normalized feature-hashed vector.
+ * Term frequencies are dampened logarithmically, and a hash bit picks each feature's sign
+ * so that collisions cancel out on average instead of piling up.
+ */
+function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  for (const [feature, weight] of extractFeatures(text)) {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % LOCAL_DIMENSIONS] += sign * Math.log1p(weight);
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
@@ -1,6 +1,7 @@
 import type { EmbeddingBackend, EmbeddingConfig } from './types.js';
 import { chunkArray } from './types.js';
 import { fetchWithRetry } from './retry.js';
+import { getPromptTemplate, getPromptDocumentMode, type PromptTemplate } from './prompts.js';
 import { broadcastLog, updateProgressMessage } from '../dashboard/events.js';
 
 /** Default batch size for Ollama (texts per request) - larger batches reduce HTTP overhead */
@@ -28,6 +29,7 @@ const MODEL_DIMENSIONS: Record<string, number> = {
 /**
  * Ollama embedding backend
  * Uses local Ollama server for embeddings
+ * Applies the model's prompt template, e.g. the qwen3-embedding query instruction
  */
 export class OllamaBackend implements EmbeddingBackend {
   name = 'ollama';
@@ -36,6 +38,7 @@ export class OllamaBackend implements EmbeddingBackend {
   private dimensions: number;
   private batchSize: number;
   private concurrency: number;
+  private promptTemplate: PromptTemplate;
 
   constructor(config: EmbeddingConfig) {
     this.model = config.model || DEFAULT_OLLAMA_MODEL;
@@ -44,6 +47,7 @@ export class OllamaBackend implements EmbeddingBackend {
     this.concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
     // Set dimensions based on known models, default to 1024 for unknown models
     this.dimensions = MODEL_DIMENSIONS[this.model] ?? 1024;
+    this.promptTemplate = getPromptTemplate(this.model);
   }
 
   async initialize(): Promise<void> {
@@ -96,6 +100,19 @@ export class OllamaBackend implements EmbeddingBackend {
   }
 
   async embedBatch(texts: string[]): Promise<number[][]> {
+    const prefix = this.promptTemplate.document;
+    return this.embedTexts(prefix ? texts.map((text) => prefix + text) : texts);
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    const results = await this.embedTexts([(this.promptTemplate.query ?? '') + query]);
+    return results[0];
+  }
+
+  /**
+   * Embed texts as given, without applying the prompt template.
+   */
+  private async embedTexts(texts: string[]): Promise<number[][]> {
     // Use Ollama's batch API (/api/embed) which accepts an array of texts
     // Process in small batches with limited concurrency for reliability
     const batches = chunkArray(texts, this.batchSize);
@@ -212,6 +229,10 @@ export class OllamaBackend implements EmbeddingBackend {
     return results;
   }
 
+  getDocumentMode(): string {
+    return getPromptDocumentMode(this.promptTemplate);
+  }
+
   getDimensions(): number {
     return this.dimensions;
   }
@@ -0,0 +1,199 @@
+import type { EmbeddingBackend, EmbeddingConfig } from './types.js';
+import { chunkArray } from './types.js';
+import { fetchWithRetry, setRetryLogCallback, type RetryOptions } from './retry.js';
+import { RateLimiter } from './rate-limiter.js';
+import { getPromptTemplate, getPromptDocumentMode, type PromptTemplate } from './prompts.js';
+import { broadcastLog, updateSubProgress } from '../dashboard/events.js';
+
+// Set up retry logging to broadcast to dashboard
+setRetryLogCallback(broadcastLog);
+
+/** Default number of texts per /embeddings request */
+const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * Response body of the OpenAI /embeddings endpoint
+ */
+interface OpenAIEmbeddingResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+/**
+ * OpenAI-compatible embedding backend
+ * Talks to any server implementing the OpenAI /v1/embeddings API,
+ * such as llama.cpp server, vLLM, LM Studio or OpenAI itself.
+ * The base URL includes the API version, e.g. http://localhost:8080/v1
+ * Applies the model's prompt template, as these servers pass input through unchanged
+ */
+export class OpenAICompatibleBackend implements EmbeddingBackend {
+  name = 'openai-compatible';
+  private model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+  /** Dimensions requested from the server, if configured */
+  private requestedDimensions?: number;
+  private dimensions: number;
+  private rateLimiter: RateLimiter;
+  private batchSize: number;
+  private promptTemplate: PromptTemplate;
+
+  constructor(config: EmbeddingConfig) {
+    if (!config.baseUrl) {
+      throw new Error(
+        'OpenAI-compatible backend requires embedding.baseUrl (e.g. http://localhost:8080/v1).'
+      );
+    }
+    if (!config.model) {
+      throw new Error('OpenAI-compatible backend requires embedding.model.');
+    }
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.requestedDimensions = config.dimensions;
+    // Unknown until the server answers, unless configured
+    this.dimensions = config.dimensions ?? 0;
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.promptTemplate = getPromptTemplate(this.model);
+
+    this.rateLimiter = new RateLimiter({
+      requestsPerSecond: config.rateLimitRps ?? 20,
+      burstCapacity: config.rateLimitBurst ?? 30,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    // Health check: embed a single text (no retries, short timeout) and learn the dimensions
+    let embedding: number[];
+    try {
+      [embedding] = await this.requestEmbeddings(['test'], { maxRetries: 0, timeoutMs: 5000 });
+    } catch (error) {
+      throw new Error(`Failed to initialize OpenAI-compatible backend: ${error}`);
+    }
+
+    if (this.requestedDimensions && embedding.length !== this.requestedDimensions) {
+      throw new Error(
+        `Failed to initialize OpenAI-compatible backend: model ${this.model} returned ${embedding.length} dimensions, but embedding.dimensions is ${this.requestedDimensions}`
+      );
+    }
+    this.dimensions = embedding.length;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    await this.rateLimiter.acquire();
+    const [embedding] = await this.requestEmbeddings([(this.promptTemplate.query ?? '') + query]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const prefix = this.promptTemplate.document;
+    return this.embedDocuments(prefix ? texts.map((text) => prefix + text) : texts);
+  }
+
+  /**
+   * Embed prompted documents, splitting large batches with progress logging.
+   */
+  private async embedDocuments(texts: string[]): Promise<number[][]> {
+    // For small batches, process directly
+    if (texts.length <= this.batchSize) {
+      await this.rateLimiter.acquire();
+      return this.requestEmbeddings(texts);
+    }
+
+    // For large batches, chunk and process sequentially with progress logging
+    const chunks = chunkArray(texts, this.batchSize);
+    const results: number[][] = [];
+    const startTime = Date.now();
+
+    const initMsg = `OpenAI-compatible: embedding ${texts.length} texts in ${chunks.length} batches (${this.batchSize} texts/batch)`;
+    console.error(`[glancey] ${initMsg}`);
+    broadcastLog('info', initMsg);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const batchNum = i + 1;
+
+      updateSubProgress(
+        i * this.batchSize,
+        texts.length,
+        `OpenAI-compatible batch ${batchNum}/${chunks.length}: embedding ${chunk.length} texts...`
+      );
+
+      await this.rateLimiter.acquire();
+      results.push(...(await this.requestEmbeddings(chunk)));
+
+      const totalElapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      const textsProcessed = Math.min((i + 1) * this.batchSize, texts.length);
+      const progressMsg = `OpenAI-compatible batch ${batchNum}/${chunks.length}: done (${textsProcessed}/${texts.length} texts, ${totalElapsed}s total)`;
+      console.error(`[glancey] ${progressMsg}`);
+      broadcastLog('info', progressMsg);
+      updateSubProgress(textsProcessed, texts.length, progressMsg);
+    }
+
+    const totalElapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    const completeMsg = `OpenAI-compatible: completed embedding ${texts.length} texts in ${totalElapsed}s`;
+    console.error(`[glancey] ${completeMsg}`);
+    broadcastLog('info', completeMsg);
+
+    return results;
+  }
+
+  /**
+   * POST texts to the /embeddings endpoint and return their vectors in input order.
+   */
+  private async requestEmbeddings(
+    texts: string[],
+    retryOptions?: RetryOptions
+  ): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetchWithRetry(
+      `${this.baseUrl}/embeddings`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          input: texts,
+          // Only sent when configured: servers without Matryoshka support reject it
+          ...(this.requestedDimensions && { dimensions: this.requestedDimensions }),
+        }),
+      },
+      retryOptions
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${error}`);
+    }
+
+    const data = (await response.json()) as OpenAIEmbeddingResponse;
+    if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+      throw new Error(
+        `OpenAI-compatible API returned ${data.data?.length ?? 0} embeddings for ${texts.length} texts`
+      );
+    }
+
+    // The API allows results in any order; each carries the index of its input
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+
+  getDocumentMode(): string {
+    return getPromptDocumentMode(this.promptTemplate);
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+}
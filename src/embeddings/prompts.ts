@@ -0,0 +1,60 @@
+import { PLAIN_DOCUMENT_MODE } from './types.js';
+
+/**
+ * Prefixes an embedding model expects on its input.
+ * Asymmetric retrieval models embed queries and documents differently.
+ */
+export interface PromptTemplate {
+  /** Prepended to search queries */
+  query?: string;
+  /** Prepended to documents (code chunks) */
+  document?: string;
+}
+
+/** Instruction for instruction-tuned models, phrased for code search */
+const CODE_SEARCH_INSTRUCTION =
+  'Given a code search query, retrieve relevant code snippets that answer the query';
+
+/**
+ * Prompt templates from the model cards, matched by a substring of the lowercase model name
+ * so Ollama tags ('qwen3-embedding:0.6b') and Hugging Face ids ('Qwen/Qwen3-Embedding-0.6B')
+ * both resolve. Changing a document prefix changes the document mode and forces a reindex.
+ */
+const PROMPT_TEMPLATES: Array<{ match: string; template: PromptTemplate }> = [
+  {
+    match: 'qwen3-embedding',
+    template: { query: `Instruct: ${CODE_SEARCH_INSTRUCTION}\nQuery: ` },
+  },
+  {
+    match: 'nomic-embed-text',
+    template: { query: 'search_query: ', document: 'search_document: ' },
+  },
+  {
+    match: 'embeddinggemma',
+    template: { query: 'task: code retrieval | query: ', document: 'title: none | text: ' },
+  },
+  {
+    match: 'mxbai-embed-large',
+    template: { query: 'Represent this sentence for searching relevant passages: ' },
+  },
+  {
+    match: 'snowflake-arctic-embed',
+    template: { query: 'Represent this sentence for searching relevant passages: ' },
+  },
+];
+
+/**
+ * Get the prompt template of a model, or an empty template for symmetric models.
+ */
+export function getPromptTemplate(model: string): PromptTemplate {
+  const name = model.toLowerCase();
+  return PROMPT_TEMPLATES.find(({ match }) => name.includes(match))?.template ?? {};
+}
+
+/**
+ * Document mode of a prompt template: its document prefix, or plain when documents are
+ * embedded as given.
+ */
+export function getPromptDocumentMode(template: PromptTemplate): string {
+  return template.document ? `prompt:${template.document}` : PLAIN_DOCUMENT_MODE;
+}
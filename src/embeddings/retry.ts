@@ -1,3 +1,5 @@
+import { recordEmbeddingRequest } from './usage.js';
+
 /**
  * Retry configuration options
  */
@@ -212,6 +214,7 @@ export async function fetchWithRetry(
     // Create AbortController for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), opts.timeoutMs);
+    const startedAt = Date.now();
 
     try {
       const response = await fetch(url, {
@@ -219,12 +222,14 @@ export async function fetchWithRetry(
         signal: controller.signal,
       });
       clearTimeout(timeoutId);
+      const latencyMs = Date.now() - startedAt;
 
       // Check response size before processing
       checkResponseSize(response, opts.maxResponseSizeBytes);
 
       // If response is ok or non-retryable error, return it
       if (response.ok || !isRetryableStatus(response.status)) {
+        recordEmbeddingRequest({ latencyMs, status: response.status, retried: false });
         return response;
       }
 
@@ -232,6 +237,12 @@ export async function fetchWithRetry(
       if (response.status === 429) {
         const { exhausted, message } = await isQuotaExhausted(response);
         if (exhausted) {
+          recordEmbeddingRequest({
+            latencyMs,
+            status: response.status,
+            retried: false,
+            quotaExhausted: true,
+          });
           logRetry('error', 'API quota exhausted (daily/monthly limit reached). Skipping retries.');
           // Create a new Response with the same status but the body we already read
           const errorResponse = new Response(message, {
@@ -244,6 +255,11 @@ export async function fetchWithRetry(
       }
 
       // Retryable status code
+      recordEmbeddingRequest({
+        latencyMs,
+        status: response.status,
+        retried: attempt < opts.maxRetries,
+      });
       if (attempt < opts.maxRetries) {
         const delay = calculateRetryDelay(response, attempt, opts);
         const retryAfterInfo = response.status === 429 ? ' (rate limited)' : '';
@@ -267,7 +283,9 @@ export async function fetchWithRetry(
         lastError = error instanceof Error ? error : new Error(String(error));
       }
 
-      if (attempt < opts.maxRetries && isRetryableError(error)) {
+      const retried = attempt < opts.maxRetries && isRetryableError(error);
+      recordEmbeddingRequest({ latencyMs: Date.now() - startedAt, retried });
+      if (retried) {
         const delay = Math.min(opts.baseDelayMs * Math.pow(2, attempt), opts.maxDelayMs);
         logRetry(
           'warn',
@@ -27,6 +27,23 @@ export interface EmbeddingBackend {
    */
   embedBatch(texts: string[]): Promise<number[][]>;
 
+  /**
+   * Generate an embedding vector for a search query.
+   * embed() and embedBatch() embed documents (code chunks); backends of asymmetric models
+   * apply the model's query task type or prompt template here instead.
+   * @param query - The natural language or code query to embed
+   * @returns A promise resolving to the embedding vector
+   */
+  embedQuery(query: string): Promise<number[]>;
+
+  /**
+   * Get how documents are embedded (task type or prompt template).
+   * Recorded in the index metadata, since vectors embedded in another mode no longer
+   * match this backend's query embeddings.
+   * @returns PLAIN_DOCUMENT_MODE when documents are embedded as given
+   */
+  getDocumentMode(): string;
+
   /**
    * Get the dimensionality of the embedding vectors produced by this backend.
    * @returns The number of dimensions in the embedding vectors
@@ -40,22 +57,34 @@ export interface EmbeddingBackend {
   getModel(): string;
 }
 
+/**
+ * Document mode of backends that embed documents as given, without task type or prompt.
+ * Indexes built before document modes were recorded are assumed to use it.
+ */
+export const PLAIN_DOCUMENT_MODE = 'plain';
+
 /**
  * Configuration options for embedding backends.
  */
 export interface EmbeddingConfig {
   /** Which embedding backend to use */
-  backend: 'ollama' | 'gemini' | 'local';
+  backend: 'ollama' | 'gemini' | 'local' | 'openai-compatible';
 
   /** Model name/identifier (backend-specific) */
   model?: string;
 
-  /** API key for cloud-based backends (Gemini) */
+  /** API key for cloud-based backends (Gemini, OpenAI-compatible servers) */
   apiKey?: string;
 
   /** Base URL for the embedding API (useful for Ollama or custom endpoints) */
   baseUrl?: string;
 
+  /**
+   * Vector dimensions to request (OpenAI-compatible only).
+   * Detected from the server when omitted.
+   */
+  dimensions?: number;
+
   /** Rate limiting: maximum requests per second */
   rateLimitRps?: number;
 
@@ -66,10 +95,16 @@ export interface EmbeddingConfig {
    * Maximum number of texts to process in a single batch request.
    * Large batches are automatically split into smaller chunks to prevent
    * timeouts, memory issues, and API rate limit errors.
-   * Default: 100 for Ollama
+   * Default: 100 for Ollama, 64 for OpenAI-compatible servers
    */
   batchSize?: number;
 
+  /**
+   * Backends to try, in order, when the configured one fails to initialize.
+   * Default: Ollama then local for Gemini and OpenAI-compatible servers, local for Ollama.
+   */
+  failover?: EmbeddingBackendName[];
+
   /**
    * Maximum number of concurrent batch requests (Ollama only).
    * Controls how many batch requests are sent in parallel.
@@ -78,6 +113,11 @@ export interface EmbeddingConfig {
   concurrency?: number;
 }
 
+/**
+ * Name of an embedding backend.
+ */
+export type EmbeddingBackendName = EmbeddingConfig['backend'];
+
 /**
  * Split an array into chunks of specified size.
  * @param array - The array to chunk
@@ -117,12 +157,35 @@ export interface BackendFallbackInfo {
   reason: string;
 }
 
+/**
+ * Backend and model an existing index was built with.
+ */
+export interface IndexedEmbedding {
+  backend: string;
+  model?: string;
+}
+
+/**
+ * Returned when the backend an existing index was built with cannot be initialized
+ * and no other backend may stand in for it without mixing vector spaces.
+ */
+export interface BackendUnavailableInfo {
+  /** The index's backend */
+  backend: string;
+  /** The index's model */
+  model: string;
+  /** Why it (and any stand-in) failed to initialize */
+  reason: string;
+}
+
 /**
  * Result of creating an embedding backend, including optional fallback info.
  */
 export interface CreateBackendResult {
-  /** The initialized embedding backend */
+  /** The initialized embedding backend, or the index's uninitialized backend if unavailable */
   backend: EmbeddingBackend;
   /** Information about fallback if one occurred */
   fallback?: BackendFallbackInfo;
+  /** Set when the index's backend is unavailable; `backend` must be initialized again before use */
+  unavailable?: BackendUnavailableInfo;
 }
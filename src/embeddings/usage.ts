@@ -0,0 +1,493 @@
+/**
+ * Embedding usage and quota accounting.
+ *
+ * Counts the requests, texts and characters sent to each embedding backend, the retries
+ * and quota errors absorbed by fetchWithRetry, and request latencies, split by purpose
+ * (indexing vs querying). Counters are persisted under .glancey/ so they show how close
+ * a project is to the free-tier limits of hosted backends.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EmbeddingBackend } from './types.js';
+
+/**
+ * Approximate characters per token, as used for token savings
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Request latencies kept per backend and purpose for percentiles
+ */
+const MAX_LATENCY_SAMPLES = 200;
+
+/**
+ * Debounce delay for disk writes in milliseconds
+ */
+const SAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * Why embeddings were requested: building the index, embedding search queries,
+ * or probing the backend while initializing it
+ */
+export type EmbeddingPurpose = 'indexing' | 'query' | 'health';
+
+const PURPOSES: EmbeddingPurpose[] = ['indexing', 'query', 'health'];
+
+/**
+ * One HTTP request made by fetchWithRetry
+ */
+export interface EmbeddingRequestAttempt {
+  /** Time until the response or error, in milliseconds */
+  latencyMs: number;
+  /** HTTP status, or undefined when the request failed without a response */
+  status?: number;
+  /** Whether the request is retried */
+  retried: boolean;
+  /** Whether the response reported an exhausted daily/monthly quota */
+  quotaExhausted?: boolean;
+}
+
+/**
+ * Persisted counters of one backend and purpose
+ */
+interface UsageCounters {
+  /** Embedding calls (embed, embedBatch, embedQuery or initialize) */
+  calls: number;
+  /** HTTP requests, including retries */
+  requests: number;
+  texts: number;
+  characters: number;
+  /** Requests retried after a rate limit, server error or network error */
+  retries: number;
+  /** Responses with status 429 */
+  rateLimited: number;
+  /** 429 responses reporting an exhausted quota */
+  quotaErrors: number;
+  /** Calls that threw */
+  failures: number;
+  /** Most recent request latencies in milliseconds */
+  latenciesMs: number[];
+}
+
+/**
+ * Usage of the current UTC day, for comparison with daily quotas
+ */
+export interface DailyEmbeddingUsage {
+  /** UTC date (YYYY-MM-DD) */
+  date: string;
+  requests: number;
+  texts: number;
+  estimatedTokens: number;
+}
+
+/**
+ * Persisted usage of one backend
+ */
+interface BackendUsage {
+  model: string;
+  byPurpose: Record<EmbeddingPurpose, UsageCounters>;
+  today: DailyEmbeddingUsage;
+  /** When the backend last reported an exhausted quota (ms since epoch) */
+  lastQuotaErrorAt?: number;
+}
+
+/**
+ * Aggregated usage of one backend and purpose
+ */
+export interface EmbeddingUsageCounts {
+  calls: number;
+  requests: number;
+  texts: number;
+  characters: number;
+  /** Estimated input tokens (1 token ≈ 4 characters) */
+  estimatedTokens: number;
+  retries: number;
+  rateLimited: number;
+  quotaErrors: number;
+  failures: number;
+  /** Request latency percentiles, or null before the first HTTP request */
+  latencyMs: { p50: number; p95: number; p99: number } | null;
+}
+
+/**
+ * Aggregated usage of one backend
+ */
+export interface BackendUsageStats {
+  backend: string;
+  /** Model of the most recent call */
+  model: string;
+  total: EmbeddingUsageCounts;
+  byPurpose: Record<EmbeddingPurpose, EmbeddingUsageCounts>;
+  today: DailyEmbeddingUsage;
+  /** When the backend last reported an exhausted quota (ISO timestamp) */
+  lastQuotaErrorAt?: string;
+}
+
+/**
+ * Embedding usage of a project, as returned by get_index_status and /api/embedding-usage
+ */
+export interface EmbeddingUsageStats {
+  /** When counting started (ISO timestamp) */
+  since: string;
+  backends: BackendUsageStats[];
+}
+
+/**
+ * Call being tracked, to which fetchWithRetry reports its requests
+ */
+interface UsageScope {
+  usage: BackendUsage;
+  counters: UsageCounters;
+  /** Schedules saving the tracker's counters */
+  save: () => void;
+}
+
+const currentScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Record an HTTP request of the embedding call currently being tracked.
+ * Requests made outside a tracked call are not counted.
+ */
+export function recordEmbeddingRequest(attempt: EmbeddingRequestAttempt): void {
+  const scope = currentScope.getStore();
+  if (!scope) {
+    return;
+  }
+
+  const { usage, counters, save } = scope;
+  counters.requests++;
+  counters.latenciesMs.push(Math.round(attempt.latencyMs));
+  if (counters.latenciesMs.length > MAX_LATENCY_SAMPLES) {
+    counters.latenciesMs.splice(0, counters.latenciesMs.length - MAX_LATENCY_SAMPLES);
+  }
+  if (attempt.retried) {
+    counters.retries++;
+  }
+  if (attempt.status === 429) {
+    counters.rateLimited++;
+  }
+  if (attempt.quotaExhausted) {
+    counters.quotaErrors++;
+    usage.lastQuotaErrorAt = Date.now();
+  }
+  currentDay(usage).requests++;
+  save();
+}
+
+/**
+ * Current UTC date (YYYY-MM-DD)
+ */
+function utcDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Get a backend's usage of the current UTC day, starting a new day if needed
+ */
+function currentDay(usage: BackendUsage): DailyEmbeddingUsage {
+  const date = utcDate();
+  if (usage.today.date !== date) {
+    usage.today = { date, requests: 0, texts: 0, estimatedTokens: 0 };
+  }
+  return usage.today;
+}
+
+function emptyCounters(): UsageCounters {
+  return {
+    calls: 0,
+    requests: 0,
+    texts: 0,
+    characters: 0,
+    retries: 0,
+    rateLimited: 0,
+    quotaErrors: 0,
+    failures: 0,
+    latenciesMs: [],
+  };
+}
+
+function emptyBackendUsage(model: string): BackendUsage {
+  return {
+    model,
+    byPurpose: { indexing: emptyCounters(), query: emptyCounters(), health: emptyCounters() },
+    today: { date: utcDate(), requests: 0, texts: 0, estimatedTokens: 0 },
+  };
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate persisted counters, keeping only well-formed fields
+ */
+function parseCounters(value: unknown): UsageCounters {
+  const counters = emptyCounters();
+  if (typeof value !== 'object' || value === null) return counters;
+  const v = value as Record<string, unknown>;
+  for (const key of [
+    'calls',
+    'requests',
+    'texts',
+    'characters',
+    'retries',
+    'rateLimited',
+    'quotaErrors',
+    'failures',
+  ] as const) {
+    if (isNumber(v[key])) counters[key] = v[key];
+  }
+  if (Array.isArray(v.latenciesMs)) {
+    counters.latenciesMs = v.latenciesMs.filter(isNumber).slice(-MAX_LATENCY_SAMPLES);
+  }
+  return counters;
+}
+
+/**
+ * Validate persisted usage of one backend, or return null if it is not usable
+ */
+function parseBackendUsage(value: unknown): BackendUsage | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const v = value as Record<string, unknown>;
+  const usage = emptyBackendUsage(typeof v.model === 'string' ? v.model : '');
+  const byPurpose = (v.byPurpose ?? {}) as Record<string, unknown>;
+  for (const purpose of PURPOSES) {
+    usage.byPurpose[purpose] = parseCounters(byPurpose[purpose]);
+  }
+  const today = v.today as Record<string, unknown> | undefined;
+  if (
+    today &&
+    typeof today.date === 'string' &&
+    isNumber(today.requests) &&
+    isNumber(today.texts) &&
+    isNumber(today.estimatedTokens)
+  ) {
+    usage.today = {
+      date: today.date,
+      requests: today.requests,
+      texts: today.texts,
+      estimatedTokens: today.estimatedTokens,
+    };
+  }
+  if (isNumber(v.lastQuotaErrorAt)) {
+    usage.lastQuotaErrorAt = v.lastQuotaErrorAt;
+  }
+  return usage;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+function summarize(counters: UsageCounters[]): EmbeddingUsageCounts {
+  const sum = (key: Exclude<keyof UsageCounters, 'latenciesMs'>) =>
+    counters.reduce((total, c) => total + c[key], 0);
+  const latencies = counters.flatMap((c) => c.latenciesMs).sort((a, b) => a - b);
+  const characters = sum('characters');
+
+  return {
+    calls: sum('calls'),
+    requests: sum('requests'),
+    texts: sum('texts'),
+    characters,
+    estimatedTokens: Math.ceil(characters / CHARS_PER_TOKEN),
+    retries: sum('retries'),
+    rateLimited: sum('rateLimited'),
+    quotaErrors: sum('quotaErrors'),
+    failures: sum('failures'),
+    latencyMs:
+      latencies.length > 0
+        ? {
+            p50: percentile(latencies, 50),
+            p95: percentile(latencies, 95),
+            p99: percentile(latencies, 99),
+          }
+        : null,
+  };
+}
+
+/**
+ * Embedding usage tracker of a project.
+ * Without a project path, usage is only kept in memory.
+ */
+export class EmbeddingUsageTracker {
+  private backends: Map<string, BackendUsage> = new Map();
+  private since: number = Date.now();
+  private projectPath: string | null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(projectPath?: string) {
+    this.projectPath = projectPath ?? null;
+    this.loadFromDisk();
+  }
+
+  /**
+   * Get the path to the embedding usage file
+   */
+  private getFilePath(): string | null {
+    if (!this.projectPath) {
+      return null;
+    }
+    return path.join(this.projectPath, '.glancey', 'embedding-usage.json');
+  }
+
+  /**
+   * Load embedding usage from disk with validation
+   */
+  private loadFromDisk(): void {
+    const filePath = this.getFilePath();
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      if (fs.existsSync(filePath)) {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        if (isNumber(data.since)) {
+          this.since = data.since;
+        }
+        if (typeof data.backends === 'object' && data.backends !== null) {
+          for (const [name, value] of Object.entries(data.backends)) {
+            const usage = parseBackendUsage(value);
+            if (usage) {
+              this.backends.set(name, usage);
+            }
+          }
+        }
+      }
+    } catch {
+      // Ignore errors loading from disk
+    }
+  }
+
+  /**
+   * Save embedding usage to disk (debounced, since every request updates it)
+   */
+  private saveToDisk(): void {
+    if (!this.projectPath || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Write pending usage to disk now. Call before the process exits, since a debounced
+   * save would otherwise be lost.
+   */
+  flush(): void {
+    if (!this.saveTimer) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    const filePath = this.getFilePath();
+    if (!filePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ since: this.since, backends: Object.fromEntries(this.backends) }, null, 2)
+      );
+    } catch {
+      // Ignore errors saving to disk
+    }
+  }
+
+  /**
+   * Run an embedding call of a backend, counting its texts and the HTTP requests it makes
+   * @param backend - Backend making the call
+   * @param purpose - Why embeddings are requested
+   * @param texts - Texts sent to the backend
+   * @param fn - The call
+   */
+  async track<T>(
+    backend: EmbeddingBackend,
+    purpose: EmbeddingPurpose,
+    texts: string[],
+    fn: () => Promise<T>
+  ): Promise<T> {
+    let usage = this.backends.get(backend.name);
+    if (!usage) {
+      usage = emptyBackendUsage(backend.getModel());
+      this.backends.set(backend.name, usage);
+    }
+    usage.model = backend.getModel();
+
+    const counters = usage.byPurpose[purpose];
+    const characters = texts.reduce((total, text) => total + text.length, 0);
+    counters.calls++;
+    counters.texts += texts.length;
+    counters.characters += characters;
+    const today = currentDay(usage);
+    today.texts += texts.length;
+    today.estimatedTokens += Math.ceil(characters / CHARS_PER_TOKEN);
+    this.saveToDisk();
+
+    try {
+      return await currentScope.run({ usage, counters, save: () => this.saveToDisk() }, fn);
+    } catch (error) {
+      counters.failures++;
+      this.saveToDisk();
+      throw error;
+    }
+  }
+
+  /**
+   * Get aggregated usage of every backend used by the project
+   */
+  getStats(): EmbeddingUsageStats {
+    return {
+      since: new Date(this.since).toISOString(),
+      backends: [...this.backends].map(([backend, usage]) => {
+        const byPurpose = Object.fromEntries(
+          PURPOSES.map((purpose) => [purpose, summarize([usage.byPurpose[purpose]])])
+        ) as Record<EmbeddingPurpose, EmbeddingUsageCounts>;
+        return {
+          backend,
+          model: usage.model,
+          total: summarize(PURPOSES.map((purpose) => usage.byPurpose[purpose])),
+          byPurpose,
+          today: currentDay(usage),
+          ...(usage.lastQuotaErrorAt !== undefined && {
+            lastQuotaErrorAt: new Date(usage.lastQuotaErrorAt).toISOString(),
+          }),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Wrap a backend so its embedding calls are counted by a usage tracker.
+ * Batches count as indexing; single texts (search queries and search_similar snippets)
+ * as querying; initialization probes as health checks.
+ */
+export function trackEmbeddingUsage(
+  backend: EmbeddingBackend,
+  tracker: EmbeddingUsageTracker
+): EmbeddingBackend {
+  return {
+    get name() {
+      return backend.name;
+    },
+    initialize: () => tracker.track(backend, 'health', [], () => backend.initialize()),
+    embed: (text) => tracker.track(backend, 'query', [text], () => backend.embed(text)),
+    embedBatch: (texts) =>
+      tracker.track(backend, 'indexing', texts, () => backend.embedBatch(texts)),
+    embedQuery: (query) =>
+      tracker.track(backend, 'query', [query], () => backend.embedQuery(query)),
+    getDocumentMode: () => backend.getDocumentMode(),
+    getDimensions: () => backend.getDimensions(),
+    getModel: () => backend.getModel(),
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Streamable HTTP transport module: serves MCP to clients that can't spawn a stdio child.
+ */
+
+export type { McpHttpServer, McpHttpServerOptions } from './server.js';
+export { startMcpHttpServer, parseHttpPortArg, MCP_HTTP_PATH } from './server.js';
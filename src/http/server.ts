@@ -0,0 +1,229 @@
+/**
+ * MCP over Streamable HTTP (`glancey --http <port>`).
+ * Serves the same tools as the stdio server to clients that can't spawn a stdio child,
+ * such as remote dev containers, browser-based tools and CI bots.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { closeServer, listenOnLocalhost } from '../dashboard/server.js';
+import { GlanceyError } from '../utils/errors.js';
+
+/**
+ * Path of the MCP endpoint.
+ */
+export const MCP_HTTP_PATH = '/mcp';
+
+/**
+ * Largest accepted request body.
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Host names a localhost-bound server can legitimately be reached by.
+ * Anything else in the Host or Origin header indicates a DNS rebinding attempt.
+ */
+const LOCAL_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]'];
+
+/**
+ * Parse the `--http <port>` (or `--http=<port>`) command-line option.
+ *
+ * @returns The port, or null if the option is absent
+ * @throws GlanceyError if the port is missing or invalid
+ */
+export function parseHttpPortArg(args: string[]): number | null {
+  const index = args.findIndex((arg) => arg === '--http' || arg.startsWith('--http='));
+  if (index === -1) {
+    return null;
+  }
+
+  const value = args[index].startsWith('--http=') ? args[index].slice(7) : args[index + 1];
+  const port = Number(value);
+  if (!value || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new GlanceyError(`Invalid --http port: ${value ?? '(missing)'}`, 'validation', {
+      value,
+    });
+  }
+  return port;
+}
+
+export interface McpHttpServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Create the MCP server for a new session (handlers share this process's state) */
+  createServer: () => Server;
+  /** Bearer token clients must send; no authentication when unset */
+  token?: string;
+}
+
+/**
+ * Running MCP HTTP server instance.
+ */
+export interface McpHttpServer {
+  /** The HTTP server instance */
+  server: http.Server;
+  /** The port the server is listening on */
+  port: number;
+  /** The MCP endpoint URL */
+  url: string;
+  /** Number of open MCP sessions */
+  sessionCount: () => number;
+  /** Close all sessions and stop the server */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Send a JSON-RPC error response.
+ */
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Check that a Host or Origin header names this machine.
+ */
+function isLocalHost(value: string): boolean {
+  try {
+    const hostname = new URL(value.includes('://') ? value : `http://${value}`).hostname;
+    return LOCAL_HOSTNAMES.includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compare a request's bearer token against the configured one in constant time.
+ */
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Start serving MCP over Streamable HTTP on localhost.
+ * Each client session gets its own MCP server; sessions are identified by the
+ * Mcp-Session-Id header assigned on initialization.
+ *
+ * @example
+ * ```typescript
+ * const httpServer = await startMcpHttpServer({ port: 8765, createServer: createMcpServer });
+ * console.error(`MCP endpoint: ${httpServer.url}`);
+ * ```
+ */
+export async function startMcpHttpServer(options: McpHttpServerOptions): Promise<McpHttpServer> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_HTTP_PATH) {
+      sendError(res, 404, 'Not found');
+      return;
+    }
+
+    // Reject DNS rebinding: browsers send the attacker's host name and origin
+    const origin = req.headers.origin;
+    if (!isLocalHost(req.headers.host ?? '') || (origin && !isLocalHost(origin))) {
+      sendError(res, 403, 'Forbidden');
+      return;
+    }
+
+    if (!isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = sessions.get(sessionId);
+      if (!transport) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // Without a session, only an initialize request (which creates one) is valid
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, 'Bad Request: missing Mcp-Session-Id header');
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, transport);
+      },
+    });
+    // Set before connecting so the server chains its own close handling onto it
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('[glancey] MCP HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendError(res, error instanceof SyntaxError ? 400 : 500, String(error.message ?? error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const { port, url } = await listenOnLocalhost(httpServer, options.port);
+
+  return {
+    server: httpServer,
+    port,
+    url: `${url}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    stop: async () => {
+      for (const transport of [...sessions.values()]) {
+        await transport.close().catch(() => {});
+      }
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await closeServer(httpServer);
+    },
+  };
+}
@@ -7,103 +7,56 @@ import {
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
   ListToolsRequestSchema,
+  type CallToolRequest,
+  type CallToolResult,
+  type GetPromptRequest,
+  type GetPromptResult,
+  type ListPromptsResult,
+  type ListToolsResult,
 } from '@modelcontextprotocol/sdk/types.js';
-import { exec, spawn } from 'child_process';
+import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const execAsync = promisify(exec);
 
-/**
- * Execute a git command safely using spawn with array arguments.
- * Avoids shell interpolation vulnerabilities.
- * @param args Array of arguments to pass to git
- * @param options Options including cwd and optional stdin
- * @returns Promise with stdout and stderr
- */
-function gitSpawn(
-  args: string[],
-  options: { cwd: string; stdin?: string }
-): Promise<{ stdout: string; stderr: string }> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn('git', args, {
-      cwd: options.cwd,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    proc.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    proc.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    proc.on('error', (err) => {
-      reject(err);
-    });
-
-    proc.on('close', (code) => {
-      if (code === 0) {
-        resolve({ stdout, stderr });
-      } else {
-        const error = new Error(`git ${args[0]} failed with code ${code}: ${stderr}`);
-        (error as any).code = code;
-        (error as any).stdout = stdout;
-        (error as any).stderr = stderr;
-        reject(error);
-      }
-    });
-
-    // Write stdin if provided (for commit message)
-    if (options.stdin !== undefined) {
-      proc.stdin.write(options.stdin);
-      proc.stdin.end();
-    } else {
-      proc.stdin.end();
-    }
-  });
-}
-
 import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 const packageJson = require('../package.json');
 
-import { createEmbeddingBackend } from './embeddings/index.js';
-import { CodeIndexer } from './search/indexer.js';
-import { isStringArray, isString, isNumber, isBoolean } from './utils/type-guards.js';
+import { createEmbeddingBackend, EmbeddingUsageTracker } from './embeddings/index.js';
+import { CodeIndexer, loadIndexedEmbedding } from './search/indexer.js';
+import { FileWatcher } from './search/file-watcher.js';
+import { formatLockHolder } from './search/index-lock.js';
+import { DaemonServer, connectToDaemon, proxyToDaemon } from './daemon/index.js';
+import { startMcpHttpServer, parseHttpPortArg, type McpHttpServer } from './http/index.js';
+import { runCli, isCliCommand } from './cli/index.js';
+import { ResourceSubscriptions, registerResourceHandlers, SUMMARY_URI } from './resources/index.js';
+import { registerCompletionHandler } from './completion/index.js';
+import { SessionRoots, registerRootsHandlers, PROJECT_ARGUMENT_SCHEMA } from './roots/index.js';
+import { isStringArray, isString, isBoolean } from './utils/type-guards.js';
 import { logError, formatErrorResponse, wrapError, GlanceyError } from './utils/errors.js';
 import { logger } from './utils/logger.js';
-import { loadConfig, loadSecrets, getInstructions, getDashboardConfig } from './config.js';
+import {
+  loadConfig,
+  loadSecrets,
+  getDashboardConfig,
+  getWatchConfig,
+  getLinkedProjects,
+} from './config.js';
 import {
   startDashboard,
   stopDashboard,
   dashboardState,
+  DashboardStateManager,
   findAvailablePort,
   isDashboardRunning,
   getDashboardUrl,
 } from './dashboard/index.js';
 import type { CommandName } from './dashboard/index.js';
 
-// Symbolic analysis imports
-import {
-  searchForPattern,
-  formatPatternSearchResults,
-  ReferenceFinder,
-  formatReferencesResult,
-  SymbolEditor,
-  SymbolRenamer,
-  formatRenameResult,
-  SymbolKind,
-} from './symbols/index.js';
-import { MemoryManager, formatMemoryList } from './memory/index.js';
-import { WorktreeManager, formatWorktreeInfo, formatWorktreeList } from './worktree/index.js';
-
-// Tool handlers for token tracking
+// Tool handlers
 import {
   handleSearchCode,
   parseSearchCodeArgs,
@@ -111,11 +64,25 @@ import {
   parseSearchSimilarArgs,
 } from './tools/search-handlers.js';
 
+import { handleGetIndexStatus, handleClearIndex } from './tools/index-handlers.js';
+
 import {
   handleGetSymbolsOverview,
   parseGetSymbolsOverviewArgs,
   handleFindSymbol,
   parseFindSymbolArgs,
+  handleFindReferencingSymbols,
+  parseFindReferencingSymbolsArgs,
+  handleSearchForPattern,
+  parseSearchForPatternArgs,
+  handleReplaceSymbolBody,
+  parseReplaceSymbolBodyArgs,
+  handleInsertBeforeSymbol,
+  parseInsertBeforeSymbolArgs,
+  handleInsertAfterSymbol,
+  parseInsertAfterSymbolArgs,
+  handleRenameSymbol,
+  parseRenameSymbolArgs,
 } from './tools/symbol-handlers.js';
 
 import {
@@ -127,10 +94,41 @@ import {
   parseSearchByConceptArgs,
 } from './tools/clustering-handlers.js';
 
-import type { ToolContext } from './tools/types.js';
+import {
+  handleWriteMemory,
+  parseWriteMemoryArgs,
+  handleReadMemory,
+  parseReadMemoryArgs,
+  handleListMemories,
+  handleDeleteMemory,
+  parseDeleteMemoryArgs,
+  handleEditMemory,
+  parseEditMemoryArgs,
+} from './tools/memory-handlers.js';
+
+import {
+  handleCreateWorktree,
+  parseCreateWorktreeArgs,
+  handleListWorktrees,
+  handleRemoveWorktree,
+  parseRemoveWorktreeArgs,
+  handleWorktreeStatus,
+  parseWorktreeStatusArgs,
+} from './tools/worktree-handlers.js';
+
+import { handleCommit, parseCommitArgs } from './tools/commit-handlers.js';
+import { handleGetProjectInstructions } from './tools/instructions-handlers.js';
+
+import type { LinkedProjectContext, ToolContext } from './tools/types.js';
 import type { ClusteringToolContext } from './tools/clustering-handlers.js';
 import type { SymbolToolContext } from './tools/symbol-handlers.js';
+import type { MemoryToolContext } from './tools/memory-handlers.js';
+import type { WorktreeToolContext } from './tools/worktree-handlers.js';
+import type { CommitToolContext } from './tools/commit-handlers.js';
+import type { InstructionsToolContext } from './tools/instructions-handlers.js';
+import { TOOL_OUTPUT_SCHEMAS } from './tools/structured-output.js';
 import { handleInitProject, type InitToolContext } from './tools/init-handlers.js';
+import { SCOPE_ARGUMENT_SCHEMA } from './tools/federation.js';
 
 /**
  * Check if browser was recently opened (within the last hour)
@@ -199,6 +197,9 @@ function openBrowser(url: string, projectPath: string, force: boolean = false):
 
 const PROJECT_PATH = path.resolve(process.env.GLANCEY_PROJECT || process.cwd());
 
+/** Whether the project was chosen with GLANCEY_PROJECT; it then stays the default over client roots */
+const PROJECT_PATH_IS_EXPLICIT = Boolean(process.env.GLANCEY_PROJECT);
+
 /**
  * Brief guidance appended to tool responses to reinforce tool selection preferences.
  */
@@ -392,59 +393,137 @@ async function checkForUpdates(): Promise<void> {
   }
 }
 
-let indexerPromise: Promise<CodeIndexer> | null = null;
-let configPromise: ReturnType<typeof loadConfig> | null = null;
+/**
+ * Lazily created services of one project.
+ * The server's own project uses the shared dashboard state (shown by the dashboard);
+ * other client roots each get their own.
+ */
+interface ProjectServices {
+  configPromise: ReturnType<typeof loadConfig> | null;
+  indexerPromise: Promise<CodeIndexer> | null;
+  dashboardState: DashboardStateManager;
+  /** Embedding usage counters, kept across config reloads */
+  embeddingUsage: EmbeddingUsageTracker | null;
+}
+
+/** Services by absolute project path */
+const projects = new Map<string, ProjectServices>();
+
+function getProject(projectPath: string = PROJECT_PATH): ProjectServices {
+  let project = projects.get(projectPath);
+  if (!project) {
+    project = {
+      configPromise: null,
+      indexerPromise: null,
+      dashboardState: projectPath === PROJECT_PATH ? dashboardState : new DashboardStateManager(),
+      embeddingUsage: null,
+    };
+    projects.set(projectPath, project);
+    // Notify the project's summary subscribers after each index update
+    project.dashboardState.on('indexing:complete', () => {
+      resourceSubscriptions.notifyUpdated(SUMMARY_URI, projectPath);
+    });
+  }
+  return project;
+}
+
+/**
+ * Write every project's pending embedding usage to disk before the process exits.
+ */
+function flushEmbeddingUsage(): void {
+  for (const project of projects.values()) {
+    project.embeddingUsage?.flush();
+  }
+}
 
-async function getConfig() {
-  if (!configPromise) {
-    configPromise = loadConfig(PROJECT_PATH);
+async function getConfig(projectPath: string = PROJECT_PATH) {
+  const project = getProject(projectPath);
+  if (!project.configPromise) {
+    project.configPromise = loadConfig(projectPath);
   }
-  return configPromise;
+  return project.configPromise;
 }
 
-async function getIndexer(): Promise<CodeIndexer> {
-  if (!indexerPromise) {
-    indexerPromise = (async () => {
+async function getIndexer(projectPath: string = PROJECT_PATH): Promise<CodeIndexer> {
+  const project = getProject(projectPath);
+  if (!project.indexerPromise) {
+    project.indexerPromise = (async () => {
       // Load config and secrets to configure embedding backend
-      const config = await getConfig();
-      const secrets = await loadSecrets(PROJECT_PATH);
+      const config = await getConfig(projectPath);
+      const secrets = await loadSecrets(projectPath);
+      project.embeddingUsage ??= new EmbeddingUsageTracker(projectPath);
+      const embeddingUsage = project.embeddingUsage;
 
       // Determine API key based on configured backend
       const configuredBackend = config.embedding?.backend;
       let apiKey: string | undefined;
       if (configuredBackend === 'gemini') {
         apiKey = secrets.geminiApiKey || process.env.GEMINI_API_KEY;
+      } else if (configuredBackend === 'openai-compatible') {
+        apiKey = secrets.openaiApiKey || process.env.OPENAI_API_KEY;
       } else {
         // For auto-selection, use Gemini key if available
         apiKey = secrets.geminiApiKey || process.env.GEMINI_API_KEY;
       }
 
-      const { backend, fallback } = await createEmbeddingBackend({
-        backend: configuredBackend,
-        apiKey,
-        // Note: Don't pass indexing.batchSize here - that's for progress reporting batches.
-        // Ollama backend has its own DEFAULT_BATCH_SIZE (100) for API request batching.
-        concurrency: config.embedding?.ollamaConcurrency,
-      });
-      const idx = new CodeIndexer(PROJECT_PATH, backend);
+      const { backend, fallback, unavailable } = await createEmbeddingBackend(
+        {
+          backend: configuredBackend,
+          apiKey,
+          // Note: Don't pass indexing.batchSize here - that's for progress reporting batches.
+          // Ollama backend has its own DEFAULT_BATCH_SIZE (100) for API request batching.
+          concurrency: config.embedding?.ollamaConcurrency,
+          // Server settings of an OpenAI-compatible backend
+          ...(configuredBackend === 'openai-compatible' && {
+            baseUrl: config.embedding?.baseUrl,
+            model: config.embedding?.model,
+            dimensions: config.embedding?.dimensions,
+            batchSize: config.embedding?.batchSize,
+          }),
+          failover: config.embedding?.failover,
+        },
+        {
+          // An existing index stays tied to its backend instead of failing over
+          index: await loadIndexedEmbedding(projectPath),
+          usage: embeddingUsage,
+        }
+      );
+      const idx = new CodeIndexer(projectPath, backend, embeddingUsage);
       await idx.initialize();
+      if (unavailable) {
+        idx.markEmbeddingUnavailable(unavailable.reason);
+      }
 
       // Share indexer and config with dashboard state
-      dashboardState.setIndexer(idx);
-      dashboardState.setConfig(config);
-      dashboardState.setProjectPath(PROJECT_PATH);
+      const state = project.dashboardState;
+      state.setIndexer(idx);
+      state.setConfig(config);
+      state.setProjectPath(projectPath);
 
       // Track backend fallback if it occurred, or clear if successful
       if (fallback) {
-        dashboardState.setBackendFallback(fallback);
+        state.setBackendFallback(fallback);
       } else {
-        dashboardState.clearBackendFallback();
+        state.clearBackendFallback();
       }
 
       return idx;
     })();
   }
-  return indexerPromise;
+  return project.indexerPromise;
+}
+
+/**
+ * Get a project's linked projects (linkedProjects in .glancey.json).
+ * Each linked project's index is opened with its own config on first use.
+ */
+async function getLinkedProjectContexts(projectPath: string): Promise<LinkedProjectContext[]> {
+  const config = await getConfig(projectPath);
+  return getLinkedProjects(config, projectPath).map((linked) => ({
+    name: linked.name,
+    projectPath: linked.path,
+    getIndexer: () => getIndexer(linked.path),
+  }));
 }
 
 /**
@@ -453,47 +532,59 @@ async function getIndexer(): Promise<CodeIndexer> {
 const CONFIG_FILES_TO_WATCH = ['.glancey.json', 'lance-context.config.json', '.glancey.local.json'];
 
 /**
- * Invalidate config and indexer caches to force reload on next access.
- * Call this when config files change.
+ * Invalidate a project's config and indexer caches to force reload on next access.
+ * Call this when its config files change.
  */
-export function invalidateCaches(): void {
-  configPromise = null;
-  indexerPromise = null;
-  console.error('[glancey] Config caches invalidated - will reload on next operation');
+export function invalidateCaches(projectPath: string = PROJECT_PATH): void {
+  const project = getProject(projectPath);
+  project.configPromise = null;
+  // Indexing queued by the old indexer must not run against a stale config
+  project.indexerPromise?.then((indexer) => indexer.dispose()).catch(() => {});
+  project.indexerPromise = null;
+  console.error(
+    `[glancey] Config caches invalidated for ${projectPath} - will reload on next operation`
+  );
 }
 
 /**
- * Reload config and reinitialize the indexer.
+ * Reload a project's config and reinitialize its indexer.
  * Returns true if reload was successful, false otherwise.
  */
-export async function reloadConfig(): Promise<boolean> {
+export async function reloadConfig(projectPath: string = PROJECT_PATH): Promise<boolean> {
   try {
     // Clear caches
-    invalidateCaches();
+    invalidateCaches(projectPath);
 
     // Reload config and indexer
-    const config = await getConfig();
-    const indexer = await getIndexer();
+    const config = await getConfig(projectPath);
+    const indexer = await getIndexer(projectPath);
 
     // Update dashboard state with new config/indexer
-    dashboardState.setConfig(config);
-    dashboardState.setIndexer(indexer);
+    const state = getProject(projectPath).dashboardState;
+    state.setConfig(config);
+    state.setIndexer(indexer);
 
     console.error('[glancey] Config reloaded successfully');
 
+    // Re-attach the file watcher to the new indexer (or stop it if disabled).
+    // Only the server's own project has a file watcher.
+    if (projectPath === PROJECT_PATH) {
+      await syncFileWatcher();
+    }
+
     // Check if reindex is needed due to backend change
     const status = await indexer.getStatus();
     if (status.backendMismatch) {
       console.error(`[glancey] ${status.backendMismatchReason}`);
       console.error('[glancey] Starting automatic reindex with new backend...');
 
-      dashboardState.onIndexingStart();
+      state.onIndexingStart();
       indexer
         .indexCodebase(undefined, undefined, true, (progress) => {
-          dashboardState.onProgress(progress);
+          state.onProgress(progress);
         })
         .then((result) => {
-          dashboardState.onIndexingComplete(result);
+          state.onIndexingComplete(result);
           console.error(
             `[glancey] Reindex complete: ${result.filesIndexed} files, ${result.chunksCreated} chunks`
           );
@@ -510,11 +601,19 @@ export async function reloadConfig(): Promise<boolean> {
   }
 }
 
+/** Projects whose config files are watched */
+const watchedConfigProjects = new Set<string>();
+
 /**
- * Set up file watchers for config files.
- * When config files change, automatically reload the config.
+ * Set up file watchers for a project's config files, once per project.
+ * When config files change, automatically reload the project's config.
  */
-function watchConfigFiles(): void {
+function watchConfigFiles(projectPath: string = PROJECT_PATH): void {
+  if (watchedConfigProjects.has(projectPath)) {
+    return;
+  }
+  watchedConfigProjects.add(projectPath);
+
   // Debounce to avoid multiple reloads for rapid changes
   let reloadTimeout: ReturnType<typeof setTimeout> | null = null;
   const debounceMs = 500;
@@ -525,12 +624,12 @@ function watchConfigFiles(): void {
     }
     reloadTimeout = setTimeout(async () => {
       console.error(`[glancey] Config file changed: ${filename}`);
-      await reloadConfig();
+      await reloadConfig(projectPath);
     }, debounceMs);
   };
 
   for (const configFile of CONFIG_FILES_TO_WATCH) {
-    const configPath = path.join(PROJECT_PATH, configFile);
+    const configPath = path.join(projectPath, configFile);
 
     try {
       // Check if file exists before watching
@@ -549,9 +648,9 @@ function watchConfigFiles(): void {
 
   // Also watch for new config files being created
   try {
-    fs.watch(PROJECT_PATH, (eventType, filename) => {
+    fs.watch(projectPath, (eventType, filename) => {
       if (filename && CONFIG_FILES_TO_WATCH.includes(filename) && eventType === 'rename') {
-        const configPath = path.join(PROJECT_PATH, filename);
+        const configPath = path.join(projectPath, filename);
         if (fs.existsSync(configPath)) {
           console.error(`[glancey] New config file detected: ${filename}`);
           // Set up watcher for the new file
@@ -569,6 +668,62 @@ function watchConfigFiles(): void {
   }
 }
 
+let fileWatcher: FileWatcher | null = null;
+
+/**
+ * Start or stop the project file watcher to match the watch config.
+ * The watcher feeds changed files into incremental indexing in the background,
+ * so searches don't need to check every file for staleness.
+ */
+async function syncFileWatcher(): Promise<void> {
+  fileWatcher?.stop();
+  fileWatcher = null;
+
+  const watchConfig = getWatchConfig(await getConfig());
+  const indexer = await getIndexer();
+
+  if (watchConfig.enabled) {
+    const watcher = new FileWatcher(PROJECT_PATH, {
+      debounceMs: watchConfig.debounceMs,
+      // Keep extensionless paths: they may be directories whose files were moved or deleted
+      filter: (relativePath) =>
+        !path.extname(relativePath) || indexer.isIndexablePath(relativePath),
+      isBusy: () => dashboardState.isIndexingInProgress(),
+      onPendingChange: (count) => dashboardState.setPendingChanges(count),
+      onError: () => {
+        if (fileWatcher === watcher) {
+          fileWatcher = null;
+          indexer.setWatching(false);
+          dashboardState.setWatching(false);
+        }
+      },
+      onChanges: async (filepaths) => {
+        dashboardState.onIndexingStart();
+        try {
+          const result = await indexer.indexFiles(filepaths, (progress) => {
+            dashboardState.onProgress(progress);
+          });
+          dashboardState.onIndexingComplete(result);
+        } catch (error) {
+          dashboardState.onIndexingFailed();
+          throw error;
+        }
+      },
+    });
+
+    try {
+      watcher.start();
+      fileWatcher = watcher;
+      console.error(`[glancey] Watching project files (debounce ${watchConfig.debounceMs}ms)`);
+    } catch (error) {
+      console.error('[glancey] Failed to start file watcher:', error);
+    }
+  }
+
+  indexer.setWatching(fileWatcher !== null);
+  dashboardState.setWatching(fileWatcher !== null);
+}
+
 /**
  * Claude settings file paths
  */
@@ -626,719 +781,737 @@ async function disableSerena(): Promise<void> {
   }
 }
 
-const server = new Server(
-  {
-    name: 'glancey',
-    version: PACKAGE_VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-      prompts: {},
-    },
-    instructions: SERVER_INSTRUCTIONS,
-  }
-);
-
 // List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: 'index_codebase',
-        description:
-          'Index the codebase for semantic search. Creates vector embeddings of all code files. Supports incremental indexing - only changed files are re-indexed unless forceReindex is true.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            patterns: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Glob patterns for files to index (default: common code files)',
-            },
-            excludePatterns: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Glob patterns for files to exclude (default: node_modules, dist, .git)',
-            },
-            forceReindex: {
-              type: 'boolean',
-              description:
-                'Force a full reindex, ignoring cached file modification times (default: false)',
-            },
-            autoRepair: {
-              type: 'boolean',
-              description:
-                'Automatically repair a corrupted index by forcing a full reindex (default: false)',
-            },
+async function handleListTools(): Promise<ListToolsResult> {
+  const tools: ListToolsResult['tools'] = [
+    {
+      name: 'index_codebase',
+      description:
+        'Index the codebase for semantic search. Creates vector embeddings of all code files. Supports incremental indexing - only changed files are re-indexed unless forceReindex is true.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          patterns: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Glob patterns for files to index (default: common code files)',
+          },
+          excludePatterns: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Glob patterns for files to exclude (default: node_modules, dist, .git)',
+          },
+          forceReindex: {
+            type: 'boolean',
+            description:
+              'Force a full reindex, ignoring cached file modification times (default: false)',
+          },
+          autoRepair: {
+            type: 'boolean',
+            description:
+              'Automatically repair a corrupted index by forcing a full reindex (default: false)',
           },
         },
       },
-      {
-        name: 'search_code',
-        description:
-          'Search the codebase using natural language. Returns relevant code snippets. PREFER THIS TOOL when: (1) you are unsure of exact symbol/function names, (2) you would need wildcards or regex to find something, (3) you are exploring code by concept rather than exact identifier, (4) your first search attempt failed or returned nothing. Semantic search handles name uncertainty naturally - one call here replaces multiple pattern-based searches.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Natural language query to search for',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results (default: 10)',
-            },
-            pathPattern: {
-              type: 'string',
-              description:
-                "Glob pattern to filter results by file path (e.g., 'src/**/*.ts', '!**/*.test.ts')",
-            },
-            languages: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                "Filter results to specific languages (e.g., ['typescript', 'javascript'])",
-            },
+    },
+    {
+      name: 'search_code',
+      description:
+        'Search the codebase using natural language. Returns relevant code snippets. PREFER THIS TOOL when: (1) you are unsure of exact symbol/function names, (2) you would need wildcards or regex to find something, (3) you are exploring code by concept rather than exact identifier, (4) your first search attempt failed or returned nothing. Semantic search handles name uncertainty naturally - one call here replaces multiple pattern-based searches.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Natural language query to search for',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results (default: 10)',
+          },
+          pathPattern: {
+            type: 'string',
+            description:
+              "Glob pattern to filter results by file path (e.g., 'src/**/*.ts', '!**/*.test.ts')",
+          },
+          languages: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              "Filter results to specific languages (e.g., ['typescript', 'javascript'])",
+          },
+          explain: {
+            type: 'boolean',
+            description:
+              'Include per-result scoring details (semantic distance, BM25 score, weights, filters, cache use) to help tune search weights (default: false)',
           },
-          required: ['query'],
+          scope: SCOPE_ARGUMENT_SCHEMA,
         },
+        required: ['query'],
       },
-      {
-        name: 'get_index_status',
-        description:
-          'Get the current status of the code index. USE THIS when search results seem stale or before searching after major file changes.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    {
+      name: 'get_index_status',
+      description:
+        'Get the current status of the code index. USE THIS when search results seem stale or before searching after major file changes.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-      {
-        name: 'clear_index',
-        description: 'Clear the code index.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    {
+      name: 'clear_index',
+      description: 'Clear the code index.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-      {
-        name: 'get_project_instructions',
-        description:
-          'Get project-specific instructions from the .glancey.json config file. Returns instructions for how to work with this codebase.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    {
+      name: 'get_project_instructions',
+      description:
+        'Get project-specific instructions from the .glancey.json config file. Returns instructions for how to work with this codebase.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-      {
-        name: 'search_similar',
-        description:
-          'Find code semantically similar to a given code snippet or file location. USE THIS BEFORE writing new code to check for existing patterns, or when refactoring to find duplicate logic that could be consolidated.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            filepath: {
-              type: 'string',
-              description:
-                'File path (relative to project root) to find similar code for. Use with startLine/endLine to specify a range.',
-            },
-            startLine: {
-              type: 'number',
-              description: 'Starting line number (1-indexed). Requires filepath.',
-            },
-            endLine: {
-              type: 'number',
-              description: 'Ending line number (1-indexed). Requires filepath.',
-            },
-            code: {
-              type: 'string',
-              description:
-                'Code snippet to find similar code for. Alternative to filepath - provide either code or filepath, not both.',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results (default: 10)',
-            },
-            threshold: {
-              type: 'number',
-              description: 'Minimum similarity score 0-1 (default: 0)',
-            },
-            excludeSelf: {
-              type: 'boolean',
-              description: 'Exclude the source chunk from results (default: true)',
-            },
+    },
+    {
+      name: 'search_similar',
+      description:
+        'Find code semantically similar to a given code snippet or file location. USE THIS BEFORE writing new code to check for existing patterns, or when refactoring to find duplicate logic that could be consolidated.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filepath: {
+            type: 'string',
+            description:
+              'File path (relative to project root) to find similar code for. Use with startLine/endLine to specify a range.',
+          },
+          startLine: {
+            type: 'number',
+            description: 'Starting line number (1-indexed). Requires filepath.',
+          },
+          endLine: {
+            type: 'number',
+            description: 'Ending line number (1-indexed). Requires filepath.',
           },
+          cellIndex: {
+            type: 'number',
+            description:
+              'Notebook cell (0-indexed) that startLine/endLine count from. Required when filepath is a .ipynb notebook.',
+          },
+          code: {
+            type: 'string',
+            description:
+              'Code snippet to find similar code for. Alternative to filepath - provide either code or filepath, not both.',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results (default: 10)',
+          },
+          threshold: {
+            type: 'number',
+            description: 'Minimum similarity score 0-1 (default: 0)',
+          },
+          excludeSelf: {
+            type: 'boolean',
+            description: 'Exclude the source chunk from results (default: true)',
+          },
+          scope: SCOPE_ARGUMENT_SCHEMA,
         },
       },
-      {
-        name: 'summarize_codebase',
-        description:
-          'USE THIS FIRST when starting work on a new or unfamiliar codebase. Generates a comprehensive summary including file statistics, language distribution, and discovered concept areas. Follow with list_concepts to explore specific areas.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            numClusters: {
-              type: 'number',
-              description:
-                'Target number of concept clusters (default: auto-determined based on codebase size)',
-            },
+    },
+    {
+      name: 'summarize_codebase',
+      description:
+        'USE THIS FIRST when starting work on a new or unfamiliar codebase. Generates a comprehensive summary including file statistics, language distribution, and discovered concept areas. Follow with list_concepts to explore specific areas.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          numClusters: {
+            type: 'number',
+            description:
+              'Target number of concept clusters (default: auto-determined based on codebase size)',
           },
         },
       },
-      {
-        name: 'list_concepts',
-        description:
-          'USE AFTER summarize_codebase to explore the codebase organization. Lists semantic concept clusters (e.g., authentication, database, API handlers) with labels, sizes, and representative code. Use search_by_concept to dive into a specific cluster.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            forceRecluster: {
-              type: 'boolean',
-              description: 'Force reclustering even if cached results exist (default: false)',
-            },
+    },
+    {
+      name: 'list_concepts',
+      description:
+        'USE AFTER summarize_codebase to explore the codebase organization. Lists semantic concept clusters (e.g., authentication, database, API handlers) with labels, sizes, and representative code. Use search_by_concept to dive into a specific cluster.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          forceRecluster: {
+            type: 'boolean',
+            description: 'Force reclustering even if cached results exist (default: false)',
           },
         },
       },
-      {
-        name: 'search_by_concept',
-        description:
-          'Deep-dive into a specific concept cluster. USE AFTER list_concepts to explore a particular area (e.g., all authentication code, all database code). Can combine with a semantic query to search within the cluster.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            conceptId: {
-              type: 'number',
-              description: 'The cluster ID to search within (from list_concepts)',
-            },
-            query: {
-              type: 'string',
-              description:
-                'Optional semantic query to search within the cluster. If not provided, returns representative chunks.',
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results (default: 10)',
-            },
+    },
+    {
+      name: 'search_by_concept',
+      description:
+        'Deep-dive into a specific concept cluster. USE AFTER list_concepts to explore a particular area (e.g., all authentication code, all database code). Can combine with a semantic query to search within the cluster.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          conceptId: {
+            type: 'number',
+            description: 'The cluster ID to search within (from list_concepts)',
+          },
+          query: {
+            type: 'string',
+            description:
+              'Optional semantic query to search within the cluster. If not provided, returns representative chunks.',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results (default: 10)',
           },
-          required: ['conceptId'],
         },
+        required: ['conceptId'],
       },
-      {
-        name: 'commit',
-        description:
-          'Create a git commit with validation. USE THIS TOOL instead of running git commit directly. This tool enforces project commit rules: (1) validates you are on a feature branch (not main), (2) checks commit message format (<=72 chars, imperative mood, single responsibility), (3) returns commit rules as a reminder. Prevents common mistakes like committing to main or multi-responsibility commits.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            message: {
-              type: 'string',
-              description:
-                'The commit message. Must be <=72 characters, imperative mood, single responsibility.',
-            },
-            files: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                'Files to stage before committing. If not provided, commits already-staged files.',
-            },
+    },
+    {
+      name: 'commit',
+      description:
+        'Create a git commit with validation. USE THIS TOOL instead of running git commit directly. This tool enforces project commit rules: (1) validates you are on a feature branch (not main), (2) checks commit message format (<=72 chars, imperative mood, single responsibility), (3) returns commit rules as a reminder. Prevents common mistakes like committing to main or multi-responsibility commits.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+            description:
+              'The commit message. Must be <=72 characters, imperative mood, single responsibility.',
+          },
+          files: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Files to stage before committing. If not provided, commits already-staged files.',
           },
-          required: ['message'],
         },
+        required: ['message'],
       },
-      // --- Symbolic Analysis Tools ---
-      {
-        name: 'get_symbols_overview',
-        description:
-          "Get a high-level overview of code symbols in a file. Returns symbols grouped by kind (Class, Function, Method, etc.) in a compact format. Use this to understand a file's structure before diving into specific symbols.",
-        inputSchema: {
-          type: 'object',
-          properties: {
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file to analyze.',
-            },
-            depth: {
-              type: 'number',
-              description: 'Depth of descendants to retrieve (0 = top-level only). Default: 0.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    // --- Symbolic Analysis Tools ---
+    {
+      name: 'get_symbols_overview',
+      description:
+        "Get a high-level overview of code symbols in a file. Returns symbols grouped by kind (Class, Function, Method, etc.) in a compact format. Use this to understand a file's structure before diving into specific symbols.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file to analyze.',
+          },
+          depth: {
+            type: 'number',
+            description: 'Depth of descendants to retrieve (0 = top-level only). Default: 0.',
+          },
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['relative_path'],
         },
+        required: ['relative_path'],
       },
-      {
-        name: 'find_symbol',
-        description:
-          'Find symbols by name path pattern. Supports: (1) simple name "myFunction", (2) relative path "MyClass/myMethod", (3) absolute path "/MyClass/myMethod", (4) glob pattern "get*" with substring_matching. Returns symbol locations and optionally their source code body.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path_pattern: {
-              type: 'string',
-              description:
-                'The name path pattern to search for (e.g., "MyClass/myMethod", "get*").',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'Optional. Restrict search to this file or directory.',
-            },
-            depth: {
-              type: 'number',
-              description:
-                'Depth of descendants to retrieve (e.g., 1 for class methods). Default: 0.',
-            },
-            include_body: {
-              type: 'boolean',
-              description: "Whether to include the symbol's source code. Default: false.",
-            },
-            include_info: {
-              type: 'boolean',
-              description:
-                'Whether to include additional info (docstring, signature). Default: false.',
-            },
-            substring_matching: {
-              type: 'boolean',
-              description:
-                'If true, use substring matching for the last element of the pattern. Default: false.',
-            },
-            include_kinds: {
-              type: 'array',
-              items: { type: 'number' },
-              description:
-                'LSP symbol kind integers to include. If not provided, all kinds are included.',
-            },
-            exclude_kinds: {
-              type: 'array',
-              items: { type: 'number' },
-              description:
-                'LSP symbol kind integers to exclude. Takes precedence over include_kinds.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    {
+      name: 'find_symbol',
+      description:
+        'Find symbols by name path pattern. Supports: (1) simple name "myFunction", (2) relative path "MyClass/myMethod", (3) absolute path "/MyClass/myMethod", (4) glob pattern "get*" with substring_matching. Returns symbol locations and optionally their source code body.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path_pattern: {
+            type: 'string',
+            description: 'The name path pattern to search for (e.g., "MyClass/myMethod", "get*").',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'Optional. Restrict search to this file or directory.',
+          },
+          depth: {
+            type: 'number',
+            description:
+              'Depth of descendants to retrieve (e.g., 1 for class methods). Default: 0.',
+          },
+          include_body: {
+            type: 'boolean',
+            description: "Whether to include the symbol's source code. Default: false.",
+          },
+          include_info: {
+            type: 'boolean',
+            description:
+              'Whether to include additional info (docstring, signature). Default: false.',
+          },
+          substring_matching: {
+            type: 'boolean',
+            description:
+              'If true, use substring matching for the last element of the pattern. Default: false.',
+          },
+          include_kinds: {
+            type: 'array',
+            items: { type: 'number' },
+            description:
+              'LSP symbol kind integers to include. If not provided, all kinds are included.',
+          },
+          exclude_kinds: {
+            type: 'array',
+            items: { type: 'number' },
+            description:
+              'LSP symbol kind integers to exclude. Takes precedence over include_kinds.',
+          },
+          scope: SCOPE_ARGUMENT_SCHEMA,
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['name_path_pattern'],
         },
+        required: ['name_path_pattern'],
       },
-      {
-        name: 'find_referencing_symbols',
-        description:
-          'Find all references to a symbol across the codebase. Returns code snippets showing where the symbol is used.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path: {
-              type: 'string',
-              description:
-                'Name path of the symbol to find references for (e.g., "MyClass/myMethod").',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file containing the symbol.',
-            },
-            include_info: {
-              type: 'boolean',
-              description:
-                'Whether to include additional info about referencing symbols. Default: false.',
-            },
-            include_kinds: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'LSP symbol kind integers to include.',
-            },
-            exclude_kinds: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'LSP symbol kind integers to exclude.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    {
+      name: 'find_referencing_symbols',
+      description:
+        'Find all references to a symbol across the codebase. Returns code snippets showing where the symbol is used.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path: {
+            type: 'string',
+            description:
+              'Name path of the symbol to find references for (e.g., "MyClass/myMethod").',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file containing the symbol.',
+          },
+          include_info: {
+            type: 'boolean',
+            description:
+              'Whether to include additional info about referencing symbols. Default: false.',
+          },
+          include_kinds: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'LSP symbol kind integers to include.',
+          },
+          exclude_kinds: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'LSP symbol kind integers to exclude.',
+          },
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['name_path', 'relative_path'],
         },
+        required: ['name_path', 'relative_path'],
       },
-      {
-        name: 'search_for_pattern',
-        description:
-          'Search for a regex pattern in the codebase. Returns matched lines with optional context. Useful for finding code patterns, TODO comments, specific strings, etc.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            substring_pattern: {
-              type: 'string',
-              description: 'Regular expression pattern to search for.',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'Restrict search to this file or directory. Default: entire project.',
-            },
-            restrict_search_to_code_files: {
-              type: 'boolean',
-              description: 'Only search in code files (not config, docs). Default: false.',
-            },
-            paths_include_glob: {
-              type: 'string',
-              description: 'Glob pattern for files to include (e.g., "*.py", "src/**/*.ts").',
-            },
-            paths_exclude_glob: {
-              type: 'string',
-              description:
-                'Glob pattern for files to exclude (e.g., "*test*", "**/*_generated.py").',
-            },
-            context_lines_before: {
-              type: 'number',
-              description: 'Number of context lines before each match. Default: 0.',
-            },
-            context_lines_after: {
-              type: 'number',
-              description: 'Number of context lines after each match. Default: 0.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    {
+      name: 'search_for_pattern',
+      description:
+        'Search for a regex pattern in the codebase. Returns matched lines with optional context. Useful for finding code patterns, TODO comments, specific strings, etc.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          substring_pattern: {
+            type: 'string',
+            description: 'Regular expression pattern to search for.',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'Restrict search to this file or directory. Default: entire project.',
+          },
+          restrict_search_to_code_files: {
+            type: 'boolean',
+            description: 'Only search in code files (not config, docs). Default: false.',
+          },
+          paths_include_glob: {
+            type: 'string',
+            description: 'Glob pattern for files to include (e.g., "*.py", "src/**/*.ts").',
+          },
+          paths_exclude_glob: {
+            type: 'string',
+            description: 'Glob pattern for files to exclude (e.g., "*test*", "**/*_generated.py").',
+          },
+          context_lines_before: {
+            type: 'number',
+            description: 'Number of context lines before each match. Default: 0.',
+          },
+          context_lines_after: {
+            type: 'number',
+            description: 'Number of context lines after each match. Default: 0.',
+          },
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['substring_pattern'],
         },
+        required: ['substring_pattern'],
       },
-      // --- Memory Tools ---
-      {
-        name: 'write_memory',
-        description:
-          'Write information about this project to a named memory file. Memories persist across sessions and can be read later. Useful for storing architectural decisions, patterns, or project-specific context.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            memory_file_name: {
-              type: 'string',
-              description: 'The name of the memory (will be saved as .md file).',
-            },
-            content: {
-              type: 'string',
-              description: 'The markdown content to write to the memory.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    // --- Memory Tools ---
+    {
+      name: 'write_memory',
+      description:
+        'Write information about this project to a named memory file. Memories persist across sessions and can be read later. Useful for storing architectural decisions, patterns, or project-specific context.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          memory_file_name: {
+            type: 'string',
+            description: 'The name of the memory (will be saved as .md file).',
+          },
+          content: {
+            type: 'string',
+            description: 'The markdown content to write to the memory.',
+          },
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['memory_file_name', 'content'],
         },
+        required: ['memory_file_name', 'content'],
       },
-      {
-        name: 'read_memory',
-        description:
-          'Read the content of a memory file. Only read memories that are relevant to the current task.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            memory_file_name: {
-              type: 'string',
-              description: 'The name of the memory to read.',
-            },
-            max_answer_chars: {
-              type: 'number',
-              description: 'Maximum response size in characters. Default: 50000.',
-            },
+    },
+    {
+      name: 'read_memory',
+      description:
+        'Read the content of a memory file. Only read memories that are relevant to the current task.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          memory_file_name: {
+            type: 'string',
+            description: 'The name of the memory to read.',
+          },
+          max_answer_chars: {
+            type: 'number',
+            description: 'Maximum response size in characters. Default: 50000.',
           },
-          required: ['memory_file_name'],
         },
+        required: ['memory_file_name'],
       },
-      {
-        name: 'list_memories',
-        description:
-          'List all available memory files for this project. Use this to discover what project context has been saved.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    {
+      name: 'list_memories',
+      description:
+        'List all available memory files for this project. Use this to discover what project context has been saved.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-      {
-        name: 'delete_memory',
-        description:
-          'Delete a memory file. Only delete memories when explicitly requested by the user.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            memory_file_name: {
-              type: 'string',
-              description: 'The name of the memory to delete.',
-            },
+    },
+    {
+      name: 'delete_memory',
+      description:
+        'Delete a memory file. Only delete memories when explicitly requested by the user.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          memory_file_name: {
+            type: 'string',
+            description: 'The name of the memory to delete.',
           },
-          required: ['memory_file_name'],
         },
+        required: ['memory_file_name'],
       },
-      {
-        name: 'edit_memory',
-        description:
-          'Edit a memory file using find/replace. Supports both literal string and regex replacement.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            memory_file_name: {
-              type: 'string',
-              description: 'The name of the memory to edit.',
-            },
-            needle: {
-              type: 'string',
-              description: 'The string or regex pattern to search for.',
-            },
-            repl: {
-              type: 'string',
-              description: 'The replacement string.',
-            },
-            mode: {
-              type: 'string',
-              enum: ['literal', 'regex'],
-              description:
-                'How to interpret the needle: "literal" for exact match, "regex" for regex pattern.',
-            },
+    },
+    {
+      name: 'edit_memory',
+      description:
+        'Edit a memory file using find/replace. Supports both literal string and regex replacement.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          memory_file_name: {
+            type: 'string',
+            description: 'The name of the memory to edit.',
+          },
+          needle: {
+            type: 'string',
+            description: 'The string or regex pattern to search for.',
+          },
+          repl: {
+            type: 'string',
+            description: 'The replacement string.',
+          },
+          mode: {
+            type: 'string',
+            enum: ['literal', 'regex'],
+            description:
+              'How to interpret the needle: "literal" for exact match, "regex" for regex pattern.',
           },
-          required: ['memory_file_name', 'needle', 'repl', 'mode'],
         },
+        required: ['memory_file_name', 'needle', 'repl', 'mode'],
       },
-      // --- Symbol Editing Tools ---
-      {
-        name: 'replace_symbol_body',
-        description:
-          'Replace the entire body of a symbol (function, class, method, etc.) with new content. Use this for significant rewrites of symbol definitions.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path: {
-              type: 'string',
-              description: 'Name path of the symbol to replace (e.g., "MyClass/myMethod").',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file containing the symbol.',
-            },
-            body: {
-              type: 'string',
-              description:
-                'The new body content for the symbol (including signature line for functions).',
-            },
+    },
+    // --- Symbol Editing Tools ---
+    {
+      name: 'replace_symbol_body',
+      description:
+        'Replace the entire body of a symbol (function, class, method, etc.) with new content. Use this for significant rewrites of symbol definitions.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path: {
+            type: 'string',
+            description: 'Name path of the symbol to replace (e.g., "MyClass/myMethod").',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file containing the symbol.',
+          },
+          body: {
+            type: 'string',
+            description:
+              'The new body content for the symbol (including signature line for functions).',
           },
-          required: ['name_path', 'relative_path', 'body'],
         },
+        required: ['name_path', 'relative_path', 'body'],
       },
-      {
-        name: 'insert_before_symbol',
-        description:
-          'Insert code before a symbol definition. Useful for adding new functions, classes, or imports before an existing symbol.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path: {
-              type: 'string',
-              description: 'Name path of the symbol to insert before.',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file containing the symbol.',
-            },
-            body: {
-              type: 'string',
-              description: 'The content to insert before the symbol.',
-            },
+    },
+    {
+      name: 'insert_before_symbol',
+      description:
+        'Insert code before a symbol definition. Useful for adding new functions, classes, or imports before an existing symbol.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path: {
+            type: 'string',
+            description: 'Name path of the symbol to insert before.',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file containing the symbol.',
+          },
+          body: {
+            type: 'string',
+            description: 'The content to insert before the symbol.',
           },
-          required: ['name_path', 'relative_path', 'body'],
         },
+        required: ['name_path', 'relative_path', 'body'],
       },
-      {
-        name: 'insert_after_symbol',
-        description:
-          'Insert code after a symbol definition. Useful for adding new functions, classes, or code after an existing symbol.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path: {
-              type: 'string',
-              description: 'Name path of the symbol to insert after.',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file containing the symbol.',
-            },
-            body: {
-              type: 'string',
-              description: 'The content to insert after the symbol.',
-            },
+    },
+    {
+      name: 'insert_after_symbol',
+      description:
+        'Insert code after a symbol definition. Useful for adding new functions, classes, or code after an existing symbol.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path: {
+            type: 'string',
+            description: 'Name path of the symbol to insert after.',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file containing the symbol.',
+          },
+          body: {
+            type: 'string',
+            description: 'The content to insert after the symbol.',
           },
-          required: ['name_path', 'relative_path', 'body'],
         },
+        required: ['name_path', 'relative_path', 'body'],
       },
-      {
-        name: 'rename_symbol',
-        description:
-          'Rename a symbol throughout the entire codebase. Updates the symbol definition and all references.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name_path: {
-              type: 'string',
-              description: 'Name path of the symbol to rename.',
-            },
-            relative_path: {
-              type: 'string',
-              description: 'The relative path to the file containing the symbol definition.',
-            },
-            new_name: {
-              type: 'string',
-              description: 'The new name for the symbol.',
-            },
-            dry_run: {
-              type: 'boolean',
-              description: 'If true, preview changes without making them. Default: false.',
-            },
+    },
+    {
+      name: 'rename_symbol',
+      description:
+        'Rename a symbol throughout the entire codebase. Updates the symbol definition and all references.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name_path: {
+            type: 'string',
+            description: 'Name path of the symbol to rename.',
+          },
+          relative_path: {
+            type: 'string',
+            description: 'The relative path to the file containing the symbol definition.',
+          },
+          new_name: {
+            type: 'string',
+            description: 'The new name for the symbol.',
+          },
+          dry_run: {
+            type: 'boolean',
+            description: 'If true, preview changes without making them. Default: false.',
           },
-          required: ['name_path', 'relative_path', 'new_name'],
         },
+        required: ['name_path', 'relative_path', 'new_name'],
       },
-      // --- Worktree Tools ---
-      {
-        name: 'create_worktree',
-        description:
-          'Create an isolated git worktree for parallel agent work. Prevents file conflicts when multiple agents work simultaneously. Creates a new branch and optionally installs dependencies.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            short_name: {
-              type: 'string',
-              description:
-                'Short descriptive name for the worktree (e.g., "add-auth", "fix-login"). Used in branch name.',
-            },
-            issue_id: {
-              type: 'string',
-              description:
-                'Optional issue ID (e.g., "bd-123"). Combined with short_name for naming.',
-            },
-            prefix: {
-              type: 'string',
-              enum: ['feature', 'fix', 'refactor', 'docs', 'test'],
-              description: 'Branch prefix (default: "feature").',
-            },
-            base_branch: {
-              type: 'string',
-              description: 'Base branch to create from (default: main or current branch).',
-            },
-            install_deps: {
-              type: 'boolean',
-              description: 'Whether to install dependencies after creation (default: true).',
-            },
-            package_manager: {
-              type: 'string',
-              enum: ['npm', 'yarn', 'pnpm', 'bun'],
-              description: 'Package manager to use (default: auto-detect from lock file).',
-            },
+    },
+    // --- Worktree Tools ---
+    {
+      name: 'create_worktree',
+      description:
+        'Create an isolated git worktree for parallel agent work. Prevents file conflicts when multiple agents work simultaneously. Creates a new branch and optionally installs dependencies.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          short_name: {
+            type: 'string',
+            description:
+              'Short descriptive name for the worktree (e.g., "add-auth", "fix-login"). Used in branch name.',
+          },
+          issue_id: {
+            type: 'string',
+            description: 'Optional issue ID (e.g., "bd-123"). Combined with short_name for naming.',
+          },
+          prefix: {
+            type: 'string',
+            enum: ['feature', 'fix', 'refactor', 'docs', 'test'],
+            description: 'Branch prefix (default: "feature").',
+          },
+          base_branch: {
+            type: 'string',
+            description: 'Base branch to create from (default: main or current branch).',
+          },
+          install_deps: {
+            type: 'boolean',
+            description: 'Whether to install dependencies after creation (default: true).',
+          },
+          package_manager: {
+            type: 'string',
+            enum: ['npm', 'yarn', 'pnpm', 'bun'],
+            description: 'Package manager to use (default: auto-detect from lock file).',
           },
-          required: ['short_name'],
         },
+        required: ['short_name'],
       },
-      {
-        name: 'list_worktrees',
-        description:
-          'List all agent worktrees and their status. Shows branch, commit, dirty state, and ahead/behind counts.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    {
+      name: 'list_worktrees',
+      description:
+        'List all agent worktrees and their status. Shows branch, commit, dirty state, and ahead/behind counts.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-      {
-        name: 'remove_worktree',
-        description:
-          'Remove an agent worktree. Optionally deletes the associated branch. Fails if worktree has uncommitted changes unless force is true.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Name of the worktree to remove.',
-            },
-            delete_branch: {
-              type: 'boolean',
-              description: 'Whether to also delete the branch (default: false).',
-            },
-            force: {
-              type: 'boolean',
-              description:
-                'Force removal even if worktree has uncommitted changes (default: false).',
-            },
+    },
+    {
+      name: 'remove_worktree',
+      description:
+        'Remove an agent worktree. Optionally deletes the associated branch. Fails if worktree has uncommitted changes unless force is true.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the worktree to remove.',
+          },
+          delete_branch: {
+            type: 'boolean',
+            description: 'Whether to also delete the branch (default: false).',
+          },
+          force: {
+            type: 'boolean',
+            description: 'Force removal even if worktree has uncommitted changes (default: false).',
           },
-          required: ['name'],
         },
+        required: ['name'],
       },
-      {
-        name: 'worktree_status',
-        description:
-          'Get detailed status of a specific worktree including branch, commit, and dirty state.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Name of the worktree to get status for.',
-            },
+    },
+    {
+      name: 'worktree_status',
+      description:
+        'Get detailed status of a specific worktree including branch, commit, and dirty state.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the worktree to get status for.',
           },
-          required: ['name'],
         },
+        required: ['name'],
       },
-      // --- Dashboard Tools ---
-      {
-        name: 'open_dashboard',
-        description:
-          'Open the glancey dashboard in the default browser. Starts the dashboard server if not already running. Works even when dashboard auto-start is disabled in config.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            force: {
-              type: 'boolean',
-              description:
-                'Force open the browser even if it was recently opened. Bypasses the 1-hour cooldown.',
-            },
+    },
+    // --- Dashboard Tools ---
+    {
+      name: 'open_dashboard',
+      description:
+        'Open the glancey dashboard in the default browser. Starts the dashboard server if not already running. Works even when dashboard auto-start is disabled in config.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          force: {
+            type: 'boolean',
+            description:
+              'Force open the browser even if it was recently opened. Bypasses the 1-hour cooldown.',
           },
         },
       },
-      // --- Project Setup Tools ---
-      {
-        name: 'init_project',
-        description:
-          'Initialize glancey in a project. Creates or updates CLAUDE.md with glancey usage instructions, installs a post-commit hook that warns when commits bypass the glancey commit tool, and adds a /glancey slash command for quick reminders. Run this once when setting up glancey in a new project.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    },
+    // --- Project Setup Tools ---
+    {
+      name: 'init_project',
+      description:
+        'Initialize glancey in a project. Creates or updates CLAUDE.md with glancey usage instructions, installs a post-commit hook that warns when commits bypass the glancey commit tool, and adds a /glancey slash command for quick reminders. Run this once when setting up glancey in a new project.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
       },
-    ],
+    },
+    {
+      name: 'list_projects',
+      description:
+        "List the projects this session can use: the client's workspace roots, or the project glancey was started in. Pass a project's name as the `project` argument of any tool to work in it.",
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+  ];
+
+  // Every tool returns structuredContent matching its output schema alongside the text,
+  // and accepts a `project` argument to choose between the client's roots
+  return {
+    tools: tools.map((tool) => ({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, project: PROJECT_ARGUMENT_SCHEMA },
+      },
+      outputSchema: TOOL_OUTPUT_SCHEMAS[tool.name],
+    })),
   };
-});
+}
 
 // List available prompts (exposed as slash commands in Claude Code)
 // NOTE: Prefer .claude/commands/ files for slash commands — they show as clean
 // "/command" names. MCP prompts get prefixed as "/glancey:command (MCP)" which
 // is confusing. The init_project tool installs commands as .claude/commands/ files.
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
+async function handleListPrompts(): Promise<ListPromptsResult> {
   return {
     prompts: [],
   };
-});
+}
 
 // Handle prompt requests
 // MCP prompts are no longer used for slash commands (they show as "/glancey:command (MCP)").
 // Slash commands are installed as .claude/commands/ files by init_project instead.
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+async function handleGetPrompt(request: GetPromptRequest): Promise<GetPromptResult> {
   const { name } = request.params;
   throw new GlanceyError(`Unknown prompt: ${name}`, 'validation', { prompt: name });
-});
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// Handle tool calls, in the project chosen by the optional `project` argument
+async function handleCallTool(
+  request: CallToolRequest,
+  roots: SessionRoots
+): Promise<CallToolResult> {
   const { name, arguments: args } = request.params;
 
   // Record command usage for dashboard
@@ -1378,13 +1551,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     'open_dashboard',
     // Project setup
     'init_project',
+    'list_projects',
   ];
-  if (validCommands.includes(name as CommandName)) {
-    dashboardState.recordCommandUsage(name as CommandName);
-  }
 
   try {
-    const idx = await getIndexer();
+    await roots.ready();
+    const projectPath = roots.resolveProject(isString(args?.project) ? args.project : undefined);
+    const projectState = getProject(projectPath).dashboardState;
+    // Client roots reload their config on changes like the server's own project
+    if (projectPath !== PROJECT_PATH) {
+      watchConfigFiles(projectPath);
+    }
+    if (validCommands.includes(name as CommandName)) {
+      projectState.recordCommandUsage(name as CommandName);
+    }
+
+    const idx = await getIndexer(projectPath);
 
     switch (name) {
       case 'index_codebase': {
@@ -1396,7 +1578,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const autoRepair = isBoolean(args?.autoRepair) ? args.autoRepair : false;
 
         // Notify dashboard of indexing start
-        dashboardState.onIndexingStart();
+        projectState.onIndexingStart();
 
         const result = await idx.indexCodebase(
           patterns,
@@ -1404,13 +1586,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           forceReindex,
           (progress) => {
             // Emit progress events to dashboard
-            dashboardState.onProgress(progress);
+            projectState.onProgress(progress);
           },
           autoRepair
         );
 
         // Notify dashboard of indexing completion
-        dashboardState.onIndexingComplete(result);
+        projectState.onIndexingComplete(result);
 
         const mode = result.repaired
           ? 'Repaired (corruption detected)'
@@ -1424,77 +1606,58 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: `${mode}: Indexed ${result.filesIndexed} files, total ${result.chunksCreated} chunks.${TOOL_GUIDANCE}`,
             },
           ],
+          structuredContent: { ...result },
         };
       }
 
       case 'search_code': {
         const searchContext: ToolContext = {
           indexer: idx,
-          projectPath: PROJECT_PATH,
+          projectPath,
           toolGuidance: TOOL_GUIDANCE,
+          linkedProjects: await getLinkedProjectContexts(projectPath),
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleSearchCode(parseSearchCodeArgs(args), searchContext);
         return { ...result };
       }
 
       case 'get_index_status': {
-        const status = await idx.getStatus();
-        let statusText = JSON.stringify(status, null, 2);
-
-        // Add corruption warning if detected
-        if (status.corrupted) {
-          statusText =
-            `**WARNING: Index corruption detected!**\n` +
-            `Reason: ${status.corruptionReason}\n` +
-            `\nTo repair, either:\n` +
-            `1. Run \`index_codebase\` with \`autoRepair: true\`\n` +
-            `2. Run \`clear_index\` followed by \`index_codebase\`\n\n` +
-            statusText;
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: statusText + TOOL_GUIDANCE,
-            },
-          ],
+        const indexContext: ToolContext = {
+          indexer: idx,
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleGetIndexStatus(indexContext);
+        return { ...result };
       }
 
       case 'clear_index': {
-        await idx.clearIndex();
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Index cleared.' + TOOL_GUIDANCE,
-            },
-          ],
+        const indexContext: ToolContext = {
+          indexer: idx,
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleClearIndex(indexContext);
+        return { ...result };
       }
 
       case 'get_project_instructions': {
-        const config = await loadConfig(PROJECT_PATH);
-        const projectInstructions = getInstructions(config);
-        const fullInstructions = PRIORITY_INSTRUCTIONS + (projectInstructions || '');
-        return {
-          content: [
-            {
-              type: 'text',
-              text:
-                fullInstructions ||
-                'No project instructions configured. Add an "instructions" field to .glancey.json.',
-            },
-          ],
+        const instructionsContext: InstructionsToolContext = {
+          projectPath,
+          priorityInstructions: PRIORITY_INSTRUCTIONS,
         };
+        const result = await handleGetProjectInstructions(instructionsContext);
+        return { ...result };
       }
 
       case 'search_similar': {
         const searchContext: ToolContext = {
           indexer: idx,
-          projectPath: PROJECT_PATH,
+          projectPath,
           toolGuidance: TOOL_GUIDANCE,
+          linkedProjects: await getLinkedProjectContexts(projectPath),
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleSearchSimilar(parseSearchSimilarArgs(args), searchContext);
         return { ...result };
@@ -1504,6 +1667,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const clusterContext: ClusteringToolContext = {
           indexer: idx,
           toolGuidance: TOOL_GUIDANCE,
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleSummarizeCodebase(
           parseSummarizeCodebaseArgs(args),
@@ -1516,6 +1680,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const clusterContext: ClusteringToolContext = {
           indexer: idx,
           toolGuidance: TOOL_GUIDANCE,
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleListConcepts(parseListConceptsArgs(args), clusterContext);
         return { ...result };
@@ -1525,169 +1690,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const clusterContext: ClusteringToolContext = {
           indexer: idx,
           toolGuidance: TOOL_GUIDANCE,
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleSearchByConcept(parseSearchByConceptArgs(args), clusterContext);
         return { ...result };
       }
 
       case 'commit': {
-        const message = isString(args?.message) ? args.message : '';
-        const files = isStringArray(args?.files) ? args.files : [];
-
-        if (!message) {
-          throw new GlanceyError('message is required', 'validation', { tool: 'commit' });
-        }
-
-        // Commit rules to return with every response
-        const COMMIT_RULES = `
-## Commit Rules Reminder
-
-1. **Branch**: Must be on a feature branch, not main/master
-2. **Message length**: Subject line must be ≤72 characters
-3. **Imperative mood**: "Add feature" not "Added feature"
-4. **Single responsibility**: One logical change per commit
-5. **Body format**: Only "Co-Authored-By: Claude <noreply@anthropic.com>"
-
-**Signs of multi-responsibility** (split into separate commits):
-- Message contains "and" connecting actions
-- Message lists multiple changes with commas
-- Changes span unrelated files/features
-`;
-
-        const errors: string[] = [];
-        const warnings: string[] = [];
-
-        // Check 1: Not on main/master branch
-        let currentBranch = '';
-        try {
-          const { stdout } = await execAsync('git branch --show-current', { cwd: PROJECT_PATH });
-          currentBranch = stdout.trim();
-          if (currentBranch === 'main' || currentBranch === 'master') {
-            errors.push(
-              `Cannot commit directly to ${currentBranch}. Create a feature branch first:\n  git checkout -b feature/your-feature-name`
-            );
-          }
-        } catch {
-          errors.push('Failed to determine current branch. Are you in a git repository?');
-        }
-
-        // Check 2: Message length
-        const subjectLine = message.split('\n')[0];
-        if (subjectLine.length > 72) {
-          errors.push(`Subject line is ${subjectLine.length} characters (max 72). Shorten it.`);
-        }
-
-        // Check 3: Imperative mood (heuristic - check for common past tense patterns)
-        const pastTensePatterns =
-          /^(Added|Fixed|Updated|Changed|Removed|Implemented|Created|Deleted|Modified|Refactored|Merged)\b/i;
-        if (pastTensePatterns.test(subjectLine)) {
-          warnings.push(
-            `Subject may not be imperative mood. Use "Add" not "Added", "Fix" not "Fixed", etc.`
-          );
-        }
-
-        // Check 4: Single responsibility (heuristic - check for "and" or multiple verbs)
-        const multiResponsibilityPatterns =
-          /\b(and|,)\s+(add|fix|update|change|remove|implement|create|delete|modify|refactor)\b/i;
-        if (multiResponsibilityPatterns.test(subjectLine)) {
-          errors.push(`Message suggests multiple responsibilities. Split into separate commits.`);
-        }
-
-        // If there are blocking errors, return them without committing
-        if (errors.length > 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `## Commit Blocked\n\n**Errors:**\n${errors.map((e) => `- ${e}`).join('\n')}\n${warnings.length > 0 ? `\n**Warnings:**\n${warnings.map((w) => `- ${w}`).join('\n')}` : ''}\n${COMMIT_RULES}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        // Track files we staged for potential rollback
-        const stagedByUs: string[] = [];
-
-        // Stage files if provided (using spawn to avoid shell injection)
-        if (files.length > 0) {
-          try {
-            // Use -- to prevent files starting with - being interpreted as options
-            await gitSpawn(['add', '--', ...files], { cwd: PROJECT_PATH });
-            stagedByUs.push(...files);
-          } catch (e) {
-            throw wrapError('Failed to stage files', 'git', e, { files });
-          }
-        }
-
-        // Check if there are staged changes
-        try {
-          const { stdout } = await gitSpawn(['diff', '--cached', '--name-only'], {
-            cwd: PROJECT_PATH,
-          });
-          if (!stdout.trim()) {
-            throw new GlanceyError(
-              'No staged changes to commit. Stage files first or pass files parameter.',
-              'git'
-            );
-          }
-        } catch (e) {
-          if (e instanceof GlanceyError) {
-            throw e;
-          }
-          throw wrapError('Failed to check staged changes', 'git', e);
-        }
-
-        // Build commit message with Co-Authored-By
-        const fullMessage = `${message}\n\nCo-Authored-By: Claude <noreply@anthropic.com>`;
-
-        // Write marker file to indicate commit is via MCP tool (for post-commit hook)
-        const markerPath = path.join(PROJECT_PATH, '.git', 'MCP_COMMIT_MARKER');
-        try {
-          fs.writeFileSync(markerPath, Date.now().toString());
-        } catch {
-          // Ignore marker write failures - non-critical
-        }
-
-        // Execute commit using -F - to read message from stdin (avoids shell escaping issues)
-        try {
-          const { stdout } = await gitSpawn(['commit', '-F', '-'], {
-            cwd: PROJECT_PATH,
-            stdin: fullMessage,
-          });
-
-          let response = `## Commit Successful\n\n${stdout.trim()}`;
-          if (warnings.length > 0) {
-            response += `\n\n**Warnings:**\n${warnings.map((w) => `- ${w}`).join('\n')}`;
-          }
-          response += `\n${COMMIT_RULES}`;
-
-          return {
-            content: [
-              {
-                type: 'text',
-                text: response,
-              },
-            ],
-          };
-        } catch (e) {
-          // Rollback: unstage files we staged if commit failed
-          if (stagedByUs.length > 0) {
-            try {
-              await gitSpawn(['reset', 'HEAD', '--', ...stagedByUs], { cwd: PROJECT_PATH });
-            } catch {
-              // Ignore rollback failures - best effort
-            }
-          }
-          throw wrapError('Git commit failed', 'git', e, { message });
-        }
+        const commitContext: CommitToolContext = {
+          projectPath,
+        };
+        const result = await handleCommit(parseCommitArgs(args), commitContext);
+        return { ...result };
       }
 
       // --- Symbolic Analysis Tools ---
       case 'get_symbols_overview': {
         const symbolContext: SymbolToolContext = {
-          projectPath: PROJECT_PATH,
+          projectPath,
           toolGuidance: TOOL_GUIDANCE,
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleGetSymbolsOverview(
           parseGetSymbolsOverviewArgs(args),
@@ -1698,513 +1720,163 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'find_symbol': {
         const symbolContext: SymbolToolContext = {
-          projectPath: PROJECT_PATH,
+          projectPath,
           toolGuidance: TOOL_GUIDANCE,
+          linkedProjects: await getLinkedProjectContexts(projectPath),
+          tokenTracker: projectState.getTokenTracker(),
         };
         const result = await handleFindSymbol(parseFindSymbolArgs(args), symbolContext);
         return { ...result };
       }
 
       case 'find_referencing_symbols': {
-        const namePath = isString(args?.name_path) ? args.name_path : '';
-        const relativePath = isString(args?.relative_path) ? args.relative_path : '';
-
-        if (!namePath || !relativePath) {
-          throw new GlanceyError('name_path and relative_path are required', 'validation', {
-            tool: 'find_referencing_symbols',
-          });
-        }
-
-        const includeInfo = isBoolean(args?.include_info) ? args.include_info : false;
-        const includeKinds = Array.isArray(args?.include_kinds)
-          ? (args.include_kinds as SymbolKind[])
-          : undefined;
-        const excludeKinds = Array.isArray(args?.exclude_kinds)
-          ? (args.exclude_kinds as SymbolKind[])
-          : undefined;
-
-        const finder = new ReferenceFinder(PROJECT_PATH);
-        const references = await finder.findReferences({
-          namePath,
-          relativePath,
-          includeInfo,
-          includeKinds,
-          excludeKinds,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatReferencesResult(references) + TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleFindReferencingSymbols(
+          parseFindReferencingSymbolsArgs(args),
+          symbolContext
+        );
+        return { ...result };
       }
 
       case 'search_for_pattern': {
-        const substringPattern = isString(args?.substring_pattern) ? args.substring_pattern : '';
-        if (!substringPattern) {
-          throw new GlanceyError('substring_pattern is required', 'validation', {
-            tool: 'search_for_pattern',
-          });
-        }
-
-        const result = await searchForPattern(PROJECT_PATH, {
-          substringPattern,
-          relativePath: isString(args?.relative_path) ? args.relative_path : undefined,
-          restrictSearchToCodeFiles: isBoolean(args?.restrict_search_to_code_files)
-            ? args.restrict_search_to_code_files
-            : false,
-          pathsIncludeGlob: isString(args?.paths_include_glob)
-            ? args.paths_include_glob
-            : undefined,
-          pathsExcludeGlob: isString(args?.paths_exclude_glob)
-            ? args.paths_exclude_glob
-            : undefined,
-          contextLinesBefore: isNumber(args?.context_lines_before) ? args.context_lines_before : 0,
-          contextLinesAfter: isNumber(args?.context_lines_after) ? args.context_lines_after : 0,
-          maxAnswerChars: isNumber(args?.max_answer_chars) ? args.max_answer_chars : 50000,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatPatternSearchResults(result) + TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleSearchForPattern(parseSearchForPatternArgs(args), symbolContext);
+        return { ...result };
       }
 
       // --- Memory Tools ---
       case 'write_memory': {
-        const memoryFileName = isString(args?.memory_file_name) ? args.memory_file_name : '';
-        const content = isString(args?.content) ? args.content : '';
-
-        if (!memoryFileName || !content) {
-          throw new GlanceyError('memory_file_name and content are required', 'validation', {
-            tool: 'write_memory',
-          });
-        }
-
-        const memoryManager = new MemoryManager(PROJECT_PATH);
-        await memoryManager.writeMemory(memoryFileName, content);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Memory "${memoryFileName}" saved successfully.` + TOOL_GUIDANCE,
-            },
-          ],
+        const memoryContext: MemoryToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleWriteMemory(parseWriteMemoryArgs(args), memoryContext);
+        return { ...result };
       }
 
       case 'read_memory': {
-        const memoryFileName = isString(args?.memory_file_name) ? args.memory_file_name : '';
-
-        if (!memoryFileName) {
-          throw new GlanceyError('memory_file_name is required', 'validation', {
-            tool: 'read_memory',
-          });
-        }
-
-        const memoryManager = new MemoryManager(PROJECT_PATH);
-        const content = await memoryManager.readMemory(memoryFileName);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `## Memory: ${memoryFileName}\n\n${content}` + TOOL_GUIDANCE,
-            },
-          ],
+        const memoryContext: MemoryToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleReadMemory(parseReadMemoryArgs(args), memoryContext);
+        return { ...result };
       }
 
       case 'list_memories': {
-        const memoryManager = new MemoryManager(PROJECT_PATH);
-        const memories = await memoryManager.listMemories();
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatMemoryList(memories) + TOOL_GUIDANCE,
-            },
-          ],
+        const memoryContext: MemoryToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleListMemories(memoryContext);
+        return { ...result };
       }
 
       case 'delete_memory': {
-        const memoryFileName = isString(args?.memory_file_name) ? args.memory_file_name : '';
-
-        if (!memoryFileName) {
-          throw new GlanceyError('memory_file_name is required', 'validation', {
-            tool: 'delete_memory',
-          });
-        }
-
-        const memoryManager = new MemoryManager(PROJECT_PATH);
-        await memoryManager.deleteMemory(memoryFileName);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Memory "${memoryFileName}" deleted successfully.` + TOOL_GUIDANCE,
-            },
-          ],
+        const memoryContext: MemoryToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleDeleteMemory(parseDeleteMemoryArgs(args), memoryContext);
+        return { ...result };
       }
 
       case 'edit_memory': {
-        const memoryFileName = isString(args?.memory_file_name) ? args.memory_file_name : '';
-        const needle = isString(args?.needle) ? args.needle : '';
-        const repl = isString(args?.repl) ? args.repl : '';
-        const mode = isString(args?.mode) ? args.mode : '';
-
-        if (!memoryFileName || !needle || mode === '') {
-          throw new GlanceyError(
-            'memory_file_name, needle, repl, and mode are required',
-            'validation',
-            { tool: 'edit_memory' }
-          );
-        }
-
-        if (mode !== 'literal' && mode !== 'regex') {
-          throw new GlanceyError('mode must be "literal" or "regex"', 'validation', {
-            tool: 'edit_memory',
-          });
-        }
-
-        const memoryManager = new MemoryManager(PROJECT_PATH);
-        const result = await memoryManager.editMemory(memoryFileName, needle, repl, mode);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text:
-                `Memory "${memoryFileName}" edited. ${result.matchCount} replacement(s) made.` +
-                TOOL_GUIDANCE,
-            },
-          ],
+        const memoryContext: MemoryToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleEditMemory(parseEditMemoryArgs(args), memoryContext);
+        return { ...result };
       }
 
       // --- Symbol Editing Tools ---
       case 'replace_symbol_body': {
-        const namePath = isString(args?.name_path) ? args.name_path : '';
-        const relativePath = isString(args?.relative_path) ? args.relative_path : '';
-        const body = isString(args?.body) ? args.body : '';
-
-        if (!namePath || !relativePath || !body) {
-          throw new GlanceyError('name_path, relative_path, and body are required', 'validation', {
-            tool: 'replace_symbol_body',
-          });
-        }
-
-        const editor = new SymbolEditor(PROJECT_PATH);
-        const result = await editor.replaceSymbolBody({ namePath, relativePath, body });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to replace symbol: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text:
-                `Symbol "${result.symbolName}" replaced in ${result.filepath}.\n` +
-                `New location: lines ${result.newRange?.startLine}-${result.newRange?.endLine}` +
-                TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleReplaceSymbolBody(
+          parseReplaceSymbolBodyArgs(args),
+          symbolContext
+        );
+        return { ...result };
       }
 
       case 'insert_before_symbol': {
-        const namePath = isString(args?.name_path) ? args.name_path : '';
-        const relativePath = isString(args?.relative_path) ? args.relative_path : '';
-        const body = isString(args?.body) ? args.body : '';
-
-        if (!namePath || !relativePath || !body) {
-          throw new GlanceyError('name_path, relative_path, and body are required', 'validation', {
-            tool: 'insert_before_symbol',
-          });
-        }
-
-        const editor = new SymbolEditor(PROJECT_PATH);
-        const result = await editor.insertBeforeSymbol({ namePath, relativePath, body });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to insert before symbol: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text:
-                `Content inserted before "${result.symbolName}" in ${result.filepath}.\n` +
-                `Inserted at: lines ${result.newRange?.startLine}-${result.newRange?.endLine}` +
-                TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleInsertBeforeSymbol(
+          parseInsertBeforeSymbolArgs(args),
+          symbolContext
+        );
+        return { ...result };
       }
 
       case 'insert_after_symbol': {
-        const namePath = isString(args?.name_path) ? args.name_path : '';
-        const relativePath = isString(args?.relative_path) ? args.relative_path : '';
-        const body = isString(args?.body) ? args.body : '';
-
-        if (!namePath || !relativePath || !body) {
-          throw new GlanceyError('name_path, relative_path, and body are required', 'validation', {
-            tool: 'insert_after_symbol',
-          });
-        }
-
-        const editor = new SymbolEditor(PROJECT_PATH);
-        const result = await editor.insertAfterSymbol({ namePath, relativePath, body });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to insert after symbol: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text:
-                `Content inserted after "${result.symbolName}" in ${result.filepath}.\n` +
-                `Inserted at: lines ${result.newRange?.startLine}-${result.newRange?.endLine}` +
-                TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleInsertAfterSymbol(
+          parseInsertAfterSymbolArgs(args),
+          symbolContext
+        );
+        return { ...result };
       }
 
       case 'rename_symbol': {
-        const namePath = isString(args?.name_path) ? args.name_path : '';
-        const relativePath = isString(args?.relative_path) ? args.relative_path : '';
-        const newName = isString(args?.new_name) ? args.new_name : '';
-        const dryRun = isBoolean(args?.dry_run) ? args.dry_run : false;
-
-        if (!namePath || !relativePath || !newName) {
-          throw new GlanceyError(
-            'name_path, relative_path, and new_name are required',
-            'validation',
-            { tool: 'rename_symbol' }
-          );
-        }
-
-        const renamer = new SymbolRenamer(PROJECT_PATH);
-        const result = await renamer.renameSymbol({ namePath, relativePath, newName, dryRun });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to rename symbol: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const modeLabel = dryRun ? ' (dry run)' : '';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatRenameResult(result) + modeLabel + TOOL_GUIDANCE,
-            },
-          ],
+        const symbolContext: SymbolToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleRenameSymbol(parseRenameSymbolArgs(args), symbolContext);
+        return { ...result };
       }
 
       // --- Worktree Tools ---
       case 'create_worktree': {
-        const shortName = isString(args?.short_name) ? args.short_name : '';
-
-        if (!shortName) {
-          throw new GlanceyError('short_name is required', 'validation', {
-            tool: 'create_worktree',
-          });
-        }
-
-        const worktreeManager = new WorktreeManager(PROJECT_PATH);
-        const result = await worktreeManager.createWorktree({
-          shortName,
-          issueId: isString(args?.issue_id) ? args.issue_id : undefined,
-          prefix: isString(args?.prefix)
-            ? (args.prefix as 'feature' | 'fix' | 'refactor' | 'docs' | 'test')
-            : undefined,
-          baseBranch: isString(args?.base_branch) ? args.base_branch : undefined,
-          installDeps: isBoolean(args?.install_deps) ? args.install_deps : true,
-          packageManager: isString(args?.package_manager)
-            ? (args.package_manager as 'npm' | 'yarn' | 'pnpm' | 'bun')
-            : undefined,
-        });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to create worktree: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const worktree = result.worktree;
-        const parts: string[] = [];
-        parts.push('## Worktree Created\n');
-        parts.push(`**Name:** ${worktree?.name}`);
-        parts.push(`**Path:** ${worktree?.path}`);
-        parts.push(`**Branch:** ${worktree?.branch}`);
-
-        if (result.depsInstalled !== undefined) {
-          const depsStatus = result.depsInstalled ? 'installed' : 'skipped/failed';
-          const timeInfo = result.depsInstallTime ? ` (${result.depsInstallTime}ms)` : '';
-          parts.push(`**Dependencies:** ${depsStatus}${timeInfo}`);
-        }
-
-        parts.push('\n**Usage:** Spawn agent with `cwd: "' + (worktree?.path ?? '') + '"`');
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: parts.join('\n') + TOOL_GUIDANCE,
-            },
-          ],
+        const worktreeContext: WorktreeToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleCreateWorktree(parseCreateWorktreeArgs(args), worktreeContext);
+        return { ...result };
       }
 
       case 'list_worktrees': {
-        const worktreeManager = new WorktreeManager(PROJECT_PATH);
-        const result = await worktreeManager.listWorktrees();
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatWorktreeList(result) + TOOL_GUIDANCE,
-            },
-          ],
+        const worktreeContext: WorktreeToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleListWorktrees(worktreeContext);
+        return { ...result };
       }
 
       case 'remove_worktree': {
-        const worktreeName = isString(args?.name) ? args.name : '';
-
-        if (!worktreeName) {
-          throw new GlanceyError('name is required', 'validation', {
-            tool: 'remove_worktree',
-          });
-        }
-
-        const worktreeManager = new WorktreeManager(PROJECT_PATH);
-        const result = await worktreeManager.removeWorktree({
-          name: worktreeName,
-          deleteBranch: isBoolean(args?.delete_branch) ? args.delete_branch : false,
-          force: isBoolean(args?.force) ? args.force : false,
-        });
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to remove worktree: ${result.error}` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const parts: string[] = [];
-        parts.push('## Worktree Removed\n');
-        parts.push(`**Name:** ${worktreeName}`);
-        if (result.branch) {
-          parts.push(`**Branch:** ${result.branch}`);
-          parts.push(`**Branch deleted:** ${result.branchDeleted ? 'yes' : 'no'}`);
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: parts.join('\n') + TOOL_GUIDANCE,
-            },
-          ],
+        const worktreeContext: WorktreeToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleRemoveWorktree(parseRemoveWorktreeArgs(args), worktreeContext);
+        return { ...result };
       }
 
       case 'worktree_status': {
-        const worktreeName = isString(args?.name) ? args.name : '';
-
-        if (!worktreeName) {
-          throw new GlanceyError('name is required', 'validation', {
-            tool: 'worktree_status',
-          });
-        }
-
-        const worktreeManager = new WorktreeManager(PROJECT_PATH);
-        const info = await worktreeManager.getWorktreeInfo(worktreeName);
-
-        if (!info) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Worktree "${worktreeName}" not found.` + TOOL_GUIDANCE,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatWorktreeInfo(info) + TOOL_GUIDANCE,
-            },
-          ],
+        const worktreeContext: WorktreeToolContext = {
+          projectPath,
+          toolGuidance: TOOL_GUIDANCE,
         };
+        const result = await handleWorktreeStatus(parseWorktreeStatusArgs(args), worktreeContext);
+        return { ...result };
       }
 
       // --- Dashboard Tools ---
@@ -2223,6 +1895,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   text: `Dashboard already running at ${url}. Opening in browser.` + TOOL_GUIDANCE,
                 },
               ],
+              structuredContent: { url, alreadyRunning: true },
             };
           }
         }
@@ -2243,6 +1916,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 text: `Dashboard started at ${dashboard.url}. Opening in browser.` + TOOL_GUIDANCE,
               },
             ],
+            structuredContent: { url: dashboard.url, alreadyRunning: false },
           };
         } catch (error) {
           throw wrapError('Failed to start dashboard', 'internal', error);
@@ -2251,12 +1925,29 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'init_project': {
         const context: InitToolContext = {
-          projectPath: PROJECT_PATH,
+          projectPath,
         };
         const result = await handleInitProject(context);
         return { ...result };
       }
 
+      case 'list_projects': {
+        const projectList = roots.getProjects();
+        const defaultProject = roots.resolveProject();
+        const lines = projectList.map(
+          (p) => `- **${p.name}**: ${p.path}${p.path === defaultProject ? ' (default)' : ''}`
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Projects (${projectList.length})\n\n${lines.join('\n')}` + TOOL_GUIDANCE,
+            },
+          ],
+          structuredContent: { projects: projectList, defaultProject },
+        };
+      }
+
       default:
         throw new GlanceyError(`Unknown tool: ${name}`, 'validation', { tool: name });
     }
@@ -2274,28 +1965,142 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/**
+ * Create an MCP server with glancey's tools, prompts, resources and argument completions.
+ * Standalone mode serves one over stdio; the daemon creates one per connected client,
+ * all sharing this process's indexer, dashboard and file watcher.
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'glancey',
+      version: PACKAGE_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        prompts: {},
+        resources: { subscribe: true, listChanged: true },
+        completions: {},
+      },
+      instructions: SERVER_INSTRUCTIONS,
+    }
+  );
+  const roots = new SessionRoots(PROJECT_PATH, PROJECT_PATH_IS_EXPLICIT);
+  registerRootsHandlers(server, roots);
+
+  // Resources and completions use the session's default project
+  const projectContext = {
+    get projectPath() {
+      return roots.resolveProject();
+    },
+    getIndexer: () => getIndexer(roots.resolveProject()),
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(ListPromptsRequestSchema, handleListPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, handleGetPrompt);
+  server.setRequestHandler(CallToolRequestSchema, (request) => handleCallTool(request, roots));
+  registerResourceHandlers(server, projectContext, resourceSubscriptions);
+  registerCompletionHandler(server, projectContext);
+  return server;
+}
+
+/** Resource subscriptions of all MCP sessions served by this process */
+const resourceSubscriptions = new ResourceSubscriptions(PROJECT_PATH);
+
+/** Stdio MCP server (standalone mode) */
+let mcpServer: Server | null = null;
+
+/** Socket server for MCP clients (daemon mode) */
+let daemon: DaemonServer | null = null;
+
+/** Streamable HTTP server for MCP clients (`--http <port>`) */
+let httpServer: McpHttpServer | null = null;
 
 // Start server
 async function main() {
-  // Handle CLI subcommands (e.g., `npx glancey init`)
+  // Handle CLI subcommands (e.g., `npx glancey init`, `npx glancey search <query>`)
   const cliArgs = process.argv.slice(2);
-  if (cliArgs[0] === 'init') {
-    const projectPath = path.resolve(cliArgs[1] || process.cwd());
-    const result = await handleInitProject({ projectPath });
-    const text = result.content
-      .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
-      .map((c) => c.text)
-      .join('\n');
-    console.log(text);
-    process.exit(0);
+  if (isCliCommand(cliArgs)) {
+    const exitCode = await runCli(cliArgs, { projectPath: PROJECT_PATH, getIndexer });
+    flushEmbeddingUsage();
+    // Flush stdout before exiting so piped output isn't truncated
+    process.stdout.write('', () => process.exit(exitCode));
+    return;
+  }
+
+  const httpPort = parseHttpPortArg(cliArgs);
+
+  if (cliArgs[0] === 'daemon') {
+    await startDaemon(httpPort);
+    return;
+  }
+
+  // Serve MCP over HTTP instead of stdio
+  if (httpPort !== null) {
+    await startHttpTransport(httpPort);
+    await startServices();
+    return;
+  }
+
+  // If a daemon serves this project, forward to it instead of loading our own indexer
+  const daemonSocket = await connectToDaemon(PROJECT_PATH);
+  if (daemonSocket) {
+    console.error(`[glancey] Forwarding to glancey daemon for ${PROJECT_PATH}`);
+    await proxyToDaemon(daemonSocket);
+    flushEmbeddingUsage();
+    process.stdout.write('', () => process.exit(0));
+    return;
   }
 
   // Connect MCP transport immediately so Claude Code doesn't block waiting for us
+  mcpServer = createMcpServer();
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await mcpServer.connect(transport);
   console.error('[glancey] MCP server started');
 
+  await startServices();
+}
+
+/**
+ * Run as the project's shared daemon (`glancey daemon`): serve MCP clients over a local socket.
+ * Stdio servers started by clients forward to it, so all sessions share one indexer and dashboard.
+ */
+async function startDaemon(httpPort: number | null): Promise<void> {
+  daemon = new DaemonServer(PROJECT_PATH, {
+    createServer: createMcpServer,
+    onClientsChange: (count) => console.error(`[glancey] Daemon clients connected: ${count}`),
+  });
+  await daemon.start();
+  console.error(`[glancey] Daemon for ${PROJECT_PATH} listening on ${daemon.socketPath}`);
+
+  if (httpPort !== null) {
+    await startHttpTransport(httpPort);
+  }
+
+  await startServices();
+}
+
+/**
+ * Serve MCP over Streamable HTTP on localhost (`--http <port>`).
+ * Requires `Authorization: Bearer <token>` when GLANCEY_HTTP_TOKEN is set.
+ */
+async function startHttpTransport(port: number): Promise<void> {
+  const token = process.env.GLANCEY_HTTP_TOKEN || undefined;
+  httpServer = await startMcpHttpServer({ port, createServer: createMcpServer, token });
+  console.error(
+    `[glancey] MCP Streamable HTTP endpoint at ${httpServer.url}` +
+      (token ? ' (bearer token required)' : '')
+  );
+}
+
+/**
+ * Start the indexer, file watcher and dashboard (standalone server or daemon).
+ */
+async function startServices(): Promise<void> {
   // Disable Serena plugin (glancey replaces it)
   await disableSerena();
 
@@ -2305,6 +2110,9 @@ async function main() {
   // Set up config file watchers for hot reload
   watchConfigFiles();
 
+  // Notify resource subscribers of memory edits (summary updates are wired up in getProject)
+  resourceSubscriptions.start();
+
   // Load config to check if dashboard is enabled
   const config = await getConfig();
   const dashboardConfig = getDashboardConfig(config);
@@ -2320,10 +2128,14 @@ async function main() {
   // Auto-index if project is not yet indexed or backend has changed
   if (indexer) {
     const status = await indexer.getStatus();
-    const needsIndex = !status.indexed;
-    const needsReindex = status.indexed && status.backendMismatch;
-
-    if (needsIndex) {
+    // Another session is already building the index; searches work read-only meanwhile
+    const { lockHolder } = status;
+    const needsIndex = !status.indexed && !lockHolder;
+    const needsReindex = status.indexed && status.backendMismatch && !lockHolder;
+
+    if (lockHolder) {
+      console.error(`[glancey] ${formatLockHolder(lockHolder)}, skipping auto-index`);
+    } else if (needsIndex) {
       console.error('[glancey] Project not indexed, starting auto-index...');
     } else if (needsReindex) {
       console.error(`[glancey] ${status.backendMismatchReason}`);
@@ -2349,6 +2161,8 @@ async function main() {
           console.error('[glancey] Auto-index failed:', error);
         });
     }
+
+    await syncFileWatcher();
   }
 
   // Start dashboard if enabled
@@ -2393,6 +2207,9 @@ async function main() {
 async function shutdown(signal: string): Promise<void> {
   console.error(`[glancey] Received ${signal}, shutting down gracefully...`);
 
+  fileWatcher?.stop();
+  resourceSubscriptions.stop();
+
   try {
     // Stop the dashboard server
     await stopDashboard();
@@ -2401,14 +2218,17 @@ async function shutdown(signal: string): Promise<void> {
     console.error('[glancey] Error stopping dashboard:', error);
   }
 
-  // Close the MCP server connection
+  // Close the MCP server connection (or all daemon client connections)
   try {
-    await server.close();
+    await mcpServer?.close();
+    await daemon?.stop();
+    await httpServer?.stop();
     console.error('[glancey] MCP server closed');
   } catch (error) {
     console.error('[glancey] Error closing MCP server:', error);
   }
 
+  flushEmbeddingUsage();
   process.exit(0);
 }
 
@@ -2418,5 +2238,6 @@ process.on('SIGINT', () => shutdown('SIGINT'));
 
 main().catch((error) => {
   console.error('[glancey] Fatal error:', error);
+  flushEmbeddingUsage();
   process.exit(1);
 });
@@ -0,0 +1,24 @@
+/**
+ * Tree-sitter language registry.
+ * Built-in grammars plus languages registered in the `languages` config section,
+ * and block parsing for Vue, Svelte and Astro components.
+ */
+
+export {
+  LanguageRegistry,
+  getBuiltinLanguages,
+  createLanguageRegistry,
+  loadLanguageRegistry,
+  resolveGrammarPath,
+  type LanguageDefinition,
+} from './registry.js';
+export {
+  SFC_EXTENSIONS,
+  isSFCFile,
+  getComponentName,
+  parseSFCBlocks,
+  isScriptBlock,
+  getScriptKind,
+  getScriptSource,
+  type SFCBlock,
+} from './sfc.js';
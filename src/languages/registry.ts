@@ -0,0 +1,311 @@
+/**
+ * Language registry shared by the tree-sitter chunker, symbol extractor and reference finder.
+ * Holds the built-in grammars plus any languages registered in `.glancey.json`.
+ */
+
+import * as path from 'path';
+import { loadConfig, type LanguageConfig } from '../config.js';
+
+/**
+ * A language parsed with tree-sitter
+ */
+export interface LanguageDefinition {
+  name: string;
+  /** Grammar file name in @vscode/tree-sitter-wasm, or an absolute path for configured grammars */
+  wasmFile: string;
+  extensions: string[];
+  // Node types that represent definitions
+  functionTypes: string[];
+  classTypes: string[];
+  methodTypes: string[];
+  importTypes: string[];
+  variableTypes: string[];
+  interfaceTypes: string[];
+  typeTypes: string[];
+  constructorTypes: string[];
+  // Node types that are references to a name
+  identifierTypes: string[];
+  // Node types that only define something when they have a body
+  // (C/C++ also write `struct Point p;` to use a struct)
+  bodyRequiredTypes?: string[];
+  /** True for grammars shipped in @vscode/tree-sitter-wasm */
+  builtin: boolean;
+}
+
+type BuiltinLanguage = Omit<LanguageDefinition, 'name' | 'builtin'>;
+
+/**
+ * Built-in languages
+ * Note: Only includes languages available in @vscode/tree-sitter-wasm,
+ * which ships no C, Swift or Kotlin grammar. C is parsed with the C++ grammar;
+ * Swift and Kotlin fall back to line-based chunking.
+ */
+const BUILTIN_LANGUAGES: Record<string, BuiltinLanguage> = {
+  python: {
+    wasmFile: 'tree-sitter-python.wasm',
+    extensions: ['.py', '.pyi'],
+    functionTypes: ['function_definition'],
+    classTypes: ['class_definition'],
+    methodTypes: ['function_definition'], // Methods are function_definition inside class
+    importTypes: ['import_statement', 'import_from_statement'],
+    variableTypes: ['assignment', 'expression_statement'],
+    interfaceTypes: [],
+    typeTypes: [],
+    constructorTypes: [], // __init__ is detected by name
+    identifierTypes: ['identifier'],
+  },
+  go: {
+    wasmFile: 'tree-sitter-go.wasm',
+    extensions: ['.go'],
+    functionTypes: ['function_declaration'],
+    classTypes: [], // Go doesn't have classes
+    methodTypes: ['method_declaration'],
+    importTypes: ['import_declaration'],
+    variableTypes: ['var_declaration', 'const_declaration', 'short_var_declaration'],
+    interfaceTypes: ['type_declaration'], // interface types
+    typeTypes: ['type_declaration'],
+    constructorTypes: [],
+    identifierTypes: ['identifier', 'type_identifier', 'field_identifier'],
+  },
+  rust: {
+    wasmFile: 'tree-sitter-rust.wasm',
+    extensions: ['.rs'],
+    functionTypes: ['function_item'],
+    classTypes: [], // Rust doesn't have classes
+    methodTypes: ['function_item'], // Methods are function_item inside impl
+    importTypes: ['use_declaration'],
+    variableTypes: ['let_declaration', 'const_item', 'static_item'],
+    interfaceTypes: ['trait_item'],
+    typeTypes: ['type_item', 'struct_item', 'enum_item', 'impl_item'],
+    constructorTypes: [],
+    identifierTypes: ['identifier', 'type_identifier', 'field_identifier'],
+  },
+  java: {
+    wasmFile: 'tree-sitter-java.wasm',
+    extensions: ['.java'],
+    functionTypes: [],
+    classTypes: ['class_declaration', 'interface_declaration', 'enum_declaration'],
+    methodTypes: ['method_declaration', 'constructor_declaration'],
+    importTypes: ['import_declaration'],
+    variableTypes: ['field_declaration', 'local_variable_declaration'],
+    interfaceTypes: ['interface_declaration'],
+    typeTypes: [],
+    constructorTypes: ['constructor_declaration'],
+    identifierTypes: ['identifier', 'type_identifier'],
+  },
+  ruby: {
+    wasmFile: 'tree-sitter-ruby.wasm',
+    extensions: ['.rb'],
+    functionTypes: ['method'],
+    classTypes: ['class', 'module'],
+    methodTypes: ['method', 'singleton_method'],
+    importTypes: ['call'], // require/require_relative calls
+    variableTypes: ['assignment'],
+    interfaceTypes: [],
+    typeTypes: [],
+    constructorTypes: [], // initialize is detected by name
+    identifierTypes: ['identifier', 'constant'],
+  },
+  c: {
+    wasmFile: 'tree-sitter-cpp.wasm', // C parses as the C subset of C++
+    extensions: ['.c', '.h'],
+    functionTypes: ['function_definition'],
+    classTypes: ['struct_specifier', 'union_specifier'],
+    methodTypes: [],
+    importTypes: ['preproc_include'],
+    variableTypes: ['declaration'], // globals and function prototypes
+    interfaceTypes: [],
+    typeTypes: ['enum_specifier', 'type_definition'],
+    constructorTypes: [],
+    identifierTypes: ['identifier', 'type_identifier', 'field_identifier'],
+    bodyRequiredTypes: ['struct_specifier', 'union_specifier', 'enum_specifier'],
+  },
+  cpp: {
+    wasmFile: 'tree-sitter-cpp.wasm',
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'],
+    functionTypes: ['function_definition'],
+    classTypes: ['class_specifier', 'struct_specifier', 'union_specifier'],
+    methodTypes: ['function_definition'], // Methods defined inside the class body
+    importTypes: ['preproc_include', 'using_declaration'],
+    variableTypes: ['declaration'],
+    interfaceTypes: [],
+    typeTypes: ['enum_specifier', 'type_definition', 'alias_declaration'],
+    constructorTypes: [], // constructors are detected by the class name
+    identifierTypes: ['identifier', 'type_identifier', 'field_identifier', 'namespace_identifier'],
+    bodyRequiredTypes: ['class_specifier', 'struct_specifier', 'union_specifier', 'enum_specifier'],
+  },
+  csharp: {
+    wasmFile: 'tree-sitter-c-sharp.wasm',
+    extensions: ['.cs'],
+    functionTypes: [],
+    classTypes: [
+      'class_declaration',
+      'struct_declaration',
+      'interface_declaration',
+      'record_declaration',
+      'enum_declaration',
+    ],
+    methodTypes: [
+      'method_declaration',
+      'constructor_declaration',
+      'destructor_declaration',
+      'operator_declaration',
+    ],
+    importTypes: ['using_directive'],
+    variableTypes: [],
+    interfaceTypes: ['interface_declaration'],
+    typeTypes: ['delegate_declaration'],
+    constructorTypes: ['constructor_declaration'],
+    identifierTypes: ['identifier'],
+  },
+  php: {
+    wasmFile: 'tree-sitter-php.wasm',
+    extensions: ['.php'],
+    functionTypes: ['function_definition'],
+    classTypes: [
+      'class_declaration',
+      'interface_declaration',
+      'trait_declaration',
+      'enum_declaration',
+    ],
+    methodTypes: ['method_declaration'],
+    importTypes: ['namespace_use_declaration'],
+    variableTypes: [],
+    interfaceTypes: ['interface_declaration'],
+    typeTypes: [],
+    constructorTypes: [], // __construct is detected by name
+    identifierTypes: ['name'],
+  },
+};
+
+/**
+ * Normalize a configured extension to the lowercase `.ext` form returned by path.extname
+ */
+function normalizeExtension(ext: string): string {
+  const lower = ext.toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+/**
+ * Build a definition from a `languages` entry in .glancey.json
+ */
+function fromConfig(name: string, config: LanguageConfig, projectPath: string): LanguageDefinition {
+  return {
+    name,
+    wasmFile: path.resolve(projectPath, config.wasmPath),
+    extensions: config.extensions.map(normalizeExtension),
+    functionTypes: config.functionTypes ?? [],
+    classTypes: config.classTypes ?? [],
+    methodTypes: config.methodTypes ?? [],
+    importTypes: config.importTypes ?? [],
+    variableTypes: config.variableTypes ?? [],
+    interfaceTypes: config.interfaceTypes ?? [],
+    typeTypes: config.typeTypes ?? [],
+    constructorTypes: config.constructorTypes ?? [],
+    identifierTypes: config.identifierTypes ?? ['identifier'],
+    builtin: false,
+  };
+}
+
+/**
+ * Languages parsed with tree-sitter, looked up by file extension.
+ * Languages registered later take over the extensions of earlier ones.
+ */
+export class LanguageRegistry {
+  private languages: Map<string, LanguageDefinition> = new Map();
+  private byExtension: Map<string, LanguageDefinition> = new Map();
+
+  constructor(definitions: LanguageDefinition[]) {
+    for (const definition of definitions) {
+      this.languages.set(definition.name, definition);
+    }
+    // Index after all definitions are in, so a replaced language drops its old extensions
+    for (const definition of this.languages.values()) {
+      for (const ext of definition.extensions) {
+        this.byExtension.set(ext, definition);
+      }
+    }
+  }
+
+  /**
+   * Get the language for a file, or null if no grammar handles its extension
+   */
+  forFile(filepath: string): LanguageDefinition | null {
+    return this.byExtension.get(path.extname(filepath).toLowerCase()) ?? null;
+  }
+
+  /**
+   * Get a language by name
+   */
+  get(name: string): LanguageDefinition | null {
+    return this.languages.get(name) ?? null;
+  }
+
+  /**
+   * Get all registered languages
+   */
+  list(): LanguageDefinition[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * Get the file extensions handled by any registered language
+   */
+  getExtensions(): string[] {
+    return [...this.byExtension.keys()];
+  }
+}
+
+let builtinRegistry: LanguageRegistry | null = null;
+
+/**
+ * Get the registry of built-in languages
+ */
+export function getBuiltinLanguages(): LanguageRegistry {
+  if (!builtinRegistry) {
+    builtinRegistry = new LanguageRegistry(
+      Object.entries(BUILTIN_LANGUAGES).map(([name, language]) => ({
+        name,
+        ...language,
+        builtin: true,
+      }))
+    );
+  }
+  return builtinRegistry;
+}
+
+/**
+ * Create a registry with the built-in languages plus the `languages` section of a project config.
+ * A configured language with a built-in name or extension replaces the built-in one.
+ */
+export function createLanguageRegistry(
+  projectPath: string,
+  languages: Record<string, LanguageConfig> | undefined
+): LanguageRegistry {
+  const configured = Object.entries(languages ?? {});
+  if (configured.length === 0) {
+    return getBuiltinLanguages();
+  }
+
+  return new LanguageRegistry([
+    ...getBuiltinLanguages().list(),
+    ...configured.map(([name, config]) => fromConfig(name, config, projectPath)),
+  ]);
+}
+
+/**
+ * Load the language registry for a project from its config files
+ */
+export async function loadLanguageRegistry(projectPath: string): Promise<LanguageRegistry> {
+  const config = await loadConfig(projectPath);
+  return createLanguageRegistry(projectPath, config.languages);
+}
+
+/**
+ * Resolve the grammar file of a language against the @vscode/tree-sitter-wasm directory
+ */
+export function resolveGrammarPath(language: LanguageDefinition, wasmBasePath: string): string {
+  return path.isAbsolute(language.wasmFile)
+    ? language.wasmFile
+    : path.join(wasmBasePath, language.wasmFile);
+}
@@ -0,0 +1,223 @@
+/**
+ * Block parsing for single-file components (Vue, Svelte, Astro), shared by the SFC chunker
+ * and symbol extractor. Script blocks are handed to the TypeScript compiler at their real
+ * positions, so chunks and symbols keep the component file's line numbers.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export const SFC_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+/**
+ * A top-level block of a component
+ */
+export interface SFCBlock {
+  /** Tag name (`script`, `style`, `template`, a Vue custom block), or `frontmatter` for Astro */
+  tag: string;
+  attributes: Record<string, string>;
+  /** Rows of the opening and closing tag (0-indexed, inclusive) */
+  startRow: number;
+  endRow: number;
+  /** Offsets of the block's content, between the opening and closing tag */
+  contentStart: number;
+  contentEnd: number;
+}
+
+// Script `type`s that hold JavaScript; others (`application/ld+json`, templates) are markup
+const SCRIPT_TYPES = /^(?:module|text\/javascript|application\/javascript|text\/typescript)$/i;
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Check if a file is a single-file component
+ */
+export function isSFCFile(filepath: string): boolean {
+  return SFC_EXTENSIONS.includes(path.extname(filepath).toLowerCase());
+}
+
+/**
+ * Get a component's name from its file name, e.g. `UserCard` for `UserCard.vue`
+ */
+export function getComponentName(filepath: string): string {
+  return path.basename(filepath, path.extname(filepath));
+}
+
+/**
+ * Find the top-level blocks of a component.
+ * Vue files are made of top-level elements; Svelte and Astro files are markup with top-level
+ * `<script>` and `<style>` elements, and Astro's `---` frontmatter. Top-level means the opening
+ * tag starts a line, so indented elements inside the markup are not blocks.
+ */
+export function parseSFCBlocks(content: string, filepath: string): SFCBlock[] {
+  const isVue = path.extname(filepath).toLowerCase() === '.vue';
+  const lineStarts = getLineStarts(content);
+  const rowOf = (offset: number) => findRow(lineStarts, offset);
+  const lineText = (index: number) =>
+    content.slice(lineStarts[index], (lineStarts[index + 1] ?? content.length + 1) - 1);
+  const blocks: SFCBlock[] = [];
+  let row = 0;
+
+  // Astro frontmatter: a `---` fence on the first line
+  if (path.extname(filepath).toLowerCase() === '.astro' && /^---[ \t]*\r?$/.test(lineText(0))) {
+    const close = lineStarts.findIndex((_, i) => i > 0 && /^---[ \t]*\r?$/.test(lineText(i)));
+    if (close > 0) {
+      blocks.push({
+        tag: 'frontmatter',
+        attributes: { lang: 'ts' },
+        startRow: 0,
+        endRow: close,
+        contentStart: lineStarts[1],
+        contentEnd: lineStarts[close],
+      });
+      row = close + 1;
+    }
+  }
+
+  while (row < lineStarts.length) {
+    const lineStart = lineStarts[row];
+    const open = /^<([a-zA-Z][\w-]*)/.exec(lineText(row));
+    const tag = open?.[1].toLowerCase();
+    if (!open || !tag || (!isVue && tag !== 'script' && tag !== 'style')) {
+      row++;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(content, lineStart + open[0].length);
+    if (tagEnd === -1) {
+      break;
+    }
+    const attributes = parseAttributes(content.slice(lineStart + open[0].length, tagEnd));
+    const contentStart = tagEnd + 1;
+
+    let contentEnd: number;
+    let closeEnd: number;
+    if (content[tagEnd - 1] === '/') {
+      // Self-closing, e.g. `<script src="./setup.ts" />`
+      contentEnd = contentStart;
+      closeEnd = tagEnd;
+    } else {
+      // Scripts and styles end at the first closing tag; other blocks (a Vue `<template>` can
+      // hold nested `<template>`s) at a closing tag that starts a line
+      const closing =
+        tag === 'script' || tag === 'style'
+          ? new RegExp(`</${tag}\\s*>`, 'gi')
+          : new RegExp(`^</${tag}\\s*>`, 'gim');
+      closing.lastIndex = contentStart;
+      const match = closing.exec(content);
+      if (!match) {
+        row = rowOf(tagEnd) + 1;
+        continue;
+      }
+      contentEnd = match.index;
+      closeEnd = match.index + match[0].length - 1;
+    }
+
+    blocks.push({
+      tag,
+      attributes,
+      startRow: row,
+      endRow: rowOf(closeEnd),
+      contentStart,
+      contentEnd,
+    });
+    row = rowOf(closeEnd) + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Check if a block holds JavaScript or TypeScript
+ */
+export function isScriptBlock(block: SFCBlock): boolean {
+  if (block.tag === 'frontmatter') {
+    return true;
+  }
+  const type = block.attributes.type;
+  return block.tag === 'script' && (type === undefined || SCRIPT_TYPES.test(type));
+}
+
+/**
+ * Get the script kind of a script block from its `lang` attribute
+ */
+export function getScriptKind(block: SFCBlock, filepath: string): ts.ScriptKind {
+  const lang = block.attributes.lang?.toLowerCase();
+  if (lang === 'tsx') {
+    return ts.ScriptKind.TSX;
+  }
+  if (lang === 'jsx') {
+    return ts.ScriptKind.JSX;
+  }
+  // Astro scripts are always TypeScript
+  if (lang === 'ts' || path.extname(filepath).toLowerCase() === '.astro') {
+    return ts.ScriptKind.TS;
+  }
+  return ts.ScriptKind.JS;
+}
+
+/**
+ * Get the source of a script block with everything before it blanked out.
+ * Line breaks are kept, so positions in the result are positions in the component file.
+ */
+export function getScriptSource(content: string, block: SFCBlock): string {
+  return (
+    content.slice(0, block.contentStart).replace(/[^\r\n]/g, ' ') +
+    content.slice(block.contentStart, block.contentEnd)
+  );
+}
+
+/**
+ * Find the `>` that ends an opening tag, skipping quoted attribute values
+ * (Vue's `generic="T extends Record<string, unknown>"`)
+ */
+function findTagEnd(content: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Find the row containing an offset
+ */
+function findRow(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,24 @@
+/**
+ * MCP resources module: memories, codebase summary, symbols and worktrees as glancey:// resources.
+ */
+
+export type { ResourceContext, ParsedResourceUri } from './resources.js';
+export {
+  registerResourceHandlers,
+  listResources,
+  listResourceTemplates,
+  readResource,
+  parseResourceUri,
+  parseResourcePath,
+  memoryUri,
+  symbolsUri,
+  symbolUri,
+  worktreeUri,
+  RESOURCE_SCHEME,
+  SUMMARY_URI,
+  MEMORY_URI_TEMPLATE,
+  SYMBOLS_URI_TEMPLATE,
+  SYMBOL_URI_TEMPLATE,
+  WORKTREE_URI_TEMPLATE,
+} from './resources.js';
+export { ResourceSubscriptions } from './subscriptions.js';
@@ -0,0 +1,364 @@
+/**
+ * MCP resources: project memories, the codebase summary, per-file symbol overviews, symbol
+ * sources and worktree status, so clients that support resources can attach them without the
+ * agent calling a tool.
+ */
+
+import * as path from 'path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ListResourceTemplatesResult,
+  type ListResourcesResult,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CodeIndexer } from '../search/indexer.js';
+import { MemoryManager } from '../memory/index.js';
+import { SymbolExtractor, formatNamePath, type Symbol as SymbolType } from '../symbols/index.js';
+import { WorktreeManager, formatWorktreeInfo } from '../worktree/index.js';
+import { formatCodebaseSummary } from '../tools/clustering-handlers.js';
+import { formatSymbolsOverview } from '../tools/symbol-handlers.js';
+import { GlanceyError } from '../utils/errors.js';
+import type { ResourceSubscriptions } from './subscriptions.js';
+
+/**
+ * URI scheme of all glancey resources.
+ */
+export const RESOURCE_SCHEME = 'glancey://';
+
+/**
+ * URI of the codebase summary resource.
+ */
+export const SUMMARY_URI = `${RESOURCE_SCHEME}summary`;
+
+const MEMORY_URI_PREFIX = `${RESOURCE_SCHEME}memory/`;
+const SYMBOLS_URI_PREFIX = `${RESOURCE_SCHEME}symbols/`;
+const SYMBOL_URI_PREFIX = `${RESOURCE_SCHEME}symbol/`;
+const WORKTREE_URI_PREFIX = `${RESOURCE_SCHEME}worktree/`;
+
+/**
+ * URI template of memory resources.
+ */
+export const MEMORY_URI_TEMPLATE = `${MEMORY_URI_PREFIX}{name}`;
+
+/**
+ * URI template of symbol overview resources (`+` keeps the path's slashes unescaped).
+ */
+export const SYMBOLS_URI_TEMPLATE = `${SYMBOLS_URI_PREFIX}{+path}`;
+
+/**
+ * URI template of symbol source resources, e.g. `glancey://symbol/src/a.ts?name_path=Foo%2Fbar`.
+ */
+export const SYMBOL_URI_TEMPLATE = `${SYMBOL_URI_PREFIX}{+path}{?name_path}`;
+
+/**
+ * URI template of worktree status resources.
+ */
+export const WORKTREE_URI_TEMPLATE = `${WORKTREE_URI_PREFIX}{name}`;
+
+/**
+ * Depth of symbol overviews served as resources (top-level symbols and their members).
+ */
+const SYMBOLS_RESOURCE_DEPTH = 1;
+
+/**
+ * Context for serving resources.
+ */
+export interface ResourceContext {
+  projectPath: string;
+  getIndexer: () => Promise<CodeIndexer>;
+}
+
+/**
+ * A parsed glancey resource URI.
+ */
+export type ParsedResourceUri =
+  | { type: 'memory'; name: string }
+  | { type: 'summary' }
+  | { type: 'symbols'; filepath: string }
+  | { type: 'symbol'; filepath: string; namePath: string }
+  | { type: 'worktree'; name: string };
+
+/**
+ * Get the resource URI of a memory.
+ */
+export function memoryUri(name: string): string {
+  return `${MEMORY_URI_PREFIX}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Get the resource URI of a file's symbol overview.
+ * Path separators are kept so the URI reads like the path.
+ */
+export function symbolsUri(filepath: string): string {
+  return `${SYMBOLS_URI_PREFIX}${filepath.split(/[\\/]/).map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Get the resource URI of a symbol's source.
+ */
+export function symbolUri(filepath: string, namePath: string): string {
+  const encodedPath = filepath.split(/[\\/]/).map(encodeURIComponent).join('/');
+  return `${SYMBOL_URI_PREFIX}${encodedPath}?name_path=${encodeURIComponent(namePath)}`;
+}
+
+/**
+ * Get the resource URI of a worktree's status.
+ */
+export function worktreeUri(name: string): string {
+  return `${WORKTREE_URI_PREFIX}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Parse a resource path relative to the project.
+ *
+ * @throws GlanceyError if the path is outside the project
+ */
+export function parseResourcePath(encodedPath: string, uri: string): string {
+  const filepath = path.normalize(decodeURIComponent(encodedPath));
+  if (!filepath || filepath === '.' || path.isAbsolute(filepath) || filepath.startsWith('..')) {
+    throw new GlanceyError(`Resource path must be inside the project: ${uri}`, 'validation', {
+      uri,
+    });
+  }
+  return filepath;
+}
+
+/**
+ * Parse a glancey resource URI.
+ *
+ * @throws GlanceyError if the URI is not a glancey resource, or names a path outside the project
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  if (uri === SUMMARY_URI) {
+    return { type: 'summary' };
+  }
+
+  if (uri.startsWith(MEMORY_URI_PREFIX)) {
+    const name = decodeURIComponent(uri.slice(MEMORY_URI_PREFIX.length));
+    if (!name || name.includes('/') || name.includes('\\') || name.startsWith('.')) {
+      throw new GlanceyError(`Invalid memory name in resource URI: ${uri}`, 'validation', { uri });
+    }
+    return { type: 'memory', name: name.replace(/\.md$/, '') };
+  }
+
+  if (uri.startsWith(SYMBOLS_URI_PREFIX)) {
+    return {
+      type: 'symbols',
+      filepath: parseResourcePath(uri.slice(SYMBOLS_URI_PREFIX.length), uri),
+    };
+  }
+
+  if (uri.startsWith(SYMBOL_URI_PREFIX)) {
+    const [encodedPath, query = ''] = uri.slice(SYMBOL_URI_PREFIX.length).split('?', 2);
+    const namePath = new URLSearchParams(query).get('name_path');
+    if (!namePath) {
+      throw new GlanceyError(`Missing name_path in resource URI: ${uri}`, 'validation', { uri });
+    }
+    return { type: 'symbol', filepath: parseResourcePath(encodedPath, uri), namePath };
+  }
+
+  if (uri.startsWith(WORKTREE_URI_PREFIX)) {
+    const name = decodeURIComponent(uri.slice(WORKTREE_URI_PREFIX.length));
+    if (!name || name.includes('/') || name.includes('\\')) {
+      throw new GlanceyError(`Invalid worktree name in resource URI: ${uri}`, 'validation', {
+        uri,
+      });
+    }
+    return { type: 'worktree', name };
+  }
+
+  throw new GlanceyError(`Unknown resource: ${uri}`, 'validation', { uri });
+}
+
+/**
+ * List the concrete resources: every memory and the codebase summary.
+ * Symbol overviews, symbol sources and worktrees are only offered as templates.
+ */
+export async function listResources(context: ResourceContext): Promise<ListResourcesResult> {
+  const memories = await new MemoryManager(context.projectPath).listMemories();
+
+  return {
+    resources: [
+      {
+        uri: SUMMARY_URI,
+        name: 'summary',
+        title: 'Codebase summary',
+        description: 'File statistics, languages and concept areas of the indexed codebase',
+        mimeType: 'text/markdown',
+      },
+      ...memories.map((memory) => ({
+        uri: memoryUri(memory.name),
+        name: `memory/${memory.name}`,
+        title: memory.name,
+        description: `Project memory (.glancey/memories/${memory.name}.md)`,
+        mimeType: 'text/markdown',
+        annotations: { lastModified: memory.lastModified.toISOString() },
+      })),
+    ],
+  };
+}
+
+/**
+ * List the resource templates for memories, per-file symbol overviews, symbol sources and
+ * worktrees. Their variables can be completed with `completion/complete`.
+ */
+export function listResourceTemplates(): ListResourceTemplatesResult {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: MEMORY_URI_TEMPLATE,
+        name: 'memory',
+        title: 'Project memory',
+        description: 'A memory stored in .glancey/memories/',
+        mimeType: 'text/markdown',
+      },
+      {
+        uriTemplate: SYMBOLS_URI_TEMPLATE,
+        name: 'symbols',
+        title: 'Symbols in a file',
+        description:
+          'Classes, functions and methods defined in a source file (path relative to the project)',
+        mimeType: 'text/markdown',
+      },
+      {
+        uriTemplate: SYMBOL_URI_TEMPLATE,
+        name: 'symbol',
+        title: 'Symbol source',
+        description:
+          'The source code of a symbol, by file path and name path (e.g. MyClass/myMethod)',
+        mimeType: 'text/markdown',
+      },
+      {
+        uriTemplate: WORKTREE_URI_TEMPLATE,
+        name: 'worktree',
+        title: 'Agent worktree',
+        description: 'Branch, commit and dirty state of an agent worktree',
+        mimeType: 'text/markdown',
+      },
+    ],
+  };
+}
+
+/**
+ * Read a resource.
+ *
+ * @throws GlanceyError if the URI is invalid or the resource doesn't exist
+ */
+export async function readResource(
+  uri: string,
+  context: ResourceContext
+): Promise<ReadResourceResult> {
+  const parsed = parseResourceUri(uri);
+  let text: string;
+
+  switch (parsed.type) {
+    case 'memory':
+      try {
+        text = await new MemoryManager(context.projectPath).readMemory(parsed.name);
+      } catch (error) {
+        throw new GlanceyError(
+          error instanceof Error ? error.message : String(error),
+          'validation',
+          { uri }
+        );
+      }
+      break;
+
+    case 'summary': {
+      const indexer = await context.getIndexer();
+      text = formatCodebaseSummary(await indexer.summarizeCodebase());
+      break;
+    }
+
+    case 'symbols': {
+      const extractor = new SymbolExtractor(context.projectPath);
+      text = formatSymbolsOverview(
+        await extractor.getSymbolsOverview(parsed.filepath, SYMBOLS_RESOURCE_DEPTH)
+      );
+      break;
+    }
+
+    case 'symbol': {
+      const extractor = new SymbolExtractor(context.projectPath);
+      const symbol = findSymbol(
+        await extractor.extractSymbols(parsed.filepath, true),
+        parsed.namePath
+      );
+      if (!symbol) {
+        throw new GlanceyError(
+          `Symbol not found: ${parsed.namePath} in ${parsed.filepath}`,
+          'validation',
+          { uri }
+        );
+      }
+      text = formatSymbolSource(symbol);
+      break;
+    }
+
+    case 'worktree': {
+      const info = await new WorktreeManager(context.projectPath).getWorktreeInfo(parsed.name);
+      if (!info) {
+        throw new GlanceyError(`Worktree not found: ${parsed.name}`, 'validation', { uri });
+      }
+      text = formatWorktreeInfo(info);
+      break;
+    }
+  }
+
+  return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+}
+
+/**
+ * Find a symbol by its name path, including nested symbols.
+ */
+function findSymbol(symbols: SymbolType[], namePath: string): SymbolType | undefined {
+  for (const symbol of symbols) {
+    if (formatNamePath(symbol.namePath) === formatNamePath(namePath)) {
+      return symbol;
+    }
+    const child = symbol.children && findSymbol(symbol.children, namePath);
+    if (child) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+function formatSymbolSource(symbol: SymbolType): string {
+  const { filepath, startLine, endLine } = symbol.location;
+  return `## ${formatNamePath(symbol.namePath)}\n\n**Location:** ${filepath}:${startLine}-${endLine}\n\n\`\`\`\n${symbol.body ?? ''}\n\`\`\``;
+}
+
+/**
+ * Register the resource handlers (list, templates, read, subscribe) on an MCP server.
+ * The server must declare the `resources` capability with `subscribe` and `listChanged`.
+ */
+export function registerResourceHandlers(
+  server: Server,
+  context: ResourceContext,
+  subscriptions: ResourceSubscriptions
+): void {
+  server.setRequestHandler(ListResourcesRequestSchema, () => {
+    // Report memories added to or removed from the listed project
+    subscriptions.watchProject(context.projectPath);
+    return listResources(context);
+  });
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => listResourceTemplates());
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    readResource(request.params.uri, context)
+  );
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.subscribe(server, request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(server, request.params.uri);
+    return {};
+  });
+  subscriptions.addServer(server, () => context.projectPath);
+}
@@ -0,0 +1,289 @@
+/**
+ * Resource subscriptions: tracks which MCP sessions subscribed to which resources and
+ * sends `notifications/resources/updated` and `notifications/resources/list_changed`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { memoryUri, parseResourceUri } from './resources.js';
+
+/**
+ * Delay for coalescing the bursts of events fs.watch emits for a single save.
+ */
+const NOTIFY_DEBOUNCE_MS = 100;
+
+/**
+ * Watchers of one project's resources.
+ */
+interface ProjectWatchers {
+  memories: fs.FSWatcher | null;
+  /** Watchers of subscribed source files by resource URI */
+  files: Map<string, fs.FSWatcher>;
+}
+
+/**
+ * An MCP session and its subscriptions.
+ */
+interface Session {
+  /** The session's current default project (it changes with the client's roots) */
+  getProjectPath: () => string;
+  /** Subscribed resource URIs by project path */
+  subscriptions: Map<string, Set<string>>;
+}
+
+/**
+ * Subscriptions of all MCP sessions served by this process (one in standalone mode,
+ * one per client in daemon or HTTP mode). Sessions can serve different client roots, so
+ * subscriptions and watchers are kept per project.
+ *
+ * Memory changes are picked up by watching .glancey/memories/, so edits from the CLI or another
+ * process are reported too. Symbol overviews and sources are watched per subscribed file. The summary
+ * changes with the index, so the caller reports it via notifyUpdated when indexing completes.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = new ResourceSubscriptions('/path/to/project');
+ * subscriptions.start();
+ * registerResourceHandlers(server, context, subscriptions);
+ * ```
+ */
+export class ResourceSubscriptions {
+  private defaultProjectPath: string;
+  private sessions = new Map<Server, Session>();
+  private projects = new Map<string, ProjectWatchers>();
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * @param defaultProjectPath - Project of sessions that don't report their own
+   */
+  constructor(defaultProjectPath: string) {
+    this.defaultProjectPath = defaultProjectPath;
+  }
+
+  /**
+   * Start watching the default project's memories for added, removed and edited memories.
+   */
+  start(): void {
+    this.watchProject(this.defaultProjectPath);
+  }
+
+  /**
+   * Watch a project's memories directory, if it isn't watched yet.
+   */
+  watchProject(projectPath: string): void {
+    const watchers = this.getProjectWatchers(projectPath);
+    if (watchers.memories) {
+      return;
+    }
+
+    const memoriesPath = path.join(projectPath, '.glancey', 'memories');
+    try {
+      fs.mkdirSync(memoriesPath, { recursive: true });
+      const watcher = fs.watch(memoriesPath, (eventType, filename) => {
+        if (!filename?.endsWith('.md')) {
+          return;
+        }
+        const uri = memoryUri(filename.replace(/\.md$/, ''));
+        this.schedule(`${projectPath}\0${uri}`, () => this.notifyUpdated(uri, projectPath));
+        if (eventType === 'rename') {
+          this.schedule(`${projectPath}\0list`, () => this.notifyListChanged(projectPath));
+        }
+      });
+      watcher.on('error', (error) => {
+        console.error('[glancey] Memory watcher error:', error.message);
+        watcher.close();
+        if (watchers.memories === watcher) {
+          watchers.memories = null;
+        }
+      });
+      watchers.memories = watcher;
+    } catch (error) {
+      console.error('[glancey] Failed to watch memories for resource updates:', error);
+    }
+  }
+
+  /**
+   * Stop all watchers and pending notifications.
+   */
+  stop(): void {
+    for (const watchers of this.projects.values()) {
+      watchers.memories?.close();
+      for (const watcher of watchers.files.values()) {
+        watcher.close();
+      }
+    }
+    this.projects.clear();
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Track an MCP session; its subscriptions are dropped when it closes.
+   *
+   * @param getProjectPath - The session's current default project, resources are read from
+   */
+  addServer(server: Server, getProjectPath: () => string = () => this.defaultProjectPath): void {
+    this.sessions.set(server, { getProjectPath, subscriptions: new Map() });
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      previousOnClose?.();
+      this.removeServer(server);
+    };
+  }
+
+  /**
+   * Stop tracking an MCP session.
+   */
+  removeServer(server: Server): void {
+    const session = this.sessions.get(server);
+    this.sessions.delete(server);
+    for (const [projectPath, uris] of session?.subscriptions ?? []) {
+      for (const uri of uris) {
+        this.releaseFileWatcher(projectPath, uri);
+      }
+    }
+  }
+
+  /**
+   * Number of sessions subscribed to a resource of a project.
+   */
+  subscriberCount(uri: string, projectPath: string = this.defaultProjectPath): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.subscriptions.get(projectPath)?.has(uri)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Subscribe a session to updates of a resource of its current project.
+   *
+   * @throws GlanceyError if the URI is not a glancey resource
+   */
+  subscribe(server: Server, uri: string): void {
+    const parsed = parseResourceUri(uri);
+    let session = this.sessions.get(server);
+    if (!session) {
+      session = { getProjectPath: () => this.defaultProjectPath, subscriptions: new Map() };
+      this.sessions.set(server, session);
+    }
+    const projectPath = session.getProjectPath();
+    let uris = session.subscriptions.get(projectPath);
+    if (!uris) {
+      uris = new Set();
+      session.subscriptions.set(projectPath, uris);
+    }
+    if (uris.has(uri)) {
+      return;
+    }
+    uris.add(uri);
+
+    this.watchProject(projectPath);
+    const watchers = this.getProjectWatchers(projectPath);
+    if ((parsed.type === 'symbols' || parsed.type === 'symbol') && !watchers.files.has(uri)) {
+      this.watchFile(projectPath, uri, path.join(projectPath, parsed.filepath));
+    }
+  }
+
+  /**
+   * Unsubscribe a session from a resource, in whichever of its projects it was subscribed.
+   */
+  unsubscribe(server: Server, uri: string): void {
+    for (const [projectPath, uris] of this.sessions.get(server)?.subscriptions ?? []) {
+      if (uris.delete(uri)) {
+        this.releaseFileWatcher(projectPath, uri);
+      }
+    }
+  }
+
+  /**
+   * Notify sessions subscribed to a resource of a project that it changed.
+   */
+  notifyUpdated(uri: string, projectPath: string = this.defaultProjectPath): void {
+    for (const [server, session] of this.sessions) {
+      if (session.subscriptions.get(projectPath)?.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(() => {
+          // Session is closing
+        });
+      }
+    }
+  }
+
+  /**
+   * Notify the sessions serving a project that its list of resources changed.
+   */
+  notifyListChanged(projectPath: string = this.defaultProjectPath): void {
+    for (const [server, session] of this.sessions) {
+      if (session.getProjectPath() === projectPath) {
+        server.sendResourceListChanged().catch(() => {
+          // Session is closing
+        });
+      }
+    }
+  }
+
+  private getProjectWatchers(projectPath: string): ProjectWatchers {
+    let watchers = this.projects.get(projectPath);
+    if (!watchers) {
+      watchers = { memories: null, files: new Map() };
+      this.projects.set(projectPath, watchers);
+    }
+    return watchers;
+  }
+
+  /**
+   * Watch a subscribed source file. Editors often save by replacing the file, which ends
+   * a watch on the old inode, so the watch is re-armed after each rename.
+   */
+  private watchFile(projectPath: string, uri: string, filePath: string): void {
+    const { files } = this.getProjectWatchers(projectPath);
+    try {
+      let replaced = false;
+      const watcher = fs.watch(filePath, (eventType) => {
+        replaced ||= eventType === 'rename';
+        this.schedule(`${projectPath}\0${uri}`, () => {
+          this.notifyUpdated(uri, projectPath);
+          if (replaced && files.get(uri) === watcher) {
+            watcher.close();
+            files.delete(uri);
+            this.watchFile(projectPath, uri, filePath);
+          }
+        });
+      });
+      watcher.on('error', () => this.releaseFileWatcher(projectPath, uri, true));
+      files.set(uri, watcher);
+    } catch {
+      // File doesn't exist (yet); reading the resource will report the error
+    }
+  }
+
+  private schedule(key: string, fn: () => void): void {
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      fn();
+    }, NOTIFY_DEBOUNCE_MS);
+    timer.unref();
+    this.pending.set(key, timer);
+  }
+
+  /**
+   * Close a file watcher once no session is subscribed to its resource.
+   */
+  private releaseFileWatcher(projectPath: string, uri: string, force: boolean = false): void {
+    const files = this.projects.get(projectPath)?.files;
+    const watcher = files?.get(uri);
+    if (watcher && (force || this.subscriberCount(uri, projectPath) === 0)) {
+      watcher.close();
+      files?.delete(uri);
+    }
+  }
+}
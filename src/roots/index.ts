@@ -0,0 +1,11 @@
+/**
+ * MCP client roots module: serve each of the client's workspace roots as a project.
+ */
+
+export type { ProjectRoot } from './roots.js';
+export {
+  SessionRoots,
+  registerRootsHandlers,
+  rootsToProjects,
+  PROJECT_ARGUMENT_SCHEMA,
+} from './roots.js';
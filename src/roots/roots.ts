@@ -0,0 +1,173 @@
+/**
+ * MCP client roots.
+ * Clients with workspace folders report them as roots; glancey serves each root as a project
+ * and tools pick one with their optional `project` argument.
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RootsListChangedNotificationSchema, type Root } from '@modelcontextprotocol/sdk/types.js';
+import { GlanceyError } from '../utils/errors.js';
+
+/**
+ * A project glancey can serve: a client root, or the project the server was started for.
+ */
+export interface ProjectRoot {
+  /** Root name from the client, or the directory name */
+  name: string;
+  /** Absolute path of the project directory */
+  path: string;
+}
+
+/**
+ * JSON Schema of the optional `project` argument accepted by every tool.
+ */
+export const PROJECT_ARGUMENT_SCHEMA = {
+  type: 'string',
+  description:
+    'Project to operate on, by root name or path, when the client has several workspace roots (default: the first root). Use list_projects to see them.',
+};
+
+/**
+ * Convert client roots to projects.
+ * Only `file://` roots can be served; other schemes and duplicates are skipped.
+ */
+export function rootsToProjects(roots: Root[]): ProjectRoot[] {
+  const projects: ProjectRoot[] = [];
+  for (const root of roots) {
+    if (!root.uri.startsWith('file://')) {
+      continue;
+    }
+    let rootPath: string;
+    try {
+      rootPath = path.resolve(fileURLToPath(root.uri));
+    } catch {
+      continue;
+    }
+    if (!projects.some((p) => p.path === rootPath)) {
+      projects.push({ name: root.name || path.basename(rootPath), path: rootPath });
+    }
+  }
+  return projects;
+}
+
+/**
+ * The projects one MCP session can use.
+ * Without client roots the session serves the server's own project. With roots, the first
+ * root is the default, unless the server's project was chosen explicitly (GLANCEY_PROJECT).
+ */
+export class SessionRoots {
+  private defaultProject: ProjectRoot;
+  private preferDefault: boolean;
+  private clientRoots: ProjectRoot[] = [];
+  private pending: Promise<void> | null = null;
+
+  /**
+   * @param defaultPath - Project the server was started for
+   * @param preferDefault - Keep the server's project as the default even when the client has roots
+   */
+  constructor(defaultPath: string, preferDefault: boolean = false) {
+    this.defaultProject = { name: path.basename(defaultPath), path: defaultPath };
+    this.preferDefault = preferDefault;
+  }
+
+  /**
+   * Projects available to this session, default first.
+   */
+  getProjects(): ProjectRoot[] {
+    if (this.clientRoots.length === 0) {
+      return [this.defaultProject];
+    }
+    if (!this.preferDefault) {
+      return [...this.clientRoots];
+    }
+    return [
+      this.defaultProject,
+      ...this.clientRoots.filter((p) => p.path !== this.defaultProject.path),
+    ];
+  }
+
+  /**
+   * Replace the client roots.
+   */
+  setClientRoots(roots: ProjectRoot[]): void {
+    this.clientRoots = roots;
+  }
+
+  /**
+   * Resolve a tool's `project` argument to a project path.
+   *
+   * @param project - Root name or path; the default project when omitted
+   * @throws GlanceyError if no project matches
+   */
+  resolveProject(project?: string): string {
+    const projects = this.getProjects();
+    if (!project) {
+      return projects[0].path;
+    }
+
+    const byName = projects.find((p) => p.name === project);
+    if (byName) {
+      return byName.path;
+    }
+    const resolved = path.resolve(projects[0].path, project);
+    const byPath = projects.find((p) => p.path === resolved);
+    if (byPath) {
+      return byPath.path;
+    }
+
+    const available = projects.map((p) => `${p.name} (${p.path})`).join(', ');
+    throw new GlanceyError(`Unknown project "${project}". Available: ${available}`, 'validation', {
+      project,
+    });
+  }
+
+  /**
+   * Fetch the roots from the client, if it supports them.
+   * Failures keep the previous roots: the session still works with its default project.
+   */
+  refresh(server: Server): Promise<void> {
+    if (!server.getClientCapabilities()?.roots) {
+      return Promise.resolve();
+    }
+    const refresh = server
+      .listRoots()
+      .then((result) => {
+        this.setClientRoots(rootsToProjects(result.roots));
+      })
+      .catch((error) => {
+        console.error('[glancey] Failed to list client roots:', error);
+      })
+      .finally(() => {
+        if (this.pending === refresh) {
+          this.pending = null;
+        }
+      });
+    this.pending = refresh;
+    return refresh;
+  }
+
+  /**
+   * Wait for an in-flight roots request, so tool calls right after initialization
+   * use the client's roots rather than the default project.
+   */
+  async ready(): Promise<void> {
+    await this.pending;
+  }
+}
+
+/**
+ * Request the client's roots once the session is initialized, and again whenever
+ * the client reports that they changed.
+ */
+export function registerRootsHandlers(server: Server, roots: SessionRoots): void {
+  const previousOnInitialized = server.oninitialized;
+  server.oninitialized = () => {
+    previousOnInitialized?.();
+    void roots.refresh(server);
+  };
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    await roots.refresh(server);
+  });
+}
@@ -36,7 +36,13 @@ export class ASTChunker {
       scriptKind = ts.ScriptKind.JS;
     }
 
-    // Parse the file
+    return this.chunkContent(content, scriptKind, filepath);
+  }
+
+  /**
+   * Chunk TypeScript/JavaScript source, e.g. the script block of a component
+   */
+  chunkContent(content: string, scriptKind: ts.ScriptKind, filepath = ''): ASTChunk[] {
     const sourceFile = ts.createSourceFile(
       filepath,
       content,
@@ -104,9 +110,8 @@ export class ASTChunker {
     const chunks: ASTChunk[] = [];
     const endLine = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
 
-    // Get leading comments/decorators
-    const fullStart = node.getFullStart();
-    const actualStartLine = sourceFile.getLineAndCharacterOfPosition(fullStart).line;
+    // Include leading comments/decorators
+    const actualStartLine = this.getChunkStartLine(node, sourceFile);
 
     if (ts.isFunctionDeclaration(node)) {
       chunks.push({
@@ -138,9 +143,7 @@ export class ASTChunker {
         // Get class header (decorators + class declaration up to first member)
         const members = node.members;
         if (members.length > 0) {
-          const firstMemberStart = sourceFile.getLineAndCharacterOfPosition(
-            members[0].getFullStart()
-          ).line;
+          const firstMemberStart = this.getChunkStartLine(members[0], sourceFile);
 
           // Class header chunk
           if (firstMemberStart > actualStartLine) {
@@ -219,6 +222,17 @@ export class ASTChunker {
     return chunks;
   }
 
+  /**
+   * Get the (0-indexed) line a node's chunk starts on.
+   * Includes leading comments and decorators, but not the end of the previous statement,
+   * so a chunk's content does not depend on the code before it.
+   */
+  private getChunkStartLine(node: ts.Node, sourceFile: ts.SourceFile): number {
+    const comments = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart());
+    const start = comments && comments.length > 0 ? comments[0].pos : node.getStart(sourceFile);
+    return sourceFile.getLineAndCharacterOfPosition(start).line;
+  }
+
   /**
    * Extract a chunk for a class member
    */
@@ -228,8 +242,7 @@ export class ASTChunker {
     lines: string[],
     className: string
   ): ASTChunk[] {
-    const fullStart = member.getFullStart();
-    const startLine = sourceFile.getLineAndCharacterOfPosition(fullStart).line;
+    const startLine = this.getChunkStartLine(member, sourceFile);
     const endLine = sourceFile.getLineAndCharacterOfPosition(member.getEnd()).line;
 
     let name: string | undefined;
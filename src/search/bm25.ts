@@ -0,0 +1,220 @@
+/**
+ * BM25 keyword index for hybrid search.
+ * Provides an inverted index over chunk content, file paths and symbol names
+ * that is queried independently of the vector search.
+ */
+
+/** BM25 term frequency saturation parameter */
+const BM25_K1 = 1.2;
+
+/** BM25 document length normalization parameter */
+const BM25_B = 0.75;
+
+/**
+ * Per-field weights applied to term frequencies (BM25F-style).
+ * A term in a symbol name or path says more about a chunk than one in its body.
+ */
+const FIELD_WEIGHTS = {
+  content: 1,
+  filepath: 2,
+  symbolName: 3,
+} as const;
+
+/** Matches identifier-like runs of characters */
+const IDENTIFIER_REGEX = /[A-Za-z0-9_$]+/g;
+
+/**
+ * A document to add to the keyword index.
+ */
+export interface KeywordDocument {
+  /** Chunk ID */
+  id: string;
+  /** Chunk source code */
+  content: string;
+  /** Relative file path */
+  filepath: string;
+  /** Symbol name (e.g., 'CodeIndexer.search'), if known */
+  symbolName?: string;
+}
+
+/**
+ * A keyword search hit.
+ */
+export interface KeywordMatch {
+  /** Chunk ID */
+  id: string;
+  /** Raw BM25 score (unbounded, higher is better) */
+  score: number;
+  /** Whether a query identifier exactly matches the chunk's symbol name */
+  exactSymbolMatch: boolean;
+}
+
+interface IndexedDocument {
+  id: string;
+  /** Weighted document length */
+  length: number;
+  /** Lowercased symbol name segments for exact-identifier matching */
+  symbolSegments: string[];
+}
+
+/**
+ * Split an identifier into lowercase subwords.
+ * Handles camelCase, PascalCase, snake_case, SCREAMING_CASE and digits.
+ *
+ * @example splitIdentifier('sanitizeForFilter') // ['sanitize', 'for', 'filter']
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/([A-Za-z])([0-9])/g, '$1 $2')
+    .split(/[\s_$]+/)
+    .map((part) => part.toLowerCase())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Tokenize text for keyword indexing.
+ * Each identifier yields its whole lowercased form plus its subwords, so
+ * `sanitizeForFilter` matches both the exact identifier and "filter".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(IDENTIFIER_REGEX)) {
+    const identifier = match[0];
+    const whole = identifier.toLowerCase();
+    if (whole.length > 1) {
+      tokens.push(whole);
+    }
+    const parts = splitIdentifier(identifier);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        if (part.length > 1) {
+          tokens.push(part);
+        }
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Get the names a symbol can be referred to by for exact matching.
+ * 'CodeIndexer.search (part 2)' -> ['codeindexer.search', 'search']
+ */
+function symbolSegments(symbolName: string | undefined): string[] {
+  if (!symbolName) return [];
+  const base = symbolName.replace(/\s*\(part \d+\)$/, '').toLowerCase();
+  const lastSegment = base.split(/[./:#]+/).pop();
+  return lastSegment && lastSegment !== base ? [base, lastSegment] : [base];
+}
+
+/**
+ * In-memory BM25 inverted index over code chunks.
+ *
+ * @example
+ * ```typescript
+ * const index = new BM25Index();
+ * index.add({ id: 'a', content: 'function sanitizeForFilter() {}', filepath: 'src/db.ts' });
+ * const hits = index.search('sanitizeForFilter', 10);
+ * ```
+ */
+export class BM25Index {
+  private documents: IndexedDocument[] = [];
+  /** term -> (document index -> weighted term frequency) */
+  private postings = new Map<string, Map<number, number>>();
+  private totalLength = 0;
+
+  /** Number of documents in the index */
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Add a document to the index.
+   */
+  add(doc: KeywordDocument): void {
+    const docIndex = this.documents.length;
+    const termFrequencies = new Map<string, number>();
+
+    const addField = (text: string | undefined, weight: number) => {
+      if (!text) return;
+      for (const token of tokenize(text)) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + weight);
+      }
+    };
+
+    addField(doc.content, FIELD_WEIGHTS.content);
+    addField(doc.filepath, FIELD_WEIGHTS.filepath);
+    addField(doc.symbolName, FIELD_WEIGHTS.symbolName);
+
+    let length = 0;
+    for (const [term, frequency] of termFrequencies) {
+      length += frequency;
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(docIndex, frequency);
+    }
+
+    this.documents.push({
+      id: doc.id,
+      length,
+      symbolSegments: symbolSegments(doc.symbolName),
+    });
+    this.totalLength += length;
+  }
+
+  /**
+   * Search the index and return the top matches by BM25 score.
+   */
+  search(query: string, limit: number): KeywordMatch[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const documentCount = this.documents.length;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<number, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const documentFrequency = posting.size;
+      const idf = Math.log(
+        1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+      );
+
+      for (const [docIndex, frequency] of posting) {
+        const docLength = this.documents[docIndex].length;
+        const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * docLength) / averageLength);
+        const termScore = (idf * frequency * (BM25_K1 + 1)) / (frequency + normalization);
+        scores.set(docIndex, (scores.get(docIndex) ?? 0) + termScore);
+      }
+    }
+
+    const queryIdentifiers = new Set(
+      Array.from(query.matchAll(IDENTIFIER_REGEX), (m) => m[0].toLowerCase())
+    );
+    // Dotted queries like 'CodeIndexer.search' should match the full symbol name too
+    for (const word of query.split(/\s+/)) {
+      if (word.length > 0) queryIdentifiers.add(word.toLowerCase());
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([docIndex, score]) => {
+        const doc = this.documents[docIndex];
+        return {
+          id: doc.id,
+          score,
+          exactSymbolMatch: doc.symbolSegments.some((segment) => queryIdentifiers.has(segment)),
+        };
+      });
+  }
+}
@@ -10,7 +10,19 @@ export interface BaseChunk {
   content: string;
   startLine: number;
   endLine: number;
-  type: 'function' | 'class' | 'method' | 'interface' | 'type' | 'variable' | 'import' | 'other';
+  type:
+    | 'function'
+    | 'class'
+    | 'method'
+    | 'interface'
+    | 'type'
+    | 'variable'
+    | 'import'
+    | 'section'
+    | 'key'
+    | 'template'
+    | 'style'
+    | 'other';
   name?: string;
 }
 
@@ -58,3 +70,27 @@ export function splitLargeChunk<T extends BaseChunk>(
 
   return chunks;
 }
+
+/**
+ * Build stable IDs for the symbol chunks of one file.
+ * IDs are anchored to the symbol's name path and content hash instead of line numbers,
+ * so a chunk keeps its ID when code above it is added or removed.
+ * Chunks sharing a name and content within the file get an occurrence suffix.
+ *
+ * @param relativePath - File path relative to the project root
+ * @param chunks - Chunks in file order, with their content hashes
+ * @returns One ID per chunk, e.g. `src/user.ts#UserService.save@3f2a9c1b0d4e`
+ */
+export function createSymbolChunkIds(
+  relativePath: string,
+  chunks: Array<Pick<BaseChunk, 'type' | 'name'> & { contentHash: string }>
+): string[] {
+  const occurrences = new Map<string, number>();
+
+  return chunks.map((chunk) => {
+    const anchor = `${relativePath}#${chunk.name ?? `<${chunk.type}>`}@${chunk.contentHash.slice(0, 12)}`;
+    const count = (occurrences.get(anchor) ?? 0) + 1;
+    occurrences.set(anchor, count);
+    return count === 1 ? anchor : `${anchor}~${count}`;
+  });
+}
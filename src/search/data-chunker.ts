@@ -0,0 +1,239 @@
+import * as ts from 'typescript';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { splitLargeChunk, type BaseChunk } from './chunk-utils.js';
+
+export type DataChunk = BaseChunk;
+
+// Maximum lines per chunk before a key is split into its second-level keys
+const MAX_CHUNK_LINES = 100;
+// Minimum lines for a chunk (avoid tiny fragments)
+const MIN_CHUNK_LINES = 3;
+
+/**
+ * A key of a JSON/YAML mapping and the rows its entry covers
+ */
+interface KeyEntry {
+  key: string;
+  startRow: number;
+  endRow: number; // inclusive
+  /** Keys of the value, when it is a mapping */
+  children: KeyEntry[];
+}
+
+// `key:` or `"quoted key":` at the start of a line; plain keys cannot start with an indicator
+const YAML_KEY =
+  /^( *)("[^"]*"|'[^']*'|[^\s#'"?{[\]|>&*!%@`,-][^#]*?|-[^\s#][^#]*?)[ \t]*:(?=[ \t]|$)/;
+const YAML_DOCUMENT_MARKER = /^(?:---|\.\.\.)(?:\s|$)/;
+const YAML_COMMENT = /^\s*#/;
+const YAML_BLOCK_SCALAR = /:[ \t]+[|>][-+0-9]*[ \t]*(?:#.*)?$/;
+
+/**
+ * Structure-aware chunker for JSON and YAML files.
+ * Splits a document on its top-level keys, and keys too large for one chunk on their
+ * second-level keys. Chunks are named with the key path, e.g. `paths./users/{id}`.
+ */
+export class DataChunker {
+  /**
+   * Check if a file can be chunked by keys
+   */
+  static canParse(filepath: string): boolean {
+    const ext = path.extname(filepath).toLowerCase();
+    return ['.json', '.jsonc', '.yaml', '.yml'].includes(ext);
+  }
+
+  /**
+   * Parse a file and return key-based chunks
+   */
+  async chunkFile(filepath: string): Promise<DataChunk[]> {
+    const content = await fs.readFile(filepath, 'utf-8');
+    const ext = path.extname(filepath).toLowerCase();
+    const lines = content.split('\n');
+
+    const entries =
+      ext === '.yaml' || ext === '.yml'
+        ? this.scanYamlKeys(lines, 0, lines.length, 0)
+        : this.parseJsonKeys(filepath, content);
+    if (entries.length === 0) {
+      throw new Error(`No top-level keys found in ${filepath}`);
+    }
+
+    const chunks: DataChunk[] = [];
+    this.processEntries(entries, undefined, lines, chunks);
+    return chunks;
+  }
+
+  /**
+   * Emit one chunk per key, splitting large mappings one level down.
+   * Consecutive one-line entries (`"version": "1.0.0"`) are kept together in one chunk.
+   */
+  private processEntries(
+    entries: KeyEntry[],
+    parentPath: string | undefined,
+    lines: string[],
+    chunks: DataChunk[]
+  ): void {
+    let scalars: KeyEntry[] = [];
+    const flushScalars = () => {
+      if (scalars.length > 0) {
+        this.pushChunk(
+          chunks,
+          lines,
+          scalars[0].startRow,
+          scalars[scalars.length - 1].endRow,
+          scalars.map((entry) => this.keyPath(parentPath, entry.key)).join(', ')
+        );
+        scalars = [];
+      }
+    };
+
+    for (const entry of entries) {
+      if (entry.startRow === entry.endRow) {
+        scalars.push(entry);
+        continue;
+      }
+      flushScalars();
+
+      const keyPath = this.keyPath(parentPath, entry.key);
+      const entryLines = entry.endRow - entry.startRow + 1;
+      if (entryLines > MAX_CHUNK_LINES && parentPath === undefined && entry.children.length > 0) {
+        this.processEntries(entry.children, keyPath, lines, chunks);
+      } else {
+        this.pushChunk(chunks, lines, entry.startRow, entry.endRow, keyPath);
+      }
+    }
+    flushScalars();
+  }
+
+  /**
+   * Add rows [startRow, endRow] as a chunk, split if too large
+   */
+  private pushChunk(
+    chunks: DataChunk[],
+    lines: string[],
+    startRow: number,
+    endRow: number,
+    name: string
+  ): void {
+    const chunk: DataChunk = {
+      content: lines.slice(startRow, endRow + 1).join('\n'),
+      startLine: startRow + 1,
+      endLine: endRow + 1,
+      type: 'key',
+      name,
+    };
+
+    if (endRow - startRow + 1 > MAX_CHUNK_LINES) {
+      chunks.push(...splitLargeChunk(chunk, MAX_CHUNK_LINES, MIN_CHUNK_LINES));
+    } else {
+      chunks.push(chunk);
+    }
+  }
+
+  private keyPath(parentPath: string | undefined, key: string): string {
+    return parentPath === undefined ? key : `${parentPath}.${key}`;
+  }
+
+  /**
+   * Get the keys of a JSON document's root object.
+   * Uses the TypeScript JSON parser, which also accepts comments (tsconfig.json, .jsonc).
+   */
+  private parseJsonKeys(filepath: string, content: string): KeyEntry[] {
+    const sourceFile = ts.parseJsonText(filepath, content);
+    const root = sourceFile.statements[0]?.expression;
+    if (!root || !ts.isObjectLiteralExpression(root)) {
+      return [];
+    }
+
+    const toEntries = (object: ts.ObjectLiteralExpression): KeyEntry[] =>
+      object.properties.filter(ts.isPropertyAssignment).map((property) => ({
+        key: ts.isStringLiteral(property.name) ? property.name.text : property.name.getText(),
+        startRow: sourceFile.getLineAndCharacterOfPosition(property.getStart(sourceFile)).line,
+        endRow: sourceFile.getLineAndCharacterOfPosition(property.getEnd()).line,
+        children: ts.isObjectLiteralExpression(property.initializer)
+          ? toEntries(property.initializer)
+          : [],
+      }));
+
+    return toEntries(root);
+  }
+
+  /**
+   * Scan the keys at one indentation level of rows [fromRow, toRow).
+   * Comment lines directly above a key belong to it; `---` document markers end a key.
+   */
+  private scanYamlKeys(
+    lines: string[],
+    fromRow: number,
+    toRow: number,
+    indent: number
+  ): KeyEntry[] {
+    const keys: Array<{ key: string; keyRow: number; startRow: number }> = [];
+    const markerRows: number[] = [];
+
+    for (let row = fromRow; row < toRow; row++) {
+      if (indent === 0 && YAML_DOCUMENT_MARKER.test(lines[row])) {
+        markerRows.push(row);
+        continue;
+      }
+
+      const match = YAML_KEY.exec(lines[row]);
+      if (!match || match[1].length !== indent) {
+        continue;
+      }
+
+      // Pull in the comment block written directly above the key, at the key's indentation
+      let startRow = row;
+      while (startRow > fromRow && this.isYamlComment(lines[startRow - 1], indent)) {
+        startRow--;
+      }
+      keys.push({ key: this.unquoteYamlKey(match[2]), keyRow: row, startRow });
+    }
+
+    return keys.map(({ key, keyRow, startRow }, index) => {
+      const nextMarker = markerRows.find((row) => row > keyRow) ?? toRow;
+      let endRow = Math.min(keys[index + 1]?.startRow ?? toRow, nextMarker) - 1;
+      while (endRow > keyRow && lines[endRow].trim() === '') {
+        endRow--;
+      }
+
+      return { key, startRow, endRow, children: this.scanYamlChildren(lines, keyRow, endRow) };
+    });
+  }
+
+  /**
+   * Scan the keys of a YAML entry's value, if it is a block mapping
+   */
+  private scanYamlChildren(lines: string[], keyRow: number, endRow: number): KeyEntry[] {
+    // Block scalars (`description: |`) hold text, not keys
+    if (YAML_BLOCK_SCALAR.test(lines[keyRow])) {
+      return [];
+    }
+
+    // The first content line sets the indentation of the nested keys
+    for (let row = keyRow + 1; row <= endRow; row++) {
+      const line = lines[row];
+      if (line.trim() === '' || YAML_COMMENT.test(line)) {
+        continue;
+      }
+      const match = YAML_KEY.exec(line);
+      if (!match || match[1].length === 0) {
+        return [];
+      }
+      return this.scanYamlKeys(lines, keyRow + 1, endRow + 1, match[1].length);
+    }
+
+    return [];
+  }
+
+  private isYamlComment(line: string, indent: number): boolean {
+    return YAML_COMMENT.test(line) && line.length - line.trimStart().length === indent;
+  }
+
+  private unquoteYamlKey(key: string): string {
+    if (key.startsWith('"') || key.startsWith("'")) {
+      return key.slice(1, -1);
+    }
+    return key;
+  }
+}
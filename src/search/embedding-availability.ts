@@ -0,0 +1,157 @@
+/**
+ * Availability of the embedding backend an index was built with.
+ * When the backend is down (e.g. quota exhausted or Ollama stopped), indexing is queued
+ * instead of switching to another backend, whose vectors could not be compared with the
+ * index's. The backend is re-initialized periodically and queued indexing runs once it is back.
+ */
+
+import type { EmbeddingBackend } from '../embeddings/index.js';
+import { broadcastLog } from '../dashboard/events.js';
+
+/**
+ * Minimum time between attempts to re-initialize an unavailable backend.
+ */
+export const EMBEDDING_RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * Runs queued indexing once the backend has recovered.
+ */
+export type QueuedIndexingRunner = (forceReindex: boolean) => Promise<unknown>;
+
+/**
+ * Tracks whether an embedding backend is usable and queues indexing while it is not.
+ */
+export class EmbeddingAvailability {
+  private backend: EmbeddingBackend;
+  private runQueued: QueuedIndexingRunner;
+  private retryIntervalMs: number;
+  /** Why the backend is unavailable, or null while it is healthy */
+  private reason: string | null = null;
+  /** Earliest time of the next re-initialization attempt */
+  private nextRetryAt = 0;
+  /** In-flight re-initialization, shared by concurrent callers */
+  private retrying: Promise<boolean> | null = null;
+  /** Queued indexing; forceReindex is set if any queued request asked for a full reindex */
+  private queued: { forceReindex: boolean } | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    backend: EmbeddingBackend,
+    runQueued: QueuedIndexingRunner,
+    retryIntervalMs: number = EMBEDDING_RETRY_INTERVAL_MS
+  ) {
+    this.backend = backend;
+    this.runQueued = runQueued;
+    this.retryIntervalMs = retryIntervalMs;
+  }
+
+  /**
+   * Mark the backend unavailable. It is re-initialized after the retry interval at the earliest.
+   */
+  markUnavailable(reason: string): void {
+    if (this.reason === null) {
+      const message = `Embedding backend ${this.backend.name} (${this.backend.getModel()}) is unavailable: ${reason}`;
+      console.error(`[glancey] WARN: ${message}`);
+      broadcastLog('warn', message);
+    }
+    this.reason = reason;
+    this.nextRetryAt = Date.now() + this.retryIntervalMs;
+  }
+
+  /**
+   * Why the backend is unavailable, or undefined while it is healthy.
+   */
+  getUnavailableReason(): string | undefined {
+    return this.reason ?? undefined;
+  }
+
+  /**
+   * Whether indexing is waiting for the backend to recover.
+   */
+  isQueued(): boolean {
+    return this.queued !== null;
+  }
+
+  /**
+   * Check whether the backend is usable, re-initializing it if it was unavailable
+   * and the retry interval has passed.
+   */
+  async checkAvailable(): Promise<boolean> {
+    if (this.reason === null) {
+      return true;
+    }
+    if (!this.retrying && Date.now() < this.nextRetryAt) {
+      return false;
+    }
+    this.retrying ??= this.retry().finally(() => {
+      this.retrying = null;
+    });
+    return this.retrying;
+  }
+
+  private async retry(): Promise<boolean> {
+    try {
+      await this.backend.initialize();
+    } catch (error) {
+      this.markUnavailable(String(error));
+      return false;
+    }
+
+    this.reason = null;
+    const message = `Embedding backend ${this.backend.name} (${this.backend.getModel()}) is available again`;
+    console.error(`[glancey] ${message}`);
+    broadcastLog('info', message);
+    return true;
+  }
+
+  /**
+   * Queue indexing to run once the backend has recovered.
+   */
+  queue(forceReindex: boolean): void {
+    this.queued = { forceReindex: forceReindex || (this.queued?.forceReindex ?? false) };
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    const delay = Math.max(0, this.nextRetryAt - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.runWhenAvailable();
+    }, delay);
+    // Waiting for the backend must not keep the process alive
+    this.timer.unref();
+  }
+
+  private async runWhenAvailable(): Promise<void> {
+    if (!this.queued) {
+      return;
+    }
+    if (!(await this.checkAvailable())) {
+      this.schedule();
+      return;
+    }
+
+    const { forceReindex } = this.queued;
+    this.queued = null;
+    try {
+      await this.runQueued(forceReindex);
+    } catch (error) {
+      // A backend failing again re-queues the indexing through the runner
+      console.error('[glancey] Queued indexing failed:', error);
+    }
+  }
+
+  /**
+   * Drop queued indexing and stop retrying.
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.queued = null;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Persistent embedding cache stored alongside the index in .glancey/.
+ * Embeddings are keyed by chunk content hash within a table per
+ * (backend, model, dimensions, document mode),
+ * so unchanged chunks are never re-embedded across reindexes, branch switches,
+ * backend switches, or clear_index.
+ */
+
+import type * as lancedb from '@lancedb/lancedb';
+import * as crypto from 'crypto';
+import { PLAIN_DOCUMENT_MODE } from '../embeddings/types.js';
+
+/** Prefix for embedding cache table names */
+const CACHE_TABLE_PREFIX = 'embedding_cache_';
+
+/** Maximum number of hashes per lookup query (keeps filter expressions small) */
+const LOOKUP_BATCH_SIZE = 500;
+
+/**
+ * Compute a content hash for change detection and embedding cache keys.
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').slice(0, 32);
+}
+
+/**
+ * Identifies the embedding space an embedding belongs to.
+ */
+export interface EmbeddingCacheKey {
+  backend: string;
+  model: string;
+  dimensions: number;
+  /** How documents were embedded (see EmbeddingBackend.getDocumentMode) */
+  documentMode?: string;
+}
+
+/**
+ * Get the cache table name for an embedding space.
+ * The plain document mode keeps the name it had before modes existed, so those caches stay valid.
+ */
+export function getEmbeddingCacheTableName(key: EmbeddingCacheKey): string {
+  const mode =
+    key.documentMode && key.documentMode !== PLAIN_DOCUMENT_MODE ? `\0${key.documentMode}` : '';
+  const digest = crypto
+    .createHash('sha256')
+    .update(`${key.backend}\0${key.model}\0${key.dimensions}${mode}`)
+    .digest('hex')
+    .slice(0, 16);
+  return `${CACHE_TABLE_PREFIX}${digest}`;
+}
+
+/**
+ * Embedding cache backed by a LanceDB table.
+ * Cache failures are logged and treated as misses so they never fail indexing.
+ *
+ * @example
+ * ```typescript
+ * const cache = new EmbeddingCache(db, { backend: 'gemini', model: 'gemini-embedding-001', dimensions: 768 });
+ * const hits = await cache.getMany(hashes);
+ * await cache.putMany([{ hash, embedding }]);
+ * ```
+ */
+export class EmbeddingCache {
+  private db: lancedb.Connection;
+  private tableName: string;
+  private table: lancedb.Table | null = null;
+
+  constructor(db: lancedb.Connection, key: EmbeddingCacheKey) {
+    this.db = db;
+    this.tableName = getEmbeddingCacheTableName(key);
+  }
+
+  private async openTable(): Promise<lancedb.Table | null> {
+    if (this.table) {
+      return this.table;
+    }
+    const tableNames = await this.db.tableNames();
+    if (!tableNames.includes(this.tableName)) {
+      return null;
+    }
+    this.table = await this.db.openTable(this.tableName);
+    return this.table;
+  }
+
+  /**
+   * Look up cached embeddings by content hash.
+   * Returns a map containing only the hashes that were found.
+   */
+  async getMany(hashes: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    const uniqueHashes = [...new Set(hashes)];
+    if (uniqueHashes.length === 0) {
+      return found;
+    }
+
+    try {
+      const table = await this.openTable();
+      if (!table) {
+        return found;
+      }
+
+      for (let i = 0; i < uniqueHashes.length; i += LOOKUP_BATCH_SIZE) {
+        const batch = uniqueHashes.slice(i, i + LOOKUP_BATCH_SIZE);
+        const requested = new Set(batch);
+        const hashList = batch.map((h) => `'${h}'`).join(', ');
+        const rows = await table
+          .query()
+          .where(`hash IN (${hashList})`)
+          .limit(batch.length)
+          .toArray();
+        for (const row of rows) {
+          if (row.vector && requested.has(row.hash)) {
+            found.set(row.hash as string, Array.from(row.vector as ArrayLike<number>));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[glancey] Embedding cache lookup failed, re-embedding:', error);
+      found.clear();
+    }
+
+    return found;
+  }
+
+  /**
+   * Store embeddings by content hash.
+   */
+  async putMany(entries: Array<{ hash: string; embedding: number[] }>): Promise<void> {
+    // Skip duplicates within the batch and entries without an embedding
+    const unique = new Map<string, number[]>();
+    for (const entry of entries) {
+      if (entry.embedding && entry.embedding.length > 0) {
+        unique.set(entry.hash, entry.embedding);
+      }
+    }
+    if (unique.size === 0) {
+      return;
+    }
+
+    const rows = Array.from(unique, ([hash, vector]) => ({ hash, vector }));
+
+    try {
+      const table = await this.openTable();
+      if (table) {
+        await table.add(rows);
+      } else {
+        this.table = await this.db.createTable(this.tableName, rows);
+      }
+    } catch (error) {
+      console.error('[glancey] Failed to update embedding cache:', error);
+    }
+  }
+
+  /**
+   * Number of cached embeddings for this embedding space.
+   */
+  async size(): Promise<number> {
+    try {
+      const table = await this.openTable();
+      return table ? await table.countRows() : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Recursive file watcher that batches changed paths for incremental indexing.
+ * Changes are collected until the project has been quiet for the debounce period
+ * (or the maximum wait has passed), then handed to the change handler as one batch.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GIT_EXCLUDE_PATH } from '../utils/ignore-rules.js';
+
+/**
+ * Directories whose changes never affect the index.
+ */
+const ALWAYS_IGNORED_DIRS = ['.git', '.glancey', 'node_modules'];
+
+/**
+ * Upper bound on how long a batch can be postponed by continuous changes,
+ * as a multiple of the debounce period.
+ */
+const MAX_WAIT_FACTOR = 10;
+
+/**
+ * Longest delay before retrying a batch that failed to index.
+ * Retries back off from the debounce period, doubling after each failure.
+ */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export interface FileWatcherOptions {
+  /** Quiet period in milliseconds before a batch is flushed */
+  debounceMs: number;
+  /** Called with the absolute paths of each batch of changed files */
+  onChanges: (filepaths: string[]) => Promise<void>;
+  /** Return false for project-relative paths that should not be queued */
+  filter?: (relativePath: string) => boolean;
+  /** Return true while the handler must not run (e.g. a full reindex is in progress) */
+  isBusy?: () => boolean;
+  /** Called whenever the number of queued paths changes */
+  onPendingChange?: (pendingCount: number) => void;
+  /** Called after the watcher stopped itself because of a watch error */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Watches a project directory and batches changes.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new FileWatcher('/path/to/project', {
+ *   debounceMs: 500,
+ *   onChanges: (files) => indexer.indexFiles(files),
+ * });
+ * watcher.start();
+ * ```
+ */
+export class FileWatcher {
+  private projectPath: string;
+  private options: FileWatcherOptions;
+  private watcher: fs.FSWatcher | null = null;
+  private pending = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private firstPendingAt: number | null = null;
+  private inFlight = 0;
+  /** Consecutive failed batches, for retry backoff */
+  private failures = 0;
+  /** Earliest time the next batch may run after a failure */
+  private retryAt: number | null = null;
+  private stopped = false;
+
+  constructor(projectPath: string, options: FileWatcherOptions) {
+    this.projectPath = projectPath;
+    this.options = options;
+  }
+
+  /**
+   * Start watching. Safe to call more than once.
+   */
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+    this.stopped = false;
+
+    this.watcher = fs.watch(this.projectPath, { recursive: true }, (_eventType, filename) => {
+      if (filename) {
+        this.enqueue(filename.toString());
+      }
+    });
+    this.watcher.on('error', (error) => {
+      console.error('[glancey] File watcher error, stopping watcher:', error);
+      this.stop();
+      this.options.onError?.(error);
+    });
+  }
+
+  /**
+   * Stop watching and drop queued changes.
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.stopped = true;
+    this.failures = 0;
+    this.retryAt = null;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.firstPendingAt = null;
+    this.pending.clear();
+    this.notifyPending();
+  }
+
+  /**
+   * Whether the watcher is running.
+   */
+  get isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * Number of changed paths not yet indexed, including a batch being indexed.
+   */
+  get pendingCount(): number {
+    return this.pending.size + this.inFlight;
+  }
+
+  /**
+   * Queue a changed path (relative to the project root) and restart the debounce timer.
+   */
+  enqueue(relativePath: string): void {
+    const normalized = relativePath.split(path.sep).join('/');
+    const topLevel = normalized.split('/')[0];
+    // git's exclude file lives in .git but changes which files are indexed
+    const isGitExclude = normalized === GIT_EXCLUDE_PATH;
+    if (
+      (!isGitExclude && ALWAYS_IGNORED_DIRS.includes(topLevel)) ||
+      normalized.includes('/node_modules/')
+    ) {
+      return;
+    }
+    if (this.options.filter && !this.options.filter(normalized)) {
+      return;
+    }
+
+    this.pending.add(path.join(this.projectPath, relativePath));
+    this.notifyPending();
+    this.firstPendingAt ??= Date.now();
+    this.schedule();
+  }
+
+  /**
+   * Index all queued changes now.
+   * If the handler is busy or already running, the batch is retried after the debounce period.
+   * A batch that fails is queued again and retried with backoff, so its files don't stay stale.
+   */
+  async flush(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.pending.size === 0) {
+      return;
+    }
+    if (this.inFlight > 0 || this.options.isBusy?.()) {
+      this.schedule(this.options.debounceMs);
+      return;
+    }
+
+    const batch = [...this.pending];
+    this.pending.clear();
+    this.firstPendingAt = null;
+    this.inFlight = batch.length;
+
+    try {
+      await this.options.onChanges(batch);
+      this.failures = 0;
+      this.retryAt = null;
+    } catch (error) {
+      this.failures++;
+      const retryDelay = Math.min(this.options.debounceMs * 2 ** this.failures, MAX_RETRY_DELAY_MS);
+      console.error(
+        `[glancey] Failed to index changed files, retrying in ${Math.round(retryDelay / 1000)}s:`,
+        error
+      );
+      if (!this.stopped) {
+        this.retryAt = Date.now() + retryDelay;
+        for (const filepath of batch) {
+          this.pending.add(filepath);
+        }
+        this.firstPendingAt ??= Date.now();
+      }
+    } finally {
+      this.inFlight = 0;
+      this.notifyPending();
+      if (this.pending.size > 0) {
+        this.schedule();
+      }
+    }
+  }
+
+  /**
+   * Restart the flush timer.
+   *
+   * @param delayMs - Fixed delay; by default the debounce period, capped by the maximum wait
+   */
+  private schedule(delayMs?: number): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    // Don't let a steady stream of changes postpone indexing forever
+    const { debounceMs } = this.options;
+    const waited = this.firstPendingAt !== null ? Date.now() - this.firstPendingAt : 0;
+    let delay = delayMs ?? Math.max(0, Math.min(debounceMs, debounceMs * MAX_WAIT_FACTOR - waited));
+    // New changes don't cut short the backoff after a failed batch
+    if (this.retryAt !== null) {
+      delay = Math.max(delay, this.retryAt - Date.now());
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private notifyPending(): void {
+    this.options.onPendingChange?.(this.pendingCount);
+  }
+}
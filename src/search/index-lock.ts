@@ -0,0 +1,392 @@
+/**
+ * Cross-process advisory lock for the .glancey/ index directory.
+ * Several MCP server processes (e.g. two sessions on one project) share the same LanceDB
+ * directory; the lock makes sure only one of them writes the index or checkpoint at a time.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GlanceyError } from '../utils/errors.js';
+
+/**
+ * Name of the lock file inside the index directory.
+ */
+export const INDEX_LOCK_FILENAME = 'index.lock';
+
+/**
+ * How often the holder refreshes the lock's heartbeat.
+ */
+const HEARTBEAT_INTERVAL_MS = 5_000;
+
+/**
+ * A lock whose heartbeat is older than this is considered abandoned and may be taken over.
+ */
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * How often a waiting process retries acquiring the lock.
+ */
+const LOCK_POLL_INTERVAL_MS = 500;
+
+/**
+ * How long to wait before re-reading a lock file that exists but can't be parsed yet.
+ */
+const UNREADABLE_LOCK_RETRY_MS = 100;
+
+/**
+ * Default time to wait for another process to release the lock.
+ */
+export const LOCK_WAIT_TIMEOUT_MS = 30_000;
+
+/**
+ * Contents of the lock file.
+ */
+export interface IndexLockInfo {
+  /** PID of the process holding the lock */
+  pid: number;
+  /** Host the holder runs on (PIDs are only checked on the same host) */
+  hostname: string;
+  /** What the holder is doing, e.g. 'indexing' or 'clearing' */
+  operation: string;
+  /** ISO timestamp when the lock was acquired */
+  acquiredAt: string;
+  /** ISO timestamp of the holder's last heartbeat */
+  heartbeatAt: string;
+}
+
+/**
+ * Check whether a process is still running.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Describe who holds the index lock, for status messages and errors.
+ */
+export function formatLockHolder(holder: IndexLockInfo): string {
+  const owner =
+    holder.pid === process.pid && holder.hostname === os.hostname()
+      ? 'another operation in this process'
+      : `PID ${holder.pid}`;
+  return `Index is being built by ${owner} (${holder.operation} since ${holder.acquiredAt})`;
+}
+
+/**
+ * Check whether a lock was abandoned: its heartbeat stopped, or its holder on this host exited.
+ */
+export function isLockStale(info: IndexLockInfo, now: number = Date.now()): boolean {
+  const heartbeat = Date.parse(info.heartbeatAt);
+  if (Number.isNaN(heartbeat) || now - heartbeat > STALE_LOCK_MS) {
+    return true;
+  }
+  return info.hostname === os.hostname() && !isProcessAlive(info.pid);
+}
+
+/**
+ * Advisory lock file with owner PID, heartbeat and stale-lock takeover.
+ * Concurrent operations in one process (e.g. two client requests) are serialized like
+ * operations in different processes. Only a nested withLock() call on the holder's own call
+ * chain (e.g. auto-repair clearing the index before rebuilding it) re-enters the lock.
+ *
+ * @example
+ * ```typescript
+ * const lock = new IndexLock('/path/to/project/.glancey');
+ * await lock.withLock('indexing', () => rebuildIndex());
+ * ```
+ */
+export class IndexLock {
+  private lockPath: string;
+  private held: IndexLockInfo | null = null;
+  /** Resolves when this process releases the lock, so in-process waiters don't poll */
+  private released: Promise<void> = Promise.resolve();
+  private resolveReleased: () => void = () => {};
+  /** The acquisition the current call chain runs under, to detect nested withLock() calls */
+  private owner = new AsyncLocalStorage<IndexLockInfo | null>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(indexPath: string) {
+    this.lockPath = path.join(indexPath, INDEX_LOCK_FILENAME);
+  }
+
+  /**
+   * Whether this process currently holds the lock.
+   */
+  get isHeld(): boolean {
+    return this.held !== null;
+  }
+
+  /**
+   * Read the lock file, returning null if it is missing or unreadable.
+   */
+  private async read(lockPath: string = this.lockPath): Promise<IndexLockInfo | null> {
+    try {
+      const info = JSON.parse(await fs.readFile(lockPath, 'utf-8')) as IndexLockInfo;
+      return typeof info?.pid === 'number' && typeof info.heartbeatAt === 'string' ? info : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the lock held by another live process, or null if the index is free
+   * (or locked by this process).
+   */
+  async getHolder(): Promise<IndexLockInfo | null> {
+    if (this.held) {
+      return null;
+    }
+    const info = await this.read();
+    return info && !isLockStale(info) ? info : null;
+  }
+
+  /**
+   * Try to acquire the lock once.
+   *
+   * @returns null if the lock was acquired, otherwise the current holder
+   *   (which may be another operation in this process)
+   */
+  async tryAcquire(operation: string): Promise<IndexLockInfo | null> {
+    if (this.held) {
+      return this.held;
+    }
+
+    await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+    const now = new Date().toISOString();
+    const info: IndexLockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      operation,
+      acquiredAt: now,
+      heartbeatAt: now,
+    };
+
+    try {
+      // 'wx' fails if the file exists, so only one process can create it
+      await fs.writeFile(this.lockPath, JSON.stringify(info), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      let holder = await this.read();
+      if (!holder) {
+        // The holder may have created the file but not written it yet
+        await new Promise((resolve) => setTimeout(resolve, UNREADABLE_LOCK_RETRY_MS));
+        holder = await this.read();
+      }
+      if (holder && !isLockStale(holder)) {
+        return holder;
+      }
+
+      // Take over an abandoned (or unreadable) lock; if another process wins the race
+      // to remove or recreate it, report that process as the holder
+      if (!(await this.claimStaleLock(holder))) {
+        return (await this.read()) ?? holder;
+      }
+      console.error(
+        holder
+          ? `[glancey] Took over stale index lock from PID ${holder.pid} (last heartbeat ${holder.heartbeatAt})`
+          : '[glancey] Replaced unreadable index lock'
+      );
+      try {
+        await fs.writeFile(this.lockPath, JSON.stringify(info), { flag: 'wx' });
+      } catch {
+        return (await this.read()) ?? holder;
+      }
+    }
+
+    // Another operation in this process may have taken the lock while we were checking the file
+    if (this.held) {
+      return this.held;
+    }
+    this.held = info;
+    this.released = new Promise((resolve) => {
+      this.resolveReleased = resolve;
+    });
+    this.startHeartbeat();
+    return null;
+  }
+
+  /**
+   * Acquire the lock, waiting for another process to release it.
+   *
+   * @throws GlanceyError if the lock is still held by another process after the timeout
+   */
+  async acquire(operation: string, timeoutMs: number = LOCK_WAIT_TIMEOUT_MS): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    let logged = false;
+
+    for (;;) {
+      const holder = await this.tryAcquire(operation);
+      if (!holder) {
+        return;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new GlanceyError(
+          `${formatLockHolder(holder)}. Try again when it finishes.`,
+          'indexing',
+          { lockHolder: holder }
+        );
+      }
+      if (!logged) {
+        console.error(`[glancey] Waiting for index lock: ${formatLockHolder(holder)}...`);
+        logged = true;
+      }
+      if (holder === this.held) {
+        // Held by another operation in this process: wait for it to signal its release
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        await Promise.race([
+          this.released,
+          new Promise((resolve) => {
+            timer = setTimeout(resolve, remaining);
+          }),
+        ]);
+        clearTimeout(timer);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+      }
+    }
+  }
+
+  /**
+   * Release the lock and remove the lock file.
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+
+    const held = this.held;
+    this.stopHeartbeat();
+
+    // Only remove the file if it is still ours (it may have been taken over)
+    const current = await this.read();
+    if (current?.pid === held.pid && current.acquiredAt === held.acquiredAt) {
+      await this.removeLockFile();
+    }
+
+    // Waiters in this process see the lock as held until the file is gone
+    this.held = null;
+    this.resolveReleased();
+  }
+
+  /**
+   * Run an operation while holding the lock.
+   * Called from within another withLock() operation, runs under the outer acquisition.
+   */
+  async withLock<T>(
+    operation: string,
+    fn: () => Promise<T>,
+    timeoutMs: number = LOCK_WAIT_TIMEOUT_MS
+  ): Promise<T> {
+    if (this.held && this.owner.getStore() === this.held) {
+      return fn();
+    }
+
+    await this.acquire(operation, timeoutMs);
+    try {
+      return await this.owner.run(this.held, fn);
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Remove a stale lock file, unless another process replaced it in the meantime.
+   * Several processes can find the same stale lock; moving it aside is atomic, so only one of
+   * them gets it, and a lock that turns out to be newer than the stale one is put back.
+   *
+   * @param stale - The stale lock as read before, or null if it was unreadable
+   * @returns true if the stale lock was removed by this call
+   */
+  private async claimStaleLock(stale: IndexLockInfo | null): Promise<boolean> {
+    const claimedPath = `${this.lockPath}.${process.pid}.${crypto.randomUUID()}`;
+    try {
+      await fs.rename(this.lockPath, claimedPath);
+    } catch {
+      // Another process moved or removed it first
+      return false;
+    }
+
+    const claimed = await this.read(claimedPath);
+    const isStale = stale
+      ? claimed?.pid === stale.pid &&
+        claimed.acquiredAt === stale.acquiredAt &&
+        claimed.heartbeatAt === stale.heartbeatAt
+      : claimed === null;
+    if (!isStale) {
+      try {
+        // A new holder's lock: put it back (link fails if yet another lock was created meanwhile)
+        await fs.link(claimedPath, this.lockPath);
+      } catch {
+        // Another process holds the lock now
+      }
+    }
+    try {
+      await fs.unlink(claimedPath);
+    } catch {
+      // Already removed
+    }
+    return isStale;
+  }
+
+  private async removeLockFile(): Promise<void> {
+    try {
+      await fs.unlink(this.lockPath);
+    } catch {
+      // Already removed
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      void this.heartbeat();
+    }, HEARTBEAT_INTERVAL_MS);
+    // Don't keep the process alive just to refresh the lock
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Refresh the heartbeat so other processes don't consider the lock stale.
+   */
+  private async heartbeat(): Promise<void> {
+    const held = this.held;
+    if (!held) {
+      return;
+    }
+
+    const current = await this.read();
+    if (current && (current.pid !== held.pid || current.acquiredAt !== held.acquiredAt)) {
+      console.error(
+        `[glancey] Index lock was taken over by PID ${current.pid}; concurrent writes are possible`
+      );
+      this.stopHeartbeat();
+      return;
+    }
+
+    held.heartbeatAt = new Date().toISOString();
+    try {
+      await fs.writeFile(this.lockPath, JSON.stringify(held));
+    } catch (error) {
+      console.error('[glancey] Failed to refresh index lock heartbeat:', error);
+    }
+  }
+}
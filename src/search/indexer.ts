@@ -2,10 +2,30 @@ import * as lancedb from '@lancedb/lancedb';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { EmbeddingBackend } from '../embeddings/index.js';
+import type {
+  EmbeddingBackend,
+  EmbeddingUsageStats,
+  EmbeddingUsageTracker,
+  IndexedEmbedding,
+} from '../embeddings/index.js';
+import { PLAIN_DOCUMENT_MODE } from '../embeddings/types.js';
 import { broadcastLog } from '../dashboard/events.js';
 import { ASTChunker } from './ast-chunker.js';
 import { TreeSitterChunker } from './tree-sitter-chunker.js';
+import { MarkdownChunker } from './markdown-chunker.js';
+import { DataChunker } from './data-chunker.js';
+import { SFCChunker } from './sfc-chunker.js';
+import { NotebookChunker } from './notebook-chunker.js';
+import {
+  createLanguageRegistry,
+  getBuiltinLanguages,
+  type LanguageRegistry,
+} from '../languages/index.js';
+import { BM25Index } from './bm25.js';
+import { createSymbolChunkIds, type BaseChunk } from './chunk-utils.js';
+import { EmbeddingCache, hashContent } from './embedding-cache.js';
+import { IndexLock, type IndexLockInfo } from './index-lock.js';
+import { EmbeddingAvailability } from './embedding-availability.js';
 import {
   loadConfig,
   getDefaultPatterns,
@@ -16,8 +36,10 @@ import {
   type GlanceyConfig,
 } from '../config.js';
 import { TTLCache } from '../utils/cache.js';
+import { GlanceyError, wrapError } from '../utils/errors.js';
 import { minimatch } from 'minimatch';
 import { mapInBatches } from '../utils/concurrency.js';
+import { IgnoreRules, isIgnoreFile } from '../utils/ignore-rules.js';
 import {
   kMeansClustering,
   calculateSilhouetteScore,
@@ -30,6 +52,9 @@ import {
 /** Default concurrency for parallel file processing */
 const FILE_PROCESSING_CONCURRENCY = 10;
 
+/** Maximum number of values in a single `IN (...)` filter on the chunks table */
+const CHUNK_FILTER_BATCH_SIZE = 200;
+
 /** Similarity threshold for query deduplication (0.92 = very similar queries) */
 const QUERY_SIMILARITY_THRESHOLD = 0.92;
 
@@ -39,14 +64,33 @@ const QUERY_RESULT_CACHE_TTL_MS = 5 * 60 * 1000;
 /** Maximum number of cached query results */
 const QUERY_RESULT_CACHE_MAX_SIZE = 50;
 
+/**
+ * Score bonus for chunks whose symbol name exactly matches a query identifier.
+ * Ensures exact-identifier queries (e.g. "sanitizeForFilter") surface the definition
+ * even when it ranks low on vector similarity.
+ */
+const EXACT_SYMBOL_MATCH_BOOST = 0.5;
+
+/**
+ * Reciprocal rank fusion constant.
+ * Dampens the advantage of top ranks so neither list dominates (standard value from the RRF paper).
+ */
+export const RRF_K = 60;
+
+/**
+ * Version of the code_chunks table layout.
+ * Indexes written with a different version are rebuilt on the next indexing run.
+ */
+const INDEX_VERSION = '1.4.0';
+
 /**
  * Cached query result entry with embedding for similarity comparison.
  */
 interface CachedQueryResult {
   /** The query embedding for similarity comparison */
   embedding: number[];
-  /** The search results */
-  results: CodeChunk[];
+  /** The search results with their score breakdowns */
+  results: ExplainedSearchResults;
   /** Search options used (for cache key matching) */
   options: {
     limit: number;
@@ -80,6 +124,19 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / denominator;
 }
 
+/**
+ * Compute squared Euclidean distance between two vectors.
+ * Matches the default 'l2' distance reported by LanceDB vector search.
+ */
+function squaredL2Distance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - (b[i] ?? 0);
+    sum += diff * diff;
+  }
+  return sum;
+}
+
 /**
  * Compute a checksum for index integrity validation.
  * Based on sorted file list and chunk count.
@@ -95,13 +152,16 @@ function computeIndexChecksum(files: string[], chunkCount: number): string {
  * Each chunk contains a portion of a source file with its location metadata.
  */
 export interface CodeChunk {
-  /** Unique identifier for this chunk (format: filepath:startLine-endLine) */
+  /**
+   * Unique identifier for this chunk.
+   * Symbol chunks use `filepath#namePath@contentHash`, line-based chunks use `filepath:startLine-endLine`.
+   */
   id: string;
   /** Relative path to the source file from the project root */
   filepath: string;
   /** The actual source code content of this chunk */
   content: string;
-  /** Starting line number in the source file (1-indexed) */
+  /** Starting line number in the source file (1-indexed); in a notebook, in the cell */
   startLine: number;
   /** Ending line number in the source file (1-indexed) */
   endLine: number;
@@ -109,7 +169,10 @@ export interface CodeChunk {
   language: string;
   /** Vector embedding for semantic search (populated during indexing) */
   embedding?: number[];
-  /** Type of code symbol (function, class, method, etc.) - from AST chunking */
+  /**
+   * Type of code symbol (function, class, method, etc.) - from AST chunking;
+   * section/key for Markdown/JSON/YAML, template/style for Vue/Svelte/Astro components
+   */
   symbolType?:
     | 'function'
     | 'class'
@@ -118,9 +181,17 @@ export interface CodeChunk {
     | 'type'
     | 'variable'
     | 'import'
+    | 'section'
+    | 'key'
+    | 'template'
+    | 'style'
     | 'other';
   /** Name of the code symbol (e.g., 'UserService', 'MyClass.constructor') - from AST chunking */
   symbolName?: string;
+  /** Hash of the chunk content, used as the embedding cache key */
+  contentHash?: string;
+  /** Position of the notebook cell the chunk comes from (0-indexed), for Jupyter notebooks */
+  cellIndex?: number;
 }
 
 /**
@@ -128,16 +199,20 @@ export interface CodeChunk {
  * Tracks how many files used AST-aware vs line-based chunking.
  */
 export interface ChunkingStats {
-  /** Number of files chunked with AST parsing (TypeScript/JavaScript) */
+  /** Number of files chunked with AST parsing (TypeScript/JavaScript, Vue/Svelte/Astro scripts) */
   astChunked: number;
   /** Number of files chunked with tree-sitter parsing (Python, Go, etc.) */
   treeSitterChunked: number;
+  /** Number of files chunked by headings, keys or cells (Markdown, JSON, YAML, notebooks) */
+  documentChunked: number;
   /** Number of files that fell back to line-based chunking */
   lineBasedChunked: number;
   /** Files where AST parsing failed and fell back to line-based */
   astFallbacks: string[];
   /** Files where tree-sitter parsing failed and fell back to line-based */
   treeSitterFallbacks: string[];
+  /** Markdown, JSON, YAML and notebook files that fell back to line-based */
+  documentFallbacks: string[];
 }
 
 /**
@@ -170,6 +245,14 @@ export interface IndexStatus {
   isIndexing?: boolean;
   /** Statistics about chunking methods used during indexing */
   chunkingStats?: ChunkingStats;
+  /** Another process currently holding the index lock (searches still work, writes wait) */
+  lockHolder?: IndexLockInfo;
+  /** Why the index's embedding backend is unavailable (searches fall back to keyword matching) */
+  embeddingUnavailableReason?: string;
+  /** Whether indexing is queued until the embedding backend recovers */
+  indexingQueued?: boolean;
+  /** Requests, texts, retries and quota errors sent to the embedding backends, if tracked */
+  embeddingUsage?: EmbeddingUsageStats;
 }
 
 interface IndexMetadata {
@@ -179,6 +262,8 @@ interface IndexMetadata {
   embeddingBackend: string;
   embeddingModel?: string;
   embeddingDimensions: number;
+  /** How documents were embedded (see EmbeddingBackend.getDocumentMode); absent means plain */
+  embeddingDocumentMode?: string;
   version: string;
   /** Checksum of indexed files (sorted file list hash) for corruption detection */
   checksum?: string;
@@ -207,21 +292,92 @@ interface IndexCheckpoint {
   embeddingBackend: string;
   /** Embedding model (for detecting model changes) */
   embeddingModel?: string;
+  /** Embedding document mode (for detecting task type or prompt changes) */
+  embeddingDocumentMode?: string;
   /** File modification times at checkpoint creation for freshness validation */
   fileMtimes?: Record<string, number>;
 }
 
-// Note: FileMetadata is used for LanceDB schema and is implicitly typed
-// interface FileMetadata {
-//   filepath: string;
-//   mtime: number;
-// }
+/**
+ * Stored state of an indexed file (file_metadata table row).
+ */
+interface StoredFileMetadata {
+  mtime: number;
+  /** Content hash; missing for indexes written before content hashing */
+  hash?: string;
+}
 
 interface FileChanges {
   added: string[];
   modified: string[];
   deleted: string[];
   unchanged: string[];
+  /** Files whose mtime changed but whose content is identical (no reindex needed) */
+  touched: string[];
+}
+
+/**
+ * Location and content hash of a chunk already stored in the index.
+ */
+interface StoredChunkRef {
+  id: string;
+  startLine: number;
+  contentHash: string;
+  cellIndex: number;
+}
+
+/**
+ * Result of comparing re-chunked files with their stored chunks.
+ */
+interface ChunkDiff {
+  /** Chunks that are new or whose content changed (need embedding) */
+  added: CodeChunk[];
+  /** IDs of stored chunks that no longer exist */
+  removedIds: string[];
+  /** Unchanged chunks that moved, grouped by line offset */
+  movedIdsByOffset: Map<number, string[]>;
+  /** Number of stored chunks kept as-is (including moved ones) */
+  unchanged: number;
+}
+
+/**
+ * Compare freshly created chunks with the chunks stored for the same files.
+ * A stored chunk is kept when a new chunk has the same ID and content hash.
+ */
+function diffChunks(stored: StoredChunkRef[], chunks: CodeChunk[]): ChunkDiff {
+  const storedById = new Map(stored.map((ref) => [ref.id, ref]));
+  const keptIds = new Set<string>();
+  const diff: ChunkDiff = { added: [], removedIds: [], movedIdsByOffset: new Map(), unchanged: 0 };
+
+  for (const chunk of chunks) {
+    const ref = storedById.get(chunk.id);
+    // A notebook chunk whose cell moved is stored again; its embedding comes from the cache
+    if (
+      !ref ||
+      ref.contentHash !== chunk.contentHash ||
+      ref.cellIndex !== (chunk.cellIndex ?? -1)
+    ) {
+      diff.added.push(chunk);
+      continue;
+    }
+
+    keptIds.add(chunk.id);
+    diff.unchanged++;
+    const offset = chunk.startLine - ref.startLine;
+    if (offset !== 0) {
+      const ids = diff.movedIdsByOffset.get(offset) ?? [];
+      ids.push(chunk.id);
+      diff.movedIdsByOffset.set(offset, ids);
+    }
+  }
+
+  for (const ref of stored) {
+    if (!keptIds.has(ref.id)) {
+      diff.removedIds.push(ref.id);
+    }
+  }
+
+  return diff;
 }
 
 /**
@@ -234,6 +390,8 @@ export interface SearchSimilarOptions {
   startLine?: number;
   /** Ending line number (1-indexed, requires filepath) */
   endLine?: number;
+  /** Notebook cell the lines are in (0-indexed, required for notebooks) */
+  cellIndex?: number;
   /** Code snippet to find similar code for (alternative to filepath) */
   code?: string;
   /** Maximum number of results to return (default: 10) */
@@ -266,6 +424,78 @@ export interface SearchOptions {
   languages?: string[];
 }
 
+/**
+ * Breakdown of how a single search result was scored.
+ */
+export interface SearchScoreBreakdown {
+  /** Final combined score used for ranking (higher is better) */
+  score: number;
+  /** Vector distance to the query (lower is closer), null if unavailable */
+  semanticDistance: number | null;
+  /** Semantic component before weighting (0-1 for 'weighted', reciprocal rank for 'rrf') */
+  semanticScore: number;
+  /** 1-based rank in the vector results, null if only found by keyword search */
+  semanticRank: number | null;
+  /** Raw BM25 score, null if the keyword search did not match */
+  keywordScore: number | null;
+  /** Keyword component before weighting (0-1 for 'weighted', reciprocal rank for 'rrf') */
+  keywordComponent: number;
+  /** 1-based rank in the keyword results, null if not matched */
+  keywordRank: number | null;
+  /** Whether a query identifier exactly matched the result's symbol name */
+  exactSymbolMatch: boolean;
+  /** Bonus added for an exact symbol match */
+  symbolBoost: number;
+}
+
+/**
+ * A search result together with its score breakdown.
+ */
+export interface ScoredSearchResult {
+  chunk: CodeChunk;
+  breakdown: SearchScoreBreakdown;
+}
+
+/**
+ * Query-level details of a search, returned by explainSearch().
+ */
+export interface SearchExplanation {
+  /** Fusion method used to combine semantic and keyword results */
+  fusion: 'weighted' | 'rrf';
+  /** Weight applied to the semantic component */
+  semanticWeight: number;
+  /** Weight applied to the keyword component */
+  keywordWeight: number;
+  /** Filters applied to the candidates */
+  filters: {
+    pathPattern?: string;
+    languages?: string[];
+  };
+  /** Whether results came from the query result cache */
+  fromCache: boolean;
+  /** Why the query could not be embedded, if results are ranked by keyword matching only */
+  keywordOnlyReason?: string;
+  /** Candidate counts at each stage */
+  candidates: {
+    /** Results returned by the vector search */
+    vector: number;
+    /** Matches returned by the keyword search */
+    keyword: number;
+    /** Keyword matches not present in the vector results */
+    keywordOnly: number;
+    /** Candidates remaining after filters */
+    afterFilters: number;
+  };
+}
+
+/**
+ * Search results with per-result score breakdowns.
+ */
+export interface ExplainedSearchResults {
+  results: ScoredSearchResult[];
+  explanation: SearchExplanation;
+}
+
 /**
  * Progress information during indexing operations.
  * Used to report status to callers via the progress callback.
@@ -321,6 +551,89 @@ function sanitizeForFilter(value: string): string {
   return value.replace(/'/g, "''");
 }
 
+/**
+ * Convert a chunk to a LanceDB row.
+ * Symbol fields are stored as empty strings and a missing cell index as -1,
+ * so LanceDB can infer the column types.
+ */
+function chunkToRow(chunk: CodeChunk): Record<string, unknown> {
+  return {
+    id: chunk.id,
+    filepath: chunk.filepath,
+    content: chunk.content,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    language: chunk.language,
+    symbolType: chunk.symbolType ?? '',
+    symbolName: chunk.symbolName ?? '',
+    contentHash: chunk.contentHash ?? hashContent(chunk.content),
+    cellIndex: chunk.cellIndex ?? -1,
+    vector: chunk.embedding,
+  };
+}
+
+/**
+ * A row of the code_chunks table, as returned by LanceDB queries.
+ * Columns added in later index versions are optional.
+ */
+interface ChunkRow {
+  id: string;
+  filepath: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  language: string;
+  /** Empty for chunks without a symbol */
+  symbolType?: CodeChunk['symbolType'] | '';
+  symbolName?: string;
+  contentHash?: string;
+  /** Notebook cell index, -1 for other files */
+  cellIndex?: number;
+  vector?: ArrayLike<number>;
+  /** Distance to the query vector (vector searches only) */
+  _distance?: number;
+}
+
+/**
+ * Convert a LanceDB row back to a chunk (without its embedding).
+ */
+function rowToChunk(row: ChunkRow): CodeChunk {
+  return {
+    id: row.id,
+    filepath: row.filepath,
+    content: row.content,
+    startLine: row.startLine,
+    endLine: row.endLine,
+    language: row.language,
+    symbolType: row.symbolType || undefined,
+    symbolName: row.symbolName || undefined,
+    contentHash: row.contentHash || undefined,
+    cellIndex: row.cellIndex !== undefined && row.cellIndex >= 0 ? row.cellIndex : undefined,
+  };
+}
+
+/**
+ * Read the embedding backend and model a project's index was built with, from its metadata
+ * or, when the first indexing run was interrupted, its checkpoint.
+ * Returns undefined for projects without an index.
+ */
+export async function loadIndexedEmbedding(
+  projectPath: string
+): Promise<IndexedEmbedding | undefined> {
+  for (const filename of ['index-metadata.json', 'checkpoint.json']) {
+    try {
+      const content = await fs.readFile(path.join(projectPath, '.glancey', filename), 'utf-8');
+      const { embeddingBackend, embeddingModel } = JSON.parse(content) as Partial<IndexMetadata>;
+      if (embeddingBackend) {
+        return { backend: embeddingBackend, model: embeddingModel };
+      }
+    } catch {
+      // Missing or unreadable, try the next file
+    }
+  }
+  return undefined;
+}
+
 /**
  * Code indexer that uses LanceDB for vector storage and semantic search.
  *
@@ -350,36 +663,184 @@ export class CodeIndexer {
   private indexPath: string;
   private projectPath: string;
   private config: GlanceyConfig | null = null;
+  private languages: LanguageRegistry = getBuiltinLanguages();
   /** LRU cache for query embeddings with TTL to avoid recomputing identical queries */
   private queryEmbeddingCache = new TTLCache<number[]>({ maxSize: 100, ttlMs: 60 * 60 * 1000 });
   /** Cache for query results to deduplicate semantically similar queries */
   private queryResultCache: CachedQueryResult[] = [];
   /** Tracks chunking method usage during current indexing operation */
   private currentChunkingStats: ChunkingStats = this.createEmptyChunkingStats();
+  /** BM25 keyword index, built lazily from the chunk table and dropped when it changes */
+  private keywordIndex: BM25Index | null = null;
+  /** Persistent embedding cache for the current backend/model/dimensions */
+  private embeddingCache: EmbeddingCache | null = null;
+  /** Content hashes computed during the current indexing run, keyed by relative path */
+  private fileHashes = new Map<string, string>();
+  /** Ignore rules from the last full file scan, reused when indexing watched changes */
+  private ignoreRules: IgnoreRules | null = null;
+  /** Set while a file watcher keeps the index fresh, so searches skip the stale check */
+  private watching = false;
+  /** Cross-process lock around index, checkpoint and clear operations */
+  private indexLock: IndexLock;
+  /** Whether the embedding backend is usable; indexing is queued while it is not */
+  private embeddingAvailability: EmbeddingAvailability;
+  /** Usage counters of the embedding backend, if its requests are tracked */
+  private embeddingUsage: EmbeddingUsageTracker | null;
 
   /** Create empty chunking stats */
   private createEmptyChunkingStats(): ChunkingStats {
     return {
       astChunked: 0,
       treeSitterChunked: 0,
+      documentChunked: 0,
       lineBasedChunked: 0,
       astFallbacks: [],
       treeSitterFallbacks: [],
+      documentFallbacks: [],
     };
   }
 
-  constructor(projectPath: string, embeddingBackend: EmbeddingBackend) {
+  constructor(
+    projectPath: string,
+    embeddingBackend: EmbeddingBackend,
+    embeddingUsage?: EmbeddingUsageTracker
+  ) {
     this.projectPath = projectPath;
     this.embeddingBackend = embeddingBackend;
+    this.embeddingUsage = embeddingUsage ?? null;
     this.indexPath = path.join(projectPath, '.glancey');
+    this.indexLock = new IndexLock(this.indexPath);
+    this.embeddingAvailability = new EmbeddingAvailability(embeddingBackend, (forceReindex) =>
+      this.indexCodebase(undefined, undefined, forceReindex)
+    );
+  }
+
+  /**
+   * Mark the embedding backend unavailable, e.g. when it failed to initialize at startup.
+   * Indexing is queued until it recovers, and searches fall back to keyword matching.
+   */
+  markEmbeddingUnavailable(reason: string): void {
+    this.embeddingAvailability.markUnavailable(reason);
+  }
+
+  /**
+   * Get the embedding usage counters, or undefined if requests are not tracked.
+   */
+  getEmbeddingUsage(): EmbeddingUsageStats | undefined {
+    return this.embeddingUsage?.getStats();
+  }
+
+  /**
+   * Drop indexing queued for the embedding backend to recover.
+   */
+  dispose(): void {
+    this.embeddingAvailability.dispose();
+  }
+
+  /**
+   * Error for operations that need the embedding backend while it is unavailable.
+   */
+  private embeddingUnavailableError(queued: boolean, cause?: unknown): GlanceyError {
+    const reason = this.embeddingAvailability.getUnavailableReason();
+    const suffix = queued
+      ? ' Indexing is queued and resumes automatically when it recovers; searches use keyword matching meanwhile.'
+      : '';
+    const message = `Embedding backend '${this.embeddingBackend.name}' (${this.embeddingBackend.getModel()}) is unavailable: ${reason}.${suffix}`;
+    return cause
+      ? wrapError(message, 'embedding', cause, { backend: this.embeddingBackend.name })
+      : new GlanceyError(message, 'embedding', { backend: this.embeddingBackend.name });
+  }
+
+  /**
+   * Why query vectors cannot be compared with the index's: it was built with another
+   * embedding backend, model or document mode. Undefined when they match.
+   */
+  private async getVectorMismatchReason(): Promise<string | undefined> {
+    // An unavailable backend is the index's own and may not be initialized yet
+    if (this.embeddingAvailability.getUnavailableReason()) {
+      return undefined;
+    }
+    return this.checkBackendMismatch(await this.loadIndexMetadata()).reason;
+  }
+
+  /**
+   * Throw if the index's vectors cannot be searched with the current embedding backend.
+   */
+  private async requireComparableVectors(): Promise<void> {
+    const reason = await this.getVectorMismatchReason();
+    if (reason) {
+      throw new GlanceyError(reason, 'search', { backend: this.embeddingBackend.name });
+    }
+  }
+
+  /**
+   * Throw if the embedding backend is unavailable and has not recovered yet.
+   */
+  private async requireEmbeddingBackend(): Promise<void> {
+    if (!(await this.embeddingAvailability.checkAvailable())) {
+      throw this.embeddingUnavailableError(false);
+    }
+  }
+
+  /**
+   * Run an indexing operation with the embedding backend. While the backend is unavailable,
+   * or when it fails during the operation, the indexing is queued instead: switching to
+   * another backend would mix its vectors with the index's.
+   */
+  private async withEmbeddingBackend<T>(
+    forceReindex: boolean,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (!(await this.embeddingAvailability.checkAvailable())) {
+      this.embeddingAvailability.queue(forceReindex);
+      throw this.embeddingUnavailableError(true);
+    }
+
+    try {
+      return await operation();
+    } catch (error) {
+      // Nested indexing (indexFiles falling back to indexCodebase) already queued itself
+      if (
+        !(error instanceof GlanceyError) ||
+        error.category !== 'embedding' ||
+        this.embeddingAvailability.getUnavailableReason() !== undefined
+      ) {
+        throw error;
+      }
+      const cause = error.cause instanceof Error ? error.cause : error;
+      this.embeddingAvailability.markUnavailable(cause.message);
+      this.embeddingAvailability.queue(forceReindex);
+      throw this.embeddingUnavailableError(true, error);
+    }
   }
 
   async initialize(): Promise<void> {
     this.db = await lancedb.connect(this.indexPath);
     this.config = await loadConfig(this.projectPath);
+    this.languages = createLanguageRegistry(this.projectPath, this.config.languages);
     console.error(`[glancey] Loaded config with ${this.config.patterns?.length} patterns`);
   }
 
+  /**
+   * The database connection opened by initialize().
+   */
+  private get connection(): lancedb.Connection {
+    if (!this.db) {
+      throw new GlanceyError('Indexer not initialized. Call initialize() first.', 'internal');
+    }
+    return this.db;
+  }
+
+  /**
+   * The opened code_chunks table.
+   */
+  private get chunksTable(): lancedb.Table {
+    if (!this.table) {
+      throw new GlanceyError('Codebase not indexed. Run index_codebase first.', 'search');
+    }
+    return this.table;
+  }
+
   private get metadataPath(): string {
     return path.join(this.indexPath, 'index-metadata.json');
   }
@@ -513,7 +974,8 @@ export class CodeIndexer {
       embeddingBackend: this.embeddingBackend.name,
       embeddingModel: this.embeddingBackend.getModel(),
       embeddingDimensions: this.embeddingBackend.getDimensions(),
-      version: '1.0.0',
+      embeddingDocumentMode: this.embeddingBackend.getDocumentMode(),
+      version: INDEX_VERSION,
       checksum: computeIndexChecksum(relativePaths, chunkCount),
       chunkingStats: this.currentChunkingStats,
     };
@@ -606,21 +1068,53 @@ export class CodeIndexer {
   /**
    * Get stored metadata for all indexed files
    */
-  private async getStoredMetadata(): Promise<Map<string, number>> {
-    const tableNames = await this.db!.tableNames();
+  private async getStoredMetadata(): Promise<Map<string, StoredFileMetadata>> {
+    const tableNames = await this.connection.tableNames();
     if (!tableNames.includes('file_metadata')) {
       return new Map();
     }
 
-    this.metadataTable = await this.db!.openTable('file_metadata');
+    this.metadataTable = await this.connection.openTable('file_metadata');
     const rows = await this.metadataTable.query().toArray();
-    const metadata = new Map<string, number>();
+    const metadata = new Map<string, StoredFileMetadata>();
     for (const row of rows) {
-      metadata.set(row.filepath, row.mtime);
+      metadata.set(row.filepath, { mtime: row.mtime, hash: row.hash || undefined });
     }
     return metadata;
   }
 
+  /**
+   * Get the relative paths of all indexed files, sorted.
+   */
+  async getIndexedFiles(): Promise<string[]> {
+    if (!this.db) {
+      return [];
+    }
+    const metadata = await this.getStoredMetadata();
+    return [...metadata.keys()].sort();
+  }
+
+  /**
+   * Compute the content hash of a file, remembering it for this indexing run.
+   * Returns null if the file can't be read.
+   */
+  private async getFileHash(filepath: string): Promise<string | null> {
+    const relativePath = path.relative(this.projectPath, filepath);
+    const known = this.fileHashes.get(relativePath);
+    if (known) {
+      return known;
+    }
+
+    try {
+      const content = await fs.readFile(filepath, 'utf-8');
+      const hash = hashContent(content);
+      this.fileHashes.set(relativePath, hash);
+      return hash;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Detect which files have been added, modified, or deleted
    */
@@ -631,6 +1125,7 @@ export class CodeIndexer {
       modified: [],
       deleted: [],
       unchanged: [],
+      touched: [],
     };
 
     const currentFilesSet = new Set<string>();
@@ -638,16 +1133,7 @@ export class CodeIndexer {
     for (const filepath of currentFiles) {
       const relativePath = path.relative(this.projectPath, filepath);
       currentFilesSet.add(relativePath);
-      const currentMtime = await this.getFileMtime(filepath);
-      const storedMtime = storedMetadata.get(relativePath);
-
-      if (storedMtime === undefined) {
-        changes.added.push(filepath);
-      } else if (currentMtime > storedMtime) {
-        changes.modified.push(filepath);
-      } else {
-        changes.unchanged.push(filepath);
-      }
+      await this.classifyFile(filepath, storedMetadata.get(relativePath), changes);
     }
 
     // Find deleted files
@@ -660,6 +1146,31 @@ export class CodeIndexer {
     return changes;
   }
 
+  /**
+   * Record whether an existing file was added, modified, touched or left unchanged.
+   */
+  private async classifyFile(
+    filepath: string,
+    stored: StoredFileMetadata | undefined,
+    changes: FileChanges
+  ): Promise<void> {
+    const currentMtime = await this.getFileMtime(filepath);
+
+    if (stored === undefined) {
+      changes.added.push(filepath);
+    } else if (currentMtime > stored.mtime) {
+      // mtime alone is unreliable (git checkout, touch, formatters), so compare content
+      const currentHash = stored.hash ? await this.getFileHash(filepath) : null;
+      if (currentHash !== null && currentHash === stored.hash) {
+        changes.touched.push(filepath);
+      } else {
+        changes.modified.push(filepath);
+      }
+    } else {
+      changes.unchanged.push(filepath);
+    }
+  }
+
   /**
    * Get all project files matching the configured patterns.
    * Used for change detection and staleness checking.
@@ -670,6 +1181,7 @@ export class CodeIndexer {
     // Ensure config is loaded
     if (!this.config) {
       this.config = await loadConfig(this.projectPath);
+      this.languages = createLanguageRegistry(this.projectPath, this.config.languages);
     }
 
     const patterns = this.config.patterns || getDefaultPatterns();
@@ -685,13 +1197,15 @@ export class CodeIndexer {
       files.push(...matches);
     }
 
-    return files;
+    // Drop anything excluded by .gitignore, .git/info/exclude or .glanceyignore
+    this.ignoreRules = await IgnoreRules.load(this.projectPath, excludePatterns);
+    return this.ignoreRules.filter(files);
   }
 
   /**
    * Check if the index is stale (files have been modified since last index).
    * Returns true if any files have been added, modified, or deleted.
-   * This is a lightweight check that only compares file modification times.
+   * Compares modification times, and content hashes only for files whose mtime changed.
    */
   async checkIfStale(): Promise<{ stale: boolean; reason?: string }> {
     // Ensure database is initialized
@@ -700,7 +1214,7 @@ export class CodeIndexer {
     }
 
     // Check if index exists
-    const tableNames = await this.db!.tableNames();
+    const tableNames = await this.connection.tableNames();
     if (!tableNames.includes('code_chunks')) {
       return { stale: true, reason: 'Index does not exist' };
     }
@@ -710,6 +1224,12 @@ export class CodeIndexer {
       return { stale: true, reason: 'No file metadata stored' };
     }
 
+    // An index built with another embedding backend or model must be rebuilt
+    const mismatchReason = await this.getVectorMismatchReason();
+    if (mismatchReason) {
+      return { stale: true, reason: mismatchReason };
+    }
+
     // Get current files
     const currentFiles = await this.getProjectFiles();
 
@@ -742,30 +1262,82 @@ export class CodeIndexer {
    * Save metadata for indexed files
    */
   private async saveFileMetadata(files: string[]): Promise<void> {
-    const metadata: Array<{ filepath: string; mtime: number }> = [];
+    // Stored hashes are only an optimization; recompute them if the table can't be read
+    const storedMetadata = await this.getStoredMetadata().catch(
+      () => new Map<string, StoredFileMetadata>()
+    );
+    const metadata: Array<{ filepath: string; mtime: number; hash: string }> = [];
     for (const filepath of files) {
       const relativePath = path.relative(this.projectPath, filepath);
       const mtime = await this.getFileMtime(filepath);
-      metadata.push({ filepath: relativePath, mtime });
+      // Reuse the stored hash when the file hasn't been touched since it was recorded
+      const stored = storedMetadata.get(relativePath);
+      const reusableHash =
+        !this.fileHashes.has(relativePath) && stored?.mtime === mtime ? stored.hash : undefined;
+      const hash = reusableHash ?? (await this.getFileHash(filepath)) ?? '';
+      metadata.push({ filepath: relativePath, mtime, hash });
     }
 
     // Drop and recreate metadata table
-    const tableNames = await this.db!.tableNames();
+    const tableNames = await this.connection.tableNames();
     if (tableNames.includes('file_metadata')) {
-      await this.db!.dropTable('file_metadata');
+      await this.connection.dropTable('file_metadata');
     }
 
     if (metadata.length > 0) {
-      this.metadataTable = await this.db!.createTable(
+      this.metadataTable = await this.connection.createTable(
         'file_metadata',
         metadata as Record<string, unknown>[]
       );
     }
   }
 
+  /**
+   * Update file metadata rows for changed files only, leaving all other rows untouched.
+   */
+  private async updateFileMetadata(changes: FileChanges): Promise<void> {
+    const tableNames = await this.connection.tableNames();
+    if (!tableNames.includes('file_metadata')) {
+      await this.saveFileMetadata([
+        ...changes.unchanged,
+        ...changes.touched,
+        ...changes.added,
+        ...changes.modified,
+      ]);
+      return;
+    }
+
+    this.metadataTable = await this.connection.openTable('file_metadata');
+    const updatedFiles = [...changes.added, ...changes.modified, ...changes.touched];
+    const removedPaths = [
+      ...changes.deleted,
+      ...[...changes.modified, ...changes.touched].map((f) => path.relative(this.projectPath, f)),
+    ];
+
+    for (const relativePath of removedPaths) {
+      await this.metadataTable.delete(`filepath = '${sanitizeForFilter(relativePath)}'`);
+    }
+
+    const metadata: Array<{ filepath: string; mtime: number; hash: string }> = [];
+    for (const filepath of updatedFiles) {
+      try {
+        const mtime = await this.getFileMtime(filepath);
+        const hash = (await this.getFileHash(filepath)) ?? '';
+        metadata.push({ filepath: path.relative(this.projectPath, filepath), mtime, hash });
+      } catch {
+        // Deleted again since it was indexed; the next scan will pick this up
+      }
+    }
+
+    if (metadata.length > 0) {
+      await this.metadataTable.add(metadata as Record<string, unknown>[]);
+    }
+  }
+
   async getStatus(): Promise<IndexStatus> {
     const tableNames = await this.db?.tableNames();
     const hasTable = tableNames?.includes('code_chunks') ?? false;
+    const lockHolder = (await this.indexLock.getHolder()) ?? undefined;
 
     if (!hasTable) {
       return {
@@ -776,10 +1348,14 @@ export class CodeIndexer {
         indexPath: this.indexPath,
         embeddingBackend: this.embeddingBackend.name,
         embeddingModel: this.embeddingBackend.getModel(),
+        lockHolder,
+        embeddingUnavailableReason: this.embeddingAvailability.getUnavailableReason(),
+        indexingQueued: this.embeddingAvailability.isQueued(),
+        embeddingUsage: this.getEmbeddingUsage(),
       };
     }
 
-    this.table = await this.db!.openTable('code_chunks');
+    this.table = await this.connection.openTable('code_chunks');
     const count = await this.table.countRows();
 
     // Load persisted metadata
@@ -788,8 +1364,12 @@ export class CodeIndexer {
     // Validate index integrity
     const corruptionCheck = await this.validateIndexIntegrity(metadata, count);
 
-    // Check for backend mismatch
-    const backendMismatch = this.checkBackendMismatch(metadata);
+    // Check for backend mismatch. An unavailable backend may not be initialized yet
+    // (dimensions unknown); it is the index's own backend, so there is nothing to compare.
+    const embeddingUnavailableReason = this.embeddingAvailability.getUnavailableReason();
+    const backendMismatch = embeddingUnavailableReason
+      ? { mismatch: false }
+      : this.checkBackendMismatch(metadata);
 
     return {
       indexed: true,
@@ -804,6 +1384,10 @@ export class CodeIndexer {
       backendMismatch: backendMismatch.mismatch,
       backendMismatchReason: backendMismatch.reason,
       chunkingStats: metadata?.chunkingStats,
+      lockHolder,
+      embeddingUnavailableReason,
+      indexingQueued: this.embeddingAvailability.isQueued(),
+      embeddingUsage: this.getEmbeddingUsage(),
     };
   }
 
@@ -851,6 +1435,16 @@ export class CodeIndexer {
       };
     }
 
+    // Check document mode mismatch (chunks embedded for another task type or prompt)
+    const indexedMode = metadata.embeddingDocumentMode ?? PLAIN_DOCUMENT_MODE;
+    const currentMode = this.embeddingBackend.getDocumentMode();
+    if (indexedMode !== currentMode) {
+      return {
+        mismatch: true,
+        reason: `Embedding document mode changed from '${indexedMode}' to '${currentMode}'. Reindex required.`,
+      };
+    }
+
     return { mismatch: false };
   }
 
@@ -896,6 +1490,10 @@ export class CodeIndexer {
     return { corrupted: false };
   }
 
+  /**
+   * Index the project, incrementally when possible.
+   * Holds the index lock for the whole run; if another process holds it, waits for it to finish.
+   */
   async indexCodebase(
     patterns?: string[],
     excludePatterns?: string[],
@@ -907,6 +1505,25 @@ export class CodeIndexer {
     chunksCreated: number;
     incremental: boolean;
     repaired?: boolean;
+  }> {
+    return this.withEmbeddingBackend(forceReindex, () =>
+      this.indexLock.withLock('indexing', () =>
+        this.runIndexCodebase(patterns, excludePatterns, forceReindex, onProgress, autoRepair)
+      )
+    );
+  }
+
+  private async runIndexCodebase(
+    patterns: string[] | undefined,
+    excludePatterns: string[] | undefined,
+    forceReindex: boolean,
+    onProgress: ProgressCallback | undefined,
+    autoRepair: boolean
+  ): Promise<{
+    filesIndexed: number;
+    chunksCreated: number;
+    incremental: boolean;
+    repaired?: boolean;
   }> {
     const { glob } = await import('glob');
 
@@ -918,8 +1535,9 @@ export class CodeIndexer {
     // Clear query result cache since index is being updated
     this.clearQueryResultCache();
 
-    // Reset chunking stats for this indexing run
+    // Reset chunking stats and file hashes for this indexing run
     this.currentChunkingStats = this.createEmptyChunkingStats();
+    this.fileHashes.clear();
 
     // Check for corruption if autoRepair is enabled
     if (autoRepair) {
@@ -941,10 +1559,12 @@ export class CodeIndexer {
         // Validate checkpoint is compatible with current backend
         const currentBackend = this.embeddingBackend.name;
         const currentModel = this.embeddingBackend.getModel();
+        const checkpointMode = checkpoint.embeddingDocumentMode ?? PLAIN_DOCUMENT_MODE;
 
         if (
           checkpoint.embeddingBackend !== currentBackend ||
-          checkpoint.embeddingModel !== currentModel
+          checkpoint.embeddingModel !== currentModel ||
+          checkpointMode !== this.embeddingBackend.getDocumentMode()
         ) {
           console.error(
             `[glancey] Checkpoint uses different embedding backend/model ` +
@@ -978,16 +1598,23 @@ export class CodeIndexer {
     report({ phase: 'scanning', current: 0, total: 0, message: 'Scanning for files...' });
 
     // Find all matching files
-    const files: string[] = [];
+    const matchedFiles: string[] = [];
     for (const pattern of effectivePatterns) {
       const matches = await glob(pattern, {
         cwd: this.projectPath,
         ignore: effectiveExcludePatterns,
         absolute: true,
       });
-      files.push(...matches);
+      matchedFiles.push(...matches);
     }
 
+    // Drop anything excluded by .gitignore, .git/info/exclude or .glanceyignore,
+    // re-reading them in case one changed
+    IgnoreRules.invalidate(this.projectPath);
+    const ignoreRules = await IgnoreRules.load(this.projectPath, effectiveExcludePatterns);
+    this.ignoreRules = ignoreRules;
+    const files = ignoreRules.filter(matchedFiles);
+
     report({
       phase: 'scanning',
       current: files.length,
@@ -996,34 +1623,12 @@ export class CodeIndexer {
     });
 
     // Check if we can do incremental indexing
-    const tableNames = await this.db!.tableNames();
+    const tableNames = await this.connection.tableNames();
     const hasExistingIndex = tableNames.includes('code_chunks');
 
-    // Check for embedding dimension or model mismatch
-    let embeddingMismatch = false;
-    if (hasExistingIndex && !forceReindex) {
-      const metadata = await this.loadIndexMetadata();
-      const currentDimensions = this.embeddingBackend.getDimensions();
-      const currentModel = this.embeddingBackend.getModel();
-
-      // Check dimension mismatch
-      if (metadata?.embeddingDimensions && metadata.embeddingDimensions !== currentDimensions) {
-        console.error(
-          `[glancey] Embedding dimension mismatch: index has ${metadata.embeddingDimensions}, ` +
-            `current backend (${this.embeddingBackend.name}) uses ${currentDimensions}. Forcing full reindex.`
-        );
-        embeddingMismatch = true;
-      }
-
-      // Check model mismatch (even if dimensions match, different models produce incompatible embeddings)
-      if (metadata?.embeddingModel && metadata.embeddingModel !== currentModel) {
-        console.error(
-          `[glancey] Embedding model mismatch: index uses '${metadata.embeddingModel}', ` +
-            `current backend uses '${currentModel}'. Forcing full reindex.`
-        );
-        embeddingMismatch = true;
-      }
-    }
+    // Check for embedding dimension, model or layout mismatch
+    const embeddingMismatch =
+      hasExistingIndex && !forceReindex && (await this.isIndexIncompatible());
 
     const canDoIncremental = hasExistingIndex && !forceReindex && !embeddingMismatch;
 
@@ -1035,6 +1640,66 @@ export class CodeIndexer {
     return this.indexFull(files, onProgress);
   }
 
+  /**
+   * Check whether the stored index was built with a different embedding backend, model,
+   * document mode or table layout, in which case it must be rebuilt rather than updated
+   * incrementally.
+   */
+  private async isIndexIncompatible(): Promise<boolean> {
+    let incompatible = false;
+    const metadata = await this.loadIndexMetadata();
+    const currentDimensions = this.embeddingBackend.getDimensions();
+    const currentModel = this.embeddingBackend.getModel();
+
+    // Check dimension mismatch
+    if (metadata?.embeddingDimensions && metadata.embeddingDimensions !== currentDimensions) {
+      console.error(
+        `[glancey] Embedding dimension mismatch: index has ${metadata.embeddingDimensions}, ` +
+          `current backend (${this.embeddingBackend.name}) uses ${currentDimensions}. Forcing full reindex.`
+      );
+      incompatible = true;
+    }
+
+    // Check model mismatch (even if dimensions match, different models produce incompatible embeddings)
+    if (metadata?.embeddingModel && metadata.embeddingModel !== currentModel) {
+      console.error(
+        `[glancey] Embedding model mismatch: index uses '${metadata.embeddingModel}', ` +
+          `current backend uses '${currentModel}'. Forcing full reindex.`
+      );
+      incompatible = true;
+    }
+
+    // Check backend mismatch (another backend's vectors differ even with the same dimensions)
+    if (metadata?.embeddingBackend && metadata.embeddingBackend !== this.embeddingBackend.name) {
+      console.error(
+        `[glancey] Embedding backend mismatch: index uses '${metadata.embeddingBackend}', ` +
+          `current backend is '${this.embeddingBackend.name}'. Forcing full reindex.`
+      );
+      incompatible = true;
+    }
+
+    // Check document mode mismatch (stored chunks would not match query embeddings)
+    const indexedMode = metadata?.embeddingDocumentMode ?? PLAIN_DOCUMENT_MODE;
+    const currentMode = this.embeddingBackend.getDocumentMode();
+    if (metadata && indexedMode !== currentMode) {
+      console.error(
+        `[glancey] Embedding document mode mismatch: index uses '${indexedMode}', ` +
+          `current backend uses '${currentMode}'. Forcing full reindex.`
+      );
+      incompatible = true;
+    }
+
+    // Check table layout version (older indexes lack columns that incremental adds write)
+    if (metadata?.version && metadata.version !== INDEX_VERSION) {
+      console.error(
+        `[glancey] Index version ${metadata.version} is outdated (current: ${INDEX_VERSION}). Forcing full reindex.`
+      );
+      incompatible = true;
+    }
+
+    return incompatible;
+  }
+
   /**
    * Perform a full reindex of all files
    */
@@ -1085,6 +1750,7 @@ export class CodeIndexer {
       pendingChunks: allChunks,
       embeddingBackend: this.embeddingBackend.name,
       embeddingModel: this.embeddingBackend.getModel(),
+      embeddingDocumentMode: this.embeddingBackend.getDocumentMode(),
     });
 
     // Generate embeddings in batches
@@ -1100,28 +1766,22 @@ export class CodeIndexer {
         embeddedChunks: allChunks,
         embeddingBackend: this.embeddingBackend.name,
         embeddingModel: this.embeddingBackend.getModel(),
+        embeddingDocumentMode: this.embeddingBackend.getDocumentMode(),
       },
       { blocking: true }
     );
 
     // Store in LanceDB
-    const data = allChunks.map((chunk) => ({
-      id: chunk.id,
-      filepath: chunk.filepath,
-      content: chunk.content,
-      startLine: chunk.startLine,
-      endLine: chunk.endLine,
-      language: chunk.language,
-      vector: chunk.embedding,
-    }));
+    const data = allChunks.map(chunkToRow);
 
     // Drop existing table if exists
-    const tableNames = await this.db!.tableNames();
+    const tableNames = await this.connection.tableNames();
     if (tableNames.includes('code_chunks')) {
-      await this.db!.dropTable('code_chunks');
+      await this.connection.dropTable('code_chunks');
     }
 
-    this.table = await this.db!.createTable('code_chunks', data);
+    this.table = await this.connection.createTable('code_chunks', data);
+    this.keywordIndex = null;
 
     // Save file metadata for future incremental indexing
     await this.saveFileMetadata(files);
@@ -1148,10 +1808,12 @@ export class CodeIndexer {
   private logChunkingStats(): void {
     const stats = this.currentChunkingStats;
     const totalFallbacks = stats.astFallbacks.length + stats.treeSitterFallbacks.length;
-    const totalFiles = stats.astChunked + stats.treeSitterChunked + stats.lineBasedChunked;
+    const totalFiles =
+      stats.astChunked + stats.treeSitterChunked + stats.documentChunked + stats.lineBasedChunked;
 
+    // Document fallbacks are expected (a JSON array has no keys) and are not warned about
     console.error(
-      `[glancey] Chunking: ${stats.astChunked} AST, ${stats.treeSitterChunked} tree-sitter, ${stats.lineBasedChunked} line-based`
+      `[glancey] Chunking: ${stats.astChunked} AST, ${stats.treeSitterChunked} tree-sitter, ${stats.documentChunked} Markdown/JSON/YAML/notebook, ${stats.lineBasedChunked} line-based`
     );
 
     if (totalFallbacks > 0) {
@@ -1176,20 +1838,153 @@ export class CodeIndexer {
     }
   }
 
+  /**
+   * Incrementally index specific changed paths (e.g. from a file watcher) without scanning the project.
+   * Paths that no longer exist, or no longer match the configured patterns, are removed from the index.
+   * Falls back to indexCodebase() when there is no usable index or ignore rules changed.
+   *
+   * @param filepaths - Absolute paths of changed files or directories
+   */
+  async indexFiles(
+    filepaths: string[],
+    onProgress?: ProgressCallback
+  ): Promise<{ filesIndexed: number; chunksCreated: number; incremental: boolean }> {
+    return this.withEmbeddingBackend(false, () =>
+      this.indexLock.withLock('indexing', () => this.runIndexFiles(filepaths, onProgress))
+    );
+  }
+
+  private async runIndexFiles(
+    filepaths: string[],
+    onProgress: ProgressCallback | undefined
+  ): Promise<{ filesIndexed: number; chunksCreated: number; incremental: boolean }> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const tableNames = await this.connection.tableNames();
+    // A full index re-reads the ignore files, so changed rules apply to every file
+    const ignoreFileChanged = filepaths.some(isIgnoreFile);
+    if (
+      !tableNames.includes('code_chunks') ||
+      !tableNames.includes('file_metadata') ||
+      ignoreFileChanged ||
+      (await this.isIndexIncompatible())
+    ) {
+      return this.indexCodebase(undefined, undefined, false, onProgress);
+    }
+
+    this.clearQueryResultCache();
+    this.currentChunkingStats = this.createEmptyChunkingStats();
+    this.fileHashes.clear();
+
+    const ignoreRules = (this.ignoreRules ??= await IgnoreRules.load(
+      this.projectPath,
+      this.config?.excludePatterns || getDefaultExcludePatterns()
+    ));
+    const storedMetadata = await this.getStoredMetadata();
+    const changes: FileChanges = {
+      added: [],
+      modified: [],
+      deleted: [],
+      unchanged: [],
+      touched: [],
+    };
+    const changedPaths = new Set<string>();
+
+    for (const filepath of new Set(filepaths)) {
+      const relativePath = path.relative(this.projectPath, filepath);
+      if (!relativePath || relativePath.startsWith('..') || changedPaths.has(relativePath)) {
+        continue;
+      }
+      changedPaths.add(relativePath);
+
+      let isFile = false;
+      try {
+        isFile = (await fs.stat(filepath)).isFile();
+      } catch {
+        // Deleted
+      }
+
+      const indexable =
+        isFile && this.isIndexablePath(relativePath) && !ignoreRules.isIgnored(relativePath);
+      if (indexable) {
+        await this.classifyFile(filepath, storedMetadata.get(relativePath), changes);
+        continue;
+      }
+
+      // A removed or renamed directory only reports itself, so drop everything indexed below it
+      const prefix = `${relativePath}${path.sep}`;
+      for (const storedPath of storedMetadata.keys()) {
+        if (
+          storedPath === relativePath ||
+          (storedPath.startsWith(prefix) && !changedPaths.has(storedPath))
+        ) {
+          changedPaths.add(storedPath);
+          changes.deleted.push(storedPath);
+        }
+      }
+    }
+
+    for (const relativePath of storedMetadata.keys()) {
+      if (!changedPaths.has(relativePath)) {
+        changes.unchanged.push(path.join(this.projectPath, relativePath));
+      }
+    }
+
+    return this.applyFileChanges(changes, 'changed', onProgress);
+  }
+
+  /**
+   * Check whether a project-relative path matches the configured include and exclude patterns.
+   * Does not consult ignore files.
+   */
+  isIndexablePath(relativePath: string): boolean {
+    const patterns = this.config?.patterns || getDefaultPatterns();
+    const excludePatterns = this.config?.excludePatterns || getDefaultExcludePatterns();
+    const posixPath = relativePath.split(path.sep).join('/');
+
+    return (
+      patterns.some((pattern) => minimatch(posixPath, pattern)) &&
+      !excludePatterns.some((pattern) => minimatch(posixPath, pattern))
+    );
+  }
+
+  /**
+   * Tell the indexer whether a file watcher is keeping it up to date.
+   * While watching, searches skip the per-query stale check (search.autoReindex).
+   */
+  setWatching(watching: boolean): void {
+    this.watching = watching;
+  }
+
   /**
    * Perform incremental indexing - only process changed files
    */
   private async indexIncremental(
     files: string[],
     onProgress?: ProgressCallback
+  ): Promise<{ filesIndexed: number; chunksCreated: number; incremental: boolean }> {
+    const changes = await this.detectFileChanges(files);
+    return this.applyFileChanges(changes, 'all', onProgress);
+  }
+
+  /**
+   * Update the index for a set of file changes.
+   *
+   * @param metadataScope - 'all' rewrites file metadata for every current file,
+   *   'changed' only updates rows of added, modified, touched and deleted files
+   */
+  private async applyFileChanges(
+    changes: FileChanges,
+    metadataScope: 'all' | 'changed',
+    onProgress?: ProgressCallback
   ): Promise<{ filesIndexed: number; chunksCreated: number; incremental: boolean }> {
     const report = (progress: IndexProgress) => {
       console.error(`[glancey] ${progress.message}`);
       onProgress?.(progress);
     };
 
-    const changes = await this.detectFileChanges(files);
-
     const filesToProcess = [...changes.added, ...changes.modified];
     const hasChanges = filesToProcess.length > 0 || changes.deleted.length > 0;
 
@@ -1200,7 +1995,15 @@ export class CodeIndexer {
         total: 0,
         message: 'No changes detected, index is up to date',
       });
-      this.table = await this.db!.openTable('code_chunks');
+      // Record new mtimes for touched files so their content isn't re-hashed next time
+      if (changes.touched.length > 0) {
+        if (metadataScope === 'changed') {
+          await this.updateFileMetadata(changes);
+        } else {
+          await this.saveFileMetadata([...changes.unchanged, ...changes.touched]);
+        }
+      }
+      this.table = await this.connection.openTable('code_chunks');
       const count = await this.table.countRows();
       return {
         filesIndexed: 0,
@@ -1217,24 +2020,12 @@ export class CodeIndexer {
     });
 
     // Open the existing table
-    this.table = await this.db!.openTable('code_chunks');
+    this.table = await this.connection.openTable('code_chunks');
 
-    // Delete chunks from modified and deleted files
-    const filesToRemove = [
-      ...changes.modified.map((f) => path.relative(this.projectPath, f)),
-      ...changes.deleted,
-    ];
-    if (filesToRemove.length > 0) {
-      for (const relativePath of filesToRemove) {
-        const sanitizedPath = sanitizeForFilter(relativePath);
-        await this.table.delete(`filepath = '${sanitizedPath}'`);
-      }
-      report({
-        phase: 'chunking',
-        current: 0,
-        total: filesToProcess.length,
-        message: `Removed chunks from ${filesToRemove.length} files`,
-      });
+    // Delete chunks from deleted files
+    for (const relativePath of changes.deleted) {
+      const sanitizedPath = sanitizeForFilter(relativePath);
+      await this.table.delete(`filepath = '${sanitizedPath}'`);
     }
 
     // Process new and modified files (parallelized for I/O efficiency)
@@ -1253,37 +2044,46 @@ export class CodeIndexer {
         }
       );
 
-      const newChunks = chunkResults.flat();
+      // Only chunks whose content changed need embedding; the rest keep their stored rows
+      const storedChunks = await this.getStoredChunkRefs(
+        changes.modified.map((f) => path.relative(this.projectPath, f))
+      );
+      const diff = diffChunks(storedChunks, chunkResults.flat());
 
       report({
         phase: 'chunking',
         current: filesToProcess.length,
         total: filesToProcess.length,
-        message: `Created ${newChunks.length} new chunks`,
+        message: `Created ${diff.added.length} new chunks (${diff.unchanged} unchanged, ${diff.removedIds.length} removed)`,
       });
 
+      await this.deleteChunksByIds(diff.removedIds);
+      await this.shiftChunkLines(diff.movedIdsByOffset);
+
       // Generate embeddings
-      await this.embedChunks(newChunks, onProgress);
+      await this.embedChunks(diff.added, onProgress);
 
       // Add new chunks to the table
-      const data = newChunks.map((chunk) => ({
-        id: chunk.id,
-        filepath: chunk.filepath,
-        content: chunk.content,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        language: chunk.language,
-        vector: chunk.embedding,
-      }));
+      const data = diff.added.map(chunkToRow);
 
       if (data.length > 0) {
         await this.table.add(data);
       }
     }
+    this.keywordIndex = null;
 
     // Update file metadata
-    const allCurrentFiles = [...changes.unchanged, ...changes.added, ...changes.modified];
-    await this.saveFileMetadata(allCurrentFiles);
+    const allCurrentFiles = [
+      ...changes.unchanged,
+      ...changes.touched,
+      ...changes.added,
+      ...changes.modified,
+    ];
+    if (metadataScope === 'changed') {
+      await this.updateFileMetadata(changes);
+    } else {
+      await this.saveFileMetadata(allCurrentFiles);
+    }
 
     const totalChunks = await this.table.countRows();
 
@@ -1300,6 +2100,73 @@ export class CodeIndexer {
     };
   }
 
+  /**
+   * Get the ID, position and content hash of every stored chunk of the given files.
+   */
+  private async getStoredChunkRefs(relativePaths: string[]): Promise<StoredChunkRef[]> {
+    const refs: StoredChunkRef[] = [];
+
+    for (let i = 0; i < relativePaths.length; i += CHUNK_FILTER_BATCH_SIZE) {
+      const batch = relativePaths.slice(i, i + CHUNK_FILTER_BATCH_SIZE);
+      const requested = new Set(batch);
+      const pathList = batch.map((p) => `'${sanitizeForFilter(p)}'`).join(', ');
+      const rows = await this.chunksTable
+        .query()
+        .where(`filepath IN (${pathList})`)
+        .select(['id', 'filepath', 'startLine', 'contentHash', 'cellIndex'])
+        .toArray();
+
+      for (const row of rows) {
+        if (requested.has(row.filepath)) {
+          refs.push({
+            id: row.id,
+            startLine: row.startLine,
+            contentHash: row.contentHash || '',
+            cellIndex: row.cellIndex ?? -1,
+          });
+        }
+      }
+    }
+
+    return refs;
+  }
+
+  /**
+   * Delete stored chunks by ID.
+   */
+  private async deleteChunksByIds(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += CHUNK_FILTER_BATCH_SIZE) {
+      const idList = ids
+        .slice(i, i + CHUNK_FILTER_BATCH_SIZE)
+        .map((id) => `'${sanitizeForFilter(id)}'`)
+        .join(', ');
+      await this.chunksTable.delete(`id IN (${idList})`);
+    }
+  }
+
+  /**
+   * Move unchanged chunks to their new line ranges without re-embedding them.
+   *
+   * @param idsByOffset - Chunk IDs grouped by the number of lines they moved
+   */
+  private async shiftChunkLines(idsByOffset: Map<number, string[]>): Promise<void> {
+    for (const [offset, ids] of idsByOffset) {
+      for (let i = 0; i < ids.length; i += CHUNK_FILTER_BATCH_SIZE) {
+        const idList = ids
+          .slice(i, i + CHUNK_FILTER_BATCH_SIZE)
+          .map((id) => `'${sanitizeForFilter(id)}'`)
+          .join(', ');
+        await this.chunksTable.update({
+          where: `id IN (${idList})`,
+          valuesSql: {
+            startLine: `\`startLine\` + ${offset}`,
+            endLine: `\`endLine\` + ${offset}`,
+          },
+        });
+      }
+    }
+  }
+
   /**
    * Resume indexing from a saved checkpoint.
    * Handles each checkpoint phase appropriately.
@@ -1362,6 +2229,7 @@ export class CodeIndexer {
             embeddedChunks: allChunks,
             embeddingBackend: this.embeddingBackend.name,
             embeddingModel: this.embeddingBackend.getModel(),
+            embeddingDocumentMode: this.embeddingBackend.getDocumentMode(),
             fileMtimes: checkpoint.fileMtimes,
           },
           { blocking: true }
@@ -1414,23 +2282,16 @@ export class CodeIndexer {
       message: 'Storing chunks in database...',
     });
 
-    const data = allChunks.map((chunk) => ({
-      id: chunk.id,
-      filepath: chunk.filepath,
-      content: chunk.content,
-      startLine: chunk.startLine,
-      endLine: chunk.endLine,
-      language: chunk.language,
-      vector: chunk.embedding,
-    }));
+    const data = allChunks.map(chunkToRow);
 
     // Drop existing table if exists
-    const tableNames = await this.db!.tableNames();
+    const tableNames = await this.connection.tableNames();
     if (tableNames.includes('code_chunks')) {
-      await this.db!.dropTable('code_chunks');
+      await this.connection.dropTable('code_chunks');
     }
 
-    this.table = await this.db!.createTable('code_chunks', data);
+    this.table = await this.connection.createTable('code_chunks', data);
+    this.keywordIndex = null;
 
     // Save file metadata for future incremental indexing
     await this.saveFileMetadata(checkpoint.files);
@@ -1455,8 +2316,25 @@ export class CodeIndexer {
     };
   }
 
+  /**
+   * Get the persistent embedding cache for the current embedding backend.
+   */
+  private getEmbeddingCache(): EmbeddingCache {
+    if (!this.embeddingCache) {
+      this.embeddingCache = new EmbeddingCache(this.connection, {
+        backend: this.embeddingBackend.name,
+        model: this.embeddingBackend.getModel(),
+        dimensions: this.embeddingBackend.getDimensions(),
+        documentMode: this.embeddingBackend.getDocumentMode(),
+      });
+    }
+    return this.embeddingCache;
+  }
+
   /**
    * Generate embeddings for chunks in batches.
+   * Chunks whose content is already in the embedding cache are not re-embedded,
+   * and identical chunks are embedded once.
    * Supports configurable batch size and delay between batches for rate limiting.
    */
   private async embedChunks(chunks: CodeChunk[], onProgress?: ProgressCallback): Promise<void> {
@@ -1471,6 +2349,39 @@ export class CodeIndexer {
       : { batchSize: 200, batchDelayMs: 0 };
     const { batchDelayMs } = indexingConfig;
 
+    // Group chunks by content hash so each distinct text is embedded at most once
+    const chunksByHash = new Map<string, CodeChunk[]>();
+    for (const chunk of chunks) {
+      chunk.contentHash ??= hashContent(chunk.content);
+      const group = chunksByHash.get(chunk.contentHash);
+      if (group) {
+        group.push(chunk);
+      } else {
+        chunksByHash.set(chunk.contentHash, [chunk]);
+      }
+    }
+
+    const embeddingCache = this.getEmbeddingCache();
+    const cached = await embeddingCache.getMany(Array.from(chunksByHash.keys()));
+    // Content hashes still to embed, with the chunks sharing each
+    const pending: Array<[string, CodeChunk[]]> = [];
+    for (const [hash, group] of chunksByHash) {
+      const embedding = cached.get(hash);
+      if (embedding) {
+        for (const chunk of group) {
+          chunk.embedding = embedding;
+        }
+      } else {
+        pending.push([hash, group]);
+      }
+    }
+
+    if (cached.size > 0) {
+      const cacheMsg = `Reusing ${cached.size} cached embeddings (${pending.length} chunks to embed)`;
+      console.error(`[glancey] ${cacheMsg}`);
+      broadcastLog('info', cacheMsg);
+    }
+
     // Use batch size of 2000 to balance parallelization with progress visibility
     // The embedding backend will split into smaller batches and process in parallel
     // With Ollama defaults (batchSize=100, concurrency=100), 2000 = 20 batches = 1 parallel round
@@ -1483,46 +2394,72 @@ export class CodeIndexer {
     report({
       phase: 'embedding',
       current: 0,
-      total: chunks.length,
-      message: `Starting embedding of ${chunks.length} chunks...`,
+      total: pending.length,
+      message: `Starting embedding of ${pending.length} chunks...`,
     });
 
-    for (let i = 0; i < chunks.length; i += embeddingBatchSize) {
-      const batch = chunks.slice(i, i + embeddingBatchSize);
-      const texts = batch.map((c) => c.content);
-      const batchMsg = `Sending ${texts.length} texts to embedding backend (batch ${Math.floor(i / embeddingBatchSize) + 1}/${Math.ceil(chunks.length / embeddingBatchSize)})...`;
+    for (let i = 0; i < pending.length; i += embeddingBatchSize) {
+      const batch = pending.slice(i, i + embeddingBatchSize);
+      const texts = batch.map(([, group]) => group[0].content);
+      const batchMsg = `Sending ${texts.length} texts to embedding backend (batch ${Math.floor(i / embeddingBatchSize) + 1}/${Math.ceil(pending.length / embeddingBatchSize)})...`;
       console.error(`[glancey] ${batchMsg}`);
       broadcastLog('info', batchMsg);
-      const embeddings = await this.embeddingBackend.embedBatch(texts);
-      batch.forEach((chunk, idx) => {
-        chunk.embedding = embeddings[idx];
+      let embeddings: number[][];
+      try {
+        embeddings = await this.embeddingBackend.embedBatch(texts);
+      } catch (error) {
+        throw wrapError('Failed to embed chunks', 'embedding', error, {
+          backend: this.embeddingBackend.name,
+        });
+      }
+      batch.forEach(([, group], idx) => {
+        for (const chunk of group) {
+          chunk.embedding = embeddings[idx];
+        }
       });
 
+      // Persist right away so an interrupted run keeps what it already paid for
+      await embeddingCache.putMany(
+        batch.map(([hash], idx) => ({ hash, embedding: embeddings[idx] }))
+      );
+
       processedChunks = i + batch.length;
       const elapsedMs = Date.now() - startTime;
       const chunksPerMs = processedChunks / elapsedMs;
-      const remainingChunks = chunks.length - processedChunks;
+      const remainingChunks = pending.length - processedChunks;
       const etaSeconds =
         chunksPerMs > 0 ? Math.round(remainingChunks / chunksPerMs / 1000) : undefined;
 
       report({
         phase: 'embedding',
         current: processedChunks,
-        total: chunks.length,
-        message: `Embedded ${processedChunks}/${chunks.length} chunks`,
+        total: pending.length,
+        message: `Embedded ${processedChunks}/${pending.length} chunks`,
         etaSeconds,
       });
 
       // Apply rate limiting delay between batches (if configured and not the last batch)
-      if (batchDelayMs > 0 && i + embeddingBatchSize < chunks.length) {
+      if (batchDelayMs > 0 && i + embeddingBatchSize < pending.length) {
         await new Promise((resolve) => setTimeout(resolve, batchDelayMs));
       }
     }
   }
 
+  /**
+   * Chunk a file and record content hashes for the file and each chunk.
+   */
   private async chunkFile(filepath: string): Promise<CodeChunk[]> {
+    const chunks = await this.createChunks(filepath);
+    for (const chunk of chunks) {
+      chunk.contentHash ??= hashContent(chunk.content);
+    }
+    await this.getFileHash(filepath);
+    return chunks;
+  }
+
+  private async createChunks(filepath: string): Promise<CodeChunk[]> {
     const ext = path.extname(filepath).slice(1);
-    const language = this.getLanguage(ext);
+    const language = this.getLanguage(ext, filepath);
     const relativePath = path.relative(this.projectPath, filepath);
 
     // Try AST-aware chunking for TypeScript/JavaScript
@@ -1540,8 +2477,8 @@ export class CodeIndexer {
       }
     }
 
-    // Try tree-sitter chunking for other languages (Python, Go, Rust, Java, Kotlin)
-    if (TreeSitterChunker.canParse(filepath)) {
+    // Try tree-sitter chunking for other languages (built-in grammars and configured `languages`)
+    if (TreeSitterChunker.canParse(filepath, this.languages)) {
       try {
         const chunks = await this.chunkFileWithTreeSitter(filepath, relativePath, language);
         this.currentChunkingStats.treeSitterChunked++;
@@ -1556,6 +2493,39 @@ export class CodeIndexer {
       }
     }
 
+    // Vue, Svelte and Astro components: script blocks via the AST chunker, plus template and styles
+    if (SFCChunker.canParse(filepath)) {
+      try {
+        const chunks = await new SFCChunker().chunkFile(filepath);
+        this.currentChunkingStats.astChunked++;
+        return this.toSymbolChunks(chunks, relativePath, language);
+      } catch {
+        console.error(
+          `[glancey] AST parsing failed for ${relativePath}, falling back to line-based chunking`
+        );
+        this.currentChunkingStats.astFallbacks.push(relativePath);
+      }
+    }
+
+    // Heading-aware chunking for Markdown, key-based chunking for JSON/YAML, cells for notebooks
+    const documentChunker = MarkdownChunker.canParse(filepath)
+      ? new MarkdownChunker()
+      : DataChunker.canParse(filepath)
+        ? new DataChunker()
+        : NotebookChunker.canParse(filepath)
+          ? new NotebookChunker(this.languages)
+          : null;
+    if (documentChunker) {
+      try {
+        const chunks = await documentChunker.chunkFile(filepath);
+        this.currentChunkingStats.documentChunked++;
+        return this.toSymbolChunks(chunks, relativePath, language);
+      } catch {
+        // Fall back to line-based chunking (e.g. a JSON array or a YAML list at the root)
+        this.currentChunkingStats.documentFallbacks.push(relativePath);
+      }
+    }
+
     // Line-based chunking for unsupported languages or as fallback
     this.currentChunkingStats.lineBasedChunked++;
     return this.chunkFileByLines(filepath, relativePath, language);
@@ -1572,38 +2542,46 @@ export class CodeIndexer {
     const astChunker = new ASTChunker();
     const astChunks = await astChunker.chunkFile(filepath);
 
-    return astChunks.map((chunk) => ({
-      id: `${relativePath}:${chunk.startLine}-${chunk.endLine}${chunk.name ? `:${chunk.name}` : ''}`,
-      filepath: relativePath,
-      content: chunk.content,
-      startLine: chunk.startLine,
-      endLine: chunk.endLine,
-      language,
-      symbolType: chunk.type,
-      symbolName: chunk.name,
-    }));
+    return this.toSymbolChunks(astChunks, relativePath, language);
   }
 
   /**
-   * Chunk a file using tree-sitter AST parsing (Python, Go, Rust, Java, Kotlin)
+   * Chunk a file using tree-sitter AST parsing (Python, Go, Rust, Java, Ruby, C/C++, C#, PHP,
+   * and languages registered in the config)
    */
   private async chunkFileWithTreeSitter(
     filepath: string,
     relativePath: string,
     language: string
   ): Promise<CodeChunk[]> {
-    const treeSitterChunker = new TreeSitterChunker();
+    const treeSitterChunker = new TreeSitterChunker(this.languages);
     const treeSitterChunks = await treeSitterChunker.chunkFile(filepath);
 
-    return treeSitterChunks.map((chunk) => ({
-      id: `${relativePath}:${chunk.startLine}-${chunk.endLine}${chunk.name ? `:${chunk.name}` : ''}`,
+    return this.toSymbolChunks(treeSitterChunks, relativePath, language);
+  }
+
+  /**
+   * Convert parser chunks to code chunks with symbol-anchored IDs
+   */
+  private toSymbolChunks(
+    chunks: Array<BaseChunk & { cellIndex?: number; language?: string }>,
+    relativePath: string,
+    language: string
+  ): CodeChunk[] {
+    const hashed = chunks.map((chunk) => ({ ...chunk, contentHash: hashContent(chunk.content) }));
+    const ids = createSymbolChunkIds(relativePath, hashed);
+
+    return hashed.map((chunk, index) => ({
+      id: ids[index],
       filepath: relativePath,
       content: chunk.content,
       startLine: chunk.startLine,
       endLine: chunk.endLine,
-      language,
+      language: chunk.language ?? language,
       symbolType: chunk.type,
       symbolName: chunk.name,
+      contentHash: chunk.contentHash,
+      cellIndex: chunk.cellIndex,
     }));
   }
 
@@ -1641,7 +2619,7 @@ export class CodeIndexer {
     return chunks;
   }
 
-  private getLanguage(ext: string): string {
+  private getLanguage(ext: string, filepath: string): string {
     const langMap: Record<string, string> = {
       ts: 'typescript',
       tsx: 'typescript',
@@ -1655,21 +2633,30 @@ export class CodeIndexer {
       php: 'php',
       c: 'c',
       cpp: 'cpp',
+      cc: 'cpp',
+      cxx: 'cpp',
       h: 'c',
       hpp: 'cpp',
+      hh: 'cpp',
+      hxx: 'cpp',
       cs: 'csharp',
       swift: 'swift',
       kt: 'kotlin',
+      vue: 'vue',
+      svelte: 'svelte',
+      astro: 'astro',
       md: 'markdown',
+      ipynb: 'jupyter',
       json: 'json',
       yaml: 'yaml',
       yml: 'yaml',
     };
-    return langMap[ext] || ext;
+    return langMap[ext] || this.languages.forFile(filepath)?.name || ext;
   }
 
   /**
    * Get query embedding from cache or compute it.
+   * Queries are embedded in the backend's query mode, unlike indexed chunks.
    * Uses TTLCache for LRU eviction and TTL-based expiration.
    */
   private async getQueryEmbedding(query: string): Promise<number[]> {
@@ -1680,7 +2667,8 @@ export class CodeIndexer {
     }
 
     // Compute embedding and cache it
-    const embedding = await this.embeddingBackend.embed(query);
+    await this.requireEmbeddingBackend();
+    const embedding = await this.embeddingBackend.embedQuery(query);
     this.queryEmbeddingCache.set(query, embedding);
     return embedding;
   }
@@ -1710,7 +2698,7 @@ export class CodeIndexer {
   private findCachedQueryResult(
     queryEmbedding: number[],
     options: CachedQueryResult['options']
-  ): CodeChunk[] | null {
+  ): ExplainedSearchResults | null {
     const now = Date.now();
 
     // Clean up expired entries
@@ -1738,7 +2726,7 @@ export class CodeIndexer {
    */
   private cacheQueryResult(
     queryEmbedding: number[],
-    results: CodeChunk[],
+    results: ExplainedSearchResults,
     options: CachedQueryResult['options']
   ): void {
     // Enforce max cache size by removing oldest entries
@@ -1790,6 +2778,15 @@ export class CodeIndexer {
         ? { query: queryOrOptions, limit: limit ?? 10 }
         : queryOrOptions;
 
+    const { results } = await this.explainSearch(options);
+    return results.map((r) => r.chunk);
+  }
+
+  /**
+   * Search and return each result's score breakdown along with query-level details
+   * (fusion method, weights, filters, cache use). Used by search_code's explain mode.
+   */
+  async explainSearch(options: SearchOptions): Promise<ExplainedSearchResults> {
     const { query, limit: resultLimit = 10, pathPattern, languages } = options;
 
     if (!this.table) {
@@ -1801,21 +2798,53 @@ export class CodeIndexer {
 
     // Check for stale index and auto-reindex if configured
     const searchConfig = getSearchConfig(this.config!);
-    if (searchConfig.autoReindex) {
+    // While another process is building the index, serve read-only results.
+    // Reindexing also waits while the embedding backend is unavailable (it is queued).
+    if (
+      searchConfig.autoReindex &&
+      !this.watching &&
+      !this.embeddingAvailability.getUnavailableReason() &&
+      !this.indexLock.isHeld &&
+      !(await this.indexLock.getHolder())
+    ) {
       const staleCheck = await this.checkIfStale();
       if (staleCheck.stale) {
         // Perform incremental reindex (indexCodebase auto-detects changes)
-        await this.indexCodebase();
+        try {
+          await this.indexCodebase();
+        } catch (error) {
+          // The embedding backend failed: the reindex is queued, search the current index
+          if (!(error instanceof GlanceyError) || error.category !== 'embedding') {
+            throw error;
+          }
+        }
       }
     }
 
-    const queryEmbedding = await this.getQueryEmbedding(query);
+    // Without a query embedding (backend unavailable, or an index built with another
+    // backend or model), rank by keyword matching alone
+    let queryEmbedding: number[] | null = null;
+    let keywordOnlyReason = await this.getVectorMismatchReason();
+    if (!keywordOnlyReason) {
+      try {
+        queryEmbedding = await this.getQueryEmbedding(query);
+      } catch (error) {
+        keywordOnlyReason = error instanceof Error ? error.message : String(error);
+      }
+    }
+    if (keywordOnlyReason) {
+      console.error(`[glancey] WARN: Searching by keywords only: ${keywordOnlyReason}`);
+    }
 
     // Check for cached results from a semantically similar query
     const cacheOptions = { limit: resultLimit, pathPattern, languages };
-    const cachedResults = this.findCachedQueryResult(queryEmbedding, cacheOptions);
+    const cachedResults =
+      queryEmbedding && this.findCachedQueryResult(queryEmbedding, cacheOptions);
     if (cachedResults) {
-      return cachedResults;
+      return {
+        results: cachedResults.results,
+        explanation: { ...cachedResults.explanation, fromCache: true },
+      };
     }
 
     // Fetch more results than needed for re-ranking and filtering
@@ -1823,98 +2852,175 @@ export class CodeIndexer {
     const hasFilters = pathPattern !== undefined || (languages && languages.length > 0);
     const fetchMultiplier = hasFilters ? 5 : 3;
     const fetchLimit = Math.min(resultLimit * fetchMultiplier, hasFilters ? 100 : 50);
-    const results = await this.table!.search(queryEmbedding).limit(fetchLimit).toArray();
+    const vectorRows: ChunkRow[] = queryEmbedding
+      ? await this.chunksTable.search(queryEmbedding).limit(fetchLimit).toArray()
+      : [];
+
+    // Query the BM25 index independently so exact term matches that rank low
+    // on vector similarity can still be returned
+    const keywordIndex = await this.getKeywordIndex();
+    const keywordMatches = keywordIndex.search(query, fetchLimit);
+    const maxKeywordScore = keywordMatches.length > 0 ? keywordMatches[0].score : 0;
+    const keywordRankById = new Map(keywordMatches.map((m, index) => [m.id, index + 1]));
+
+    interface Candidate {
+      chunk: CodeChunk;
+      semanticDistance: number | null;
+      semanticRank: number | null;
+    }
+
+    const candidates: Candidate[] = vectorRows.map((row, index) => ({
+      chunk: rowToChunk(row),
+      semanticDistance: typeof row._distance === 'number' ? row._distance : null,
+      semanticRank: index + 1,
+    }));
+
+    // Fetch rows for keyword matches that the vector search did not return.
+    // Their distance is computed from the stored vector so they are scored on the same scale.
+    const vectorIds = new Set(candidates.map((c) => c.chunk.id));
+    const keywordOnlyIds = keywordMatches.map((m) => m.id).filter((id) => !vectorIds.has(id));
+    const keywordOnlyRows = await this.fetchRowsByIds(keywordOnlyIds);
+    for (const row of keywordOnlyRows) {
+      const vector = row.vector ? Array.from(row.vector) : null;
+      candidates.push({
+        chunk: rowToChunk(row),
+        semanticDistance:
+          vector && queryEmbedding ? squaredL2Distance(queryEmbedding, vector) : null,
+        semanticRank: null,
+      });
+    }
 
     // Apply filters
-    let filteredResults = results;
+    let filtered = candidates;
 
     if (pathPattern) {
-      filteredResults = filteredResults.filter((r) =>
-        this.matchesPathPattern(r.filepath, pathPattern)
-      );
+      filtered = filtered.filter((c) => this.matchesPathPattern(c.chunk.filepath, pathPattern));
     }
 
     if (languages && languages.length > 0) {
       const normalizedLanguages = languages.map((l) => l.toLowerCase());
-      filteredResults = filteredResults.filter((r) =>
-        normalizedLanguages.includes(r.language.toLowerCase())
+      filtered = filtered.filter((c) =>
+        normalizedLanguages.includes(c.chunk.language.toLowerCase())
       );
     }
 
-    // Hybrid scoring: combine semantic similarity with keyword matching
-    const scoredResults = filteredResults.map((r, index) => {
-      // Semantic score: inverse of rank (higher is better)
-      const semanticScore = 1 - index / fetchLimit;
+    const fusion = searchConfig.fusion;
+
+    const scoredResults: ScoredSearchResult[] = filtered.map((c) => {
+      const keywordRank = keywordRankById.get(c.chunk.id) ?? null;
+      const keywordMatch = keywordRank !== null ? keywordMatches[keywordRank - 1] : undefined;
 
-      // Keyword score: based on query term matches
-      const keywordScore = this.calculateKeywordScore(query, r.content, r.filepath);
+      let semanticScore: number;
+      let keywordComponent: number;
+      if (fusion === 'rrf') {
+        // Weighted reciprocal rank fusion: only the position in each list matters
+        semanticScore = c.semanticRank !== null ? 1 / (RRF_K + c.semanticRank) : 0;
+        keywordComponent = keywordRank !== null ? 1 / (RRF_K + keywordRank) : 0;
+      } else {
+        // Distance-based: a weak match scores low even at the top of the vector list
+        semanticScore = c.semanticDistance !== null ? 1 / (1 + c.semanticDistance) : 0;
+        keywordComponent =
+          keywordMatch && maxKeywordScore > 0 ? keywordMatch.score / maxKeywordScore : 0;
+      }
 
-      // Combined score using configurable weights
-      const combinedScore =
-        searchConfig.semanticWeight * semanticScore + searchConfig.keywordWeight * keywordScore;
+      const exactSymbolMatch = keywordMatch?.exactSymbolMatch ?? false;
+      const symbolBoost = exactSymbolMatch ? EXACT_SYMBOL_MATCH_BOOST : 0;
+      const score =
+        searchConfig.semanticWeight * semanticScore +
+        searchConfig.keywordWeight * keywordComponent +
+        symbolBoost;
 
-      return { result: r, score: combinedScore };
+      return {
+        chunk: c.chunk,
+        breakdown: {
+          score,
+          semanticDistance: c.semanticDistance,
+          semanticScore,
+          semanticRank: c.semanticRank,
+          keywordScore: keywordMatch?.score ?? null,
+          keywordComponent,
+          keywordRank,
+          exactSymbolMatch,
+          symbolBoost,
+        },
+      };
     });
 
     // Sort by combined score and take top results
-    scoredResults.sort((a, b) => b.score - a.score);
-
-    const finalResults = scoredResults.slice(0, resultLimit).map((sr) => ({
-      id: sr.result.id,
-      filepath: sr.result.filepath,
-      content: sr.result.content,
-      startLine: sr.result.startLine,
-      endLine: sr.result.endLine,
-      language: sr.result.language,
-      symbolType: sr.result.symbolType,
-      symbolName: sr.result.symbolName,
-    }));
+    scoredResults.sort((a, b) => b.breakdown.score - a.breakdown.score);
+
+    const explained: ExplainedSearchResults = {
+      results: scoredResults.slice(0, resultLimit),
+      explanation: {
+        fusion,
+        semanticWeight: searchConfig.semanticWeight,
+        keywordWeight: searchConfig.keywordWeight,
+        filters: { pathPattern, languages },
+        fromCache: false,
+        keywordOnlyReason,
+        candidates: {
+          vector: vectorRows.length,
+          keyword: keywordMatches.length,
+          keywordOnly: keywordOnlyRows.length,
+          afterFilters: filtered.length,
+        },
+      },
+    };
 
     // Cache the results for future similar queries
-    this.cacheQueryResult(queryEmbedding, finalResults, cacheOptions);
+    if (queryEmbedding) {
+      this.cacheQueryResult(queryEmbedding, explained, cacheOptions);
+    }
 
-    return finalResults;
+    return explained;
   }
 
   /**
-   * Calculate keyword match score for hybrid search
+   * Get the BM25 keyword index, building it from the chunk table if needed.
+   * The index is dropped whenever the chunk table changes.
    */
-  private calculateKeywordScore(query: string, content: string, filepath: string): number {
-    const queryTerms = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((t) => t.length > 2);
-    if (queryTerms.length === 0) return 0;
-
-    const contentLower = content.toLowerCase();
-    const filepathLower = filepath.toLowerCase();
+  private async getKeywordIndex(): Promise<BM25Index> {
+    if (this.keywordIndex) {
+      return this.keywordIndex;
+    }
 
-    let matchCount = 0;
-    let exactMatchBonus = 0;
+    const rows = await this.chunksTable
+      .query()
+      .select(['id', 'filepath', 'content', 'symbolName'])
+      .toArray();
 
-    for (const term of queryTerms) {
-      // Check content matches
-      if (contentLower.includes(term)) {
-        matchCount++;
+    const index = new BM25Index();
+    for (const row of rows) {
+      index.add({
+        id: row.id,
+        content: row.content ?? '',
+        filepath: row.filepath ?? '',
+        symbolName: row.symbolName || undefined,
+      });
+    }
 
-        // Bonus for exact word match (not just substring)
-        const wordBoundaryRegex = new RegExp(`\\b${term}\\b`, 'i');
-        if (wordBoundaryRegex.test(content)) {
-          exactMatchBonus += 0.5;
-        }
-      }
+    console.error(`[glancey] Built keyword index over ${index.size} chunks`);
+    this.keywordIndex = index;
+    return index;
+  }
 
-      // Bonus for filename/path match
-      if (filepathLower.includes(term)) {
-        matchCount += 0.5;
-      }
+  /**
+   * Fetch raw chunk rows by ID, preserving the order of the given IDs.
+   */
+  private async fetchRowsByIds(ids: string[]): Promise<ChunkRow[]> {
+    if (ids.length === 0) {
+      return [];
     }
 
-    // Normalize score to 0-1 range
-    const baseScore = matchCount / queryTerms.length;
-    const bonusScore = Math.min(exactMatchBonus / queryTerms.length, 0.5);
+    const idList = ids.map((id) => `'${sanitizeForFilter(id)}'`).join(', ');
+    const rows: ChunkRow[] = await this.chunksTable
+      .query()
+      .where(`id IN (${idList})`)
+      .limit(ids.length)
+      .toArray();
 
-    return Math.min(baseScore + bonusScore, 1);
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    return ids.map((id) => byId.get(id)).filter((row) => row !== undefined);
   }
 
   /**
@@ -1926,6 +3032,7 @@ export class CodeIndexer {
       filepath,
       startLine,
       endLine,
+      cellIndex,
       code,
       limit = 10,
       threshold = 0,
@@ -1946,14 +3053,22 @@ export class CodeIndexer {
 
     // Get the source code to find similar chunks for
     let sourceCode: string;
-    let sourceId: string | null = null;
+    let sourceRange: { startLine: number; endLine: number } | null = null;
 
     if (code) {
       sourceCode = code;
     } else {
-      // Read from file
+      // Read from file; notebook chunk lines count from the start of their cell
       const fullPath = path.join(this.projectPath, filepath!);
-      const fileContent = await fs.readFile(fullPath, 'utf-8');
+      let fileContent: string;
+      if (NotebookChunker.canParse(fullPath)) {
+        if (cellIndex === undefined) {
+          throw new Error('cellIndex is required to find code similar to a notebook');
+        }
+        fileContent = await NotebookChunker.readCell(fullPath, cellIndex);
+      } else {
+        fileContent = await fs.readFile(fullPath, 'utf-8');
+      }
       const lines = fileContent.split('\n');
 
       const start = startLine ? startLine - 1 : 0;
@@ -1961,9 +3076,9 @@ export class CodeIndexer {
 
       sourceCode = lines.slice(start, end).join('\n');
 
-      // Build source ID for exclusion
+      // Remember the source range for exclusion (chunk IDs are not line-based)
       if (startLine && endLine) {
-        sourceId = `${filepath}:${startLine}-${endLine}`;
+        sourceRange = { startLine, endLine };
       }
     }
 
@@ -1972,11 +3087,13 @@ export class CodeIndexer {
     }
 
     // Embed the source code
+    await this.requireEmbeddingBackend();
+    await this.requireComparableVectors();
     const sourceEmbedding = await this.embeddingBackend.embed(sourceCode);
 
     // Search for similar chunks - fetch extra to account for filtering
     const fetchLimit = Math.min((limit + 5) * 2, 100);
-    const results = await this.table!.search(sourceEmbedding).limit(fetchLimit).toArray();
+    const results = await this.chunksTable.search(sourceEmbedding).limit(fetchLimit).toArray();
 
     // LanceDB returns results sorted by distance (ascending)
     // Convert distance to similarity score (1 - normalized_distance)
@@ -1986,7 +3103,14 @@ export class CodeIndexer {
 
     for (const r of results) {
       // Skip self if requested
-      if (excludeSelf && sourceId && r.id === sourceId) {
+      if (
+        excludeSelf &&
+        sourceRange &&
+        r.filepath === filepath &&
+        (r.cellIndex ?? -1) === (cellIndex ?? -1) &&
+        r.startLine === sourceRange.startLine &&
+        r.endLine === sourceRange.endLine
+      ) {
         continue;
       }
 
@@ -2004,17 +3128,7 @@ export class CodeIndexer {
         continue;
       }
 
-      scoredResults.push({
-        id: r.id,
-        filepath: r.filepath,
-        content: r.content,
-        startLine: r.startLine,
-        endLine: r.endLine,
-        language: r.language,
-        similarity,
-        symbolType: r.symbolType,
-        symbolName: r.symbolName,
-      });
+      scoredResults.push({ ...rowToChunk(r), similarity });
 
       if (scoredResults.length >= limit) {
         break;
@@ -2025,17 +3139,20 @@ export class CodeIndexer {
   }
 
   async clearIndex(): Promise<void> {
-    const tableNames = await this.db!.tableNames();
-    if (tableNames.includes('code_chunks')) {
-      await this.db!.dropTable('code_chunks');
-    }
-    this.table = null;
-    // Clear query embedding cache to prevent stale embeddings
-    this.queryEmbeddingCache.clear();
-    // Clear clustering metadata
-    await this.clearClusteringMetadata();
-    // Clear any incomplete checkpoint
-    await this.clearCheckpoint();
+    await this.indexLock.withLock('clearing', async () => {
+      const tableNames = await this.connection.tableNames();
+      if (tableNames.includes('code_chunks')) {
+        await this.connection.dropTable('code_chunks');
+      }
+      this.table = null;
+      this.keywordIndex = null;
+      // Clear query embedding cache to prevent stale embeddings
+      this.queryEmbeddingCache.clear();
+      // Clear clustering metadata
+      await this.clearClusteringMetadata();
+      // Clear any incomplete checkpoint
+      await this.clearCheckpoint();
+    });
   }
 
   private get clusteringMetadataPath(): string {
@@ -2115,7 +3232,7 @@ export class CodeIndexer {
       if (!status.indexed) {
         throw new Error('Codebase not indexed. Run index_codebase first.');
       }
-      this.table = await this.db!.openTable('code_chunks');
+      this.table = await this.connection.openTable('code_chunks');
     }
 
     // Fetch all chunks with embeddings
@@ -2126,8 +3243,8 @@ export class CodeIndexer {
       content: row.content,
       filepath: row.filepath,
       embedding: row.vector,
-      symbolName: row.symbolName,
-      symbolType: row.symbolType,
+      symbolName: row.symbolName || undefined,
+      symbolType: row.symbolType || undefined,
     }));
 
     // Perform clustering
@@ -2182,11 +3299,12 @@ export class CodeIndexer {
     }
 
     if (!this.table) {
-      this.table = await this.db!.openTable('code_chunks');
+      this.table = await this.connection.openTable('code_chunks');
     }
 
     // If query provided, use semantic search and filter to cluster
     if (query) {
+      await this.requireComparableVectors();
       const queryEmbedding = await this.getQueryEmbedding(query);
       const results = await this.table
         .search(queryEmbedding)
@@ -2196,16 +3314,7 @@ export class CodeIndexer {
       return results
         .filter((r) => chunkIds.has(r.id))
         .slice(0, limit)
-        .map((r) => ({
-          id: r.id,
-          filepath: r.filepath,
-          content: r.content,
-          startLine: r.startLine,
-          endLine: r.endLine,
-          language: r.language,
-          symbolType: r.symbolType,
-          symbolName: r.symbolName,
-        }));
+        .map(rowToChunk);
     }
 
     // Without query, return representative chunks from the cluster
@@ -2223,17 +3332,7 @@ export class CodeIndexer {
         .limit(1)
         .toArray();
       if (rows.length > 0) {
-        const r = rows[0];
-        results.push({
-          id: r.id,
-          filepath: r.filepath,
-          content: r.content,
-          startLine: r.startLine,
-          endLine: r.endLine,
-          language: r.language,
-          symbolType: r.symbolType,
-          symbolName: r.symbolName,
-        });
+        results.push(rowToChunk(rows[0]));
       }
     }
 
@@ -2250,7 +3349,7 @@ export class CodeIndexer {
     }
 
     if (!this.table) {
-      this.table = await this.db!.openTable('code_chunks');
+      this.table = await this.connection.openTable('code_chunks');
     }
 
     // Gather language statistics
@@ -2281,8 +3380,8 @@ export class CodeIndexer {
       content: row.content,
       filepath: row.filepath,
       embedding: row.vector,
-      symbolName: row.symbolName,
-      symbolType: row.symbolType,
+      symbolName: row.symbolName || undefined,
+      symbolType: row.symbolType || undefined,
     }));
 
     const clusteringResult = kMeansClustering(chunks, clusteringOptions);
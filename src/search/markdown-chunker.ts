@@ -0,0 +1,255 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { splitLargeChunk, type BaseChunk } from './chunk-utils.js';
+
+export type MarkdownChunk = BaseChunk;
+
+// Maximum lines per chunk before a section is split into its subsections
+const MAX_CHUNK_LINES = 100;
+// Minimum lines for a chunk (avoid tiny fragments)
+const MIN_CHUNK_LINES = 3;
+
+// Separator between heading levels in a section's breadcrumb name
+const BREADCRUMB_SEPARATOR = ' > ';
+
+/**
+ * A heading and the lines it covers, up to the next heading of the same or a higher level
+ */
+interface Section {
+  level: number;
+  title: string;
+  startRow: number;
+  endRow: number; // exclusive
+  children: Section[];
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-{2,})[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+// Lines that start a block other than a paragraph, so cannot be a setext heading's text
+const NON_PARAGRAPH = /^(?: {4}|\t| {0,3}(?:[#>|*+`~<-]|\d+[.)]))/;
+
+/**
+ * Heading-aware chunker for Markdown files.
+ * Keeps a section together when it fits, otherwise splits it along its subsections.
+ * Chunks are named with the heading breadcrumb, e.g. `Installation > Quick Install`.
+ */
+export class MarkdownChunker {
+  /**
+   * Check if a file can be chunked by headings
+   */
+  static canParse(filepath: string): boolean {
+    const ext = path.extname(filepath).toLowerCase();
+    return ['.md', '.mdx', '.markdown'].includes(ext);
+  }
+
+  /**
+   * Parse a file and return heading-aware chunks
+   */
+  async chunkFile(filepath: string): Promise<MarkdownChunk[]> {
+    const content = await fs.readFile(filepath, 'utf-8');
+    return this.chunkContent(content);
+  }
+
+  /**
+   * Chunk Markdown source
+   */
+  chunkContent(content: string): MarkdownChunk[] {
+    const lines = content.split('\n');
+    const root: Section = {
+      level: 0,
+      title: '',
+      startRow: 0,
+      endRow: lines.length,
+      children: this.buildSections(lines),
+    };
+
+    const chunks: MarkdownChunk[] = [];
+    if (this.countLines(lines, root.startRow, root.endRow) <= MAX_CHUNK_LINES) {
+      // Small documents stay whole, named after their first heading
+      this.pushChunk(chunks, lines, root.startRow, root.endRow, root.children[0]?.title);
+    } else {
+      this.processSection(root, [], lines, chunks);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Emit a section whole if it fits, otherwise its intro followed by its subsections
+   */
+  private processSection(
+    section: Section,
+    breadcrumb: string[],
+    lines: string[],
+    chunks: MarkdownChunk[]
+  ): void {
+    const trail = section.level > 0 ? [...breadcrumb, section.title] : breadcrumb;
+    const name = trail.length > 0 ? trail.join(BREADCRUMB_SEPARATOR) : undefined;
+
+    if (
+      section.children.length === 0 ||
+      this.countLines(lines, section.startRow, section.endRow) <= MAX_CHUNK_LINES
+    ) {
+      this.pushChunk(chunks, lines, section.startRow, section.endRow, name);
+      return;
+    }
+
+    // Text between the heading and the first subsection; a bare heading is left out
+    const introEnd = section.children[0].startRow;
+    const introStart = section.level > 0 ? section.startRow + 1 : section.startRow;
+    if (this.countLines(lines, introStart, introEnd) > 0) {
+      this.pushChunk(chunks, lines, section.startRow, introEnd, name);
+    }
+
+    for (const child of section.children) {
+      this.processSection(child, trail, lines, chunks);
+    }
+  }
+
+  /**
+   * Add the non-blank span of rows [startRow, endRow) as a chunk, split if too large
+   */
+  private pushChunk(
+    chunks: MarkdownChunk[],
+    lines: string[],
+    startRow: number,
+    endRow: number,
+    name: string | undefined
+  ): void {
+    const [first, last] = this.trimBlankRows(lines, startRow, endRow);
+    if (first > last) {
+      return;
+    }
+
+    const chunk: MarkdownChunk = {
+      content: lines.slice(first, last + 1).join('\n'),
+      startLine: first + 1,
+      endLine: last + 1,
+      type: 'section',
+      name,
+    };
+
+    if (last - first + 1 > MAX_CHUNK_LINES) {
+      chunks.push(...splitLargeChunk(chunk, MAX_CHUNK_LINES, MIN_CHUNK_LINES));
+    } else {
+      chunks.push(chunk);
+    }
+  }
+
+  /**
+   * Count the lines of rows [startRow, endRow) without leading and trailing blank lines
+   */
+  private countLines(lines: string[], startRow: number, endRow: number): number {
+    const [first, last] = this.trimBlankRows(lines, startRow, endRow);
+    return last - first + 1;
+  }
+
+  /**
+   * Get the first and last non-blank rows of [startRow, endRow); first > last if all blank
+   */
+  private trimBlankRows(lines: string[], startRow: number, endRow: number): [number, number] {
+    let first = startRow;
+    let last = endRow - 1;
+    while (first <= last && lines[first].trim() === '') {
+      first++;
+    }
+    while (last >= first && lines[last].trim() === '') {
+      last--;
+    }
+    return [first, last];
+  }
+
+  /**
+   * Find the headings of a document and nest them into sections
+   */
+  private buildSections(lines: string[]): Section[] {
+    const headings = this.findHeadings(lines);
+    const topLevel: Section[] = [];
+    const stack: Section[] = [];
+
+    for (let i = 0; i < headings.length; i++) {
+      const heading = headings[i];
+      // A section ends where the next heading of the same or a higher level starts
+      let endRow = lines.length;
+      for (let j = i + 1; j < headings.length; j++) {
+        if (headings[j].level <= heading.level) {
+          endRow = headings[j].startRow;
+          break;
+        }
+      }
+
+      const section: Section = { ...heading, endRow, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(section);
+      } else {
+        topLevel.push(section);
+      }
+      stack.push(section);
+    }
+
+    return topLevel;
+  }
+
+  /**
+   * Find ATX (`## Title`) and setext (`Title` over `===`/`---`) headings,
+   * skipping front matter and fenced code blocks
+   */
+  private findHeadings(lines: string[]): Omit<Section, 'endRow' | 'children'>[] {
+    const headings: Omit<Section, 'endRow' | 'children'>[] = [];
+    let row = 0;
+
+    // Skip YAML front matter
+    if (lines[0]?.trim() === '---') {
+      const close = lines.findIndex((line, i) => i > 0 && ['---', '...'].includes(line.trim()));
+      if (close > 0) {
+        row = close + 1;
+      }
+    }
+
+    let fence: string | null = null;
+    for (; row < lines.length; row++) {
+      const line = lines[row];
+
+      if (fence) {
+        if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+          fence = null;
+        }
+        continue;
+      }
+
+      const fenceMatch = FENCE.exec(line);
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        continue;
+      }
+
+      const atx = ATX_HEADING.exec(line);
+      if (atx) {
+        headings.push({ level: atx[1].length, title: (atx[2] ?? '').trim(), startRow: row });
+        continue;
+      }
+
+      const setext = SETEXT_UNDERLINE.exec(line);
+      const previous = lines[row - 1];
+      if (
+        setext &&
+        previous !== undefined &&
+        previous.trim() !== '' &&
+        !NON_PARAGRAPH.test(previous) &&
+        headings[headings.length - 1]?.startRow !== row - 1
+      ) {
+        headings.push({
+          level: setext[1].startsWith('=') ? 1 : 2,
+          title: previous.trim(),
+          startRow: row - 1,
+        });
+      }
+    }
+
+    return headings;
+  }
+}
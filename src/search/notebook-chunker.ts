@@ -0,0 +1,187 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { splitLargeChunk, type BaseChunk } from './chunk-utils.js';
+import { MarkdownChunker } from './markdown-chunker.js';
+import { TreeSitterChunker } from './tree-sitter-chunker.js';
+import {
+  getBuiltinLanguages,
+  type LanguageDefinition,
+  type LanguageRegistry,
+} from '../languages/index.js';
+
+/**
+ * A chunk of a notebook cell. Line numbers are relative to the cell's source.
+ */
+export interface NotebookChunk extends BaseChunk {
+  /** Position of the cell in the notebook, counting from 0 */
+  cellIndex: number;
+  /** Kernel language of a code cell (markdown chunks have none) */
+  language?: string;
+}
+
+// Maximum lines per chunk before a cell's code is split
+const MAX_CHUNK_LINES = 100;
+// Minimum lines for a chunk (avoid tiny fragments)
+const MIN_CHUNK_LINES = 3;
+
+// Chunks that define something; imports and statements stay with the rest of the cell's code
+const DEFINITION_TYPES: BaseChunk['type'][] = ['function', 'class', 'method', 'interface', 'type'];
+
+/**
+ * A notebook cell; Jupyter usually stores the source as a list of lines
+ */
+interface NotebookCell {
+  cell_type?: string;
+  source?: string | string[];
+}
+
+/**
+ * The parts of an nbformat 4 notebook that are chunked
+ */
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+}
+
+/**
+ * Read an nbformat 4 notebook
+ */
+async function readNotebook(filepath: string): Promise<Notebook & { cells: NotebookCell[] }> {
+  const notebook = JSON.parse(await fs.readFile(filepath, 'utf-8')) as Notebook;
+  if (!Array.isArray(notebook.cells)) {
+    throw new Error(`No cells found in ${filepath} (only nbformat 4 notebooks are supported)`);
+  }
+  return { ...notebook, cells: notebook.cells };
+}
+
+/**
+ * Get a cell's source as one string
+ */
+function cellSource(cell: NotebookCell): string {
+  return Array.isArray(cell.source) ? cell.source.join('') : (cell.source ?? '');
+}
+
+/**
+ * Chunker for Jupyter notebooks.
+ * Code cells with functions or classes are chunked by tree-sitter in the kernel's language
+ * (the rest of the cell's code becomes chunks of its own), other code cells are one chunk
+ * each. Markdown cells are chunked by heading, so the notebook's prose is searchable too.
+ * Outputs are not indexed.
+ */
+export class NotebookChunker {
+  private languages: LanguageRegistry;
+
+  constructor(languages: LanguageRegistry = getBuiltinLanguages()) {
+    this.languages = languages;
+  }
+
+  /**
+   * Check if a file is a notebook
+   */
+  static canParse(filepath: string): boolean {
+    return path.extname(filepath).toLowerCase() === '.ipynb';
+  }
+
+  /**
+   * Read the source of one cell of a notebook, e.g. to resolve a cell-relative line range
+   *
+   * @throws Error if the notebook has no cell at that index
+   */
+  static async readCell(filepath: string, cellIndex: number): Promise<string> {
+    const notebook = await readNotebook(filepath);
+    const cell = notebook.cells[cellIndex];
+    if (!cell) {
+      throw new Error(`Cell ${cellIndex} not found in ${filepath}`);
+    }
+    return cellSource(cell);
+  }
+
+  /**
+   * Parse a notebook and return chunks of its cells
+   */
+  async chunkFile(filepath: string): Promise<NotebookChunk[]> {
+    const notebook = await readNotebook(filepath);
+
+    const languageName = (
+      notebook.metadata?.kernelspec?.language ??
+      notebook.metadata?.language_info?.name ??
+      'python'
+    ).toLowerCase();
+    const language = this.languages.get(languageName);
+
+    const chunks: NotebookChunk[] = [];
+    for (const [cellIndex, cell] of notebook.cells.entries()) {
+      const source = cellSource(cell);
+      if (source.trim() === '') {
+        continue;
+      }
+
+      if (cell.cell_type === 'code') {
+        const cellChunks = await this.chunkCode(source, language);
+        chunks.push(
+          ...cellChunks.map((chunk) => ({ ...chunk, cellIndex, language: languageName }))
+        );
+      } else if (cell.cell_type === 'markdown') {
+        const cellChunks = new MarkdownChunker().chunkContent(source);
+        chunks.push(...cellChunks.map((chunk) => ({ ...chunk, cellIndex })));
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Chunk a code cell: its definitions, plus the runs of code between them
+   */
+  private async chunkCode(
+    source: string,
+    language: LanguageDefinition | null
+  ): Promise<BaseChunk[]> {
+    const lines = source.split('\n');
+    const definitions = language
+      ? (await new TreeSitterChunker(this.languages).chunkContent(source, language)).filter(
+          (chunk) => DEFINITION_TYPES.includes(chunk.type)
+        )
+      : [];
+
+    const chunks: BaseChunk[] = [...definitions];
+    let row = 0;
+    for (const definition of [...definitions, null]) {
+      const end = definition ? definition.startLine - 1 : lines.length;
+      chunks.push(...this.chunkLines(lines, row, end));
+      row = definition ? Math.max(row, definition.endLine) : lines.length;
+    }
+
+    return chunks.sort((a, b) => a.startLine - b.startLine);
+  }
+
+  /**
+   * Chunk the non-blank span of rows [startRow, endRow), split if too large
+   */
+  private chunkLines(lines: string[], startRow: number, endRow: number): BaseChunk[] {
+    let first = startRow;
+    let last = endRow - 1;
+    while (first <= last && lines[first].trim() === '') {
+      first++;
+    }
+    while (last >= first && lines[last].trim() === '') {
+      last--;
+    }
+    if (first > last) {
+      return [];
+    }
+
+    const chunk: BaseChunk = {
+      content: lines.slice(first, last + 1).join('\n'),
+      startLine: first + 1,
+      endLine: last + 1,
+      type: 'other',
+    };
+    return last - first + 1 > MAX_CHUNK_LINES
+      ? splitLargeChunk(chunk, MAX_CHUNK_LINES, MIN_CHUNK_LINES)
+      : [chunk];
+  }
+}
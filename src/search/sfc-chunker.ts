@@ -0,0 +1,143 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ASTChunker } from './ast-chunker.js';
+import { splitLargeChunk, type BaseChunk } from './chunk-utils.js';
+import {
+  getComponentName,
+  getScriptKind,
+  getScriptSource,
+  isSFCFile,
+  isScriptBlock,
+  parseSFCBlocks,
+  type SFCBlock,
+} from '../languages/index.js';
+
+export type SFCChunk = BaseChunk;
+
+const MAX_CHUNK_LINES = 150;
+const MIN_CHUNK_LINES = 10;
+
+/**
+ * Chunker for Vue, Svelte and Astro single-file components.
+ * Script blocks are chunked by the TypeScript AST chunker at their line numbers in the
+ * component; the template and each style block become chunks of their own. Chunks are tagged
+ * with the component name, e.g. `UserCard.loadUser` or `UserCard (template)`.
+ */
+export class SFCChunker {
+  /**
+   * Check if a file is a single-file component
+   */
+  static canParse(filepath: string): boolean {
+    return isSFCFile(filepath);
+  }
+
+  /**
+   * Parse a component and return its chunks
+   */
+  async chunkFile(filepath: string): Promise<SFCChunk[]> {
+    const content = await fs.readFile(filepath, 'utf-8');
+    const lines = content.split('\n');
+    const component = getComponentName(filepath);
+    const blocks = parseSFCBlocks(content, filepath);
+
+    const chunks: SFCChunk[] = [];
+    for (const block of blocks) {
+      if (isScriptBlock(block)) {
+        chunks.push(...this.chunkScript(content, block, filepath, component));
+      } else {
+        // Vue custom blocks (<i18n>, <docs>) and non-JavaScript scripts (JSON-LD) are 'other'
+        const type =
+          block.tag === 'style' ? 'style' : block.tag === 'template' ? 'template' : 'other';
+        chunks.push(
+          this.blockChunk(lines, block.startRow, block.endRow, type, `${component} (${block.tag})`)
+        );
+      }
+    }
+
+    // Svelte and Astro markup is everything outside the top-level blocks
+    if (path.extname(filepath).toLowerCase() !== '.vue') {
+      chunks.push(...this.chunkMarkup(lines, blocks, component));
+    }
+
+    if (chunks.length === 0) {
+      throw new Error(`No component blocks found in ${filepath}`);
+    }
+
+    chunks.sort((a, b) => a.startLine - b.startLine);
+
+    const finalChunks: SFCChunk[] = [];
+    for (const chunk of chunks) {
+      if (chunk.endLine - chunk.startLine + 1 > MAX_CHUNK_LINES) {
+        finalChunks.push(...splitLargeChunk(chunk, MAX_CHUNK_LINES, MIN_CHUNK_LINES));
+      } else {
+        finalChunks.push(chunk);
+      }
+    }
+
+    return finalChunks;
+  }
+
+  /**
+   * Chunk a script block with the AST chunker, keeping the component's line numbers
+   */
+  private chunkScript(
+    content: string,
+    block: SFCBlock,
+    filepath: string,
+    component: string
+  ): SFCChunk[] {
+    const astChunker = new ASTChunker();
+    const chunks = astChunker.chunkContent(
+      getScriptSource(content, block),
+      getScriptKind(block, filepath),
+      filepath
+    );
+
+    return chunks.map((chunk) => ({
+      ...chunk,
+      name: chunk.name ? `${component}.${chunk.name}` : component,
+    }));
+  }
+
+  /**
+   * Chunk the runs of markup lines between a Svelte or Astro component's blocks
+   */
+  private chunkMarkup(lines: string[], blocks: SFCBlock[], component: string): SFCChunk[] {
+    const chunks: SFCChunk[] = [];
+    let row = 0;
+
+    for (const block of [...blocks, null]) {
+      const end = block ? block.startRow : lines.length;
+      let first = row;
+      let last = end - 1;
+      while (first <= last && lines[first].trim() === '') {
+        first++;
+      }
+      while (last >= first && lines[last].trim() === '') {
+        last--;
+      }
+      if (first <= last) {
+        chunks.push(this.blockChunk(lines, first, last, 'template', `${component} (template)`));
+      }
+      row = block ? block.endRow + 1 : lines.length;
+    }
+
+    return chunks;
+  }
+
+  private blockChunk(
+    lines: string[],
+    startRow: number,
+    endRow: number,
+    type: SFCChunk['type'],
+    name: string
+  ): SFCChunk {
+    return {
+      content: lines.slice(startRow, endRow + 1).join('\n'),
+      startLine: startRow + 1,
+      endLine: endRow + 1,
+      type,
+      name,
+    };
+  }
+}
@@ -3,6 +3,12 @@ import * as path from 'path';
 import { fileURLToPath } from 'url';
 import type { Parser as ParserType, Language, Node as SyntaxNode } from 'web-tree-sitter';
 import { splitLargeChunk, type BaseChunk } from './chunk-utils.js';
+import {
+  getBuiltinLanguages,
+  resolveGrammarPath,
+  type LanguageDefinition,
+  type LanguageRegistry,
+} from '../languages/index.js';
 
 // Dynamic import for ESM compatibility
 interface ParserModule {
@@ -33,82 +39,9 @@ const MAX_CHUNK_LINES = 100;
 const MIN_CHUNK_LINES = 3;
 
 /**
- * Language configuration for tree-sitter parsing
+ * Root node types, whose children are top-level declarations
  */
-interface LanguageConfig {
-  wasmFile: string;
-  extensions: string[];
-  // Node types that represent top-level definitions
-  functionTypes: string[];
-  classTypes: string[];
-  methodTypes: string[];
-  importTypes: string[];
-  variableTypes: string[];
-  interfaceTypes: string[];
-  typeTypes: string[];
-}
-
-/**
- * Language configurations for supported languages
- * Note: Only includes languages available in @vscode/tree-sitter-wasm
- */
-const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
-  python: {
-    wasmFile: 'tree-sitter-python.wasm',
-    extensions: ['.py', '.pyi'],
-    functionTypes: ['function_definition'],
-    classTypes: ['class_definition'],
-    methodTypes: ['function_definition'], // Methods are function_definition inside class
-    importTypes: ['import_statement', 'import_from_statement'],
-    variableTypes: ['assignment', 'expression_statement'],
-    interfaceTypes: [],
-    typeTypes: [],
-  },
-  go: {
-    wasmFile: 'tree-sitter-go.wasm',
-    extensions: ['.go'],
-    functionTypes: ['function_declaration'],
-    classTypes: [], // Go doesn't have classes
-    methodTypes: ['method_declaration'],
-    importTypes: ['import_declaration'],
-    variableTypes: ['var_declaration', 'const_declaration', 'short_var_declaration'],
-    interfaceTypes: ['type_declaration'], // interface types
-    typeTypes: ['type_declaration'],
-  },
-  rust: {
-    wasmFile: 'tree-sitter-rust.wasm',
-    extensions: ['.rs'],
-    functionTypes: ['function_item'],
-    classTypes: [], // Rust doesn't have classes
-    methodTypes: ['function_item'], // Methods are function_item inside impl
-    importTypes: ['use_declaration'],
-    variableTypes: ['let_declaration', 'const_item', 'static_item'],
-    interfaceTypes: ['trait_item'],
-    typeTypes: ['type_item', 'struct_item', 'enum_item', 'impl_item'],
-  },
-  java: {
-    wasmFile: 'tree-sitter-java.wasm',
-    extensions: ['.java'],
-    functionTypes: [],
-    classTypes: ['class_declaration', 'interface_declaration', 'enum_declaration'],
-    methodTypes: ['method_declaration', 'constructor_declaration'],
-    importTypes: ['import_declaration'],
-    variableTypes: ['field_declaration', 'local_variable_declaration'],
-    interfaceTypes: ['interface_declaration'],
-    typeTypes: [],
-  },
-  ruby: {
-    wasmFile: 'tree-sitter-ruby.wasm',
-    extensions: ['.rb'],
-    functionTypes: ['method'],
-    classTypes: ['class', 'module'],
-    methodTypes: ['method', 'singleton_method'],
-    importTypes: ['call'], // require/require_relative calls
-    variableTypes: ['assignment'],
-    interfaceTypes: [],
-    typeTypes: [],
-  },
-};
+const TOP_LEVEL_PARENT_TYPES = ['source_file', 'translation_unit'];
 
 /**
  * Tree-sitter based AST chunker for multiple languages
@@ -120,6 +53,12 @@ export class TreeSitterChunker {
   private static initPromise: Promise<void> | null = null;
   private static wasmBasePath: string | null = null;
 
+  private languages: LanguageRegistry;
+
+  constructor(languages: LanguageRegistry = getBuiltinLanguages()) {
+    this.languages = languages;
+  }
+
   /**
    * Initialize the tree-sitter parser (call once before using)
    */
@@ -184,58 +123,34 @@ export class TreeSitterChunker {
     );
   }
 
-  /**
-   * Get the language configuration for a file extension
-   */
-  private static getLanguageConfig(filepath: string): LanguageConfig | null {
-    const ext = path.extname(filepath).toLowerCase();
-
-    for (const [, config] of Object.entries(LANGUAGE_CONFIGS)) {
-      if (config.extensions.includes(ext)) {
-        return config;
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Get the language name for a file extension
    */
-  static getLanguageName(filepath: string): string | null {
-    const ext = path.extname(filepath).toLowerCase();
-
-    for (const [name, config] of Object.entries(LANGUAGE_CONFIGS)) {
-      if (config.extensions.includes(ext)) {
-        return name;
-      }
-    }
-
-    return null;
+  static getLanguageName(
+    filepath: string,
+    languages: LanguageRegistry = getBuiltinLanguages()
+  ): string | null {
+    return languages.forFile(filepath)?.name ?? null;
   }
 
   /**
    * Check if a file can be parsed with tree-sitter
    */
-  static canParse(filepath: string): boolean {
-    return this.getLanguageConfig(filepath) !== null;
+  static canParse(filepath: string, languages: LanguageRegistry = getBuiltinLanguages()): boolean {
+    return languages.forFile(filepath) !== null;
   }
 
   /**
    * Get the list of supported file extensions
    */
-  static getSupportedExtensions(): string[] {
-    const extensions: string[] = [];
-    for (const config of Object.values(LANGUAGE_CONFIGS)) {
-      extensions.push(...config.extensions);
-    }
-    return extensions;
+  static getSupportedExtensions(languages: LanguageRegistry = getBuiltinLanguages()): string[] {
+    return languages.getExtensions();
   }
 
   /**
    * Load a language if not already loaded
    */
-  private static async loadLanguage(config: LanguageConfig): Promise<Language> {
+  private static async loadLanguage(config: LanguageDefinition): Promise<Language> {
     const cached = this.loadedLanguages.get(config.wasmFile);
     if (cached) {
       return cached;
@@ -246,11 +161,18 @@ export class TreeSitterChunker {
     }
 
     const module = await loadParserModule();
-    const wasmPath = path.join(this.wasmBasePath, config.wasmFile);
+    const wasmPath = resolveGrammarPath(config, this.wasmBasePath);
 
     // Load the WASM file as bytes for better compatibility
-    const wasmBytes = await fs.readFile(wasmPath);
-    const language = await module.Language.load(wasmBytes);
+    let language: Language;
+    try {
+      const wasmBytes = await fs.readFile(wasmPath);
+      language = await module.Language.load(wasmBytes);
+    } catch (error) {
+      throw new Error(
+        `Failed to load tree-sitter grammar for ${config.name} from ${wasmPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
     this.loadedLanguages.set(config.wasmFile, language);
     return language;
   }
@@ -259,18 +181,29 @@ export class TreeSitterChunker {
    * Parse a file and return AST-aware chunks
    */
   async chunkFile(filepath: string): Promise<TreeSitterChunk[]> {
-    await TreeSitterChunker.initialize();
-
-    const config = TreeSitterChunker.getLanguageConfig(filepath);
+    const config = this.languages.forFile(filepath);
     if (!config) {
       throw new Error(`Unsupported file type: ${filepath}`);
     }
 
+    const content = await fs.readFile(filepath, 'utf-8');
+    return this.chunkContent(content, config, filepath);
+  }
+
+  /**
+   * Chunk source code in the given language, e.g. a notebook's code cell
+   */
+  async chunkContent(
+    content: string,
+    config: LanguageDefinition,
+    filepath = '<source>'
+  ): Promise<TreeSitterChunk[]> {
+    await TreeSitterChunker.initialize();
+
     const language = await TreeSitterChunker.loadLanguage(config);
     const parser = TreeSitterChunker.parser!;
     parser.setLanguage(language);
 
-    const content = await fs.readFile(filepath, 'utf-8');
     const tree = parser.parse(content);
     if (!tree) {
       throw new Error(`Failed to parse file: ${filepath}`);
@@ -287,13 +220,16 @@ export class TreeSitterChunker {
     if (imports.length > 0) {
       const firstImport = imports[0];
       const lastImport = imports[imports.length - 1];
+      // Preprocessor directives (#include) end at the start of the next line
+      const lastImportRow =
+        lastImport.endPosition.column === 0
+          ? lastImport.endPosition.row - 1
+          : lastImport.endPosition.row;
 
       chunks.unshift({
-        content: lines
-          .slice(firstImport.startPosition.row, lastImport.endPosition.row + 1)
-          .join('\n'),
+        content: lines.slice(firstImport.startPosition.row, lastImportRow + 1).join('\n'),
         startLine: firstImport.startPosition.row + 1,
-        endLine: lastImport.endPosition.row + 1,
+        endLine: lastImportRow + 1,
         type: 'import',
         name: 'imports',
       });
@@ -321,7 +257,7 @@ export class TreeSitterChunker {
    */
   private processNode(
     node: SyntaxNode,
-    config: LanguageConfig,
+    config: LanguageDefinition,
     lines: string[],
     chunks: TreeSitterChunk[],
     imports: SyntaxNode[],
@@ -333,6 +269,11 @@ export class TreeSitterChunker {
       return;
     }
 
+    // Skip uses of a struct/class/enum that has no body (forward declarations, `struct Point p`)
+    if (config.bodyRequiredTypes?.includes(node.type) && !node.childForFieldName('body')) {
+      return;
+    }
+
     // Check if this is a class/struct
     if (config.classTypes.includes(node.type)) {
       const className = this.getNodeName(node) || 'AnonymousClass';
@@ -416,7 +357,10 @@ export class TreeSitterChunker {
     }
 
     // Check for top-level variables
-    if (config.variableTypes.includes(node.type) && node.parent?.type === 'source_file') {
+    if (
+      config.variableTypes.includes(node.type) &&
+      TOP_LEVEL_PARENT_TYPES.includes(node.parent?.type ?? '')
+    ) {
       const name = this.getNodeName(node);
       chunks.push({
         content: lines.slice(node.startPosition.row, node.endPosition.row + 1).join('\n'),
@@ -439,16 +383,18 @@ export class TreeSitterChunker {
    */
   private processClassNode(
     node: SyntaxNode,
-    config: LanguageConfig,
+    config: LanguageDefinition,
     lines: string[],
     chunks: TreeSitterChunk[],
     className: string
   ): void {
-    // Find the first child that's a method or field
+    // Find the first child that's a method or field.
+    // Most grammars nest members in a body node (class_body, declaration_list, block)
     let headerEndRow = node.startPosition.row;
     const methods: SyntaxNode[] = [];
+    const members = [...node.children, ...(node.childForFieldName('body')?.children ?? [])];
 
-    for (const child of node.children) {
+    for (const child of members) {
       if (config.methodTypes.includes(child.type)) {
         methods.push(child);
         if (methods.length === 1) {
@@ -485,6 +431,18 @@ export class TreeSitterChunker {
    * Get the name of a node (function name, class name, etc.)
    */
   private getNodeName(node: SyntaxNode): string | undefined {
+    // The name field skips return types written before the name (`public Order Get()`)
+    const nameNode = node.childForFieldName('name');
+    if (nameNode) {
+      return nameNode.text;
+    }
+
+    // C/C++ functions and typedefs are named by their declarator (`int *Widget::render()`)
+    const declaratorName = this.getDeclaratorName(node);
+    if (declaratorName) {
+      return declaratorName;
+    }
+
     // Look for a name or identifier child
     for (const child of node.children) {
       if (
@@ -512,6 +470,24 @@ export class TreeSitterChunker {
     return undefined;
   }
 
+  /**
+   * Get the name of a C/C++ declarator, following nested declarators
+   * (pointers, references, function declarators) to the declared name
+   */
+  private getDeclaratorName(node: SyntaxNode): string | undefined {
+    let declarator = node.childForFieldName('declarator');
+    while (declarator) {
+      const inner =
+        declarator.childForFieldName('declarator') ??
+        (declarator.type === 'reference_declarator' ? declarator.lastNamedChild : null);
+      if (!inner) {
+        break;
+      }
+      declarator = inner;
+    }
+    return declarator?.text;
+  }
+
   /**
    * Split a large chunk into smaller pieces
    */
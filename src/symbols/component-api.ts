@@ -0,0 +1,334 @@
+/**
+ * Public API of Vue, Svelte and Astro components: the props and events a component declares
+ * in its script blocks.
+ */
+
+import * as ts from 'typescript';
+
+/**
+ * A prop or event declared by a component
+ */
+export interface ComponentMember {
+  name: string;
+  kind: 'prop' | 'emit';
+  /** The declaring node, e.g. a property signature or an `export let` declaration */
+  node: ts.Node;
+}
+
+/**
+ * Find the props and events declared in a component's script block.
+ *
+ * - Vue: `defineProps`, `defineEmits` and `defineModel` (type or runtime declarations),
+ *   and the `props`/`emits` options of an Options API component
+ * - Svelte: `export let` props, `$props()` destructuring and `createEventDispatcher<...>()`
+ * - Astro: the `Props` interface, or `Astro.props` destructuring
+ *
+ * @param framework - The component file's extension without the dot (`vue`, `svelte`, `astro`)
+ */
+export function findComponentMembers(
+  sourceFile: ts.SourceFile,
+  framework: string
+): ComponentMember[] {
+  switch (framework) {
+    case 'vue':
+      return findVueMembers(sourceFile);
+    case 'svelte':
+      return findSvelteMembers(sourceFile);
+    case 'astro':
+      return findAstroMembers(sourceFile);
+    default:
+      return [];
+  }
+}
+
+function findVueMembers(sourceFile: ts.SourceFile): ComponentMember[] {
+  const members: ComponentMember[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      const typeArgument = node.typeArguments?.[0];
+      const argument = node.arguments[0];
+
+      switch (node.expression.text) {
+        case 'defineProps':
+          members.push(
+            ...(typeArgument
+              ? getTypeMembers(typeArgument, sourceFile)
+              : getRuntimeNames(argument, sourceFile)
+            ).map((m) => ({ ...m, kind: 'prop' as const }))
+          );
+          break;
+        case 'defineEmits':
+          members.push(
+            ...(typeArgument
+              ? getEmitTypeNames(typeArgument, sourceFile)
+              : getRuntimeNames(argument, sourceFile)
+            ).map((m) => ({ ...m, kind: 'emit' as const }))
+          );
+          break;
+        case 'defineModel':
+          // `defineModel()` declares the `modelValue` prop, `defineModel('count')` a `count` prop
+          members.push({
+            name: argument && ts.isStringLiteral(argument) ? argument.text : 'modelValue',
+            kind: 'prop',
+            node,
+          });
+          break;
+      }
+    }
+
+    // Options API: `export default { props, emits }` or `export default defineComponent({...})`
+    if (ts.isExportAssignment(node)) {
+      const options = getOptionsObject(node.expression);
+      if (options) {
+        for (const property of options.properties) {
+          const name = property.name && getPropertyName(property.name, sourceFile);
+          if (ts.isPropertyAssignment(property) && (name === 'props' || name === 'emits')) {
+            members.push(
+              ...getRuntimeNames(property.initializer, sourceFile).map((m) => ({
+                ...m,
+                kind: name === 'props' ? ('prop' as const) : ('emit' as const),
+              }))
+            );
+          }
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return members;
+}
+
+function findSvelteMembers(sourceFile: ts.SourceFile): ComponentMember[] {
+  const members: ComponentMember[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+
+    // Svelte 4: `export let title: string`
+    const isExported = statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    if (isExported && statement.declarationList.flags & ts.NodeFlags.Let) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          members.push({ name: declaration.name.text, kind: 'prop', node: declaration });
+        }
+      }
+    }
+
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer;
+      if (
+        !initializer ||
+        !ts.isCallExpression(initializer) ||
+        !ts.isIdentifier(initializer.expression)
+      ) {
+        continue;
+      }
+
+      // Svelte 5: `let { title, count = 0 }: Props = $props()`
+      if (initializer.expression.text === '$props') {
+        const props = ts.isObjectBindingPattern(declaration.name)
+          ? getBindingNames(declaration.name, sourceFile)
+          : declaration.type
+            ? getTypeMembers(declaration.type, sourceFile)
+            : [];
+        members.push(...props.map((m) => ({ ...m, kind: 'prop' as const })));
+      }
+
+      // `const dispatch = createEventDispatcher<{ change: number }>()`
+      const typeArgument = initializer.typeArguments?.[0];
+      if (initializer.expression.text === 'createEventDispatcher' && typeArgument) {
+        members.push(
+          ...getTypeMembers(typeArgument, sourceFile).map((m) => ({ ...m, kind: 'emit' as const }))
+        );
+      }
+    }
+  }
+
+  return members;
+}
+
+function findAstroMembers(sourceFile: ts.SourceFile): ComponentMember[] {
+  const propsType = findTypeDeclaration(sourceFile, 'Props');
+  if (propsType) {
+    return getDeclarationMembers(propsType, sourceFile).map((m) => ({
+      ...m,
+      kind: 'prop' as const,
+    }));
+  }
+
+  // `const { title, date } = Astro.props`
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer;
+      if (
+        initializer &&
+        ts.isObjectBindingPattern(declaration.name) &&
+        initializer.getText(sourceFile) === 'Astro.props'
+      ) {
+        return getBindingNames(declaration.name, sourceFile).map((m) => ({
+          ...m,
+          kind: 'prop' as const,
+        }));
+      }
+    }
+  }
+
+  return [];
+}
+
+type NamedNode = Omit<ComponentMember, 'kind'>;
+
+/**
+ * Get the members of a type: a type literal, an intersection, or a reference to an
+ * interface or type alias declared in the same file
+ */
+function getTypeMembers(type: ts.TypeNode, sourceFile: ts.SourceFile): NamedNode[] {
+  if (ts.isTypeLiteralNode(type)) {
+    return getSignatureNames(type.members, sourceFile);
+  }
+  if (ts.isIntersectionTypeNode(type)) {
+    return type.types.flatMap((t) => getTypeMembers(t, sourceFile));
+  }
+  if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
+    const declaration = findTypeDeclaration(sourceFile, type.typeName.text);
+    return declaration ? getDeclarationMembers(declaration, sourceFile) : [];
+  }
+  return [];
+}
+
+/**
+ * Get the events of a `defineEmits` type: call signatures
+ * (`(e: 'change', id: number): void`) or named tuples (`change: [id: number]`)
+ */
+function getEmitTypeNames(type: ts.TypeNode, sourceFile: ts.SourceFile): NamedNode[] {
+  const members = ts.isTypeLiteralNode(type)
+    ? type.members
+    : ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)
+      ? getDeclarationElements(findTypeDeclaration(sourceFile, type.typeName.text))
+      : [];
+
+  const names: NamedNode[] = [];
+  for (const member of members) {
+    if (ts.isCallSignatureDeclaration(member)) {
+      const eventType = member.parameters[0]?.type;
+      const literals = eventType && ts.isUnionTypeNode(eventType) ? eventType.types : [eventType];
+      for (const literal of literals) {
+        if (literal && ts.isLiteralTypeNode(literal) && ts.isStringLiteral(literal.literal)) {
+          names.push({ name: literal.literal.text, node: member });
+        }
+      }
+    } else if (member.name) {
+      names.push({ name: getPropertyName(member.name, sourceFile), node: member });
+    }
+  }
+  return names;
+}
+
+/**
+ * Get the names of a runtime declaration: `['change', 'close']` or `{ title: String }`
+ */
+function getRuntimeNames(
+  expression: ts.Expression | undefined,
+  sourceFile: ts.SourceFile
+): NamedNode[] {
+  if (!expression) {
+    return [];
+  }
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements
+      .filter(ts.isStringLiteralLike)
+      .map((element) => ({ name: element.text, node: element }));
+  }
+  if (ts.isObjectLiteralExpression(expression)) {
+    return getSignatureNames(expression.properties, sourceFile);
+  }
+  return [];
+}
+
+function getBindingNames(pattern: ts.ObjectBindingPattern, sourceFile: ts.SourceFile): NamedNode[] {
+  return pattern.elements
+    .filter((element) => !element.dotDotDotToken)
+    .map((element) => ({
+      name: getPropertyName(element.propertyName ?? element.name, sourceFile),
+      node: element,
+    }));
+}
+
+/**
+ * Get the names of type members or object literal properties
+ */
+function getSignatureNames(
+  members: readonly (ts.TypeElement | ts.ObjectLiteralElementLike)[],
+  sourceFile: ts.SourceFile
+): NamedNode[] {
+  const names: NamedNode[] = [];
+  for (const member of members) {
+    if (member.name) {
+      names.push({ name: getPropertyName(member.name, sourceFile), node: member });
+    }
+  }
+  return names;
+}
+
+function getDeclarationMembers(
+  declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+  sourceFile: ts.SourceFile
+): NamedNode[] {
+  return ts.isInterfaceDeclaration(declaration)
+    ? getSignatureNames(declaration.members, sourceFile)
+    : getTypeMembers(declaration.type, sourceFile);
+}
+
+function getDeclarationElements(
+  declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | undefined
+): readonly ts.TypeElement[] {
+  if (!declaration) {
+    return [];
+  }
+  if (ts.isInterfaceDeclaration(declaration)) {
+    return declaration.members;
+  }
+  return ts.isTypeLiteralNode(declaration.type) ? declaration.type.members : [];
+}
+
+function findTypeDeclaration(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.InterfaceDeclaration | ts.TypeAliasDeclaration | undefined {
+  return sourceFile.statements.find(
+    (statement): statement is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+      statement.name.text === name
+  );
+}
+
+/**
+ * Get the options object of `export default {...}` or `export default defineComponent({...})`
+ */
+function getOptionsObject(expression: ts.Expression): ts.ObjectLiteralExpression | undefined {
+  if (ts.isObjectLiteralExpression(expression)) {
+    return expression;
+  }
+  if (ts.isCallExpression(expression) && expression.arguments[0]) {
+    return getOptionsObject(expression.arguments[0]);
+  }
+  return undefined;
+}
+
+function getPropertyName(
+  name: ts.PropertyName | ts.BindingName,
+  sourceFile: ts.SourceFile
+): string {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)
+    ? name.text
+    : name.getText(sourceFile);
+}
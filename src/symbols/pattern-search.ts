@@ -7,6 +7,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
 import { minimatch } from 'minimatch';
+import { IgnoreRules } from '../utils/ignore-rules.js';
 import { PatternSearchResult, PatternMatch, SearchPatternOptions } from './types.js';
 
 /**
@@ -103,7 +104,7 @@ export async function searchForPattern(
     if (stat.isFile()) {
       files = [searchPath];
     } else {
-      files = await findFiles(searchPath, {
+      files = await findFiles(projectPath, searchPath, {
         codeFilesOnly: restrictSearchToCodeFiles,
         includeGlob: pathsIncludeGlob,
         excludeGlob: pathsExcludeGlob,
@@ -187,7 +188,11 @@ interface FindFilesOptions {
   excludeGlob?: string;
 }
 
-async function findFiles(searchPath: string, options: FindFilesOptions): Promise<string[]> {
+async function findFiles(
+  projectPath: string,
+  searchPath: string,
+  options: FindFilesOptions
+): Promise<string[]> {
   const { codeFilesOnly, includeGlob, excludeGlob } = options;
 
   // Build glob patterns
@@ -232,6 +237,10 @@ async function findFiles(searchPath: string, options: FindFilesOptions): Promise
     });
   }
 
+  // Respect .gitignore, .git/info/exclude and .glanceyignore
+  const ignoreRules = await IgnoreRules.load(projectPath, DEFAULT_EXCLUDE_PATTERNS);
+  filtered = ignoreRules.filter(filtered);
+
   // Remove duplicates
   return [...new Set(filtered)];
 }
@@ -11,6 +11,12 @@ import type { Parser as ParserType, Language, Node as SyntaxNode } from 'web-tre
 import { SymbolReference, Symbol, SymbolKind, FindReferencesOptions } from './types.js';
 import { SymbolExtractor } from './symbol-extractor.js';
 import { getSymbolName, parseNamePath, matchNamePath } from './name-path.js';
+import { IgnoreRules } from '../utils/ignore-rules.js';
+import {
+  resolveGrammarPath,
+  type LanguageDefinition,
+  type LanguageRegistry,
+} from '../languages/index.js';
 
 // Dynamic import for ESM compatibility
 interface ParserModule {
@@ -30,43 +36,6 @@ const loadParserModule = async (): Promise<ParserModule> => {
   return parserModule;
 };
 
-/**
- * Language configuration for reference finding
- */
-interface LanguageConfig {
-  wasmFile: string;
-  extensions: string[];
-  identifierTypes: string[];
-}
-
-const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
-  python: {
-    wasmFile: 'tree-sitter-python.wasm',
-    extensions: ['.py', '.pyi'],
-    identifierTypes: ['identifier'],
-  },
-  go: {
-    wasmFile: 'tree-sitter-go.wasm',
-    extensions: ['.go'],
-    identifierTypes: ['identifier', 'type_identifier', 'field_identifier'],
-  },
-  rust: {
-    wasmFile: 'tree-sitter-rust.wasm',
-    extensions: ['.rs'],
-    identifierTypes: ['identifier', 'type_identifier', 'field_identifier'],
-  },
-  java: {
-    wasmFile: 'tree-sitter-java.wasm',
-    extensions: ['.java'],
-    identifierTypes: ['identifier', 'type_identifier'],
-  },
-  ruby: {
-    wasmFile: 'tree-sitter-ruby.wasm',
-    extensions: ['.rb'],
-    identifierTypes: ['identifier', 'constant'],
-  },
-};
-
 /**
  * Default patterns for files to exclude when searching
  */
@@ -93,9 +62,12 @@ export class ReferenceFinder {
   private projectPath: string;
   private symbolExtractor: SymbolExtractor;
 
-  constructor(projectPath: string) {
+  /**
+   * @param languages - Languages to parse; loaded from the project config when omitted
+   */
+  constructor(projectPath: string, languages?: LanguageRegistry) {
     this.projectPath = projectPath;
-    this.symbolExtractor = new SymbolExtractor(projectPath);
+    this.symbolExtractor = new SymbolExtractor(projectPath, languages);
   }
 
   /**
@@ -153,17 +125,7 @@ export class ReferenceFinder {
     throw new Error('Could not find @vscode/tree-sitter-wasm package.');
   }
 
-  private static getLanguageConfig(filepath: string): LanguageConfig | null {
-    const ext = path.extname(filepath).toLowerCase();
-    for (const [, config] of Object.entries(LANGUAGE_CONFIGS)) {
-      if (config.extensions.includes(ext)) {
-        return config;
-      }
-    }
-    return null;
-  }
-
-  private static async loadLanguage(config: LanguageConfig): Promise<Language> {
+  private static async loadLanguage(config: LanguageDefinition): Promise<Language> {
     const cached = this.loadedLanguages.get(config.wasmFile);
     if (cached) {
       return cached;
@@ -174,9 +136,16 @@ export class ReferenceFinder {
     }
 
     const module = await loadParserModule();
-    const wasmPath = path.join(this.wasmBasePath, config.wasmFile);
-    const wasmBytes = await fs.readFile(wasmPath);
-    const language = await module.Language.load(wasmBytes);
+    const wasmPath = resolveGrammarPath(config, this.wasmBasePath);
+    let language: Language;
+    try {
+      const wasmBytes = await fs.readFile(wasmPath);
+      language = await module.Language.load(wasmBytes);
+    } catch (error) {
+      throw new Error(
+        `Failed to load tree-sitter grammar for ${config.name} from ${wasmPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
     this.loadedLanguages.set(config.wasmFile, language);
     return language;
   }
@@ -239,6 +208,7 @@ export class ReferenceFinder {
   }
 
   private async findFilesToSearch(): Promise<string[]> {
+    const languages = await this.symbolExtractor.getLanguages();
     const codeExtensions = [
       '.ts',
       '.tsx',
@@ -248,13 +218,7 @@ export class ReferenceFinder {
       '.cts',
       '.mjs',
       '.cjs',
-      '.py',
-      '.pyi',
-      '.go',
-      '.rs',
-      '.java',
-      '.kt',
-      '.rb',
+      ...languages.getExtensions(),
     ];
 
     const patterns = codeExtensions.map((ext) => `**/*${ext}`);
@@ -269,7 +233,8 @@ export class ReferenceFinder {
       files.push(...matches);
     }
 
-    return [...new Set(files)];
+    const ignoreRules = await IgnoreRules.load(this.projectPath, DEFAULT_EXCLUDE_PATTERNS);
+    return ignoreRules.filter([...new Set(files)]);
   }
 
   private async findReferencesInFile(
@@ -306,7 +271,7 @@ export class ReferenceFinder {
         references.push(...refs);
       } else {
         // Use tree-sitter for other languages
-        const config = ReferenceFinder.getLanguageConfig(filepath);
+        const config = (await this.symbolExtractor.getLanguages()).forFile(filepath);
         if (config) {
           const refs = await this.findReferencesWithTreeSitter(
             content,
@@ -419,7 +384,7 @@ export class ReferenceFinder {
     lines: string[],
     symbolName: string,
     targetSymbol: Symbol,
-    config: LanguageConfig
+    config: LanguageDefinition
   ): Promise<SymbolReference[]> {
     await ReferenceFinder.initialize();
 
@@ -16,6 +16,19 @@ import {
   SymbolKindNames,
 } from './types.js';
 import { buildNamePath, formatNamePath } from './name-path.js';
+import { findComponentMembers, type ComponentMember } from './component-api.js';
+import {
+  getBuiltinLanguages,
+  getScriptKind,
+  getScriptSource,
+  isSFCFile,
+  isScriptBlock,
+  loadLanguageRegistry,
+  parseSFCBlocks,
+  resolveGrammarPath,
+  type LanguageDefinition,
+  type LanguageRegistry,
+} from '../languages/index.js';
 
 // Dynamic import for ESM compatibility
 interface ParserModule {
@@ -35,89 +48,6 @@ const loadParserModule = async (): Promise<ParserModule> => {
   return parserModule;
 };
 
-/**
- * Language configuration for symbol extraction
- */
-interface LanguageConfig {
-  wasmFile: string;
-  extensions: string[];
-  // Node types for different symbol kinds
-  functionTypes: string[];
-  classTypes: string[];
-  methodTypes: string[];
-  importTypes: string[];
-  variableTypes: string[];
-  interfaceTypes: string[];
-  typeTypes: string[];
-  constructorTypes: string[];
-}
-
-/**
- * Language configurations (same as TreeSitterChunker but with constructor types)
- */
-const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
-  python: {
-    wasmFile: 'tree-sitter-python.wasm',
-    extensions: ['.py', '.pyi'],
-    functionTypes: ['function_definition'],
-    classTypes: ['class_definition'],
-    methodTypes: ['function_definition'],
-    importTypes: ['import_statement', 'import_from_statement'],
-    variableTypes: ['assignment', 'expression_statement'],
-    interfaceTypes: [],
-    typeTypes: [],
-    constructorTypes: [], // __init__ is detected by name
-  },
-  go: {
-    wasmFile: 'tree-sitter-go.wasm',
-    extensions: ['.go'],
-    functionTypes: ['function_declaration'],
-    classTypes: [],
-    methodTypes: ['method_declaration'],
-    importTypes: ['import_declaration'],
-    variableTypes: ['var_declaration', 'const_declaration', 'short_var_declaration'],
-    interfaceTypes: ['type_declaration'],
-    typeTypes: ['type_declaration'],
-    constructorTypes: [],
-  },
-  rust: {
-    wasmFile: 'tree-sitter-rust.wasm',
-    extensions: ['.rs'],
-    functionTypes: ['function_item'],
-    classTypes: [],
-    methodTypes: ['function_item'],
-    importTypes: ['use_declaration'],
-    variableTypes: ['let_declaration', 'const_item', 'static_item'],
-    interfaceTypes: ['trait_item'],
-    typeTypes: ['type_item', 'struct_item', 'enum_item', 'impl_item'],
-    constructorTypes: [],
-  },
-  java: {
-    wasmFile: 'tree-sitter-java.wasm',
-    extensions: ['.java'],
-    functionTypes: [],
-    classTypes: ['class_declaration', 'interface_declaration', 'enum_declaration'],
-    methodTypes: ['method_declaration'],
-    importTypes: ['import_declaration'],
-    variableTypes: ['field_declaration', 'local_variable_declaration'],
-    interfaceTypes: ['interface_declaration'],
-    typeTypes: [],
-    constructorTypes: ['constructor_declaration'],
-  },
-  ruby: {
-    wasmFile: 'tree-sitter-ruby.wasm',
-    extensions: ['.rb'],
-    functionTypes: ['method'],
-    classTypes: ['class', 'module'],
-    methodTypes: ['method', 'singleton_method'],
-    importTypes: ['call'],
-    variableTypes: ['assignment'],
-    interfaceTypes: [],
-    typeTypes: [],
-    constructorTypes: [], // initialize is detected by name
-  },
-};
-
 /**
  * Symbol extractor for extracting hierarchical symbol information.
  */
@@ -128,9 +58,24 @@ export class SymbolExtractor {
   private static wasmBasePath: string | null = null;
 
   private projectPath: string;
+  private languages: LanguageRegistry | null;
 
-  constructor(projectPath: string) {
+  /**
+   * @param languages - Languages to parse; loaded from the project config when omitted
+   */
+  constructor(projectPath: string, languages?: LanguageRegistry) {
     this.projectPath = projectPath;
+    this.languages = languages ?? null;
+  }
+
+  /**
+   * Get the project's language registry, loading it on first use.
+   */
+  async getLanguages(): Promise<LanguageRegistry> {
+    if (!this.languages) {
+      this.languages = await loadLanguageRegistry(this.projectPath);
+    }
+    return this.languages;
   }
 
   /**
@@ -190,17 +135,7 @@ export class SymbolExtractor {
     );
   }
 
-  private static getLanguageConfig(filepath: string): LanguageConfig | null {
-    const ext = path.extname(filepath).toLowerCase();
-    for (const [, config] of Object.entries(LANGUAGE_CONFIGS)) {
-      if (config.extensions.includes(ext)) {
-        return config;
-      }
-    }
-    return null;
-  }
-
-  private static async loadLanguage(config: LanguageConfig): Promise<Language> {
+  private static async loadLanguage(config: LanguageDefinition): Promise<Language> {
     const cached = this.loadedLanguages.get(config.wasmFile);
     if (cached) {
       return cached;
@@ -211,9 +146,16 @@ export class SymbolExtractor {
     }
 
     const module = await loadParserModule();
-    const wasmPath = path.join(this.wasmBasePath, config.wasmFile);
-    const wasmBytes = await fs.readFile(wasmPath);
-    const language = await module.Language.load(wasmBytes);
+    const wasmPath = resolveGrammarPath(config, this.wasmBasePath);
+    let language: Language;
+    try {
+      const wasmBytes = await fs.readFile(wasmPath);
+      language = await module.Language.load(wasmBytes);
+    } catch (error) {
+      throw new Error(
+        `Failed to load tree-sitter grammar for ${config.name} from ${wasmPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
     this.loadedLanguages.set(config.wasmFile, language);
     return language;
   }
@@ -221,14 +163,21 @@ export class SymbolExtractor {
   /**
    * Check if a file can be analyzed for symbols.
    */
-  static canAnalyze(filepath: string): boolean {
+  static canAnalyze(
+    filepath: string,
+    languages: LanguageRegistry = getBuiltinLanguages()
+  ): boolean {
     const ext = path.extname(filepath).toLowerCase();
     // TypeScript/JavaScript via TS compiler
     if (['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'].includes(ext)) {
       return true;
     }
+    // Vue/Svelte/Astro script blocks via TS compiler
+    if (isSFCFile(filepath)) {
+      return true;
+    }
     // Other languages via tree-sitter
-    return this.getLanguageConfig(filepath) !== null;
+    return languages.forFile(filepath) !== null;
   }
 
   /**
@@ -247,8 +196,13 @@ export class SymbolExtractor {
       return this.extractSymbolsWithTypeScript(fullPath, relativePath, includeBody);
     }
 
+    // Use TypeScript compiler for the script blocks of Vue/Svelte/Astro components
+    if (isSFCFile(fullPath)) {
+      return this.extractComponentSymbols(fullPath, relativePath, includeBody);
+    }
+
     // Use tree-sitter for other languages
-    const config = SymbolExtractor.getLanguageConfig(fullPath);
+    const config = (await this.getLanguages()).forFile(fullPath);
     if (config) {
       return this.extractSymbolsWithTreeSitter(fullPath, relativePath, config, includeBody);
     }
@@ -338,7 +292,113 @@ export class SymbolExtractor {
       scriptKind
     );
 
+    return this.extractTypeScriptSymbols(
+      sourceFile,
+      content.split('\n'),
+      relativePath,
+      includeBody
+    );
+  }
+
+  /**
+   * Extract symbols from a component's script blocks, plus the props and events it declares.
+   * Script blocks are parsed in place, so symbols have their line numbers in the component.
+   */
+  private async extractComponentSymbols(
+    fullPath: string,
+    relativePath: string,
+    includeBody: boolean
+  ): Promise<Symbol[]> {
+    const content = await fs.readFile(fullPath, 'utf-8');
     const lines = content.split('\n');
+    const framework = path.extname(fullPath).slice(1).toLowerCase();
+
+    const scriptSymbols: Symbol[] = [];
+    const members: Symbol[] = [];
+    for (const block of parseSFCBlocks(content, fullPath).filter(isScriptBlock)) {
+      const sourceFile = ts.createSourceFile(
+        fullPath,
+        getScriptSource(content, block),
+        ts.ScriptTarget.Latest,
+        true,
+        getScriptKind(block, fullPath)
+      );
+
+      // Symbols start with their leading trivia, which for the block's first statement
+      // reaches back to the top of the file; start them at the block's first line instead
+      const firstOffset = block.contentStart + content.slice(block.contentStart).search(/\S/);
+      const firstLine = sourceFile.getLineAndCharacterOfPosition(firstOffset).line + 1;
+      for (const symbol of this.extractTypeScriptSymbols(
+        sourceFile,
+        lines,
+        relativePath,
+        includeBody
+      )) {
+        if (symbol.location.startLine < firstLine) {
+          symbol.location.startLine = firstLine;
+          if (includeBody) {
+            symbol.body = lines.slice(firstLine - 1, symbol.location.endLine).join('\n');
+          }
+        }
+        scriptSymbols.push(symbol);
+      }
+
+      for (const member of findComponentMembers(sourceFile, framework)) {
+        members.push(
+          this.componentMemberToSymbol(member, sourceFile, lines, relativePath, includeBody)
+        );
+      }
+    }
+
+    // Svelte's `export let title` is listed as a prop rather than a variable
+    const props = new Set(members.filter((m) => m.kind === SymbolKind.Property).map((m) => m.name));
+    const symbols = [
+      ...members,
+      ...scriptSymbols.filter((s) => !(s.kind === SymbolKind.Variable && props.has(s.name))),
+    ];
+    return symbols.sort((a, b) => a.location.startLine - b.location.startLine);
+  }
+
+  private componentMemberToSymbol(
+    member: ComponentMember,
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    relativePath: string,
+    includeBody: boolean
+  ): Symbol {
+    const start = sourceFile.getLineAndCharacterOfPosition(member.node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(member.node.getEnd());
+
+    const symbol: Symbol = {
+      name: member.name,
+      namePath: buildNamePath(undefined, member.name),
+      kind: member.kind === 'prop' ? SymbolKind.Property : SymbolKind.Event,
+      location: {
+        filepath: relativePath,
+        startLine: start.line + 1,
+        endLine: end.line + 1,
+        startColumn: start.character,
+        endColumn: end.character,
+      },
+      depth: 0,
+    };
+
+    if (includeBody) {
+      symbol.body = lines.slice(start.line, end.line + 1).join('\n');
+    }
+
+    return symbol;
+  }
+
+  /**
+   * Extract the top-level symbols of a parsed TypeScript/JavaScript source file
+   */
+  private extractTypeScriptSymbols(
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    relativePath: string,
+    includeBody: boolean
+  ): Symbol[] {
     const symbols: Symbol[] = [];
 
     const processNode = (
@@ -542,7 +602,7 @@ export class SymbolExtractor {
   private async extractSymbolsWithTreeSitter(
     fullPath: string,
     relativePath: string,
-    config: LanguageConfig,
+    config: LanguageDefinition,
     includeBody: boolean
   ): Promise<Symbol[]> {
     await SymbolExtractor.initialize();
@@ -579,7 +639,7 @@ export class SymbolExtractor {
 
   private processTreeSitterNode(
     node: SyntaxNode,
-    config: LanguageConfig,
+    config: LanguageDefinition,
     lines: string[],
     relativePath: string,
     parentPath: string | undefined,
@@ -588,6 +648,11 @@ export class SymbolExtractor {
     includeBody: boolean,
     parentClassName?: string
   ): void {
+    // Skip uses of a struct/class/enum that has no body (forward declarations, `struct Point p`)
+    if (config.bodyRequiredTypes?.includes(node.type) && !node.childForFieldName('body')) {
+      return;
+    }
+
     // Check for classes
     if (config.classTypes.includes(node.type)) {
       const name = this.getTreeSitterNodeName(node) || 'AnonymousClass';
@@ -680,7 +745,9 @@ export class SymbolExtractor {
           config.constructorTypes.includes(node.type) ||
           name === '__init__' ||
           name === 'initialize' ||
-          name === 'constructor';
+          name === 'constructor' ||
+          name === '__construct' ||
+          name === parentClassName;
 
         const symbol: Symbol = {
           name,
@@ -739,7 +806,9 @@ export class SymbolExtractor {
     // Check for top-level variables
     if (
       config.variableTypes.includes(node.type) &&
-      (node.parent?.type === 'source_file' || node.parent?.type === 'program')
+      (node.parent?.type === 'source_file' ||
+        node.parent?.type === 'program' ||
+        node.parent?.type === 'translation_unit')
     ) {
       const name = this.getTreeSitterNodeName(node);
       if (name) {
@@ -786,6 +855,25 @@ export class SymbolExtractor {
   }
 
   private getTreeSitterNodeName(node: SyntaxNode): string | undefined {
+    // The name field skips return types written before the name (`public Order Get()`)
+    const nameNode = node.childForFieldName('name');
+    if (nameNode) {
+      return nameNode.text;
+    }
+
+    // C/C++ functions and typedefs are named by their declarator (`int *Widget::render()`)
+    const declarator = this.getDeclarator(node);
+    if (declarator) {
+      // Out-of-line definitions are named without their scope, as references use the bare name
+      let name: SyntaxNode = declarator;
+      while (name.type === 'qualified_identifier') {
+        const unqualified = name.childForFieldName('name');
+        if (!unqualified) break;
+        name = unqualified;
+      }
+      return name.text;
+    }
+
     // Look for name/identifier child
     for (const child of node.children) {
       if (
@@ -810,4 +898,22 @@ export class SymbolExtractor {
 
     return undefined;
   }
+
+  /**
+   * Get the innermost C/C++ declarator of a node, following pointer, reference and
+   * function declarators to the declared name
+   */
+  private getDeclarator(node: SyntaxNode): SyntaxNode | null {
+    let declarator = node.childForFieldName('declarator');
+    while (declarator) {
+      const inner =
+        declarator.childForFieldName('declarator') ??
+        (declarator.type === 'reference_declarator' ? declarator.lastNamedChild : null);
+      if (!inner) {
+        break;
+      }
+      declarator = inner;
+    }
+    return declarator;
+  }
 }
@@ -6,9 +6,10 @@ import type { CodeIndexer, CodeChunk, CodebaseSummary } from '../search/indexer.
 import type { ConceptCluster } from '../search/clustering.js';
 import type { ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
+import { toStructuredChunk, toStructuredConcept } from './structured-output.js';
 import { isNumber, isBoolean, isString } from '../utils/type-guards.js';
 import { GlanceyError } from '../utils/errors.js';
-import { dashboardState } from '../dashboard/state.js';
+import type { TokenSavingsTracker } from '../dashboard/token-tracking.js';
 
 /**
  * Context for clustering tools.
@@ -16,6 +17,8 @@ import { dashboardState } from '../dashboard/state.js';
 export interface ClusteringToolContext {
   indexer: CodeIndexer;
   toolGuidance: string;
+  /** Token savings tracker of the project; savings aren't recorded without one */
+  tokenTracker?: TokenSavingsTracker;
 }
 
 /**
@@ -82,14 +85,15 @@ export async function handleSummarizeCodebase(
   // Track token savings (optional)
   try {
     const status = await context.indexer.getStatus();
-    dashboardState
-      .getTokenTracker()
-      .recordSummarizeCodebase(formatted.length, status.fileCount ?? 0);
+    context.tokenTracker?.recordSummarizeCodebase(formatted.length, status.fileCount ?? 0);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, {
+    ...summary,
+    concepts: summary.concepts.map(toStructuredConcept),
+  });
 }
 
 /**
@@ -141,12 +145,14 @@ export async function handleListConcepts(
 
   // Track token savings (optional)
   try {
-    dashboardState.getTokenTracker().recordListConcepts(formatted.length, concepts.length);
+    context.tokenTracker?.recordListConcepts(formatted.length, concepts.length);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, {
+    concepts: concepts.map(toStructuredConcept),
+  });
 }
 
 /**
@@ -216,10 +222,13 @@ export async function handleSearchByConcept(
 
   // Track token savings (optional)
   try {
-    dashboardState.getTokenTracker().recordSearchByConcept(formatted.length, results.length);
+    context.tokenTracker?.recordSearchByConcept(formatted.length, results.length);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, {
+    conceptId: args.conceptId,
+    results: results.map(toStructuredChunk),
+  });
 }
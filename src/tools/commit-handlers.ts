@@ -319,6 +319,7 @@ export async function handleCommit(
           text: formatCommitSuccess(output, validation.warnings),
         },
       ],
+      structuredContent: { output, warnings: validation.warnings },
     };
   } catch (e) {
     // Rollback: unstage files we staged if commit failed
@@ -0,0 +1,154 @@
+/**
+ * Federated queries across the project and its linked projects.
+ */
+
+import * as path from 'path';
+import type { Repository } from './types.js';
+import { GlanceyError } from '../utils/errors.js';
+import { RRF_K } from '../search/indexer.js';
+
+/**
+ * Which repositories a federated tool queries.
+ * - 'project': only this project (default)
+ * - 'linked': only the linked projects from .glancey.json
+ * - 'all': this project and its linked projects
+ */
+export type SearchScope = 'project' | 'linked' | 'all';
+
+const SEARCH_SCOPES: SearchScope[] = ['project', 'linked', 'all'];
+
+/**
+ * JSON Schema of the optional `scope` argument accepted by federated tools.
+ */
+export const SCOPE_ARGUMENT_SCHEMA = {
+  type: 'string',
+  enum: SEARCH_SCOPES,
+  description:
+    "Repositories to search: 'project' (default), 'linked' (the linkedProjects in .glancey.json) or 'all'. Results from several repositories are tagged with their repository.",
+};
+
+/**
+ * Parse a tool's `scope` argument.
+ *
+ * @throws GlanceyError if the value is not a known scope
+ */
+export function parseSearchScope(value: unknown, tool: string): SearchScope {
+  if (value === undefined) {
+    return 'project';
+  }
+  if (!SEARCH_SCOPES.includes(value as SearchScope)) {
+    throw new GlanceyError(`scope must be one of: ${SEARCH_SCOPES.join(', ')}`, 'validation', {
+      tool,
+      scope: value,
+    });
+  }
+  return value as SearchScope;
+}
+
+/**
+ * Get the repository entry for the project itself, named after its directory.
+ */
+export function projectRepository(projectPath: string): Repository {
+  return { name: path.basename(path.resolve(projectPath)), projectPath };
+}
+
+/**
+ * Select the repositories a scope covers, the project first.
+ *
+ * @throws GlanceyError if the scope needs linked projects but none are configured
+ */
+export function selectRepositories<T extends Repository>(
+  scope: SearchScope,
+  project: T,
+  linkedProjects: T[] | undefined,
+  tool: string
+): T[] {
+  if (scope === 'project') {
+    return [project];
+  }
+  if (!linkedProjects || linkedProjects.length === 0) {
+    throw new GlanceyError(
+      `scope '${scope}' requires linkedProjects in .glancey.json`,
+      'validation',
+      { tool, scope }
+    );
+  }
+  return scope === 'linked' ? linkedProjects : [project, ...linkedProjects];
+}
+
+/**
+ * A repository that could not be queried, e.g. because it has no index yet.
+ */
+export interface SkippedRepository {
+  repository: string;
+  error: string;
+}
+
+/**
+ * Results of a query run against several repositories.
+ */
+export interface FederatedResults<R> {
+  results: Array<{ repository: string; result: R }>;
+  skipped: SkippedRepository[];
+}
+
+/**
+ * Run a query against each repository concurrently.
+ * A failing repository is skipped so the others still return results; if every
+ * repository fails, the first error is rethrown.
+ */
+export async function queryRepositories<T extends Repository, R>(
+  repositories: T[],
+  query: (repository: T) => Promise<R>
+): Promise<FederatedResults<R>> {
+  const settled = await Promise.allSettled(repositories.map((repository) => query(repository)));
+
+  const federated: FederatedResults<R> = { results: [], skipped: [] };
+  settled.forEach((outcome, i) => {
+    const repository = repositories[i].name;
+    if (outcome.status === 'fulfilled') {
+      federated.results.push({ repository, result: outcome.value });
+    } else {
+      const reason = outcome.reason;
+      federated.skipped.push({
+        repository,
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+
+  if (federated.results.length === 0) {
+    const firstFailure = settled.find((outcome) => outcome.status === 'rejected');
+    throw (firstFailure as PromiseRejectedResult).reason;
+  }
+  return federated;
+}
+
+/**
+ * Merge ranked results from several repositories into one ranking.
+ * Scores from different indexes are not comparable (each is normalized against its own
+ * candidates), so results are fused by their rank within their repository instead.
+ */
+export function mergeByRank<R>(
+  ranked: Array<{ repository: string; result: R[] }>,
+  limit: number
+): Array<{ repository: string; result: R }> {
+  return ranked
+    .flatMap(({ repository, result }) =>
+      result.map((r, i) => ({ repository, result: r, score: 1 / (RRF_K + i + 1) }))
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ repository, result }) => ({ repository, result }));
+}
+
+/**
+ * Format the repositories that were skipped, or an empty string if none were.
+ */
+export function formatSkippedRepositories(skipped: SkippedRepository[]): string {
+  if (skipped.length === 0) {
+    return '';
+  }
+  const lines = skipped.map((s) => `- ${s.repository}: ${s.error}`);
+  return `**Skipped repositories:**\n${lines.join('\n')}\n\n`;
+}
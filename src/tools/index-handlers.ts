@@ -3,9 +3,11 @@
  */
 
 import type { IndexProgress } from '../search/indexer.js';
+import { formatLockHolder } from '../search/index-lock.js';
 import type { ToolContext, ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
 import { isStringArray, isBoolean } from '../utils/type-guards.js';
+import { LOCAL_BACKEND_NOTE } from '../embeddings/index.js';
 
 /**
  * Arguments for index_codebase tool.
@@ -55,7 +57,8 @@ export async function handleIndexCodebase(
 
   return createToolResponse(
     `${mode}: Indexed ${result.filesIndexed} files, total ${result.chunksCreated} chunks.`,
-    context.toolGuidance
+    context.toolGuidance,
+    { ...result }
   );
 }
 
@@ -76,7 +79,38 @@ export async function handleGetIndexStatus(context: ToolContext): Promise<ToolRe
       statusText;
   }
 
-  return createToolResponse(statusText, context.toolGuidance);
+  if (status.embeddingBackend === 'local') {
+    statusText = `**Note:** ${LOCAL_BACKEND_NOTE}\n\n` + statusText;
+  }
+
+  if (status.embeddingUnavailableReason) {
+    statusText =
+      `**Embedding backend unavailable:** ${status.embeddingUnavailableReason}\n` +
+      `Searches use keyword matching until it recovers` +
+      (status.indexingQueued ? '; queued indexing then resumes automatically.' : '.') +
+      `\n\n` +
+      statusText;
+  }
+
+  // A quota reported exhausted today means indexing and searches fail until it resets
+  const today = new Date().toISOString().slice(0, 10);
+  for (const usage of status.embeddingUsage?.backends ?? []) {
+    if (usage.lastQuotaErrorAt?.startsWith(today)) {
+      statusText =
+        `**Embedding quota exhausted:** ${usage.backend} reported its quota exhausted at ` +
+        `${usage.lastQuotaErrorAt} after ${usage.today.requests} requests today.\n\n` +
+        statusText;
+    }
+  }
+
+  if (status.lockHolder) {
+    statusText =
+      `**${formatLockHolder(status.lockHolder)}.** ` +
+      `Searches use the existing index; indexing from this session waits for it to finish.\n\n` +
+      statusText;
+  }
+
+  return createToolResponse(statusText, context.toolGuidance, { ...status });
 }
 
 /**
@@ -84,5 +118,5 @@ export async function handleGetIndexStatus(context: ToolContext): Promise<ToolRe
  */
 export async function handleClearIndex(context: ToolContext): Promise<ToolResponse> {
   await context.indexer.clearIndex();
-  return createToolResponse('Index cleared.', context.toolGuidance);
+  return createToolResponse('Index cleared.', context.toolGuidance, { cleared: true });
 }
@@ -547,5 +547,6 @@ Agents will now see glancey usage instructions when working in this project.`;
 
   return {
     content: [{ type: 'text', text: response }],
+    structuredContent: { ...result },
   };
 }
@@ -58,5 +58,6 @@ export async function handleGetProjectInstructions(
           'No project instructions configured. Add an "instructions" field to .glancey.json.',
       },
     ],
+    structuredContent: { instructions: fullInstructions },
   };
 }
@@ -5,6 +5,7 @@
 import { MemoryManager, type MemoryInfo } from '../memory/index.js';
 import type { ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
+import { toStructuredMemory } from './structured-output.js';
 import { isString } from '../utils/type-guards.js';
 import { GlanceyError } from '../utils/errors.js';
 
@@ -76,7 +77,8 @@ export async function handleWriteMemory(
   await memoryManager.writeMemory(args.memoryFileName, args.content);
   return createToolResponse(
     `Memory "${args.memoryFileName}" saved successfully.`,
-    context.toolGuidance
+    context.toolGuidance,
+    { name: args.memoryFileName }
   );
 }
 
@@ -113,7 +115,8 @@ export async function handleReadMemory(
   const content = await memoryManager.readMemory(args.memoryFileName);
   return createToolResponse(
     `## Memory: ${args.memoryFileName}\n\n${content}`,
-    context.toolGuidance
+    context.toolGuidance,
+    { name: args.memoryFileName, content }
   );
 }
 
@@ -141,7 +144,9 @@ export function formatMemoryList(memories: MemoryInfo[]): string {
 export async function handleListMemories(context: MemoryToolContext): Promise<ToolResponse> {
   const memoryManager = getMemoryManager(context);
   const memories = await memoryManager.listMemories();
-  return createToolResponse(formatMemoryList(memories), context.toolGuidance);
+  return createToolResponse(formatMemoryList(memories), context.toolGuidance, {
+    memories: memories.map(toStructuredMemory),
+  });
 }
 
 /**
@@ -177,7 +182,8 @@ export async function handleDeleteMemory(
   await memoryManager.deleteMemory(args.memoryFileName);
   return createToolResponse(
     `Memory "${args.memoryFileName}" deleted successfully.`,
-    context.toolGuidance
+    context.toolGuidance,
+    { name: args.memoryFileName }
   );
 }
 
@@ -231,6 +237,7 @@ export async function handleEditMemory(
   );
   return createToolResponse(
     `Memory "${args.memoryFileName}" edited. ${result.matchCount} replacement(s) made.`,
-    context.toolGuidance
+    context.toolGuidance,
+    { name: args.memoryFileName, matchCount: result.matchCount }
   );
 }
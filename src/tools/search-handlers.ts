@@ -2,12 +2,29 @@
  * Tool handlers for search operations.
  */
 
-import type { CodeChunk, SimilarCodeResult } from '../search/indexer.js';
-import type { ToolContext, ToolResponse } from './types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  CodeChunk,
+  ExplainedSearchResults,
+  SearchScoreBreakdown,
+  SimilarCodeResult,
+} from '../search/indexer.js';
+import type { LinkedProjectContext, ToolContext, ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
-import { isString, isNumber, isStringArray } from '../utils/type-guards.js';
+import { toStructuredChunk } from './structured-output.js';
+import {
+  parseSearchScope,
+  projectRepository,
+  selectRepositories,
+  queryRepositories,
+  mergeByRank,
+  formatSkippedRepositories,
+  type SearchScope,
+} from './federation.js';
+import { NotebookChunker } from '../search/notebook-chunker.js';
+import { isString, isNumber, isStringArray, isBoolean } from '../utils/type-guards.js';
 import { GlanceyError } from '../utils/errors.js';
-import { dashboardState } from '../dashboard/state.js';
 
 /**
  * Arguments for search_code tool.
@@ -17,6 +34,8 @@ export interface SearchCodeArgs {
   limit?: number;
   pathPattern?: string;
   languages?: string[];
+  explain?: boolean;
+  scope?: SearchScope;
 }
 
 /**
@@ -33,29 +52,110 @@ export function parseSearchCodeArgs(args: Record<string, unknown> | undefined):
     limit: isNumber(args?.limit) ? args.limit : 10,
     pathPattern: isString(args?.pathPattern) ? args.pathPattern : undefined,
     languages: isStringArray(args?.languages) ? args.languages : undefined,
+    explain: isBoolean(args?.explain) ? args.explain : false,
+    scope: parseSearchScope(args?.scope, 'search_code'),
   };
 }
 
+/**
+ * Format a result's location. Lines of a notebook chunk are counted within its cell.
+ */
+function formatLocation(chunk: CodeChunk): string {
+  const location = `${chunk.filepath}:${chunk.startLine}-${chunk.endLine}`;
+  return chunk.cellIndex !== undefined ? `${location} (cell ${chunk.cellIndex})` : location;
+}
+
 /**
  * Format search results for display.
+ * When score breakdowns are given (explain mode), each result includes its scoring details.
+ * When repositories are given (federated search), each result names its repository.
  */
-export function formatSearchResults(results: CodeChunk[]): string {
+export function formatSearchResults(
+  results: CodeChunk[],
+  breakdowns?: SearchScoreBreakdown[],
+  repositories?: string[]
+): string {
   if (results.length === 0) {
     return 'No results found.';
   }
 
   return results
     .map((r, i) => {
-      let header = `## Result ${i + 1}: ${r.filepath}:${r.startLine}-${r.endLine}`;
+      let header = `## Result ${i + 1}: ${formatLocation(r)}`;
+      if (repositories?.[i]) {
+        header += `\n**Repository:** ${repositories[i]}`;
+      }
       if (r.symbolName) {
         const typeLabel = r.symbolType ? ` (${r.symbolType})` : '';
         header += `\n**Symbol:** \`${r.symbolName}\`${typeLabel}`;
       }
+      if (breakdowns?.[i]) {
+        header += `\n${formatScoreBreakdown(breakdowns[i])}`;
+      }
       return `${header}\n\`\`\`${r.language}\n${r.content}\n\`\`\``;
     })
     .join('\n\n');
 }
 
+/**
+ * Format a number for score output, or 'n/a' when missing.
+ */
+function formatScore(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(4);
+}
+
+/**
+ * Format a single result's score breakdown.
+ */
+export function formatScoreBreakdown(breakdown: SearchScoreBreakdown): string {
+  const semanticRank = breakdown.semanticRank !== null ? `#${breakdown.semanticRank}` : 'n/a';
+  const keywordRank = breakdown.keywordRank !== null ? `#${breakdown.keywordRank}` : 'n/a';
+  const lines = [
+    `**Score:** ${formatScore(breakdown.score)}`,
+    `- Semantic: distance ${formatScore(breakdown.semanticDistance)}, rank ${semanticRank}, component ${formatScore(breakdown.semanticScore)}`,
+    `- Keyword: BM25 ${formatScore(breakdown.keywordScore)}, rank ${keywordRank}, component ${formatScore(breakdown.keywordComponent)}`,
+  ];
+  if (breakdown.exactSymbolMatch) {
+    lines.push(`- Exact symbol match: +${breakdown.symbolBoost}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format query-level search details for explain mode.
+ * Federated searches explain each repository's search under its own heading.
+ */
+export function formatSearchExplanation(
+  explained: ExplainedSearchResults,
+  repository?: string
+): string {
+  const { explanation } = explained;
+  const filters: string[] = [];
+  if (explanation.filters.pathPattern) {
+    filters.push(`pathPattern=${explanation.filters.pathPattern}`);
+  }
+  if (explanation.filters.languages && explanation.filters.languages.length > 0) {
+    filters.push(`languages=${explanation.filters.languages.join(',')}`);
+  }
+
+  const formula =
+    explanation.fusion === 'rrf'
+      ? `score = ${explanation.semanticWeight} × 1/(k + semantic rank) + ${explanation.keywordWeight} × 1/(k + keyword rank) + symbol boost`
+      : `score = ${explanation.semanticWeight} × 1/(1 + distance) + ${explanation.keywordWeight} × BM25/max BM25 + symbol boost`;
+
+  return [
+    repository ? `# Search Explanation: ${repository}` : '# Search Explanation',
+    `**Fusion:** ${explanation.fusion} (${formula})`,
+    `**Weights:** semantic ${explanation.semanticWeight}, keyword ${explanation.keywordWeight}`,
+    `**Filters:** ${filters.length > 0 ? filters.join('; ') : 'none'}`,
+    `**From cache:** ${explanation.fromCache ? 'yes' : 'no'}`,
+    `**Candidates:** ${explanation.candidates.vector} vector, ${explanation.candidates.keyword} keyword (${explanation.candidates.keywordOnly} keyword-only), ${explanation.candidates.afterFilters} after filters`,
+    ...(explanation.keywordOnlyReason
+      ? [`**Keyword only:** query not embedded (${explanation.keywordOnlyReason})`]
+      : []),
+  ].join('\n');
+}
+
 /**
  * Handle search_code tool.
  */
@@ -63,28 +163,146 @@ export async function handleSearchCode(
   args: SearchCodeArgs,
   context: ToolContext
 ): Promise<ToolResponse> {
-  const results = await context.indexer.search({
+  if (args.scope && args.scope !== 'project') {
+    return handleFederatedSearchCode(args, context);
+  }
+
+  const searchOptions = {
     query: args.query,
     limit: args.limit,
     pathPattern: args.pathPattern,
     languages: args.languages,
-  });
+  };
 
-  const formatted = formatSearchResults(results);
+  let results: CodeChunk[];
+  let formatted: string;
+  let structured: Record<string, unknown>;
+  if (args.explain) {
+    const explained = await context.indexer.explainSearch(searchOptions);
+    results = explained.results.map((r) => r.chunk);
+    formatted = `${formatSearchExplanation(explained)}\n\n${formatSearchResults(
+      results,
+      explained.results.map((r) => r.breakdown)
+    )}`;
+    structured = {
+      results: explained.results.map((r) => ({
+        ...toStructuredChunk(r.chunk),
+        breakdown: r.breakdown,
+      })),
+      explanation: explained.explanation,
+    };
+  } else {
+    results = await context.indexer.search(searchOptions);
+    formatted = formatSearchResults(results);
+    structured = { results: results.map(toStructuredChunk) };
+  }
 
-  // Track token savings (optional - may not be available in tests)
+  // Note keyword-only results and track token savings (optional - may not be available in tests)
   try {
     const status = await context.indexer.getStatus();
+    if (status.embeddingUnavailableReason) {
+      formatted =
+        `**Note:** The embedding backend is unavailable (${status.embeddingUnavailableReason}); ` +
+        `results are ranked by keyword matching only.\n\n` +
+        formatted;
+    }
     const charsReturned = formatted.length;
     const matchedFiles = new Set(results.map((r) => r.filepath)).size;
-    dashboardState
-      .getTokenTracker()
-      .recordSearchCode(charsReturned, matchedFiles, status.fileCount ?? 0);
+    context.tokenTracker?.recordSearchCode(charsReturned, matchedFiles, status.fileCount ?? 0);
   } catch {
     // Token tracking not available, continue silently
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, structured);
+}
+
+/**
+ * Get the repositories a federated search covers, each with a way to open its index.
+ */
+function selectSearchRepositories(
+  scope: SearchScope | undefined,
+  context: ToolContext,
+  tool: string
+): LinkedProjectContext[] {
+  const project: LinkedProjectContext = {
+    ...projectRepository(context.projectPath),
+    getIndexer: async () => context.indexer,
+  };
+  return selectRepositories(scope ?? 'project', project, context.linkedProjects, tool);
+}
+
+/**
+ * Handle search_code across linked projects.
+ * Each repository is searched with its own index and settings; the results are merged
+ * into one ranking by reciprocal rank fusion over each repository's ranking.
+ */
+async function handleFederatedSearchCode(
+  args: SearchCodeArgs,
+  context: ToolContext
+): Promise<ToolResponse> {
+  const repositories = selectSearchRepositories(args.scope, context, 'search_code');
+  const searchOptions = {
+    query: args.query,
+    limit: args.limit,
+    pathPattern: args.pathPattern,
+    languages: args.languages,
+  };
+
+  const { results: searched, skipped } = await queryRepositories(repositories, async (repo) => {
+    const indexer = await repo.getIndexer();
+    const explained = await indexer.explainSearch(searchOptions);
+    const status = await indexer.getStatus().catch(() => null);
+    return { explained, fileCount: status?.fileCount ?? 0 };
+  });
+
+  const ranked = mergeByRank(
+    searched.map(({ repository, result }) => ({
+      repository,
+      result: result.explained.results,
+    })),
+    args.limit ?? 10
+  ).map(({ repository, result }) => ({ repository, ...result }));
+  const results = ranked.map((r) => r.chunk);
+
+  let formatted = formatSkippedRepositories(skipped);
+  if (args.explain) {
+    for (const { repository, result } of searched) {
+      formatted += `${formatSearchExplanation(result.explained, repository)}\n\n`;
+    }
+  }
+  formatted += formatSearchResults(
+    results,
+    args.explain ? ranked.map((r) => r.breakdown) : undefined,
+    ranked.map((r) => r.repository)
+  );
+
+  const structured: Record<string, unknown> = {
+    results: ranked.map((r) => ({
+      ...toStructuredChunk(r.chunk),
+      repository: r.repository,
+      ...(args.explain ? { breakdown: r.breakdown } : {}),
+    })),
+  };
+  if (args.explain) {
+    structured.explanations = searched.map(({ repository, result }) => ({
+      repository,
+      ...result.explained.explanation,
+    }));
+  }
+  if (skipped.length > 0) {
+    structured.skipped = skipped;
+  }
+
+  // Track token savings (optional)
+  try {
+    const matchedFiles = new Set(ranked.map((r) => `${r.repository}/${r.chunk.filepath}`)).size;
+    const totalFiles = searched.reduce((sum, { result }) => sum + result.fileCount, 0);
+    context.tokenTracker?.recordSearchCode(formatted.length, matchedFiles, totalFiles);
+  } catch {
+    // Token tracking not available
+  }
+
+  return createToolResponse(formatted, context.toolGuidance, structured);
 }
 
 /**
@@ -95,9 +313,11 @@ export interface SearchSimilarArgs {
   filepath?: string;
   startLine?: number;
   endLine?: number;
+  cellIndex?: number;
   limit?: number;
   threshold?: number;
   excludeSelf?: boolean;
+  scope?: SearchScope;
 }
 
 /**
@@ -120,23 +340,32 @@ export function parseSearchSimilarArgs(
     filepath,
     startLine: isNumber(args?.startLine) ? args.startLine : undefined,
     endLine: isNumber(args?.endLine) ? args.endLine : undefined,
+    cellIndex: isNumber(args?.cellIndex) ? args.cellIndex : undefined,
     limit: isNumber(args?.limit) ? args.limit : 10,
     threshold: isNumber(args?.threshold) ? args.threshold : undefined,
     excludeSelf: args?.excludeSelf !== false, // Default to true
+    scope: parseSearchScope(args?.scope, 'search_similar'),
   };
 }
 
 /**
  * Format similar code results for display.
+ * When repositories are given (federated search), each result names its repository.
  */
-export function formatSimilarResults(results: SimilarCodeResult[]): string {
+export function formatSimilarResults(
+  results: SimilarCodeResult[],
+  repositories?: string[]
+): string {
   if (results.length === 0) {
     return 'No similar code found.';
   }
 
   return results
     .map((r, i) => {
-      let header = `## Similar ${i + 1}: ${r.filepath}:${r.startLine}-${r.endLine} (${(r.similarity * 100).toFixed(1)}% similar)`;
+      let header = `## Similar ${i + 1}: ${formatLocation(r)} (${(r.similarity * 100).toFixed(1)}% similar)`;
+      if (repositories?.[i]) {
+        header += `\n**Repository:** ${repositories[i]}`;
+      }
       if (r.symbolName) {
         const typeLabel = r.symbolType ? ` (${r.symbolType})` : '';
         header += `\n**Symbol:** \`${r.symbolName}\`${typeLabel}`;
@@ -153,11 +382,16 @@ export async function handleSearchSimilar(
   args: SearchSimilarArgs,
   context: ToolContext
 ): Promise<ToolResponse> {
+  if (args.scope && args.scope !== 'project') {
+    return handleFederatedSearchSimilar(args, context);
+  }
+
   const results = await context.indexer.searchSimilar({
     code: args.code,
     filepath: args.filepath,
     startLine: args.startLine,
     endLine: args.endLine,
+    cellIndex: args.cellIndex,
     limit: args.limit,
     threshold: args.threshold,
     excludeSelf: args.excludeSelf,
@@ -167,10 +401,116 @@ export async function handleSearchSimilar(
 
   // Track token savings (optional)
   try {
-    dashboardState.getTokenTracker().recordSearchSimilar(formatted.length, results.length);
+    context.tokenTracker?.recordSearchSimilar(formatted.length, results.length);
+  } catch {
+    // Token tracking not available
+  }
+
+  return createToolResponse(formatted, context.toolGuidance, {
+    results: results.map(toStructuredChunk),
+  });
+}
+
+/**
+ * Read the lines a search_similar call refers to from the project.
+ * Notebook lines count from the start of the given cell.
+ */
+async function readSourceCode(
+  projectPath: string,
+  filepath: string,
+  args: SearchSimilarArgs
+): Promise<string> {
+  const notebook = NotebookChunker.canParse(filepath);
+  if (notebook && args.cellIndex === undefined) {
+    throw new GlanceyError(
+      'cellIndex is required to find code similar to a notebook',
+      'validation',
+      {
+        tool: 'search_similar',
+        filepath,
+      }
+    );
+  }
+
+  let content: string;
+  try {
+    const fullPath = path.join(projectPath, filepath);
+    content =
+      notebook && args.cellIndex !== undefined
+        ? await NotebookChunker.readCell(fullPath, args.cellIndex)
+        : await fs.readFile(fullPath, 'utf-8');
+  } catch (error) {
+    const message =
+      notebook && error instanceof Error ? error.message : `File not found: ${filepath}`;
+    throw new GlanceyError(message, 'validation', {
+      tool: 'search_similar',
+    });
+  }
+  const lines = content.split('\n');
+  const start = args.startLine ? args.startLine - 1 : 0;
+  const end = args.endLine ? args.endLine : lines.length;
+  return lines.slice(start, end).join('\n');
+}
+
+/**
+ * Handle search_similar across linked projects.
+ * A filepath refers to this project: its code is read here and looked up in the linked
+ * indexes as a snippet. Results are merged by their rank within each repository.
+ */
+async function handleFederatedSearchSimilar(
+  args: SearchSimilarArgs,
+  context: ToolContext
+): Promise<ToolResponse> {
+  const repositories = selectSearchRepositories(args.scope, context, 'search_similar');
+  const options = {
+    code: args.code,
+    filepath: args.filepath,
+    startLine: args.startLine,
+    endLine: args.endLine,
+    cellIndex: args.cellIndex,
+    limit: args.limit,
+    threshold: args.threshold,
+    excludeSelf: args.excludeSelf,
+  };
+  // The source chunk only exists in this project, so linked indexes keep identical copies
+  const linkedOptions =
+    args.code || !args.filepath
+      ? options
+      : {
+          code: await readSourceCode(context.projectPath, args.filepath, args),
+          limit: args.limit,
+          threshold: args.threshold,
+          excludeSelf: false,
+        };
+
+  const { results: searched, skipped } = await queryRepositories(repositories, async (repo) => {
+    const indexer = await repo.getIndexer();
+    return indexer.searchSimilar(
+      repo.projectPath === context.projectPath ? options : linkedOptions
+    );
+  });
+
+  const ranked = mergeByRank(searched, args.limit ?? 10);
+
+  const formatted =
+    formatSkippedRepositories(skipped) +
+    formatSimilarResults(
+      ranked.map((r) => r.result),
+      ranked.map((r) => r.repository)
+    );
+
+  // Track token savings (optional)
+  try {
+    context.tokenTracker?.recordSearchSimilar(formatted.length, ranked.length);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  const structured: Record<string, unknown> = {
+    results: ranked.map((r) => ({ ...toStructuredChunk(r.result), repository: r.repository })),
+  };
+  if (skipped.length > 0) {
+    structured.skipped = skipped;
+  }
+  return createToolResponse(formatted, context.toolGuidance, structured);
 }
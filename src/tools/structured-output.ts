@@ -0,0 +1,533 @@
+/**
+ * Structured tool output.
+ * Every tool returns typed JSON in `structuredContent` alongside its markdown text, and
+ * declares the shape as an `outputSchema` so scripts and orchestrators don't have to
+ * parse the markdown.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { CodeChunk } from '../search/indexer.js';
+import type { ConceptCluster } from '../search/clustering.js';
+import type { MemoryInfo } from '../memory/index.js';
+import type { WorktreeInfo } from '../worktree/index.js';
+
+/**
+ * JSON Schema for a tool's structured output (an MCP `outputSchema`).
+ */
+export type ToolOutputSchema = NonNullable<Tool['outputSchema']>;
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * A code chunk without its embedding vector.
+ */
+export type StructuredChunk<T extends CodeChunk = CodeChunk> = Omit<T, 'embedding'>;
+
+/**
+ * Drop a chunk's embedding, which is large and meaningless outside the index.
+ */
+export function toStructuredChunk<T extends CodeChunk>(chunk: T): StructuredChunk<T> {
+  const { embedding: _embedding, ...rest } = chunk;
+  return rest;
+}
+
+/**
+ * A concept cluster without its centroid vector.
+ */
+export type StructuredConcept = Omit<ConceptCluster, 'centroid'>;
+
+/**
+ * Drop a cluster's centroid, which has one entry per embedding dimension.
+ */
+export function toStructuredConcept(concept: ConceptCluster): StructuredConcept {
+  const { centroid: _centroid, ...rest } = concept;
+  return rest;
+}
+
+/**
+ * Memory metadata with an ISO timestamp instead of a Date.
+ */
+export function toStructuredMemory(memory: MemoryInfo): {
+  name: string;
+  size: number;
+  lastModified: string;
+} {
+  return {
+    name: memory.name,
+    size: memory.size,
+    lastModified: memory.lastModified.toISOString(),
+  };
+}
+
+/**
+ * Worktree info with an ISO creation timestamp instead of a Date.
+ */
+export function toStructuredWorktree(
+  worktree: WorktreeInfo
+): Omit<WorktreeInfo, 'createdAt'> & { createdAt?: string } {
+  const { createdAt, ...rest } = worktree;
+  return createdAt ? { ...rest, createdAt: createdAt.toISOString() } : rest;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const STRING = { type: 'string' };
+const NUMBER = { type: 'number' };
+const INTEGER = { type: 'integer' };
+const BOOLEAN = { type: 'boolean' };
+const NULLABLE_NUMBER = { type: ['number', 'null'] };
+const STRING_ARRAY = { type: 'array', items: STRING };
+
+/**
+ * Properties of an indexed code chunk (`CodeChunk` without `embedding`).
+ */
+const CHUNK_PROPERTIES = {
+  id: STRING,
+  filepath: STRING,
+  content: STRING,
+  startLine: INTEGER,
+  endLine: INTEGER,
+  language: STRING,
+  symbolType: STRING,
+  symbolName: STRING,
+  contentHash: STRING,
+  cellIndex: INTEGER,
+};
+
+const CHUNK_REQUIRED = ['id', 'filepath', 'content', 'startLine', 'endLine', 'language'];
+
+const CHUNK_SCHEMA = {
+  type: 'object',
+  properties: CHUNK_PROPERTIES,
+  required: CHUNK_REQUIRED,
+};
+
+/**
+ * Per-result scoring details of `search_code` in explain mode (`SearchScoreBreakdown`).
+ */
+const SCORE_BREAKDOWN_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: NUMBER,
+    semanticDistance: NULLABLE_NUMBER,
+    semanticScore: NUMBER,
+    semanticRank: NULLABLE_NUMBER,
+    keywordScore: NULLABLE_NUMBER,
+    keywordComponent: NUMBER,
+    keywordRank: NULLABLE_NUMBER,
+    exactSymbolMatch: BOOLEAN,
+    symbolBoost: NUMBER,
+  },
+  required: ['score', 'semanticScore', 'keywordComponent', 'exactSymbolMatch'],
+};
+
+const SYMBOL_LOCATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    filepath: STRING,
+    startLine: INTEGER,
+    endLine: INTEGER,
+    startColumn: INTEGER,
+    endColumn: INTEGER,
+  },
+  required: ['filepath', 'startLine', 'endLine'],
+};
+
+/**
+ * A code symbol (`Symbol`). `kind` is the LSP symbol kind number.
+ */
+const SYMBOL_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: STRING,
+    namePath: STRING,
+    kind: INTEGER,
+    location: SYMBOL_LOCATION_SCHEMA,
+    parentNamePath: STRING,
+    depth: INTEGER,
+    children: { type: 'array', items: { type: 'object' } },
+    body: STRING,
+    info: STRING,
+  },
+  required: ['name', 'namePath', 'kind', 'location'],
+};
+
+/**
+ * Repositories a federated search (scope 'linked' or 'all') could not query.
+ */
+const SKIPPED_REPOSITORIES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { repository: STRING, error: STRING },
+    required: ['repository', 'error'],
+  },
+};
+
+const CONCEPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: INTEGER,
+    label: STRING,
+    size: INTEGER,
+    representativeChunks: STRING_ARRAY,
+    keywords: STRING_ARRAY,
+  },
+  required: ['id', 'label', 'size', 'keywords'],
+};
+
+const MEMORY_SCHEMA = {
+  type: 'object',
+  properties: { name: STRING, size: INTEGER, lastModified: STRING },
+  required: ['name', 'size', 'lastModified'],
+};
+
+/**
+ * Properties of a git worktree (`WorktreeInfo`), with `createdAt` as an ISO timestamp.
+ */
+const WORKTREE_PROPERTIES = {
+  name: STRING,
+  path: STRING,
+  branch: STRING,
+  commit: STRING,
+  valid: BOOLEAN,
+  dirty: BOOLEAN,
+  ahead: INTEGER,
+  behind: INTEGER,
+  createdAt: STRING,
+};
+
+const WORKTREE_REQUIRED = ['name', 'path', 'branch'];
+
+/**
+ * Result of a symbol edit (`EditResult`).
+ */
+const EDIT_RESULT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    success: BOOLEAN,
+    filepath: STRING,
+    symbolName: STRING,
+    newRange: {
+      type: 'object',
+      properties: { startLine: INTEGER, endLine: INTEGER },
+      required: ['startLine', 'endLine'],
+    },
+  },
+  required: ['success', 'filepath', 'symbolName'],
+};
+
+/**
+ * Output schema of every tool, by tool name.
+ */
+export const TOOL_OUTPUT_SCHEMAS: Record<string, ToolOutputSchema> = {
+  index_codebase: {
+    type: 'object',
+    properties: {
+      filesIndexed: INTEGER,
+      chunksCreated: INTEGER,
+      incremental: BOOLEAN,
+      repaired: BOOLEAN,
+    },
+    required: ['filesIndexed', 'chunksCreated', 'incremental'],
+  },
+  search_code: {
+    type: 'object',
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            ...CHUNK_PROPERTIES,
+            repository: STRING,
+            breakdown: SCORE_BREAKDOWN_SCHEMA,
+          },
+          required: CHUNK_REQUIRED,
+        },
+      },
+      explanation: { type: 'object' },
+      explanations: { type: 'array', items: { type: 'object' } },
+      skipped: SKIPPED_REPOSITORIES_SCHEMA,
+    },
+    required: ['results'],
+  },
+  get_index_status: {
+    type: 'object',
+    properties: {
+      indexed: BOOLEAN,
+      fileCount: INTEGER,
+      chunkCount: INTEGER,
+      lastUpdated: { type: ['string', 'null'] },
+      indexPath: STRING,
+      embeddingBackend: STRING,
+      embeddingModel: STRING,
+      corrupted: BOOLEAN,
+      corruptionReason: STRING,
+      backendMismatch: BOOLEAN,
+      backendMismatchReason: STRING,
+      isIndexing: BOOLEAN,
+      chunkingStats: { type: 'object' },
+      lockHolder: { type: 'object' },
+      embeddingUnavailableReason: STRING,
+      indexingQueued: BOOLEAN,
+      embeddingUsage: { type: 'object' },
+    },
+    required: ['indexed', 'fileCount', 'chunkCount', 'lastUpdated', 'indexPath'],
+  },
+  clear_index: {
+    type: 'object',
+    properties: { cleared: BOOLEAN },
+    required: ['cleared'],
+  },
+  get_project_instructions: {
+    type: 'object',
+    properties: { instructions: STRING },
+    required: ['instructions'],
+  },
+  search_similar: {
+    type: 'object',
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { ...CHUNK_PROPERTIES, repository: STRING, similarity: NUMBER },
+          required: [...CHUNK_REQUIRED, 'similarity'],
+        },
+      },
+      skipped: SKIPPED_REPOSITORIES_SCHEMA,
+    },
+    required: ['results'],
+  },
+  summarize_codebase: {
+    type: 'object',
+    properties: {
+      totalFiles: INTEGER,
+      totalChunks: INTEGER,
+      languages: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { language: STRING, fileCount: INTEGER, chunkCount: INTEGER },
+          required: ['language', 'fileCount', 'chunkCount'],
+        },
+      },
+      concepts: { type: 'array', items: CONCEPT_SCHEMA },
+      clusteringQuality: NUMBER,
+      generatedAt: STRING,
+    },
+    required: ['totalFiles', 'totalChunks', 'languages', 'concepts'],
+  },
+  list_concepts: {
+    type: 'object',
+    properties: { concepts: { type: 'array', items: CONCEPT_SCHEMA } },
+    required: ['concepts'],
+  },
+  search_by_concept: {
+    type: 'object',
+    properties: {
+      conceptId: INTEGER,
+      results: { type: 'array', items: CHUNK_SCHEMA },
+    },
+    required: ['conceptId', 'results'],
+  },
+  commit: {
+    type: 'object',
+    properties: { output: STRING, warnings: STRING_ARRAY },
+    required: ['output', 'warnings'],
+  },
+  get_symbols_overview: {
+    type: 'object',
+    properties: {
+      filepath: STRING,
+      totalSymbols: INTEGER,
+      byKind: {
+        type: 'object',
+        additionalProperties: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: STRING, namePath: STRING, lines: STRING, children: INTEGER },
+            required: ['name', 'namePath', 'lines'],
+          },
+        },
+      },
+    },
+    required: ['filepath', 'totalSymbols', 'byKind'],
+  },
+  find_symbol: {
+    type: 'object',
+    properties: {
+      symbols: {
+        type: 'array',
+        items: {
+          ...SYMBOL_SCHEMA,
+          properties: { ...SYMBOL_SCHEMA.properties, repository: STRING },
+        },
+      },
+      skipped: SKIPPED_REPOSITORIES_SCHEMA,
+    },
+    required: ['symbols'],
+  },
+  find_referencing_symbols: {
+    type: 'object',
+    properties: {
+      references: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            referencingSymbol: SYMBOL_SCHEMA,
+            codeSnippet: STRING,
+            line: INTEGER,
+            column: INTEGER,
+          },
+          required: ['referencingSymbol', 'codeSnippet', 'line'],
+        },
+      },
+    },
+    required: ['references'],
+  },
+  search_for_pattern: {
+    type: 'object',
+    properties: {
+      totalMatches: INTEGER,
+      matches: {
+        type: 'object',
+        additionalProperties: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: INTEGER,
+              content: STRING,
+              matchStart: INTEGER,
+              matchLength: INTEGER,
+            },
+            required: ['line', 'content'],
+          },
+        },
+      },
+    },
+    required: ['totalMatches', 'matches'],
+  },
+  write_memory: {
+    type: 'object',
+    properties: { name: STRING },
+    required: ['name'],
+  },
+  read_memory: {
+    type: 'object',
+    properties: { name: STRING, content: STRING },
+    required: ['name', 'content'],
+  },
+  list_memories: {
+    type: 'object',
+    properties: { memories: { type: 'array', items: MEMORY_SCHEMA } },
+    required: ['memories'],
+  },
+  delete_memory: {
+    type: 'object',
+    properties: { name: STRING },
+    required: ['name'],
+  },
+  edit_memory: {
+    type: 'object',
+    properties: { name: STRING, matchCount: INTEGER },
+    required: ['name', 'matchCount'],
+  },
+  replace_symbol_body: EDIT_RESULT_SCHEMA,
+  insert_before_symbol: EDIT_RESULT_SCHEMA,
+  insert_after_symbol: EDIT_RESULT_SCHEMA,
+  rename_symbol: {
+    type: 'object',
+    properties: {
+      success: BOOLEAN,
+      originalName: STRING,
+      newName: STRING,
+      modifiedFiles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { filepath: STRING, replacements: INTEGER },
+          required: ['filepath', 'replacements'],
+        },
+      },
+      totalReplacements: INTEGER,
+      dryRun: BOOLEAN,
+    },
+    required: ['success', 'originalName', 'newName', 'modifiedFiles', 'totalReplacements'],
+  },
+  create_worktree: {
+    type: 'object',
+    properties: {
+      worktree: { type: 'object', properties: WORKTREE_PROPERTIES, required: WORKTREE_REQUIRED },
+      depsInstalled: BOOLEAN,
+      depsInstallTime: NUMBER,
+    },
+    required: ['worktree'],
+  },
+  list_worktrees: {
+    type: 'object',
+    properties: {
+      worktrees: {
+        type: 'array',
+        items: { type: 'object', properties: WORKTREE_PROPERTIES, required: WORKTREE_REQUIRED },
+      },
+      count: INTEGER,
+    },
+    required: ['worktrees', 'count'],
+  },
+  remove_worktree: {
+    type: 'object',
+    properties: { name: STRING, branch: STRING, branchDeleted: BOOLEAN },
+    required: ['name'],
+  },
+  worktree_status: {
+    type: 'object',
+    properties: WORKTREE_PROPERTIES,
+    required: WORKTREE_REQUIRED,
+  },
+  open_dashboard: {
+    type: 'object',
+    properties: { url: STRING, alreadyRunning: BOOLEAN },
+    required: ['url', 'alreadyRunning'],
+  },
+  init_project: {
+    type: 'object',
+    properties: {
+      claudeMdUpdated: BOOLEAN,
+      claudeMdCreated: BOOLEAN,
+      hookInstalled: BOOLEAN,
+      hookSkipped: BOOLEAN,
+      hookSkipReason: STRING,
+      skillInstalled: BOOLEAN,
+      skillSkipped: BOOLEAN,
+      mcpConfigCreated: BOOLEAN,
+      mcpConfigUpdated: BOOLEAN,
+      mcpConfigSkipped: BOOLEAN,
+      messages: STRING_ARRAY,
+    },
+    required: ['messages'],
+  },
+  list_projects: {
+    type: 'object',
+    properties: {
+      projects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { name: STRING, path: STRING },
+          required: ['name', 'path'],
+        },
+      },
+      defaultProject: STRING,
+    },
+    required: ['projects', 'defaultProject'],
+  },
+};
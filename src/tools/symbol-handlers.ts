@@ -22,11 +22,21 @@ import {
   type SymbolsOverview,
   type EditResult,
 } from '../symbols/index.js';
-import type { ToolResponse } from './types.js';
+import type { Repository, ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
+import {
+  parseSearchScope,
+  projectRepository,
+  selectRepositories,
+  queryRepositories,
+  formatSkippedRepositories,
+  type SearchScope,
+} from './federation.js';
 import { isString, isNumber, isBoolean } from '../utils/type-guards.js';
 import { GlanceyError } from '../utils/errors.js';
-import { dashboardState } from '../dashboard/state.js';
+import { IgnoreRules } from '../utils/ignore-rules.js';
+import { SFC_EXTENSIONS, getBuiltinLanguages, type LanguageRegistry } from '../languages/index.js';
+import type { TokenSavingsTracker } from '../dashboard/token-tracking.js';
 
 /**
  * Context for symbol tools.
@@ -34,6 +44,10 @@ import { dashboardState } from '../dashboard/state.js';
 export interface SymbolToolContext {
   projectPath: string;
   toolGuidance: string;
+  /** Linked projects searched by find_symbol with scope 'linked' or 'all' */
+  linkedProjects?: Repository[];
+  /** Token savings tracker of the project; savings aren't recorded without one */
+  tokenTracker?: TokenSavingsTracker;
 }
 
 // ============================================================================
@@ -100,12 +114,12 @@ export async function handleGetSymbolsOverview(
   // Track token savings (optional)
   try {
     const estimatedFileLines = Math.max(100, overview.totalSymbols * 15); // ~15 lines per symbol on average
-    dashboardState.getTokenTracker().recordSymbolsOverview(formatted.length, estimatedFileLines);
+    context.tokenTracker?.recordSymbolsOverview(formatted.length, estimatedFileLines);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, { ...overview });
 }
 
 // ============================================================================
@@ -123,6 +137,7 @@ export interface FindSymbolArgs {
   substringMatching?: boolean;
   includeKinds?: SymbolKind[];
   excludeKinds?: SymbolKind[];
+  scope?: SearchScope;
 }
 
 /**
@@ -148,46 +163,48 @@ export function parseFindSymbolArgs(args: Record<string, unknown> | undefined):
     excludeKinds: Array.isArray(args?.exclude_kinds)
       ? (args.exclude_kinds as SymbolKind[])
       : undefined,
+    scope: parseSearchScope(args?.scope, 'find_symbol'),
   };
 }
 
 /**
- * Code file extensions to search.
+ * TypeScript/JavaScript extensions, parsed with the TypeScript compiler
+ * (as are the script blocks of SFC_EXTENSIONS components).
+ * Other languages come from the project's language registry.
  */
-const CODE_EXTENSIONS = [
-  '*.ts',
-  '*.tsx',
-  '*.js',
-  '*.jsx',
-  '*.py',
-  '*.go',
-  '*.rs',
-  '*.java',
-  '*.rb',
-];
+const TS_JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * Directories never searched for symbols.
+ */
+const FIND_SYMBOL_EXCLUDES = ['node_modules/**', 'dist/**', '.git/**'];
 
 /**
  * Get files to search for symbols.
+ * Files excluded by .gitignore, .git/info/exclude or .glanceyignore are skipped.
  */
 export async function getFilesToSearch(
   projectPath: string,
-  relativePath?: string
+  relativePath?: string,
+  languages: LanguageRegistry = getBuiltinLanguages()
 ): Promise<string[]> {
   const files: string[] = [];
   const { glob: globFn } = await import('glob');
+  const extensions = [...TS_JS_EXTENSIONS, ...SFC_EXTENSIONS, ...languages.getExtensions()];
 
   if (relativePath) {
     const fullPath = path.join(projectPath, relativePath);
     try {
       const fsStat = fs.statSync(fullPath);
       if (fsStat.isFile()) {
-        files.push(relativePath);
+        // An explicitly requested file is always searched
+        return [relativePath];
       } else {
         // Directory - find all analyzable files
-        for (const ext of CODE_EXTENSIONS) {
-          const matches = await globFn(`**/${ext}`, {
+        for (const ext of extensions) {
+          const matches = await globFn(`**/*${ext}`, {
             cwd: fullPath,
-            ignore: ['node_modules/**', 'dist/**', '.git/**'],
+            ignore: FIND_SYMBOL_EXCLUDES,
           });
           files.push(...matches.map((f: string) => path.join(relativePath, f)));
         }
@@ -199,23 +216,34 @@ export async function getFilesToSearch(
     }
   } else {
     // Search whole codebase
-    for (const ext of CODE_EXTENSIONS) {
-      const matches = await globFn(`**/${ext}`, {
+    for (const ext of extensions) {
+      const matches = await globFn(`**/*${ext}`, {
         cwd: projectPath,
-        ignore: ['node_modules/**', 'dist/**', '.git/**'],
+        ignore: FIND_SYMBOL_EXCLUDES,
       });
       files.push(...matches);
     }
   }
 
-  return files;
+  const ignoreRules = await IgnoreRules.load(projectPath, FIND_SYMBOL_EXCLUDES);
+  return ignoreRules.filter(files);
+}
+
+/**
+ * A symbol matched by find_symbol.
+ */
+export interface MatchedSymbol {
+  symbol: SymbolType;
+  file: string;
+  /** Repository of the symbol (federated searches only) */
+  repository?: string;
 }
 
 /**
  * Format matched symbols for display.
  */
 export function formatMatchedSymbols(
-  matchedSymbols: Array<{ symbol: SymbolType; file: string }>,
+  matchedSymbols: MatchedSymbol[],
   namePathPattern: string
 ): string {
   if (matchedSymbols.length === 0) {
@@ -225,9 +253,12 @@ export function formatMatchedSymbols(
   const parts: string[] = [];
   parts.push(`Found ${matchedSymbols.length} matching symbol(s):\n`);
 
-  for (const { symbol } of matchedSymbols) {
+  for (const { symbol, repository } of matchedSymbols) {
     const kindName = SymbolKindNames[symbol.kind];
     parts.push(`\n## ${formatNamePath(symbol.namePath)} (${kindName})`);
+    if (repository) {
+      parts.push(`**Repository:** ${repository}`);
+    }
     parts.push(
       `**Location:** ${symbol.location.filepath}:${symbol.location.startLine}-${symbol.location.endLine}`
     );
@@ -253,20 +284,24 @@ export function formatMatchedSymbols(
 }
 
 /**
- * Handle find_symbol tool.
+ * Find the symbols matching find_symbol arguments in one project.
  */
-export async function handleFindSymbol(
+async function findMatchingSymbols(
   args: FindSymbolArgs,
-  context: SymbolToolContext
-): Promise<ToolResponse> {
-  const extractor = new SymbolExtractor(context.projectPath);
-  const files = await getFilesToSearch(context.projectPath, args.relativePath);
+  projectPath: string
+): Promise<{ matchedSymbols: MatchedSymbol[]; filesSearched: number }> {
+  const extractor = new SymbolExtractor(projectPath);
+  const files = await getFilesToSearch(
+    projectPath,
+    args.relativePath,
+    await extractor.getLanguages()
+  );
 
   // Parse the pattern
   const pattern = parseNamePath(args.namePathPattern);
 
   // Find matching symbols
-  const matchedSymbols: Array<{ symbol: SymbolType; file: string }> = [];
+  const matchedSymbols: MatchedSymbol[] = [];
 
   for (const file of files.slice(0, 100)) {
     // Limit to prevent timeout
@@ -294,16 +329,60 @@ export async function handleFindSymbol(
     }
   }
 
-  const formatted = formatMatchedSymbols(matchedSymbols, args.namePathPattern);
+  return { matchedSymbols, filesSearched: files.length };
+}
+
+/**
+ * Handle find_symbol tool.
+ * With scope 'linked' or 'all', the linked projects are searched too and each symbol
+ * is tagged with its repository.
+ */
+export async function handleFindSymbol(
+  args: FindSymbolArgs,
+  context: SymbolToolContext
+): Promise<ToolResponse> {
+  const scope = args.scope ?? 'project';
+  const repositories = selectRepositories(
+    scope,
+    projectRepository(context.projectPath),
+    context.linkedProjects,
+    'find_symbol'
+  );
+
+  let matchedSymbols: MatchedSymbol[];
+  let filesSearched: number;
+  let skippedNote = '';
+  let structured: Record<string, unknown>;
+  if (scope !== 'project') {
+    const { results, skipped } = await queryRepositories(repositories, (repo) =>
+      findMatchingSymbols(args, repo.projectPath)
+    );
+    matchedSymbols = results.flatMap(({ repository, result }) =>
+      result.matchedSymbols.map((m) => ({ ...m, repository }))
+    );
+    filesSearched = results.reduce((sum, { result }) => sum + result.filesSearched, 0);
+    skippedNote = formatSkippedRepositories(skipped);
+    structured = {
+      symbols: matchedSymbols.map((m) => ({ ...m.symbol, repository: m.repository })),
+    };
+    if (skipped.length > 0) {
+      structured.skipped = skipped;
+    }
+  } else {
+    ({ matchedSymbols, filesSearched } = await findMatchingSymbols(args, context.projectPath));
+    structured = { symbols: matchedSymbols.map((m) => m.symbol) };
+  }
+
+  const formatted = skippedNote + formatMatchedSymbols(matchedSymbols, args.namePathPattern);
 
   // Track token savings (optional)
   try {
-    dashboardState.getTokenTracker().recordFindSymbol(formatted.length, files.length);
+    context.tokenTracker?.recordFindSymbol(formatted.length, filesSearched);
   } catch {
     // Token tracking not available
   }
 
-  return createToolResponse(formatted, context.toolGuidance);
+  return createToolResponse(formatted, context.toolGuidance, structured);
 }
 
 // ============================================================================
@@ -365,7 +444,9 @@ export async function handleFindReferencingSymbols(
     excludeKinds: args.excludeKinds,
   });
 
-  return createToolResponse(formatReferencesResult(references), context.toolGuidance);
+  return createToolResponse(formatReferencesResult(references), context.toolGuidance, {
+    references,
+  });
 }
 
 // ============================================================================
@@ -431,7 +512,9 @@ export async function handleSearchForPattern(
     maxAnswerChars: args.maxAnswerChars,
   });
 
-  return createToolResponse(formatPatternSearchResults(result), context.toolGuidance);
+  return createToolResponse(formatPatternSearchResults(result), context.toolGuidance, {
+    ...result,
+  });
 }
 
 // ============================================================================
@@ -506,7 +589,9 @@ export async function handleReplaceSymbolBody(
     };
   }
 
-  return createToolResponse(formatSymbolEditResult(result, 'replaced'), context.toolGuidance);
+  return createToolResponse(formatSymbolEditResult(result, 'replaced'), context.toolGuidance, {
+    ...result,
+  });
 }
 
 // ============================================================================
@@ -570,7 +655,8 @@ export async function handleInsertBeforeSymbol(
   return createToolResponse(
     `Content inserted before "${result.symbolName}" in ${result.filepath}.\n` +
       `Inserted at: lines ${result.newRange?.startLine}-${result.newRange?.endLine}`,
-    context.toolGuidance
+    context.toolGuidance,
+    { ...result }
   );
 }
 
@@ -635,7 +721,8 @@ export async function handleInsertAfterSymbol(
   return createToolResponse(
     `Content inserted after "${result.symbolName}" in ${result.filepath}.\n` +
       `Inserted at: lines ${result.newRange?.startLine}-${result.newRange?.endLine}`,
-    context.toolGuidance
+    context.toolGuidance,
+    { ...result }
   );
 }
 
@@ -703,5 +790,8 @@ export async function handleRenameSymbol(
   }
 
   const modeLabel = args.dryRun ? ' (dry run)' : '';
-  return createToolResponse(formatRenameResult(result) + modeLabel, context.toolGuidance);
+  return createToolResponse(formatRenameResult(result) + modeLabel, context.toolGuidance, {
+    ...result,
+    dryRun: args.dryRun ?? false,
+  });
 }
@@ -3,6 +3,7 @@
  */
 
 import type { CodeIndexer } from '../search/indexer.js';
+import type { TokenSavingsTracker } from '../dashboard/token-tracking.js';
 
 /**
  * Standard MCP tool response format.
@@ -12,10 +13,28 @@ export interface ToolResponse {
     type: 'text';
     text: string;
   }>;
+  /** Typed JSON matching the tool's output schema (see TOOL_OUTPUT_SCHEMAS) */
+  structuredContent?: Record<string, unknown>;
   /** Indicates an error response */
   isError?: boolean;
 }
 
+/**
+ * A repository queried by a federated tool call: the project itself or a linked project.
+ */
+export interface Repository {
+  /** Name results are tagged with */
+  name: string;
+  projectPath: string;
+}
+
+/**
+ * A linked project (linkedProjects in .glancey.json) with lazy access to its own index.
+ */
+export interface LinkedProjectContext extends Repository {
+  getIndexer: () => Promise<CodeIndexer>;
+}
+
 /**
  * Context passed to all tool handlers.
  */
@@ -23,6 +42,10 @@ export interface ToolContext {
   indexer: CodeIndexer;
   projectPath: string;
   toolGuidance: string;
+  /** Linked projects searched with scope 'linked' or 'all' */
+  linkedProjects?: LinkedProjectContext[];
+  /** Token savings tracker of the project; savings aren't recorded without one */
+  tokenTracker?: TokenSavingsTracker;
 }
 
 /**
@@ -35,9 +58,14 @@ export type ToolHandler<TArgs = Record<string, unknown>> = (
 
 /**
  * Helper to create a successful tool response.
+ * Structured content is returned alongside the text when given.
  */
-export function createToolResponse(text: string, guidance: string = ''): ToolResponse {
-  return {
+export function createToolResponse(
+  text: string,
+  guidance: string = '',
+  structuredContent?: Record<string, unknown>
+): ToolResponse {
+  const response: ToolResponse = {
     content: [
       {
         type: 'text',
@@ -45,4 +73,8 @@ export function createToolResponse(text: string, guidance: string = ''): ToolRes
       },
     ],
   };
+  if (structuredContent) {
+    response.structuredContent = structuredContent;
+  }
+  return response;
 }
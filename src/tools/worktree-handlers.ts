@@ -13,6 +13,7 @@ import {
 } from '../worktree/index.js';
 import type { ToolResponse } from './types.js';
 import { createToolResponse } from './types.js';
+import { toStructuredWorktree } from './structured-output.js';
 import { isString, isBoolean } from '../utils/type-guards.js';
 import { GlanceyError } from '../utils/errors.js';
 
@@ -162,7 +163,17 @@ export async function handleCreateWorktree(
     };
   }
 
-  return createToolResponse(formatWorktreeCreationResult(result), context.toolGuidance);
+  const structured: Record<string, unknown> = {};
+  if (result.worktree) {
+    structured.worktree = toStructuredWorktree(result.worktree);
+  }
+  if (result.depsInstalled !== undefined) {
+    structured.depsInstalled = result.depsInstalled;
+  }
+  if (result.depsInstallTime !== undefined) {
+    structured.depsInstallTime = result.depsInstallTime;
+  }
+  return createToolResponse(formatWorktreeCreationResult(result), context.toolGuidance, structured);
 }
 
 /**
@@ -171,7 +182,10 @@ export async function handleCreateWorktree(
 export async function handleListWorktrees(context: WorktreeToolContext): Promise<ToolResponse> {
   const worktreeManager = getWorktreeManager(context);
   const result = await worktreeManager.listWorktrees();
-  return createToolResponse(formatWorktreeList(result), context.toolGuidance);
+  return createToolResponse(formatWorktreeList(result), context.toolGuidance, {
+    worktrees: result.worktrees.map(toStructuredWorktree),
+    count: result.count,
+  });
 }
 
 /**
@@ -248,7 +262,16 @@ export async function handleRemoveWorktree(
     };
   }
 
-  return createToolResponse(formatWorktreeRemovalResult(args.name, result), context.toolGuidance);
+  const structured: Record<string, unknown> = { name: args.name };
+  if (result.branch) {
+    structured.branch = result.branch;
+    structured.branchDeleted = result.branchDeleted ?? false;
+  }
+  return createToolResponse(
+    formatWorktreeRemovalResult(args.name, result),
+    context.toolGuidance,
+    structured
+  );
 }
 
 /**
@@ -296,5 +319,7 @@ export async function handleWorktreeStatus(
     };
   }
 
-  return createToolResponse(formatWorktreeInfo(info), context.toolGuidance);
+  return createToolResponse(formatWorktreeInfo(info), context.toolGuidance, {
+    ...toStructuredWorktree(info),
+  });
 }
@@ -0,0 +1,234 @@
+/**
+ * Gitignore-style file exclusion shared by all file discovery.
+ * Combines .git/info/exclude, nested .gitignore files and .glanceyignore files
+ * so indexing, pattern search and symbol search agree on what belongs to the project.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ignore, { type Ignore } from 'ignore';
+
+/**
+ * Name of the glancey-specific ignore file (gitignore syntax).
+ */
+export const GLANCEY_IGNORE_FILENAME = '.glanceyignore';
+
+const GITIGNORE_FILENAME = '.gitignore';
+
+const IGNORE_FILENAMES = [GITIGNORE_FILENAME, GLANCEY_IGNORE_FILENAME];
+
+/**
+ * Project-relative path of git's local exclude file.
+ */
+export const GIT_EXCLUDE_PATH = '.git/info/exclude';
+
+/**
+ * Directories never searched for nested ignore files.
+ */
+const IGNORE_FILE_SEARCH_EXCLUDES = ['**/node_modules/**', '**/.git/**'];
+
+/**
+ * Loaded rules by project and exclude patterns.
+ * Finding the ignore files walks the whole tree, so rules are kept until invalidated.
+ */
+const loadedRules = new Map<string, Map<string, Promise<IgnoreRules>>>();
+
+/**
+ * Check whether a path is a .gitignore, .glanceyignore or .git/info/exclude file.
+ */
+export function isIgnoreFile(filepath: string): boolean {
+  const posixPath = toPosix(filepath);
+  if (posixPath === GIT_EXCLUDE_PATH || posixPath.endsWith(`/${GIT_EXCLUDE_PATH}`)) {
+    return true;
+  }
+  return IGNORE_FILENAMES.includes(path.basename(filepath));
+}
+
+/**
+ * Convert a path to the posix form expected by the ignore matcher.
+ */
+function toPosix(filepath: string): string {
+  return filepath.split(path.sep).join('/');
+}
+
+/**
+ * Rewrite a pattern from an ignore file in a subdirectory so it applies from the project root.
+ * Patterns containing a slash are anchored to the file's directory; others match at any depth below it.
+ *
+ * @example rebasePattern('/fixtures', 'packages/api') // 'packages/api/fixtures'
+ */
+export function rebasePattern(line: string, base: string): string {
+  const trimmed = line.trim();
+  if (!base || trimmed === '' || trimmed.startsWith('#')) {
+    return line;
+  }
+
+  const negated = trimmed.startsWith('!');
+  let body = negated ? trimmed.slice(1) : trimmed;
+  const directoryOnly = body.endsWith('/');
+  if (directoryOnly) {
+    body = body.slice(0, -1);
+  }
+
+  const anchored = body.includes('/');
+  if (body.startsWith('/')) {
+    body = body.slice(1);
+  }
+
+  const rebased = anchored ? `${base}/${body}` : `${base}/**/${body}`;
+  return `${negated ? '!' : ''}${rebased}${directoryOnly ? '/' : ''}`;
+}
+
+/**
+ * Read an ignore file's lines, returning null if it does not exist or cannot be read.
+ */
+async function readIgnoreFile(filepath: string): Promise<string[] | null> {
+  try {
+    const content = await fs.readFile(filepath, 'utf-8');
+    return content.split(/\r?\n/);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ignore rules for a project, evaluated with gitignore precedence:
+ * .git/info/exclude first, then ignore files from the root down,
+ * with .glanceyignore applied after .gitignore in the same directory.
+ * The last matching pattern wins, and files inside an ignored directory stay ignored.
+ * Loaded rules are cached per project; call invalidate() when an ignore file changes.
+ *
+ * @example
+ * ```typescript
+ * const rules = await IgnoreRules.load('/path/to/project');
+ * const files = rules.filter(absolutePaths);
+ * ```
+ */
+export class IgnoreRules {
+  private projectPath: string;
+  private matcher: Ignore;
+  private fileCount: number;
+
+  private constructor(projectPath: string, matcher: Ignore, fileCount: number) {
+    this.projectPath = projectPath;
+    this.matcher = matcher;
+    this.fileCount = fileCount;
+  }
+
+  /**
+   * Load all ignore files for a project, or return the rules loaded earlier.
+   *
+   * @param projectPath - Project root directory
+   * @param excludePatterns - Glob patterns for directories not worth scanning for ignore files
+   */
+  static load(projectPath: string, excludePatterns: string[] = []): Promise<IgnoreRules> {
+    const resolved = path.resolve(projectPath);
+    const byExcludes = loadedRules.get(resolved) ?? new Map<string, Promise<IgnoreRules>>();
+    loadedRules.set(resolved, byExcludes);
+
+    const key = excludePatterns.join('\n');
+    let rules = byExcludes.get(key);
+    if (!rules) {
+      const loading = IgnoreRules.read(projectPath, excludePatterns);
+      byExcludes.set(key, loading);
+      // Don't keep a failed load around
+      loading.catch(() => byExcludes.delete(key));
+      rules = loading;
+    }
+    return rules;
+  }
+
+  /**
+   * Forget the cached rules of a project, so the next load() reads its ignore files again.
+   */
+  static invalidate(projectPath: string): void {
+    loadedRules.delete(path.resolve(projectPath));
+  }
+
+  /**
+   * Find and read all ignore files for a project.
+   */
+  private static async read(projectPath: string, excludePatterns: string[]): Promise<IgnoreRules> {
+    const { glob } = await import('glob');
+
+    const ignoreFiles = await glob(`**/{${GITIGNORE_FILENAME},${GLANCEY_IGNORE_FILENAME}}`, {
+      cwd: projectPath,
+      dot: true,
+      ignore: [...IGNORE_FILE_SEARCH_EXCLUDES, ...excludePatterns],
+    });
+
+    // Order by directory depth, with .gitignore before .glanceyignore in the same directory
+    const candidates = ignoreFiles
+      .map(toPosix)
+      .filter(isIgnoreFile)
+      .map((file) => {
+        const dir = path.posix.dirname(file);
+        return {
+          file,
+          base: dir === '.' ? '' : dir,
+          isGlanceyIgnore: path.posix.basename(file) === GLANCEY_IGNORE_FILENAME,
+        };
+      })
+      .sort((a, b) => {
+        const depthA = a.base ? a.base.split('/').length : 0;
+        const depthB = b.base ? b.base.split('/').length : 0;
+        if (depthA !== depthB) return depthA - depthB;
+        if (a.base !== b.base) return a.base.localeCompare(b.base);
+        return Number(a.isGlanceyIgnore) - Number(b.isGlanceyIgnore);
+      });
+
+    const matcher = ignore();
+    let fileCount = 0;
+
+    const gitExclude = await readIgnoreFile(path.join(projectPath, GIT_EXCLUDE_PATH));
+    if (gitExclude) {
+      matcher.add(gitExclude);
+      fileCount++;
+    }
+
+    for (const candidate of candidates) {
+      const lines = await readIgnoreFile(path.join(projectPath, candidate.file));
+      if (lines) {
+        matcher.add(lines.map((line) => rebasePattern(line, candidate.base)));
+        fileCount++;
+      }
+    }
+
+    return new IgnoreRules(projectPath, matcher, fileCount);
+  }
+
+  /**
+   * Number of ignore files that contributed rules.
+   */
+  get ruleFileCount(): number {
+    return this.fileCount;
+  }
+
+  /**
+   * Check whether a file is ignored.
+   *
+   * @param filepath - Absolute path, or path relative to the project root
+   */
+  isIgnored(filepath: string): boolean {
+    const relative = toPosix(
+      path.isAbsolute(filepath) ? path.relative(this.projectPath, filepath) : filepath
+    );
+    // Paths outside the project are not governed by its ignore files
+    if (!relative || relative.startsWith('../')) {
+      return false;
+    }
+    return this.matcher.ignores(relative);
+  }
+
+  /**
+   * Remove ignored files from a list.
+   *
+   * @param filepaths - Absolute paths, or paths relative to the project root
+   */
+  filter(filepaths: string[]): string[] {
+    if (this.fileCount === 0) {
+      return filepaths;
+    }
+    return filepaths.filter((filepath) => !this.isIgnored(filepath));
+  }
+}